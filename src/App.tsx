@@ -20,8 +20,19 @@ import StatisticsScreen from "./screens/StatisticsScreen";
 import SettingsScreen from "./screens/SettingsScreen";
 import CategoryManagementScreen from "./screens/CategoryManagementScreen";
 import JarSizeManagementScreen from "./screens/JarSizeManagementScreen";
+import LocationManagementScreen from "./screens/LocationManagementScreen";
 import RecipeManagementScreen from "./screens/RecipeManagementScreen";
+import TrashScreen from "./screens/TrashScreen";
+import MoveJarsScreen from "./screens/MoveJarsScreen";
+import SearchScreen from "./screens/SearchScreen";
+import DiagnosticsScreen from "./screens/DiagnosticsScreen";
+import SealCheckScreen from "./screens/SealCheckScreen";
+import SuppliesScreen from "./screens/SuppliesScreen";
+import ShoppingListScreen from "./screens/ShoppingListScreen";
 import { ErrorBoundary } from "./components/ErrorBoundary";
+import { UndoProvider } from "./contexts/UndoContext";
+import { setStorageAdapter } from "./db";
+import { expoSqliteAdapter } from "./storage/expoAdapter";
 import { theme } from "./theme";
 
 export type RootStackParamList = {
@@ -40,7 +51,15 @@ export type RootStackParamList = {
   BackupRestore: undefined;
   CategoryManagement: undefined;
   JarSizeManagement: undefined;
-  RecipeManagement: undefined;
+  LocationManagement: undefined;
+  RecipeManagement: { recipeId?: number } | undefined;
+  Trash: undefined;
+  MoveJars: undefined;
+  Search: undefined;
+  Diagnostics: undefined;
+  SealCheck: { batchId?: string } | undefined;
+  Supplies: undefined;
+  ShoppingList: undefined;
 };
 
 export type TabParamList = {
@@ -51,6 +70,8 @@ export type TabParamList = {
   Settings: undefined;
 };
 
+setStorageAdapter(expoSqliteAdapter);
+
 const Stack = createNativeStackNavigator<RootStackParamList>();
 const Tab = createBottomTabNavigator<TabParamList>();
 
@@ -98,67 +119,109 @@ export default function App() {
   };
   return (
     <ErrorBoundary>
-      <NavigationContainer theme={theme}>
-        <Stack.Navigator id={undefined}>
-          <Stack.Screen
-            name="Tabs"
-            component={Tabs}
-            options={{
-              headerShown: false,
-            }}
-          />
-          <Stack.Screen
-            name="ItemTypeForm"
-            component={ItemTypeFormScreen}
-            options={{ title: "Item Type" }}
-          />
-          <Stack.Screen
-            name="ItemDetail"
-            component={ItemDetailScreen}
-            options={{ title: "Item Detail" }}
-          />
-          <Stack.Screen
-            name="BatchDetail"
-            component={BatchDetailScreen}
-            options={{ title: "Batch Details" }}
-          />
-          <Stack.Screen
-            name="AddBatch"
-            component={AddBatchScreen}
-            options={{ title: "Add Batch" }}
-          />
-          <Stack.Screen
-            name="QRLabel"
-            component={QRLabelScreen}
-            options={{ title: "QR Code Label" }}
-          />
-          <Stack.Screen
-            name="QRScanner"
-            component={QRScannerScreen}
-            options={{ title: "QR Scanner" }}
-          />
-          <Stack.Screen
-            name="BackupRestore"
-            component={BackupRestoreScreen}
-            options={{ title: "Backup & Restore" }}
-          />
-          <Stack.Screen
-            name="CategoryManagement"
-            component={CategoryManagementScreen}
-            options={{ title: "Manage Categories" }}
-          />
-          <Stack.Screen
-            name="JarSizeManagement"
-            component={JarSizeManagementScreen}
-            options={{ title: "Manage Jar Sizes" }}
-          />
-          <Stack.Screen
-            name="RecipeManagement"
-            component={RecipeManagementScreen}
-            options={{ title: "Recipe Collection" }}
-          />
-        </Stack.Navigator>
-      </NavigationContainer>
+      <UndoProvider>
+        <NavigationContainer theme={theme}>
+          <Stack.Navigator id={undefined}>
+            <Stack.Screen
+              name="Tabs"
+              component={Tabs}
+              options={{
+                headerShown: false,
+              }}
+            />
+            <Stack.Screen
+              name="ItemTypeForm"
+              component={ItemTypeFormScreen}
+              options={{ title: "Item Type" }}
+            />
+            <Stack.Screen
+              name="ItemDetail"
+              component={ItemDetailScreen}
+              options={{ title: "Item Detail" }}
+            />
+            <Stack.Screen
+              name="BatchDetail"
+              component={BatchDetailScreen}
+              options={{ title: "Batch Details" }}
+            />
+            <Stack.Screen
+              name="AddBatch"
+              component={AddBatchScreen}
+              options={{ title: "Add Batch" }}
+            />
+            <Stack.Screen
+              name="QRLabel"
+              component={QRLabelScreen}
+              options={{ title: "QR Code Label" }}
+            />
+            <Stack.Screen
+              name="QRScanner"
+              component={QRScannerScreen}
+              options={{ title: "QR Scanner" }}
+            />
+            <Stack.Screen
+              name="BackupRestore"
+              component={BackupRestoreScreen}
+              options={{ title: "Backup & Restore" }}
+            />
+            <Stack.Screen
+              name="CategoryManagement"
+              component={CategoryManagementScreen}
+              options={{ title: "Manage Categories" }}
+            />
+            <Stack.Screen
+              name="JarSizeManagement"
+              component={JarSizeManagementScreen}
+              options={{ title: "Manage Jar Sizes" }}
+            />
+            <Stack.Screen
+              name="LocationManagement"
+              component={LocationManagementScreen}
+              options={{ title: "Manage Locations" }}
+            />
+            <Stack.Screen
+              name="RecipeManagement"
+              component={RecipeManagementScreen}
+              options={{ title: "Recipe Collection" }}
+            />
+            <Stack.Screen
+              name="Trash"
+              component={TrashScreen}
+              options={{ title: "Trash" }}
+            />
+            <Stack.Screen
+              name="MoveJars"
+              component={MoveJarsScreen}
+              options={{ title: "Move Jars" }}
+            />
+            <Stack.Screen
+              name="Search"
+              component={SearchScreen}
+              options={{ title: "Search" }}
+            />
+            <Stack.Screen
+              name="Diagnostics"
+              component={DiagnosticsScreen}
+              options={{ title: "Diagnostics" }}
+            />
+            <Stack.Screen
+              name="SealCheck"
+              component={SealCheckScreen}
+              options={{ title: "Seal Check" }}
+            />
+            <Stack.Screen
+              name="Supplies"
+              component={SuppliesScreen}
+              options={{ title: "Supplies" }}
+            />
+            <Stack.Screen
+              name="ShoppingList"
+              component={ShoppingListScreen}
+              options={{ title: "Shopping List" }}
+            />
+          </Stack.Navigator>
+        </NavigationContainer>
+      </UndoProvider>
     </ErrorBoundary>
   );
 }
@@ -0,0 +1,768 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readdirSync } from "node:fs";
+import * as db from "../db";
+import { daysAgo, useFreshDatabase } from "./testDb";
+
+async function addSalsaBatch(
+  jarCount: number,
+  fillDateISO = daysAgo(30),
+  jarSize = "Pint (16 oz)",
+) {
+  const existing = (await db.getItemTypesWithCounts()).find(
+    (itemType) => itemType.name === "Salsa",
+  );
+  const itemTypeId =
+    existing?.id ??
+    (await db.upsertItemType({ name: "Salsa", category: "Vegetables" }));
+  const { batchId, jarIds } = await db.createMultipleJars(
+    itemTypeId,
+    fillDateISO,
+    jarCount,
+    jarSize,
+  );
+  return { itemTypeId, batchId, jarIds };
+}
+
+describe("batches and jars", () => {
+  useFreshDatabase();
+
+  it("creates a batch with its jars and their history", async () => {
+    const { batchId, jarIds } = await addSalsaBatch(3);
+
+    const batch = await db.getBatchById(batchId);
+    assert.equal(batch?.yieldCount, 3);
+    assert.equal(batch?.jarSize, "Pint (16 oz)");
+    const jars = await db.getJarsForBatch(batchId);
+    assert.deepEqual(jars.map((jar) => jar.id).sort(), [...jarIds].sort());
+    assert.ok(jars.every((jar) => jar.status === "available"));
+    const events = await db.getBatchEvents(batchId);
+    assert.equal(events.filter((event) => event.type === "created").length, 3);
+  });
+
+  it("adds jars to an existing batch", async () => {
+    const { itemTypeId, batchId } = await addSalsaBatch(2);
+    await db.addMultipleJarsToBatch(batchId, itemTypeId, daysAgo(30), 2);
+
+    assert.equal((await db.getJarsForBatch(batchId)).length, 4);
+    assert.equal((await db.getBatchById(batchId))?.yieldCount, 4);
+  });
+
+  it("records how a batch was processed", async () => {
+    const itemTypeId = await db.upsertItemType({ name: "Salsa" });
+    const processing: db.BatchProcessing = {
+      processMethod: "water_bath",
+      processMinutes: 15,
+      failedSealCount: 1,
+    };
+    const { batchId } = await db.createMultipleJars(
+      itemTypeId,
+      daysAgo(30),
+      2,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      processing,
+    );
+
+    const batch = await db.getBatchById(batchId);
+    assert.equal(batch?.processMethod, "water_bath");
+    assert.equal(batch?.processMinutes, 15);
+    assert.equal(batch?.failedSealCount, 1);
+    await assert.rejects(
+      db.updateBatch(batchId, { processMinutes: 2.5 }),
+      /must be a whole number/,
+    );
+  });
+
+  it("writes nothing when a batch fails validation", async () => {
+    const itemTypeId = await db.upsertItemType({ name: "Salsa" });
+    await assert.rejects(
+      db.createMultipleJars(
+        itemTypeId,
+        daysAgo(30),
+        2,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        {
+          processMinutes: -5,
+        },
+      ),
+    );
+    assert.deepEqual(await db.getJarsForItemType(itemTypeId), []);
+  });
+
+  it("changes a jar's status and undoes it", async () => {
+    const { jarIds } = await addSalsaBatch(2);
+
+    const result = await db.setJarStatus(jarIds[0], "used", "Tacos");
+    assert.equal(result.success, true);
+    let stats = await db.getJarStats();
+    assert.equal(stats.available, 1);
+    assert.equal(stats.used, 1);
+    assert.equal((await db.setJarStatus(jarIds[0], "gifted")).success, false);
+
+    await db.revertJarStatus(jarIds[0]);
+    stats = await db.getJarStats();
+    assert.equal(stats.available, 2);
+    assert.equal(stats.used, 0);
+  });
+
+  it("lists opened jars with when to finish them", async () => {
+    const { jarIds } = await addSalsaBatch(1);
+    await db.markJarOpened(jarIds[0]);
+
+    const [opened] = await db.getOpenedJars();
+    assert.equal(opened.jarId, jarIds[0]);
+    // Vegetables keep 7 days in the fridge
+    assert.equal(opened.fridgeLifeDays, 7);
+    assert.ok(opened.finishByISO);
+  });
+
+  it("points to an older jar of the same item first", async () => {
+    const older = await addSalsaBatch(1, daysAgo(90));
+    const newer = await addSalsaBatch(1, daysAgo(10));
+
+    const olderJar = await db.getOlderAvailableJar(newer.jarIds[0]);
+    assert.equal(olderJar?.jarId, older.jarIds[0]);
+    assert.equal(await db.getOlderAvailableJar(older.jarIds[0]), null);
+  });
+
+  it("flags items running low", async () => {
+    const { itemTypeId, jarIds } = await addSalsaBatch(3);
+    await db.upsertItemType({
+      id: itemTypeId,
+      name: "Salsa",
+      category: "Vegetables",
+      lowStockThreshold: 3,
+    });
+    assert.deepEqual(await db.getRunningLowItems(), []);
+
+    await db.setJarStatus(jarIds[0], "used");
+    const [low] = await db.getRunningLowItems();
+    assert.equal(low.id, itemTypeId);
+    assert.equal(low.available, 2);
+  });
+});
+
+describe("shelf life", () => {
+  it("puts the best-by date a shelf life after the fill date", () => {
+    assert.equal(
+      db.getBestByDate("2024-03-15T12:00:00.000Z", 12),
+      "2025-03-15T12:00:00.000Z",
+    );
+    // Filled on the 31st: best by the end of the shorter month
+    assert.equal(
+      db.getBestByDate("2024-08-31T12:00:00.000Z", 1),
+      "2024-09-30T12:00:00.000Z",
+    );
+    assert.equal(db.getBestByDate("2024-03-15T12:00:00.000Z", null), null);
+  });
+});
+
+describe("dashboard", () => {
+  useFreshDatabase();
+
+  it("pages batches from a cursor and filters them", async () => {
+    const oldest = await addSalsaBatch(1, daysAgo(300));
+    const middle = await addSalsaBatch(2, daysAgo(200));
+    const newest = await addSalsaBatch(1, daysAgo(10), "Half-pint (8 oz)");
+    const query: db.BatchQuery = {
+      filter: db.EMPTY_DASHBOARD_FILTER,
+      search: "",
+      sort: "desc",
+    };
+
+    const first = await db.getBatchPage(query, null, 2);
+    assert.deepEqual(
+      first.batches.map((batch) => batch.batchId),
+      [newest.batchId, middle.batchId],
+    );
+    const second = await db.getBatchPage(query, first.nextCursor, 2);
+    assert.deepEqual(
+      second.batches.map((batch) => batch.batchId),
+      [oldest.batchId],
+    );
+    assert.equal(second.nextCursor, null);
+
+    const oldPints: db.BatchQuery = {
+      ...query,
+      filter: {
+        ...db.EMPTY_DASHBOARD_FILTER,
+        jarSize: "Pint (16 oz)",
+        olderThanMonths: 8,
+      },
+    };
+    assert.deepEqual(
+      (await db.getBatchPage(oldPints)).batches.map((batch) => batch.batchId),
+      [oldest.batchId],
+    );
+    assert.equal(await db.countBatches(oldPints), 1);
+  });
+});
+
+describe("trash", () => {
+  useFreshDatabase();
+
+  it("moves a batch to the trash and restores it", async () => {
+    const { batchId } = await addSalsaBatch(2);
+    const query: db.BatchQuery = {
+      filter: db.EMPTY_DASHBOARD_FILTER,
+      search: "",
+      sort: "desc",
+    };
+
+    await db.deleteBatch(batchId);
+    assert.equal((await db.getBatchPage(query)).batches.length, 0);
+    const trash = await db.getTrash();
+    assert.deepEqual(
+      trash.map((entry) => [entry.kind, entry.id, entry.jarCount]),
+      [["batch", batchId, 2]],
+    );
+
+    await db.restoreFromTrash(trash[0]);
+    const { batches } = await db.getBatchPage(query);
+    assert.deepEqual(
+      batches.map((batch) => [batch.batchId, batch.availableJars]),
+      [[batchId, 2]],
+    );
+    assert.deepEqual(await db.getTrash(), []);
+  });
+
+  it("keeps the yield in step with jars trashed and restored one by one", async () => {
+    const { batchId, jarIds } = await addSalsaBatch(3);
+    const [a, b, c] = jarIds;
+    for (const jarId of jarIds) {
+      await db.deleteJarWithBatchCheck(jarId);
+    }
+
+    await db.restoreJar(a);
+    assert.equal((await db.getBatchById(batchId))?.yieldCount, 1);
+    await db.restoreJar(c);
+    assert.equal((await db.getBatchById(batchId))?.yieldCount, 2);
+    assert.equal((await db.getJarsForBatch(batchId)).length, 2);
+    await db.restoreJar(b);
+    assert.equal((await db.getBatchById(batchId))?.yieldCount, 3);
+  });
+});
+
+describe("locations", () => {
+  useFreshDatabase();
+
+  it("moves jars to a nested location and back", async () => {
+    const { jarIds } = await addSalsaBatch(2);
+    const basement = await db.addLocation("Basement");
+    await db.addLocation("Shelf 2", basement);
+    const paths = (await db.getAllLocations()).map((location) => location.path);
+    assert.deepEqual(paths, ["Basement", "Basement > Shelf 2"]);
+    await assert.rejects(db.addLocation(" shelf 2", basement));
+
+    const previous = await db.moveJars([
+      { jarId: jarIds[0], location: "Basement > Shelf 2" },
+    ]);
+    assert.equal(
+      (await db.getJarById(jarIds[0]))?.location,
+      "Basement > Shelf 2",
+    );
+
+    await db.moveJars(previous);
+    assert.equal((await db.getJarById(jarIds[0]))?.location ?? null, null);
+  });
+  it("deletes a location whose jars have all been used", async () => {
+    const { jarIds } = await addSalsaBatch(2);
+    const garage = await db.addLocation("Garage");
+    await db.moveJars(jarIds.map((jarId) => ({ jarId, location: "Garage" })));
+    await assert.rejects(db.deleteLocation(garage), /2 jar\(s\)/);
+
+    await db.setJarStatus(jarIds[0], "used");
+    await db.markJarOpened(jarIds[1]);
+    const [listed] = await db.getAllLocations();
+    assert.equal(listed.jarCount, 1);
+    await assert.rejects(db.deleteLocation(garage), /1 jar\(s\)/);
+
+    await db.setJarStatus(jarIds[1], "used");
+    await db.deleteLocation(garage);
+    assert.deepEqual(await db.getAllLocations(), []);
+    assert.equal((await db.getJarById(jarIds[0]))?.location, null);
+  });
+});
+
+describe("batch edits", () => {
+  useFreshDatabase();
+
+  it("leaves jars that were moved or used where they are", async () => {
+    const itemTypeId = await db.upsertItemType({ name: "Salsa" });
+    await db.addLocation("Basement");
+    await db.addLocation("Garage");
+    await db.addLocation("Pantry");
+    const { batchId, jarIds } = await db.createMultipleJars(
+      itemTypeId,
+      daysAgo(30),
+      4,
+      "Pint (16 oz)",
+      "Basement",
+    );
+    const locations = async () =>
+      (await db.getJarsForBatch(batchId)).map((jar) => jar.location);
+
+    await db.moveJars([{ jarId: jarIds[0], location: "Garage" }]);
+    await db.setJarStatus(jarIds[1], "used");
+    await db.updateBatch(batchId, { jarSize: "Quart (32 oz)" });
+    assert.deepEqual(await locations(), [
+      "Garage",
+      "Basement",
+      "Basement",
+      "Basement",
+    ]);
+    assert.equal((await db.getJarById(jarIds[1]))?.jarSize, "Pint (16 oz)");
+
+    await db.updateBatch(batchId, { location: "Pantry" });
+    assert.deepEqual(await locations(), [
+      "Garage",
+      "Basement",
+      "Pantry",
+      "Pantry",
+    ]);
+
+    // Undo puts back only the jars that followed the batch
+    await db.updateBatch(batchId, { location: "Basement" });
+    assert.deepEqual(await locations(), [
+      "Garage",
+      "Basement",
+      "Basement",
+      "Basement",
+    ]);
+  });
+});
+
+describe("search", () => {
+  useFreshDatabase();
+
+  it("finds items, batches and recipes by what they contain", async () => {
+    const { batchId } = await addSalsaBatch(1);
+    await db.updateBatch(batchId, { notes: "Extra jalapeños" });
+    await db.createRecipe({ name: "Peach jam", content: "Peaches and pectin" });
+
+    const batches = await db.searchPantry("jalapenos");
+    assert.deepEqual(
+      batches.map((result) => [result.kind, result.refId]),
+      [["batch", batchId]],
+    );
+    const recipes = await db.searchPantry("pect");
+    assert.deepEqual(
+      recipes.map((result) => [result.kind, result.title]),
+      [["recipe", "Peach jam"]],
+    );
+    const items = await db.searchPantry("salsa");
+    assert.ok(items.some((result) => result.kind === "item"));
+  });
+  it("finds a batch by where its jars were moved", async () => {
+    const { batchId, jarIds } = await addSalsaBatch(3);
+    await db.addLocation("Garage");
+    const found = async () =>
+      (await db.searchPantry("garage")).map((result) => result.refId);
+
+    const previous = await db.moveJars([
+      { jarId: jarIds[0], location: "Garage" },
+    ]);
+    assert.deepEqual(await found(), [batchId]);
+    await db.moveJars(previous);
+    assert.deepEqual(await found(), []);
+
+    await db.moveJars([{ jarId: jarIds[1], location: "Garage" }]);
+    await db.deleteBatch(batchId);
+    assert.deepEqual(await found(), []);
+    await db.restoreBatch(batchId);
+    assert.deepEqual(await found(), [batchId]);
+  });
+});
+
+describe("custom fields", () => {
+  useFreshDatabase();
+
+  it("keeps a batch's values for its category's fields", async () => {
+    const { batchId } = await addSalsaBatch(1);
+    const vegetables = (await db.getAllCategories()).find(
+      (category) => category.name === "Vegetables",
+    )!;
+    await db.saveCategoryFields(vegetables.id!, [
+      { name: "Heat", type: "choice", choices: ["Mild", "Hot"] },
+      { name: "Peppers", type: "number", choices: [] },
+    ]);
+    const fields = await db.getCategoryFieldsByName("Vegetables");
+    const [heat, peppers] = fields;
+
+    await db.setBatchFieldValues(batchId, fields, {
+      [heat.id!]: "Hot",
+      [peppers.id!]: " 4 ",
+    });
+    assert.deepEqual(await db.getBatchFieldValues(batchId), {
+      [heat.id!]: "Hot",
+      [peppers.id!]: "4",
+    });
+    await assert.rejects(
+      db.setBatchFieldValues(batchId, fields, { [peppers.id!]: "lots" }),
+      /must be a number/,
+    );
+    const found = await db.searchPantry("hot");
+    assert.deepEqual(
+      found.map((result) => result.refId),
+      [batchId],
+    );
+  });
+});
+
+describe("saved views", () => {
+  useFreshDatabase();
+
+  it("saves a view under its name and replaces it when saved again", async () => {
+    const lowView = await db.saveView(" Running low ", {
+      ...db.EMPTY_DASHBOARD_FILTER,
+      runningLow: true,
+    });
+    await db.saveView("running low", {
+      ...db.EMPTY_DASHBOARD_FILTER,
+      location: "Basement",
+    });
+
+    const views = await db.getSavedViews();
+    assert.deepEqual(
+      views.map((view) => [view.id, view.name, view.filter.location]),
+      [[lowView.id, "running low", "Basement"]],
+    );
+    await db.deleteSavedView(lowView.id);
+    assert.deepEqual(await db.getSavedViews(), []);
+    await assert.rejects(
+      db.saveView(" ", db.EMPTY_DASHBOARD_FILTER),
+      /name is required/,
+    );
+  });
+});
+
+describe("diagnostics", () => {
+  useFreshDatabase();
+
+  it("finds a jar filed under another item and puts it back", async () => {
+    const { jarIds } = await addSalsaBatch(2);
+    const jamId = await db.upsertItemType({ name: "Jam", category: "Fruits" });
+    const database = await db.getDb();
+    await database.runAsync("UPDATE jars SET itemTypeId = ? WHERE id = ?", [
+      jamId,
+      jarIds[0],
+    ]);
+
+    const problems = await db.checkDatabaseIntegrity();
+    assert.deepEqual(
+      problems.map((problem) => problem.kind),
+      ["mixedBatch"],
+    );
+    assert.equal(await db.repairIntegrityProblems("mixedBatch"), 1);
+    assert.deepEqual(await db.checkDatabaseIntegrity(), []);
+    await assert.rejects(db.repairIntegrityProblems("corruption"));
+  });
+});
+
+describe("seal check", () => {
+  useFreshDatabase();
+
+  it("waits on new jars and records the results", async () => {
+    const { batchId, jarIds } = await addSalsaBatch(
+      3,
+      new Date().toISOString(),
+    );
+    const [pending] = await db.getPendingSealChecks();
+    assert.equal(pending.batchId, batchId);
+    assert.equal(pending.jarCount, 3);
+
+    await db.recordSealCheck({
+      [jarIds[0]]: "sealed",
+      [jarIds[1]]: "sealed",
+      [jarIds[2]]: "failed",
+    });
+    assert.deepEqual(await db.getPendingSealChecks(), []);
+    // A jar that didn't seal goes in the fridge to be used first
+    assert.equal((await db.getJarById(jarIds[2]))?.status, "opened");
+  });
+
+  it("counts a jar that didn't seal once across re-checks", async () => {
+    const { batchId, jarIds } = await addSalsaBatch(
+      2,
+      new Date().toISOString(),
+    );
+    await db.recordSealCheck({ [jarIds[0]]: "reprocess" });
+    await db.recordSealCheck({ [jarIds[0]]: "reprocess" });
+    await db.recordSealCheck({ [jarIds[0]]: "failed", [jarIds[1]]: "failed" });
+
+    assert.equal((await db.getBatchById(batchId))?.failedSealCount, 2);
+  });
+
+  it("skips jars filled more than a week ago", async () => {
+    await addSalsaBatch(2, daysAgo(10));
+    assert.deepEqual(await db.getPendingSealChecks(), []);
+  });
+});
+
+describe("costs", () => {
+  useFreshDatabase();
+
+  it("works out the cost per jar and per ounce", async () => {
+    const { batchId } = await addSalsaBatch(4);
+    await db.updateBatch(batchId, { ingredientCost: 10, lidCost: 2 });
+
+    const batch = (await db.getBatchById(batchId))!;
+    assert.deepEqual(db.getBatchCostSummary(batch), {
+      total: 12,
+      perJar: 3,
+      perOunce: 3 / 16,
+    });
+    assert.equal(
+      db.getBatchCostSummary({ ...batch, ingredientCost: null, lidCost: null }),
+      null,
+    );
+    await assert.rejects(db.updateBatch(batchId, { lidCost: -1 }));
+  });
+});
+
+describe("recipes", () => {
+  useFreshDatabase();
+
+  it("compares the expected yield with past batches", async () => {
+    const recipeId = await db.createRecipe({
+      name: "Salsa",
+      content: "Tomatoes",
+      expectedJarCount: 6,
+      expectedJarSize: "Pint (16 oz)",
+    });
+    for (const count of [5, 7]) {
+      const { batchId } = await addSalsaBatch(count);
+      await db.setBatchRecipeById(batchId, recipeId);
+    }
+    // Half-pints count as half a pint each
+    const { batchId } = await addSalsaBatch(10, daysAgo(5), "Half-pint (8 oz)");
+    await db.setBatchRecipeById(batchId, recipeId);
+
+    const yieldInfo = await db.getRecipeYield(recipeId);
+    assert.equal(yieldInfo.batches.length, 3);
+    assert.equal(yieldInfo.comparedBatchCount, 3);
+    assert.equal(yieldInfo.averageJarCount, (5 + 7 + 5) / 3);
+  });
+});
+
+describe("supplies", () => {
+  useFreshDatabase();
+
+  it("takes jars and lids for new batches", async () => {
+    const jarsId = await db.addSupply({
+      kind: "jar",
+      name: "Pint (16 oz)",
+      mouth: "wide",
+      quantity: 12,
+      lowStockThreshold: 4,
+    });
+    const supplies = await db.getSupplies();
+    const wideLids = supplies.find(
+      (supply) => supply.kind === "lid" && supply.mouth === "wide",
+    )!;
+    await db.updateSupply(wideLids.id!, { quantity: 10 });
+
+    await addSalsaBatch(9, new Date().toISOString());
+    const after = await db.getSupplies();
+    assert.equal(after.find((supply) => supply.id === jarsId)?.quantity, 3);
+    assert.equal(
+      after.find((supply) => supply.id === wideLids.id)?.quantity,
+      1,
+    );
+    assert.deepEqual(
+      (await db.getLowSupplies()).map((supply) => supply.id),
+      [jarsId],
+    );
+  });
+
+  it("leaves supplies alone for jars filled long ago", async () => {
+    const jarsId = await db.addSupply({
+      kind: "jar",
+      name: "Pint (16 oz)",
+      mouth: "regular",
+      quantity: 5,
+      lowStockThreshold: 0,
+    });
+    await addSalsaBatch(3, daysAgo(60));
+    const supply = (await db.getSupplies()).find((s) => s.id === jarsId);
+    assert.equal(supply?.quantity, 5);
+  });
+
+  it("returns an empty jar and takes it back on undo", async () => {
+    const { jarIds } = await addSalsaBatch(1, daysAgo(60));
+    await db.setJarStatus(jarIds[0], "used", undefined, undefined, true);
+    const returned = (await db.getSupplies()).find(
+      (supply) => supply.kind === "jar",
+    );
+    assert.equal(returned?.name, "Pint (16 oz)");
+    assert.equal(returned?.mouth, null);
+    assert.equal(returned?.quantity, 1);
+
+    await db.revertJarStatus(jarIds[0], true);
+    const [jars] = (await db.getSupplies()).filter((s) => s.kind === "jar");
+    assert.equal(jars.quantity, 0);
+  });
+});
+
+describe("shopping list", () => {
+  useFreshDatabase();
+
+  it("fills in recipe ingredients and supplies once", async () => {
+    const { itemTypeId, batchId } = await addSalsaBatch(1);
+    await db.upsertItemType({
+      id: itemTypeId,
+      name: "Salsa",
+      category: "Vegetables",
+      lowStockThreshold: 4,
+    });
+    const recipeId = await db.createRecipe({
+      name: "Salsa",
+      content: "Ingredients:\n- 5 lb tomatoes\n- 2 onions\n\nDirections\nChop",
+    });
+    await db.setBatchRecipeById(batchId, recipeId);
+    const [lids] = await db.getSupplies();
+    await db.updateSupply(lids.id!, { quantity: 2, lowStockThreshold: 12 });
+
+    assert.equal(await db.fillShoppingList(), 3);
+    assert.deepEqual(
+      (await db.getShoppingList()).map((item) => [item.name, item.detail]),
+      [
+        ["5 lb tomatoes", "For Salsa"],
+        ["2 onions", "For Salsa"],
+        ["Regular mouth lids", "2 left"],
+      ],
+    );
+    assert.equal(await db.fillShoppingList(), 0);
+  });
+
+  it("keeps items added by hand and clears checked ones", async () => {
+    const id = await db.addShoppingListItem(" Pectin ", "");
+    await db.addShoppingListItem("Vinegar", "1 gal");
+    await db.setShoppingListItemChecked(id, true);
+    await db.clearCheckedShoppingListItems();
+
+    assert.deepEqual(
+      (await db.getShoppingList()).map((item) => [item.name, item.detail]),
+      [["Vinegar", "1 gal"]],
+    );
+    await assert.rejects(db.addShoppingListItem(" "), /name is required/);
+  });
+});
+
+describe("backups", () => {
+  useFreshDatabase();
+
+  it("restores what it exported", async () => {
+    const { batchId } = await addSalsaBatch(2);
+    await db.updateBatch(batchId, { notes: "Keep", ingredientCost: 12 });
+    await db.addSupply({
+      kind: "other",
+      name: "Labels",
+      mouth: null,
+      quantity: 40,
+      lowStockThreshold: 10,
+    });
+    const json = await db.exportToJson("current");
+
+    await db.deleteBatch(batchId);
+    await db.emptyTrash();
+    await db.importFromJson(json);
+
+    const batch = await db.getBatchById(batchId);
+    assert.equal(batch?.notes, "Keep");
+    assert.equal(batch?.ingredientCost, 12);
+    assert.equal((await db.getJarsForBatch(batchId)).length, 2);
+    assert.ok(
+      (await db.getSupplies()).some(
+        (supply) => supply.name === "Labels" && supply.quantity === 40,
+      ),
+    );
+    assert.deepEqual(await db.checkDatabaseIntegrity(), []);
+  });
+
+  it("keeps the pantry as it was when an import fails", async () => {
+    const { batchId } = await addSalsaBatch(2);
+    const backup = JSON.parse(await db.exportToJson());
+    // Two jars with the same id fail halfway through the import
+    backup.jars.push({ ...backup.jars[0] });
+
+    await assert.rejects(db.importFromJson(JSON.stringify(backup)));
+    assert.equal((await db.getJarsForBatch(batchId)).length, 2);
+    assert.equal((await db.getItemTypesWithCounts()).length, 1);
+  });
+});
+
+describe("pantries", () => {
+  useFreshDatabase();
+
+  it("starts with one pantry that can be renamed but not deleted", async () => {
+    const [pantry] = await db.getPantries();
+    assert.equal((await db.getCurrentPantry()).id, pantry.id);
+
+    await db.renamePantry(pantry.id, " Cellar ");
+    assert.deepEqual(
+      (await db.getPantries()).map((entry) => entry.name),
+      ["Cellar"],
+    );
+    await assert.rejects(db.renamePantry(pantry.id, " "), /name is required/);
+    await assert.rejects(db.deletePantry(pantry.id), /Switch to another/);
+  });
+
+  it("keeps each in-memory pantry apart without writing files", async () => {
+    const filesBefore = readdirSync(".");
+    const { batchId } = await addSalsaBatch(2);
+    const cabin = await db.createPantry("Cabin", false);
+
+    await db.switchPantry(cabin.id);
+    assert.equal((await db.getCurrentPantry()).id, cabin.id);
+    assert.equal((await db.getJarStats()).available, 0);
+    await addSalsaBatch(1);
+
+    await db.switchPantry(1);
+    assert.equal((await db.getJarStats()).available, 2);
+    assert.ok(await db.getBatchById(batchId));
+    await db.switchPantry(cabin.id);
+    assert.equal((await db.getJarStats()).available, 1);
+
+    await db.switchPantry(1);
+    await db.deletePantry(cabin.id);
+    assert.deepEqual(
+      (await db.getPantries()).map((pantry) => pantry.id),
+      [1],
+    );
+    assert.deepEqual(readdirSync("."), filesBefore);
+  });
+
+  it("labels jars with their pantry and still reads old labels", () => {
+    assert.deepEqual(db.parseJarQrData(db.buildJarQrData(12, 3)), {
+      jarId: 12,
+      pantryId: 3,
+    });
+    assert.deepEqual(
+      db.parseJarQrData(JSON.stringify({ type: "jartracker-jar", id: 12 })),
+      { jarId: 12, pantryId: null },
+    );
+    assert.equal(db.parseJarQrData("https://example.com"), null);
+  });
+
+  it("shares recipes with their expected yield", async () => {
+    await db.createRecipe({
+      name: "Salsa",
+      content: "Tomatoes",
+      expectedJarCount: 6,
+      expectedJarSize: "Pint (16 oz)",
+    });
+    const cabin = await db.createPantry("Cabin", true);
+    await db.switchPantry(cabin.id);
+
+    const [recipe] = await db.getAllRecipes();
+    assert.equal(recipe.expectedJarCount, 6);
+    assert.equal(recipe.expectedJarSize, "Pint (16 oz)");
+  });
+});
@@ -0,0 +1,308 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  LATEST_SCHEMA_VERSION,
+  MIGRATIONS,
+  getSchemaVersion,
+  runMigrations,
+} from "../migrations";
+import type { StorageDatabase } from "../storage/types";
+import { getTableNames, openMemoryDatabase } from "./testDb";
+
+// Apply the migrations up to a version by hand, as an older app would have
+async function migrateTo(
+  database: StorageDatabase,
+  version: number,
+): Promise<void> {
+  await getSchemaVersion(database);
+  for (const migration of MIGRATIONS) {
+    if (migration.version > version) break;
+    await migration.up(database);
+  }
+  await database.runAsync(
+    "UPDATE schema_version SET version = ? WHERE id = 1",
+    [version],
+  );
+}
+
+// Every table, view, index and trigger with the columns of each table
+async function describeSchema(database: StorageDatabase): Promise<string[]> {
+  const objects = await database.getAllAsync<{ type: string; name: string }>(
+    `SELECT type, name FROM sqlite_master
+      WHERE name NOT LIKE 'sqlite_%' AND name NOT LIKE 'search_index_%'
+      ORDER BY type, name`,
+  );
+  const schema: string[] = [];
+  for (const { type, name } of objects) {
+    schema.push(`${type} ${name}`);
+    if (type === "table") {
+      const columns = await database.getAllAsync<{ name: string }>(
+        `PRAGMA table_info(${name})`,
+      );
+      schema.push(...columns.map((column) => `  ${name}.${column.name}`));
+    }
+  }
+  return schema;
+}
+
+// Tables as they were before versioned migrations existed
+async function createLegacyDatabase(): Promise<StorageDatabase> {
+  const database = openMemoryDatabase();
+  await database.execAsync(
+    `CREATE TABLE item_types (
+       id INTEGER PRIMARY KEY NOT NULL,
+       name TEXT NOT NULL UNIQUE,
+       category TEXT,
+       recipe TEXT,
+       notes TEXT
+     );
+     CREATE TABLE recipes (
+       id INTEGER PRIMARY KEY NOT NULL,
+       name TEXT NOT NULL,
+       content TEXT NOT NULL,
+       image TEXT,
+       created_date TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+       last_used_date TEXT
+     );
+     CREATE TABLE jars (
+       id INTEGER PRIMARY KEY NOT NULL,
+       itemTypeId INTEGER NOT NULL,
+       fillDateISO TEXT NOT NULL,
+       used INTEGER NOT NULL DEFAULT 0,
+       usedDateISO TEXT
+     );
+     CREATE TABLE custom_categories (
+       id INTEGER PRIMARY KEY NOT NULL,
+       name TEXT NOT NULL UNIQUE,
+       icon TEXT NOT NULL,
+       isDefault INTEGER NOT NULL DEFAULT 0
+     );
+     CREATE TABLE custom_jar_sizes (
+       id INTEGER PRIMARY KEY NOT NULL,
+       name TEXT NOT NULL UNIQUE,
+       isDefault INTEGER NOT NULL DEFAULT 0
+     );
+     INSERT INTO item_types (id, name, category, notes)
+       VALUES (1, 'Salsa', 'Vegetables', 'Mild');
+     INSERT INTO custom_categories (name, icon, isDefault)
+       VALUES ('Fruits', '🍎', 1), ('Soups', '🍲', 0);
+     INSERT INTO jars (id, itemTypeId, fillDateISO, used, usedDateISO) VALUES
+       (1, 1, '2024-08-01T10:00:00.000Z', 1, '2024-12-01T10:00:00.000Z'),
+       (2, 1, '2024-08-01T11:00:00.000Z', 0, NULL),
+       (3, 1, '2024-09-15T10:00:00.000Z', 0, NULL);`,
+  );
+  // Locations were free text before they had their own table
+  await database.execAsync(
+    `ALTER TABLE jars ADD COLUMN location TEXT;
+     UPDATE jars SET location = 'Basement ' WHERE id IN (1, 2);
+     UPDATE jars SET location = 'basement' WHERE id = 3;`,
+  );
+  return database;
+}
+
+describe("migrations", () => {
+  it("brings an empty database to the latest version", async () => {
+    const database = openMemoryDatabase();
+    await runMigrations(database);
+
+    assert.equal(await getSchemaVersion(database), LATEST_SCHEMA_VERSION);
+    const tables = await getTableNames(database);
+    for (const table of [
+      "batches",
+      "jar_events",
+      "locations",
+      "location_paths",
+      "search_index",
+      "category_fields",
+      "batch_field_values",
+      "supplies",
+      "shopping_list",
+    ]) {
+      assert.ok(tables.includes(table), `${table} is missing`);
+    }
+  });
+
+  it("numbers the migrations in order without gaps", () => {
+    assert.deepEqual(
+      MIGRATIONS.map((migration) => migration.version),
+      MIGRATIONS.map((_, i) => i + 1),
+    );
+  });
+
+  it("does nothing when run again", async () => {
+    const database = openMemoryDatabase();
+    await runMigrations(database);
+    const schema = await describeSchema(database);
+    await runMigrations(database);
+
+    assert.deepEqual(await describeSchema(database), schema);
+    const supplies = await database.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) AS count FROM supplies",
+    );
+    assert.equal(supplies?.count, 4);
+  });
+
+  for (const { version, name } of MIGRATIONS.slice(0, -1)) {
+    it(`upgrades a database at version ${version} (${name})`, async () => {
+      const fresh = openMemoryDatabase();
+      await runMigrations(fresh);
+
+      const database = openMemoryDatabase();
+      await migrateTo(database, version);
+      await runMigrations(database);
+
+      assert.equal(await getSchemaVersion(database), LATEST_SCHEMA_VERSION);
+      assert.deepEqual(
+        await describeSchema(database),
+        await describeSchema(fresh),
+      );
+    });
+  }
+
+  it("upgrades a database from before versioned migrations", async () => {
+    const database = await createLegacyDatabase();
+    await runMigrations(database);
+
+    // 1: missing columns are added
+    const jarSizeColumns = await database.getAllAsync<{ name: string }>(
+      "PRAGMA table_info(custom_jar_sizes)",
+    );
+    assert.ok(jarSizeColumns.some((column) => column.name === "hidden"));
+
+    // 2: one batch per item and fill day, with the item's notes
+    const batches = await database.getAllAsync<{
+      id: string;
+      yieldCount: number;
+      notes: string;
+    }>("SELECT id, yieldCount, notes FROM batches ORDER BY id");
+    assert.deepEqual(batches, [
+      { id: "legacy_1_2024-08-01", yieldCount: 2, notes: "Mild" },
+      { id: "legacy_1_2024-09-15", yieldCount: 1, notes: "Mild" },
+    ]);
+
+    // 4: history seeded from what the jars already knew
+    const events = await database.getAllAsync<{ jarId: number; type: string }>(
+      "SELECT jarId, type FROM jar_events ORDER BY jarId, type",
+    );
+    assert.deepEqual(events, [
+      { jarId: 1, type: "created" },
+      { jarId: 1, type: "used" },
+      { jarId: 2, type: "created" },
+      { jarId: 3, type: "created" },
+    ]);
+
+    // 5: the used flag became a status
+    const jars = await database.getAllAsync<{
+      id: number;
+      status: string;
+      statusDateISO: string | null;
+      location: string;
+    }>("SELECT id, status, statusDateISO, location FROM jars ORDER BY id");
+    assert.deepEqual(
+      jars.map((jar) => [jar.id, jar.status, jar.statusDateISO]),
+      [
+        [1, "used", "2024-12-01T10:00:00.000Z"],
+        [2, "available", null],
+        [3, "available", null],
+      ],
+    );
+
+    // 6 and 7: default categories get a fridge and shelf life
+    const fruits = await database.getFirstAsync<{
+      fridgeLifeDays: number;
+      shelfLifeMonths: number;
+    }>(
+      "SELECT fridgeLifeDays, shelfLifeMonths FROM custom_categories WHERE name = 'Fruits'",
+    );
+    assert.deepEqual(fruits, { fridgeLifeDays: 14, shelfLifeMonths: 12 });
+
+    // 8: spellings of one place are merged into a single location
+    const locations = await database.getAllAsync<{ name: string }>(
+      "SELECT name FROM locations",
+    );
+    assert.deepEqual(
+      locations.map((location) => location.name),
+      ["Basement"],
+    );
+    assert.deepEqual(
+      [...new Set(jars.map((jar) => jar.location))],
+      ["Basement"],
+    );
+
+    // 9: existing rows are indexed for search
+    const found = await database.getAllAsync<{ refId: string }>(
+      "SELECT refId FROM search_index WHERE search_index MATCH 'basement*' AND kind = 'batch' ORDER BY refId",
+    );
+    assert.deepEqual(
+      found.map((row) => row.refId),
+      ["legacy_1_2024-08-01", "legacy_1_2024-09-15"],
+    );
+
+    // 16: lids and rings are listed for both mouth widths
+    const supplies = await database.getAllAsync<{ kind: string }>(
+      "SELECT kind FROM supplies ORDER BY kind",
+    );
+    assert.deepEqual(
+      supplies.map((supply) => supply.kind),
+      ["lid", "lid", "ring", "ring"],
+    );
+  });
+
+  it("rebuilds supplies without AUTOINCREMENT and keeps their rows", async () => {
+    const database = openMemoryDatabase();
+    await migrateTo(database, 18);
+    await database.execAsync(
+      "INSERT INTO supplies (id, kind, name, quantity) VALUES (9, 'other', 'Labels', 40);",
+    );
+    await runMigrations(database);
+
+    const table = await database.getFirstAsync<{ sql: string }>(
+      "SELECT sql FROM sqlite_master WHERE name = 'supplies'",
+    );
+    assert.doesNotMatch(table!.sql, /AUTOINCREMENT/);
+    const labels = await database.getFirstAsync<{
+      id: number;
+      quantity: number;
+    }>("SELECT id, quantity FROM supplies WHERE name = 'Labels'");
+    assert.deepEqual(labels, { id: 9, quantity: 40 });
+  });
+
+  it("rebuilds the shopping list without AUTOINCREMENT and keeps its rows", async () => {
+    const database = openMemoryDatabase();
+    await migrateTo(database, 19);
+    await database.execAsync(
+      "INSERT INTO shopping_list (id, name, checked) VALUES (4, 'Pectin', 1);",
+    );
+    await runMigrations(database);
+
+    const table = await database.getFirstAsync<{ sql: string }>(
+      "SELECT sql FROM sqlite_master WHERE name = 'shopping_list'",
+    );
+    assert.doesNotMatch(table!.sql, /AUTOINCREMENT/);
+    const pectin = await database.getFirstAsync<{
+      id: number;
+      checked: number;
+    }>("SELECT id, checked FROM shopping_list WHERE name = 'Pectin'");
+    assert.deepEqual(pectin, { id: 4, checked: 1 });
+  });
+
+  it("refuses a database from a newer app", async () => {
+    const database = openMemoryDatabase();
+    await migrateTo(database, LATEST_SCHEMA_VERSION + 1);
+
+    await assert.rejects(runMigrations(database), /newer than this app/);
+  });
+
+  it("rolls back a migration that fails and keeps the version", async () => {
+    const database = openMemoryDatabase();
+    await migrateTo(database, 1);
+    // A leftover table without the columns migration 2 indexes
+    await database.execAsync("CREATE TABLE batches (id INTEGER);");
+
+    await assert.rejects(
+      runMigrations(database),
+      /Migration 2 \(batches table\) failed/,
+    );
+    assert.equal(await getSchemaVersion(database), 1);
+  });
+});
@@ -0,0 +1,32 @@
+import { beforeEach, mock } from "node:test";
+import { setStorageAdapter } from "../db";
+import { nodeSqliteAdapter } from "../storage/nodeAdapter";
+import type { StorageDatabase } from "../storage/types";
+
+// The data layer logs what it sets up on first open; keep test output clean
+mock.method(console, "log", () => {});
+
+// Give every test in the file its own empty in-memory pantry
+export function useFreshDatabase(): void {
+  beforeEach(() => {
+    setStorageAdapter(nodeSqliteAdapter, ":memory:");
+  });
+}
+
+export function openMemoryDatabase(): StorageDatabase {
+  return nodeSqliteAdapter.openDatabase(":memory:");
+}
+
+export async function getTableNames(
+  database: StorageDatabase,
+): Promise<string[]> {
+  const rows = await database.getAllAsync<{ name: string }>(
+    "SELECT name FROM sqlite_master WHERE type IN ('table', 'view') ORDER BY name",
+  );
+  return rows.map((row) => row.name);
+}
+
+// An ISO date the given number of days before now
+export function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
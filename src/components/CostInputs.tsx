@@ -0,0 +1,148 @@
+import React from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  type StyleProp,
+  type TextStyle,
+} from "react-native";
+import {
+  formatCost,
+  getBatchCostSummary,
+  type Batch,
+  type BatchCosts,
+} from "../db";
+import { theme } from "../theme";
+
+// Costs are edited as text and parsed on save
+export type CostDraft = Record<keyof BatchCosts, string>;
+
+export const EMPTY_COST_DRAFT: CostDraft = { ingredientCost: "", lidCost: "" };
+
+const COST_FIELDS: Array<{ key: keyof BatchCosts; label: string }> = [
+  { key: "ingredientCost", label: "Ingredients" },
+  { key: "lidCost", label: "Lids" },
+];
+
+export const toCostDraft = (costs: BatchCosts): CostDraft => ({
+  ingredientCost: costs.ingredientCost?.toString() ?? "",
+  lidCost: costs.lidCost?.toString() ?? "",
+});
+
+// Throws if a cost can't be read; the database checks the ranges
+export const parseCostDraft = (draft: CostDraft): BatchCosts => {
+  const costs: BatchCosts = {};
+  for (const { key, label } of COST_FIELDS) {
+    const text = draft[key].trim();
+    if (!text) {
+      costs[key] = null;
+    } else if (isNaN(Number(text))) {
+      throw new Error(`${label} cost must be a number`);
+    } else {
+      costs[key] = Number(text);
+    }
+  }
+  return costs;
+};
+
+// "1.25 per jar · 0.08 per oz", or null when nothing was spent
+export const describeCostPerJar = (
+  batch: BatchCosts & Pick<Batch, "jarSize" | "yieldCount">,
+) => {
+  const summary = getBatchCostSummary(batch);
+  if (!summary || summary.perJar === null) return null;
+  return [
+    `${formatCost(summary.perJar)} per jar`,
+    summary.perOunce !== null && `${formatCost(summary.perOunce)} per oz`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+};
+
+// Label and value of each entered cost and what it works out to per jar
+export const describeCosts = (
+  batch: BatchCosts & Pick<Batch, "jarSize" | "yieldCount">,
+) => {
+  const summary = getBatchCostSummary(batch);
+  if (!summary) return [];
+  const parts: Array<[string, string]> = [];
+  for (const { key, label } of COST_FIELDS) {
+    const value = batch[key];
+    if (value != null) parts.push([label, formatCost(value)]);
+  }
+  parts.push(["Total", formatCost(summary.total)]);
+  if (summary.perJar !== null) {
+    parts.push(["Per jar", formatCost(summary.perJar)]);
+  }
+  if (summary.perOunce !== null) {
+    parts.push(["Per oz", formatCost(summary.perOunce)]);
+  }
+  return parts;
+};
+
+interface CostInputsProps {
+  draft: CostDraft;
+  onChange: (draft: CostDraft) => void;
+  // Used to show the cost per jar while typing
+  jarCount: number;
+  jarSize?: string;
+  labelStyle?: StyleProp<TextStyle>;
+  inputStyle?: StyleProp<TextStyle>;
+}
+
+// What a batch cost in total, side by side, with the cost per jar below
+export const CostInputs: React.FC<CostInputsProps> = ({
+  draft,
+  onChange,
+  jarCount,
+  jarSize,
+  labelStyle,
+  inputStyle,
+}) => {
+  let perJar: string | null = null;
+  try {
+    perJar = describeCostPerJar({
+      ...parseCostDraft(draft),
+      jarSize,
+      yieldCount: jarCount,
+    });
+  } catch {
+    // Shown once the numbers can be read
+  }
+
+  return (
+    <>
+      <View style={styles.row}>
+        {COST_FIELDS.map(({ key, label }) => (
+          <View key={key} style={styles.column}>
+            <Text style={labelStyle}>{label}</Text>
+            <TextInput
+              style={inputStyle}
+              value={draft[key]}
+              onChangeText={(text) => onChange({ ...draft, [key]: text })}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+            />
+          </View>
+        ))}
+      </View>
+      {perJar && <Text style={styles.summary}>{perJar}</Text>}
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    gap: theme.spacing.md,
+  },
+  column: {
+    flex: 1,
+  },
+  summary: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.sm,
+  },
+});
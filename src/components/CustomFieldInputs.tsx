@@ -0,0 +1,201 @@
+import React from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Platform,
+  type StyleProp,
+  type TextStyle,
+} from "react-native";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  formatDate,
+  getDateFormat,
+  type BatchFieldValues,
+  type CategoryField,
+  type DateFormat,
+} from "../db";
+import { theme } from "../theme";
+
+interface CustomFieldInputsProps {
+  fields: CategoryField[];
+  values: BatchFieldValues;
+  onChange: (values: BatchFieldValues) => void;
+  labelStyle?: StyleProp<TextStyle>;
+  inputStyle?: StyleProp<TextStyle>;
+}
+
+// Date values are calendar days, so read them as local midnight
+const parseDateValue = (value: string) => new Date(`${value}T00:00:00`);
+
+const toDateValue = (date: Date) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+// Show a custom field value the way its type reads best
+export const formatFieldValue = (
+  field: CategoryField,
+  value: string,
+  dateFormat: DateFormat,
+) =>
+  field.type === "date" ? formatDate(parseDateValue(value), dateFormat) : value;
+
+// Inputs for a category's custom fields: free text, numbers, a date picker
+// or a row of choices
+export const CustomFieldInputs: React.FC<CustomFieldInputsProps> = ({
+  fields,
+  values,
+  onChange,
+  labelStyle,
+  inputStyle,
+}) => {
+  const [pickingDateFor, setPickingDateFor] = React.useState<number | null>(
+    null,
+  );
+  const [dateFormat, setDateFormat] = React.useState<DateFormat>("MM/DD/YYYY");
+
+  React.useEffect(() => {
+    getDateFormat().then(setDateFormat);
+  }, []);
+
+  const setValue = (field: CategoryField, value: string) =>
+    onChange({ ...values, [field.id!]: value });
+
+  return (
+    <>
+      {fields.map((field) => {
+        const value = values[field.id!] ?? "";
+        return (
+          <View key={field.id}>
+            <Text style={labelStyle}>{field.name}</Text>
+            {field.type === "choice" ? (
+              <View style={styles.choiceRow}>
+                {field.choices.map((choice) => {
+                  const selected = value === choice;
+                  return (
+                    <TouchableOpacity
+                      key={choice}
+                      style={[styles.choice, selected && styles.choiceActive]}
+                      // Tapping the selected choice clears it
+                      onPress={() => setValue(field, selected ? "" : choice)}
+                    >
+                      <Text
+                        style={[
+                          styles.choiceText,
+                          selected && styles.choiceTextActive,
+                        ]}
+                      >
+                        {choice}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            ) : field.type === "date" ? (
+              <>
+                <TouchableOpacity
+                  style={[inputStyle, styles.dateButton]}
+                  onPress={() => setPickingDateFor(field.id!)}
+                >
+                  <Text style={value ? styles.dateText : styles.placeholder}>
+                    {value
+                      ? formatFieldValue(field, value, dateFormat)
+                      : "Select date"}
+                  </Text>
+                  {value ? (
+                    <TouchableOpacity
+                      onPress={() => setValue(field, "")}
+                      hitSlop={8}
+                      accessibilityLabel={`Clear ${field.name}`}
+                    >
+                      <Ionicons
+                        name="close-circle"
+                        size={20}
+                        color={theme.colors.textSecondary}
+                      />
+                    </TouchableOpacity>
+                  ) : (
+                    <Ionicons
+                      name="calendar-outline"
+                      size={20}
+                      color={theme.colors.textSecondary}
+                    />
+                  )}
+                </TouchableOpacity>
+                {pickingDateFor === field.id && (
+                  <DateTimePicker
+                    value={value ? parseDateValue(value) : new Date()}
+                    mode="date"
+                    display={Platform.OS === "ios" ? "spinner" : "default"}
+                    onChange={(event, selectedDate) => {
+                      setPickingDateFor(
+                        Platform.OS === "ios" ? field.id! : null,
+                      );
+                      if (selectedDate) {
+                        setValue(field, toDateValue(selectedDate));
+                      }
+                    }}
+                  />
+                )}
+              </>
+            ) : (
+              <TextInput
+                style={inputStyle}
+                value={value}
+                onChangeText={(text) => setValue(field, text)}
+                placeholder={field.type === "number" ? "0" : field.name}
+                keyboardType={
+                  field.type === "number" ? "decimal-pad" : "default"
+                }
+              />
+            )}
+          </View>
+        );
+      })}
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  choiceRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: theme.spacing.sm,
+  },
+  choice: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 0.5,
+    borderColor: theme.colors.primary,
+  },
+  choiceActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  choiceText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+  choiceTextActive: {
+    color: theme.colors.surface,
+  },
+  dateButton: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  dateText: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  placeholder: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.textSecondary,
+  },
+});
@@ -0,0 +1,306 @@
+import React from "react";
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Pressable,
+  ScrollView,
+  Switch,
+  StyleSheet,
+  Alert,
+} from "react-native";
+import {
+  getAllJarSizes,
+  type CustomJarSize,
+  type DashboardFilter,
+} from "../db";
+import { theme } from "../theme";
+import { LocationPicker } from "./LocationPicker";
+
+interface DashboardFilterModalProps {
+  visible: boolean;
+  // Current dashboard filter; category and status are edited on the dashboard
+  filter: DashboardFilter;
+  onApply: (filter: DashboardFilter) => void;
+  onSave: (name: string, filter: DashboardFilter) => Promise<void>;
+  onClose: () => void;
+}
+
+const parseMonths = (text: string) => {
+  const months = parseInt(text, 10);
+  return isNaN(months) || months <= 0 ? null : months;
+};
+
+export const DashboardFilterModal: React.FC<DashboardFilterModalProps> = ({
+  visible,
+  filter,
+  onApply,
+  onSave,
+  onClose,
+}) => {
+  const [draft, setDraft] = React.useState<DashboardFilter>(filter);
+  const [jarSizes, setJarSizes] = React.useState<CustomJarSize[]>([]);
+  const [viewName, setViewName] = React.useState("");
+
+  React.useEffect(() => {
+    if (visible) {
+      setDraft(filter);
+      setViewName("");
+      getAllJarSizes()
+        .then(setJarSizes)
+        .catch((error) => console.error("Error loading jar sizes:", error));
+    }
+  }, [visible]);
+
+  const update = (change: Partial<DashboardFilter>) =>
+    setDraft((prev) => ({ ...prev, ...change }));
+
+  const handleSave = async () => {
+    try {
+      await onSave(viewName, draft);
+    } catch (error) {
+      Alert.alert("Error", error.message);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <Pressable
+            onPress={onClose}
+            hitSlop={8}
+            accessibilityRole="button"
+            accessibilityLabel="Cancel filters"
+          >
+            <Text style={styles.modalCancel}>Cancel</Text>
+          </Pressable>
+          <Text style={styles.modalTitle}>Filters</Text>
+          <Pressable
+            onPress={() => onApply(draft)}
+            hitSlop={8}
+            accessibilityRole="button"
+          >
+            <Text style={styles.modalApply}>Apply</Text>
+          </Pressable>
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text style={styles.label}>Location</Text>
+          <LocationPicker
+            style={styles.input}
+            value={draft.location ?? ""}
+            onChange={(path) => update({ location: path || null })}
+          />
+          <Text style={styles.helperText}>Includes the places inside it.</Text>
+
+          <Text style={styles.label}>Jar Size</Text>
+          <View style={styles.optionRow}>
+            {[null, ...jarSizes.map((size) => size.name)].map((name) => {
+              const selected = draft.jarSize === name;
+              return (
+                <TouchableOpacity
+                  key={name ?? "any"}
+                  style={[styles.option, selected && styles.optionActive]}
+                  onPress={() => update({ jarSize: name })}
+                >
+                  <Text
+                    style={[
+                      styles.optionText,
+                      selected && styles.optionTextActive,
+                    ]}
+                  >
+                    {name ?? "Any"}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.label}>Filled</Text>
+          <View style={styles.monthsRow}>
+            <Text style={styles.monthsLabel}>More than</Text>
+            <TextInput
+              style={[styles.input, styles.monthsInput]}
+              value={draft.olderThanMonths?.toString() ?? ""}
+              onChangeText={(text) =>
+                update({ olderThanMonths: parseMonths(text) })
+              }
+              keyboardType="number-pad"
+              placeholder="–"
+            />
+            <Text style={styles.monthsLabel}>months ago</Text>
+          </View>
+          <View style={styles.monthsRow}>
+            <Text style={styles.monthsLabel}>Less than</Text>
+            <TextInput
+              style={[styles.input, styles.monthsInput]}
+              value={draft.newerThanMonths?.toString() ?? ""}
+              onChangeText={(text) =>
+                update({ newerThanMonths: parseMonths(text) })
+              }
+              keyboardType="number-pad"
+              placeholder="–"
+            />
+            <Text style={styles.monthsLabel}>months ago</Text>
+          </View>
+
+          <View style={styles.switchRow}>
+            <Text style={styles.label}>Running low only</Text>
+            <Switch
+              value={draft.runningLow}
+              onValueChange={(runningLow) => update({ runningLow })}
+              trackColor={{ true: theme.colors.primary }}
+            />
+          </View>
+
+          <Text style={styles.label}>Save as View</Text>
+          <Text style={styles.helperText}>
+            Saves these filters with the dashboard's category and status.
+          </Text>
+          <View style={styles.saveRow}>
+            <TextInput
+              style={[styles.input, styles.saveInput]}
+              value={viewName}
+              onChangeText={setViewName}
+              placeholder="e.g. Basement, older than 1 year"
+              returnKeyType="done"
+              onSubmitEditing={handleSave}
+            />
+            <TouchableOpacity
+              style={[styles.saveButton, !viewName.trim() && { opacity: 0.5 }]}
+              onPress={handleSave}
+              disabled={!viewName.trim()}
+            >
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: theme.spacing.xxl,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+    marginTop: theme.spacing.xxl,
+  },
+  modalTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  modalCancel: {
+    color: theme.colors.textSecondary,
+    fontSize: theme.fontSize.md,
+  },
+  modalApply: {
+    color: theme.colors.primary,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  content: {
+    padding: theme.spacing.xl,
+  },
+  label: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+    marginTop: theme.spacing.lg,
+    marginBottom: theme.spacing.sm,
+  },
+  helperText: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.xs,
+  },
+  input: {
+    padding: theme.spacing.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  optionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: theme.spacing.sm,
+  },
+  option: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 0.5,
+    borderColor: theme.colors.primary,
+  },
+  optionActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  optionText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+  optionTextActive: {
+    color: theme.colors.surface,
+  },
+  monthsRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  monthsLabel: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  monthsInput: {
+    width: 64,
+    textAlign: "center",
+  },
+  switchRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  saveRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.sm,
+  },
+  saveInput: {
+    flex: 1,
+  },
+  saveButton: {
+    backgroundColor: theme.colors.primary,
+    paddingVertical: theme.spacing.md,
+    paddingHorizontal: theme.spacing.lg,
+    borderRadius: theme.borderRadius.md,
+  },
+  saveButtonText: {
+    color: "white",
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+});
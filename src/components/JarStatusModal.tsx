@@ -0,0 +1,313 @@
+import React from "react";
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Platform,
+  Switch,
+} from "react-native";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import {
+  formatDateWithUserPreference,
+  getReturnEmptyJars,
+  setReturnEmptyJars,
+  JAR_STATUS_LABELS,
+  type JarStatus,
+} from "../db";
+import { theme } from "../theme";
+
+export type JarStatusChoice = Exclude<JarStatus, "available">;
+
+const STATUS_OPTIONS: JarStatusChoice[] = [
+  "opened",
+  "used",
+  "discarded",
+  "spoiled",
+  "gifted",
+  "sold",
+];
+
+interface JarStatusModalProps {
+  visible: boolean;
+  title: string;
+  // Only sealed jars can be opened
+  canOpen: boolean;
+  // Jars without a size can't go back into supplies
+  jarSize?: string | null;
+  onCancel: () => void;
+  onConfirm: (
+    status: JarStatusChoice,
+    reason: string,
+    dateISO: string,
+    returnEmptyJar: boolean,
+  ) => void;
+}
+
+export const JarStatusModal: React.FC<JarStatusModalProps> = ({
+  visible,
+  title,
+  canOpen,
+  jarSize,
+  onCancel,
+  onConfirm,
+}) => {
+  const [status, setStatus] = React.useState<JarStatusChoice>("used");
+  const [reason, setReason] = React.useState("");
+  const [date, setDate] = React.useState(new Date());
+  const [formattedDate, setFormattedDate] = React.useState("");
+  const [showDatePicker, setShowDatePicker] = React.useState(false);
+  const [returnJar, setReturnJar] = React.useState(false);
+
+  // Start from "used" today every time the modal opens
+  React.useEffect(() => {
+    if (visible) {
+      setStatus("used");
+      setReason("");
+      setDate(new Date());
+      setShowDatePicker(false);
+      getReturnEmptyJars().then(setReturnJar);
+    }
+  }, [visible]);
+
+  const canReturnJar = status === "used" && !!jarSize;
+
+  const handleConfirm = () => {
+    // Remember the choice for the next jar
+    if (canReturnJar) {
+      setReturnEmptyJars(returnJar);
+    }
+    onConfirm(status, reason, date.toISOString(), canReturnJar && returnJar);
+  };
+
+  React.useEffect(() => {
+    formatDateWithUserPreference(date).then(setFormattedDate);
+  }, [date]);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onCancel}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>{title}</Text>
+
+          <Text style={styles.label}>What happened to it?</Text>
+          <View style={styles.statusOptions}>
+            {STATUS_OPTIONS.filter(
+              (option) => canOpen || option !== "opened",
+            ).map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.statusChip,
+                  status === option && styles.statusChipSelected,
+                ]}
+                onPress={() => setStatus(option)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: status === option }}
+              >
+                <Text
+                  style={[
+                    styles.statusChipText,
+                    status === option && styles.statusChipTextSelected,
+                  ]}
+                >
+                  {JAR_STATUS_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {status !== "opened" && (
+            <>
+              <Text style={styles.label}>Reason (optional)</Text>
+              <TextInput
+                style={styles.textInput}
+                value={reason}
+                onChangeText={setReason}
+                placeholder={
+                  status === "spoiled" || status === "discarded"
+                    ? "e.g. Seal failed"
+                    : status === "gifted"
+                    ? "e.g. For the neighbours"
+                    : ""
+                }
+              />
+            </>
+          )}
+
+          <Text style={styles.label}>Date</Text>
+          <TouchableOpacity
+            style={styles.dateButton}
+            onPress={() => setShowDatePicker(true)}
+          >
+            <Text style={styles.dateButtonText}>{formattedDate}</Text>
+          </TouchableOpacity>
+          {showDatePicker && (
+            <DateTimePicker
+              value={date}
+              mode="date"
+              maximumDate={new Date()}
+              display={Platform.OS === "ios" ? "spinner" : "default"}
+              accentColor={theme.colors.primary}
+              onChange={(event, selectedDate) => {
+                setShowDatePicker(Platform.OS === "ios");
+                if (selectedDate) {
+                  setDate(selectedDate);
+                }
+              }}
+            />
+          )}
+
+          {canReturnJar && (
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>
+                Return the empty jar to supplies
+              </Text>
+              <Switch
+                value={returnJar}
+                onValueChange={setReturnJar}
+                trackColor={{ true: theme.colors.primary }}
+              />
+            </View>
+          )}
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton]}
+              onPress={onCancel}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.confirmButton]}
+              onPress={handleConfirm}
+            >
+              <Text style={styles.confirmButtonText}>
+                Mark {JAR_STATUS_LABELS[status]}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  container: {
+    width: "90%",
+    backgroundColor: theme.colors.background,
+    borderRadius: 12,
+    padding: theme.spacing.lg,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: theme.colors.text,
+    textAlign: "center",
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginTop: theme.spacing.lg,
+    marginBottom: theme.spacing.sm,
+    color: theme.colors.text,
+  },
+  statusOptions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  statusChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    backgroundColor: "white",
+  },
+  statusChipSelected: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  statusChipText: {
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  statusChipTextSelected: {
+    color: "white",
+    fontWeight: "600",
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: "white",
+  },
+  dateButton: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    padding: 12,
+    backgroundColor: "white",
+  },
+  dateButtonText: {
+    fontSize: 16,
+    color: theme.colors.text,
+  },
+  switchRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: theme.spacing.lg,
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: theme.colors.text,
+    flexShrink: 1,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: theme.spacing.xl,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  cancelButton: {
+    backgroundColor: "#f5f5f5",
+    borderWidth: 1,
+    borderColor: "#ddd",
+  },
+  cancelButtonText: {
+    color: "#666",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  confirmButton: {
+    backgroundColor: theme.colors.primary,
+  },
+  confirmButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
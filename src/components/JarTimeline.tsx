@@ -0,0 +1,175 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  getDateFormat,
+  formatDateString,
+  JAR_STATUS_LABELS,
+  type DateFormat,
+  type JarEvent,
+  type JarEventType,
+  type JarStatus,
+} from "../db";
+import { theme } from "../theme";
+
+interface JarTimelineProps {
+  events: JarEvent[];
+  // Show at most this many entries (newest first)
+  limit?: number;
+}
+
+const EVENT_ICONS: Record<JarEventType, keyof typeof Ionicons.glyphMap> = {
+  created: "add-circle-outline",
+  labelled: "qr-code-outline",
+  moved: "location-outline",
+  size_changed: "resize-outline",
+  date_changed: "calendar-outline",
+  status_changed: "swap-horizontal-outline",
+  used: "checkmark-circle-outline",
+  unused: "arrow-undo-outline",
+  deleted: "trash-outline",
+  restored: "refresh-outline",
+  seal_checked: "shield-checkmark-outline",
+};
+
+// Events written by one action share a timestamp; show them as one entry
+type TimelineEntry = { event: JarEvent; jarCount: number };
+
+const groupEvents = (events: JarEvent[]): TimelineEntry[] => {
+  const entries: TimelineEntry[] = [];
+  for (const event of events) {
+    const previous = entries[entries.length - 1];
+    if (
+      previous &&
+      previous.event.type === event.type &&
+      previous.event.fromValue === event.fromValue &&
+      previous.event.toValue === event.toValue &&
+      previous.event.createdDateISO === event.createdDateISO
+    ) {
+      previous.jarCount += 1;
+    } else {
+      entries.push({ event, jarCount: 1 });
+    }
+  }
+  return entries;
+};
+
+const describeEvent = (event: JarEvent, dateFormat: DateFormat) => {
+  const from = event.fromValue || "not specified";
+  const to = event.toValue || "not specified";
+  switch (event.type) {
+    case "created":
+      return "Filled";
+    case "labelled":
+      return "Label printed";
+    case "moved":
+      return `Moved from ${from} to ${to}`;
+    case "size_changed":
+      return `Jar size changed from ${from} to ${to}`;
+    case "date_changed":
+      return `Fill date changed from ${
+        event.fromValue ? formatDateString(event.fromValue, dateFormat) : from
+      } to ${event.toValue ? formatDateString(event.toValue, dateFormat) : to}`;
+    case "status_changed":
+      return event.toValue === "available"
+        ? "Put back on the shelf"
+        : `Marked as ${(
+            JAR_STATUS_LABELS[event.toValue as JarStatus] ?? to
+          ).toLowerCase()}`;
+    case "used":
+      return "Marked as used";
+    case "unused":
+      return "Marked as not used";
+    case "deleted":
+      return "Moved to the Trash";
+    case "restored":
+      return "Restored from the Trash";
+    case "seal_checked":
+      return event.toValue === "sealed"
+        ? "Seal checked"
+        : event.toValue === "reprocess"
+          ? "Seal failed, reprocessed"
+          : "Seal failed, moved to the fridge";
+    default:
+      return event.type;
+  }
+};
+
+export const JarTimeline: React.FC<JarTimelineProps> = ({ events, limit }) => {
+  const [dateFormat, setDateFormatState] =
+    React.useState<DateFormat>("MM/DD/YYYY");
+
+  React.useEffect(() => {
+    getDateFormat()
+      .then(setDateFormatState)
+      .catch((error) => console.error("Error loading date format:", error));
+  }, []);
+
+  const entries = groupEvents(events);
+  const visibleEntries = limit ? entries.slice(0, limit) : entries;
+
+  if (entries.length === 0) {
+    return <Text style={styles.emptyText}>No history recorded yet</Text>;
+  }
+
+  return (
+    <View>
+      {visibleEntries.map(({ event, jarCount }, index) => (
+        <View key={event.id} style={styles.entry}>
+          <View style={styles.iconColumn}>
+            <Ionicons
+              name={EVENT_ICONS[event.type] ?? "ellipse-outline"}
+              size={18}
+              color={theme.colors.primary}
+            />
+            {index < visibleEntries.length - 1 && <View style={styles.line} />}
+          </View>
+          <View style={styles.entryText}>
+            <Text style={styles.description}>
+              {describeEvent(event, dateFormat)}
+            </Text>
+            <Text style={styles.meta}>
+              {formatDateString(event.createdDateISO, dateFormat)}
+              {jarCount > 1 ? ` · ${jarCount} jars` : ""}
+            </Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  entry: {
+    flexDirection: "row",
+  },
+  iconColumn: {
+    width: 24,
+    alignItems: "center",
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    backgroundColor: theme.colors.border,
+    marginVertical: 2,
+  },
+  entryText: {
+    flex: 1,
+    marginLeft: 8,
+    paddingBottom: 12,
+  },
+  description: {
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  meta: {
+    fontSize: 12,
+    color: theme.colors.textLight,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: theme.colors.textLight,
+    fontStyle: "italic",
+  },
+});
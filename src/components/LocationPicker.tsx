@@ -0,0 +1,242 @@
+import React from "react";
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Pressable,
+  FlatList,
+  StyleSheet,
+  Alert,
+  type StyleProp,
+  type ViewStyle,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { getAllLocations, addLocation, type StorageLocation } from "../db";
+import { theme } from "../theme";
+
+interface LocationPickerProps {
+  // The selected location's path, or "" for none
+  value: string;
+  onChange: (path: string) => void;
+  // Style of the field that opens the picker
+  style?: StyleProp<ViewStyle>;
+}
+
+export const LocationPicker: React.FC<LocationPickerProps> = ({
+  value,
+  onChange,
+  style,
+}) => {
+  const [visible, setVisible] = React.useState(false);
+  const [locations, setLocations] = React.useState<StorageLocation[]>([]);
+  const [newName, setNewName] = React.useState("");
+
+  const loadLocations = async () => {
+    try {
+      setLocations(await getAllLocations());
+    } catch (error) {
+      console.error("Error loading locations:", error);
+    }
+  };
+
+  React.useEffect(() => {
+    if (visible) {
+      setNewName("");
+      loadLocations();
+    }
+  }, [visible]);
+
+  const select = (path: string) => {
+    onChange(path);
+    setVisible(false);
+  };
+
+  // New places from here are top-level; nest them from Manage Locations
+  const handleAdd = async () => {
+    try {
+      await addLocation(newName);
+      select(newName.trim());
+    } catch (error) {
+      Alert.alert("Error", error.message);
+    }
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={style} onPress={() => setVisible(true)}>
+        <View style={styles.selectContent}>
+          <Text style={value ? styles.selectText : styles.placeholderText}>
+            {value || "Select location"}
+          </Text>
+          <Ionicons name="chevron-down" size={20} color="#666" />
+        </View>
+      </TouchableOpacity>
+
+      <Modal
+        visible={visible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setVisible(false)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Pressable
+              onPress={() => setVisible(false)}
+              hitSlop={8}
+              accessibilityRole="button"
+              accessibilityLabel="Cancel location selection"
+            >
+              <Text style={styles.modalCancel}>Cancel</Text>
+            </Pressable>
+            <Text style={styles.modalTitle}>Select Location</Text>
+            <View style={{ width: 60 }} />
+          </View>
+
+          <View style={styles.addRow}>
+            <TextInput
+              style={styles.addInput}
+              value={newName}
+              onChangeText={setNewName}
+              placeholder="New location"
+              returnKeyType="done"
+              onSubmitEditing={handleAdd}
+            />
+            <TouchableOpacity
+              style={[styles.addButton, !newName.trim() && { opacity: 0.5 }]}
+              onPress={handleAdd}
+              disabled={!newName.trim()}
+            >
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+
+          <FlatList
+            data={locations}
+            keyExtractor={(item) => item.id!.toString()}
+            ListHeaderComponent={
+              <TouchableOpacity style={styles.row} onPress={() => select("")}>
+                <Text style={styles.noneText}>No location</Text>
+                {!value && (
+                  <Ionicons
+                    name="checkmark"
+                    size={20}
+                    color={theme.colors.primary}
+                  />
+                )}
+              </TouchableOpacity>
+            }
+            renderItem={({ item }) => (
+              <TouchableOpacity
+                style={[
+                  styles.row,
+                  { paddingLeft: theme.spacing.lg * (item.depth + 1) },
+                ]}
+                onPress={() => select(item.path)}
+              >
+                <Ionicons
+                  name={item.depth === 0 ? "home-outline" : "return-down-forward"}
+                  size={16}
+                  color={theme.colors.textSecondary}
+                />
+                <Text style={styles.rowText}>{item.name}</Text>
+                {value === item.path && (
+                  <Ionicons
+                    name="checkmark"
+                    size={20}
+                    color={theme.colors.primary}
+                  />
+                )}
+              </TouchableOpacity>
+            )}
+          />
+        </View>
+      </Modal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  selectContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  selectText: {
+    flex: 1,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  placeholderText: {
+    flex: 1,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.textLight,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: theme.spacing.xxl,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+    marginTop: theme.spacing.xxl,
+  },
+  modalTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  modalCancel: {
+    color: theme.colors.textSecondary,
+    fontSize: theme.fontSize.md,
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing.sm,
+    margin: theme.spacing.lg,
+  },
+  addInput: {
+    flex: 1,
+    padding: theme.spacing.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    fontSize: theme.fontSize.md,
+  },
+  addButton: {
+    backgroundColor: theme.colors.primary,
+    paddingVertical: theme.spacing.md,
+    paddingHorizontal: theme.spacing.lg,
+    borderRadius: theme.borderRadius.md,
+  },
+  addButtonText: {
+    color: "white",
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing.sm,
+    padding: theme.spacing.lg,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: theme.colors.border,
+  },
+  rowText: {
+    flex: 1,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  noneText: {
+    flex: 1,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.textSecondary,
+  },
+});
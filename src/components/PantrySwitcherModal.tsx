@@ -0,0 +1,388 @@
+import React from "react";
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Pressable,
+  ScrollView,
+  Switch,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  getPantries,
+  getCurrentPantry,
+  createPantry,
+  renamePantry,
+  deletePantry,
+  setPantrySharing,
+  switchPantry,
+  type Pantry,
+} from "../db";
+import { theme } from "../theme";
+
+interface PantrySwitcherModalProps {
+  visible: boolean;
+  onClose: () => void;
+  // Called after another pantry has been opened
+  onSwitched: () => void;
+}
+
+export const PantrySwitcherModal: React.FC<PantrySwitcherModalProps> = ({
+  visible,
+  onClose,
+  onSwitched,
+}) => {
+  const [pantries, setPantries] = React.useState<Pantry[]>([]);
+  const [currentId, setCurrentId] = React.useState<number | null>(null);
+  const [editingId, setEditingId] = React.useState<number | null>(null);
+  const [editingName, setEditingName] = React.useState("");
+  const [newName, setNewName] = React.useState("");
+  const [newShares, setNewShares] = React.useState(true);
+  const [switchingId, setSwitchingId] = React.useState<number | null>(null);
+
+  const loadPantries = async () => {
+    try {
+      const [all, current] = await Promise.all([
+        getPantries(),
+        getCurrentPantry(),
+      ]);
+      setPantries(all);
+      setCurrentId(current.id);
+    } catch (error) {
+      console.error("Error loading pantries:", error);
+    }
+  };
+
+  React.useEffect(() => {
+    if (visible) {
+      setEditingId(null);
+      setNewName("");
+      loadPantries();
+    }
+  }, [visible]);
+
+  const handleSwitch = async (pantry: Pantry) => {
+    if (pantry.id === currentId || switchingId !== null) return;
+    setSwitchingId(pantry.id);
+    try {
+      await switchPantry(pantry.id);
+      onSwitched();
+    } catch (error) {
+      console.error("Error switching pantry:", error);
+      Alert.alert("Error", "Failed to open this pantry");
+    } finally {
+      setSwitchingId(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      await createPantry(newName, newShares);
+      setNewName("");
+      await loadPantries();
+    } catch (error) {
+      Alert.alert("Error", error.message);
+    }
+  };
+
+  const handleRename = async () => {
+    if (editingId === null) return;
+    try {
+      await renamePantry(editingId, editingName);
+      setEditingId(null);
+      await loadPantries();
+    } catch (error) {
+      Alert.alert("Error", error.message);
+    }
+  };
+
+  const handleToggleSharing = async (pantry: Pantry, shares: boolean) => {
+    try {
+      await setPantrySharing(pantry.id, shares);
+      await loadPantries();
+    } catch (error) {
+      console.error("Error changing pantry sharing:", error);
+      Alert.alert("Error", "Failed to change sharing");
+    }
+  };
+
+  const confirmDelete = (pantry: Pantry) => {
+    Alert.alert(
+      "Delete Pantry",
+      `Delete "${pantry.name}" with all of its jars, batches and locations? This cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deletePantry(pantry.id);
+              await loadPantries();
+            } catch (error) {
+              Alert.alert("Error", error.message);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <View style={styles.headerSpacer} />
+          <Text style={styles.modalTitle}>Pantries</Text>
+          <Pressable
+            onPress={onClose}
+            hitSlop={8}
+            accessibilityRole="button"
+            style={styles.headerSpacer}
+          >
+            <Text style={styles.modalDone}>Done</Text>
+          </Pressable>
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+        >
+          {pantries.map((pantry) => {
+            const isCurrent = pantry.id === currentId;
+            return (
+              <View key={pantry.id} style={styles.pantryRow}>
+                {editingId === pantry.id ? (
+                  <View style={styles.renameRow}>
+                    <TextInput
+                      style={[styles.input, styles.flexInput]}
+                      value={editingName}
+                      onChangeText={setEditingName}
+                      autoFocus
+                      returnKeyType="done"
+                      onSubmitEditing={handleRename}
+                    />
+                    <TouchableOpacity onPress={handleRename}>
+                      <Text style={styles.actionText}>Save</Text>
+                    </TouchableOpacity>
+                  </View>
+                ) : (
+                  <TouchableOpacity
+                    style={styles.pantryInfo}
+                    onPress={() => handleSwitch(pantry)}
+                    accessibilityLabel={`Open ${pantry.name}`}
+                  >
+                    <Ionicons
+                      name={isCurrent ? "radio-button-on" : "radio-button-off"}
+                      size={20}
+                      color={theme.colors.primary}
+                    />
+                    <Text style={styles.pantryName} numberOfLines={1}>
+                      {pantry.name}
+                    </Text>
+                    {switchingId === pantry.id && (
+                      <ActivityIndicator color={theme.colors.primary} />
+                    )}
+                  </TouchableOpacity>
+                )}
+
+                <View style={styles.pantryActions}>
+                  <View style={styles.shareToggle}>
+                    <Text style={styles.shareLabel}>Shared catalog</Text>
+                    <Switch
+                      value={pantry.sharesCatalog}
+                      onValueChange={(shares) =>
+                        handleToggleSharing(pantry, shares)
+                      }
+                      trackColor={{ true: theme.colors.primary }}
+                    />
+                  </View>
+                  <TouchableOpacity
+                    onPress={() => {
+                      setEditingId(pantry.id);
+                      setEditingName(pantry.name);
+                    }}
+                    hitSlop={8}
+                    accessibilityLabel={`Rename ${pantry.name}`}
+                  >
+                    <Ionicons
+                      name="pencil"
+                      size={18}
+                      color={theme.colors.textSecondary}
+                    />
+                  </TouchableOpacity>
+                  {!isCurrent && (
+                    <TouchableOpacity
+                      onPress={() => confirmDelete(pantry)}
+                      hitSlop={8}
+                      accessibilityLabel={`Delete ${pantry.name}`}
+                    >
+                      <Ionicons
+                        name="trash-outline"
+                        size={18}
+                        color={theme.colors.error}
+                      />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              </View>
+            );
+          })}
+          <Text style={styles.helperText}>
+            Each pantry has its own jars, batches, locations and settings.
+            Pantries with a shared catalog use the same categories, jar sizes
+            and recipes.
+          </Text>
+
+          <Text style={styles.label}>New Pantry</Text>
+          <View style={styles.renameRow}>
+            <TextInput
+              style={[styles.input, styles.flexInput]}
+              value={newName}
+              onChangeText={setNewName}
+              placeholder="e.g. Parents' cellar"
+              returnKeyType="done"
+              onSubmitEditing={handleCreate}
+            />
+            <TouchableOpacity
+              style={[styles.addButton, !newName.trim() && { opacity: 0.5 }]}
+              onPress={handleCreate}
+              disabled={!newName.trim()}
+            >
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+          <View style={styles.shareToggle}>
+            <Text style={styles.shareLabel}>
+              Share categories, jar sizes and recipes
+            </Text>
+            <Switch
+              value={newShares}
+              onValueChange={setNewShares}
+              trackColor={{ true: theme.colors.primary }}
+            />
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: theme.spacing.xxl,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+    marginTop: theme.spacing.xxl,
+  },
+  headerSpacer: {
+    width: 60,
+    alignItems: "flex-end",
+  },
+  modalTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  modalDone: {
+    color: theme.colors.primary,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  content: {
+    padding: theme.spacing.xl,
+  },
+  pantryRow: {
+    paddingVertical: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  pantryInfo: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing.sm,
+  },
+  pantryName: {
+    flex: 1,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  pantryActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing.lg,
+    marginTop: theme.spacing.xs,
+  },
+  shareToggle: {
+    flex: 1,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  shareLabel: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+  renameRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing.sm,
+  },
+  actionText: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.primary,
+  },
+  label: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+    marginTop: theme.spacing.lg,
+    marginBottom: theme.spacing.sm,
+  },
+  helperText: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.sm,
+  },
+  input: {
+    padding: theme.spacing.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  flexInput: {
+    flex: 1,
+  },
+  addButton: {
+    backgroundColor: theme.colors.primary,
+    paddingVertical: theme.spacing.md,
+    paddingHorizontal: theme.spacing.lg,
+    borderRadius: theme.borderRadius.md,
+  },
+  addButtonText: {
+    color: "white",
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+});
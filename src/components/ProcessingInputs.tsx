@@ -0,0 +1,183 @@
+import React from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  type StyleProp,
+  type TextStyle,
+} from "react-native";
+import {
+  PROCESS_METHOD_LABELS,
+  type BatchProcessing,
+  type ProcessMethod,
+} from "../db";
+import { theme } from "../theme";
+
+type NumberKey = Exclude<keyof BatchProcessing, "processMethod">;
+
+// Numbers are edited as text and parsed on save
+export type ProcessingDraft = {
+  processMethod: ProcessMethod | null;
+} & Record<NumberKey, string>;
+
+export const EMPTY_PROCESSING_DRAFT: ProcessingDraft = {
+  processMethod: null,
+  processMinutes: "",
+  processPressurePsi: "",
+  altitudeFeet: "",
+  headspaceInches: "",
+  failedSealCount: "",
+};
+
+const NUMBER_FIELDS: Array<{
+  key: NumberKey;
+  label: string;
+  unit: string;
+  decimal: boolean;
+}> = [
+  {
+    key: "processMinutes",
+    label: "Processing Time",
+    unit: "min",
+    decimal: false,
+  },
+  { key: "processPressurePsi", label: "Pressure", unit: "psi", decimal: true },
+  { key: "altitudeFeet", label: "Altitude", unit: "ft", decimal: false },
+  { key: "headspaceInches", label: "Headspace", unit: "in", decimal: true },
+  {
+    key: "failedSealCount",
+    label: "Jars That Failed to Seal",
+    unit: "",
+    decimal: false,
+  },
+];
+
+// Only pressure canning has a gauge reading
+const showsField = (key: NumberKey, method: ProcessMethod | null) =>
+  key !== "processPressurePsi" || method === "pressure";
+
+export const toProcessingDraft = (
+  processing: BatchProcessing,
+): ProcessingDraft => ({
+  processMethod: processing.processMethod ?? null,
+  ...(Object.fromEntries(
+    NUMBER_FIELDS.map(({ key }) => [key, processing[key]?.toString() ?? ""]),
+  ) as Record<NumberKey, string>),
+});
+
+// Throws if a number can't be read; the database checks the ranges
+export const parseProcessingDraft = (
+  draft: ProcessingDraft,
+): BatchProcessing => {
+  const processing: BatchProcessing = { processMethod: draft.processMethod };
+  for (const { key, label } of NUMBER_FIELDS) {
+    const text = draft[key].trim();
+    if (!text || !showsField(key, draft.processMethod)) {
+      processing[key] = null;
+    } else if (isNaN(Number(text))) {
+      throw new Error(`${label} must be a number`);
+    } else {
+      processing[key] = Number(text);
+    }
+  }
+  return processing;
+};
+
+// Label and value of each recorded part of a processing log
+export const describeProcessing = (processing: BatchProcessing) => {
+  const parts: Array<[string, string]> = [];
+  if (processing.processMethod) {
+    parts.push(["Method", PROCESS_METHOD_LABELS[processing.processMethod]]);
+  }
+  for (const { key, label, unit } of NUMBER_FIELDS) {
+    const value = processing[key];
+    if (value != null) {
+      parts.push([label, unit ? `${value} ${unit}` : String(value)]);
+    }
+  }
+  return parts;
+};
+
+interface ProcessingInputsProps {
+  draft: ProcessingDraft;
+  onChange: (draft: ProcessingDraft) => void;
+  labelStyle?: StyleProp<TextStyle>;
+  inputStyle?: StyleProp<TextStyle>;
+}
+
+// Method chips followed by the measurements of the processing log
+export const ProcessingInputs: React.FC<ProcessingInputsProps> = ({
+  draft,
+  onChange,
+  labelStyle,
+  inputStyle,
+}) => (
+  <>
+    <Text style={labelStyle}>Method</Text>
+    <View style={styles.choiceRow}>
+      {(Object.keys(PROCESS_METHOD_LABELS) as ProcessMethod[]).map((method) => {
+        const selected = draft.processMethod === method;
+        return (
+          <TouchableOpacity
+            key={method}
+            style={[styles.choice, selected && styles.choiceActive]}
+            // Tapping the selected method clears it
+            onPress={() =>
+              onChange({ ...draft, processMethod: selected ? null : method })
+            }
+          >
+            <Text
+              style={[styles.choiceText, selected && styles.choiceTextActive]}
+            >
+              {PROCESS_METHOD_LABELS[method]}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+    {NUMBER_FIELDS.filter(({ key }) =>
+      showsField(key, draft.processMethod),
+    ).map(({ key, label, unit, decimal }) => (
+      <View key={key}>
+        <Text style={labelStyle}>
+          {label}
+          {unit ? ` (${unit})` : ""}
+        </Text>
+        <TextInput
+          style={inputStyle}
+          value={draft[key]}
+          onChangeText={(text) => onChange({ ...draft, [key]: text })}
+          placeholder="0"
+          keyboardType={decimal ? "decimal-pad" : "number-pad"}
+        />
+      </View>
+    ))}
+  </>
+);
+
+const styles = StyleSheet.create({
+  choiceRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: theme.spacing.sm,
+  },
+  choice: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 0.5,
+    borderColor: theme.colors.primary,
+  },
+  choiceActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  choiceText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+  choiceTextActive: {
+    color: theme.colors.surface,
+  },
+});
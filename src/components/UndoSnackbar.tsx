@@ -0,0 +1,74 @@
+import React from "react";
+import { Animated, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { theme } from "../theme";
+
+interface UndoSnackbarProps {
+  visible: boolean;
+  message: string;
+  onUndo: () => void;
+}
+
+export const UndoSnackbar: React.FC<UndoSnackbarProps> = ({
+  visible,
+  message,
+  onUndo,
+}) => {
+  const opacity = React.useRef(new Animated.Value(0)).current;
+
+  React.useEffect(() => {
+    Animated.timing(opacity, {
+      toValue: visible ? 1 : 0,
+      duration: 200,
+      useNativeDriver: true,
+    }).start();
+  }, [visible, opacity]);
+
+  return (
+    <Animated.View
+      style={[styles.container, { opacity }]}
+      pointerEvents={visible ? "auto" : "none"}
+    >
+      <Text style={styles.message} numberOfLines={2}>
+        {message}
+      </Text>
+      <TouchableOpacity style={styles.undoButton} onPress={onUndo}>
+        <Text style={styles.undoText}>UNDO</Text>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    left: 16,
+    right: 16,
+    // Sit above the tab bar
+    bottom: 90,
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#323232",
+    borderRadius: theme.borderRadius.md,
+    paddingLeft: 16,
+    paddingVertical: 6,
+    elevation: 6,
+    shadowColor: theme.colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+  },
+  message: {
+    flex: 1,
+    color: "white",
+    fontSize: 14,
+  },
+  undoButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  undoText: {
+    color: theme.colors.primaryLight,
+    fontSize: 14,
+    fontWeight: "bold",
+  },
+});
@@ -0,0 +1,96 @@
+import React from "react";
+import { Alert } from "react-native";
+import { UndoSnackbar } from "../components/UndoSnackbar";
+
+// How long the "Undo" snackbar stays on screen
+const UNDO_TIMEOUT_MS = 5000;
+
+type PendingUndo = {
+  message: string;
+  undo: () => Promise<void>;
+  // Runs once the action can no longer be undone (e.g. cleanup that would
+  // make the undo impossible)
+  onCommit?: () => Promise<void>;
+};
+
+type UndoContextValue = {
+  showUndo: (
+    message: string,
+    undo: () => Promise<void>,
+    onCommit?: () => Promise<void>,
+  ) => void;
+};
+
+const UndoContext = React.createContext<UndoContextValue>({
+  showUndo: () => {},
+});
+
+export function UndoProvider({ children }: { children: React.ReactNode }) {
+  const [pending, setPending] = React.useState<PendingUndo | null>(null);
+  const pendingRef = React.useRef<PendingUndo | null>(null);
+  const timerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const clearPending = React.useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const current = pendingRef.current;
+    pendingRef.current = null;
+    setPending(null);
+    return current;
+  }, []);
+
+  const commit = React.useCallback(() => {
+    const current = clearPending();
+    current?.onCommit?.().catch((error) => {
+      console.error("Error finishing action:", error);
+    });
+  }, [clearPending]);
+
+  const showUndo = React.useCallback<UndoContextValue["showUndo"]>(
+    (message, undo, onCommit) => {
+      // Only the latest action can be undone; the previous one becomes final
+      commit();
+      const next = { message, undo, onCommit };
+      pendingRef.current = next;
+      setPending(next);
+      timerRef.current = setTimeout(commit, UNDO_TIMEOUT_MS);
+    },
+    [commit],
+  );
+
+  const handleUndo = async () => {
+    const current = clearPending();
+    if (!current) return;
+    try {
+      await current.undo();
+    } catch (error) {
+      console.error("Error undoing action:", error);
+      Alert.alert("Error", `Failed to undo: ${error.message}`);
+    }
+  };
+
+  React.useEffect(() => {
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, []);
+
+  const value = React.useMemo(() => ({ showUndo }), [showUndo]);
+
+  return (
+    <UndoContext.Provider value={value}>
+      {children}
+      <UndoSnackbar
+        visible={!!pending}
+        message={pending?.message ?? ""}
+        onUndo={handleUndo}
+      />
+    </UndoContext.Provider>
+  );
+}
+
+export function useUndo(): UndoContextValue {
+  return React.useContext(UndoContext);
+}
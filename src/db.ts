@@ -1,4 +1,9 @@
-import * as SQLite from "expo-sqlite";
+import { addColumnIfMissing, runMigrations } from "./migrations";
+import type {
+  BindValue,
+  StorageAdapter,
+  StorageDatabase,
+} from "./storage/types";
 
 export type ItemType = {
   id?: number;
@@ -8,16 +13,127 @@ export type ItemType = {
   notes?: string;
   recipe_image?: string;
   lowStockThreshold?: number;
+  fridgeLifeDays?: number | null; // Overrides the category's fridge life
+  shelfLifeMonths?: number | null; // Overrides the category's shelf life
+  deletedAt?: string | null; // Set while the item type is in the trash
+};
+
+export type JarStatus =
+  | "available"
+  | "opened"
+  | "used"
+  | "discarded"
+  | "spoiled"
+  | "gifted"
+  | "sold";
+
+export const JAR_STATUS_LABELS: Record<JarStatus, string> = {
+  available: "Available",
+  opened: "Opened",
+  used: "Used",
+  discarded: "Discarded",
+  spoiled: "Spoiled",
+  gifted: "Gifted",
+  sold: "Sold",
 };
 
 export type Jar = {
   id?: number;
   itemTypeId: number;
   fillDateISO: string; // ISO string
-  used: 0 | 1; // 0 false, 1 true
+  status: JarStatus;
+  statusReason?: string | null; // Why the jar left the shelf, e.g. "seal failed"
+  statusDateISO?: string | null; // When the jar left the shelf
+  openedDateISO?: string | null; // Kept after an opened jar is used up
   jarSize?: string;
   location?: string;
   batchId?: string; // Unique identifier for the batch
+  deletedAt?: string | null; // Set while the jar is in the trash
+  sealCheckDueISO?: string | null; // Set while the jar awaits its seal check
+};
+
+export type Batch = {
+  id: string;
+  itemTypeId: number;
+  fillDateISO: string; // ISO string
+  jarSize?: string;
+  location?: string;
+  recipeId?: number | null;
+  notes?: string;
+  yieldCount: number; // Number of jars the batch produced
+  createdDateISO?: string;
+  deletedAt?: string | null; // Set while the batch is in the trash
+  processMethod?: ProcessMethod | null;
+  processMinutes?: number | null;
+  processPressurePsi?: number | null;
+  altitudeFeet?: number | null;
+  headspaceInches?: number | null;
+  failedSealCount?: number | null; // Jars that didn't seal after processing
+  ingredientCost?: number | null; // Produce and other ingredients, whole batch
+  lidCost?: number | null; // Lids used by the whole batch
+};
+
+export type ProcessMethod = "water_bath" | "pressure" | "steam" | "fermented";
+
+export const PROCESS_METHOD_LABELS: Record<ProcessMethod, string> = {
+  water_bath: "Water Bath",
+  pressure: "Pressure",
+  steam: "Steam",
+  fermented: "Fermented",
+};
+
+const PROCESSING_KEYS = [
+  "processMethod",
+  "processMinutes",
+  "processPressurePsi",
+  "altitudeFeet",
+  "headspaceInches",
+  "failedSealCount",
+] as const;
+
+// The processing log of a batch
+export type BatchProcessing = Pick<Batch, (typeof PROCESSING_KEYS)[number]>;
+
+const COST_KEYS = ["ingredientCost", "lidCost"] as const;
+
+export type BatchCosts = Pick<Batch, (typeof COST_KEYS)[number]>;
+
+export type JarEventType =
+  | "created"
+  | "labelled"
+  | "moved"
+  | "size_changed"
+  | "date_changed"
+  | "status_changed"
+  | "used" // Recorded before jars had a status
+  | "unused"
+  | "deleted"
+  | "restored"
+  | "seal_checked";
+
+export type JarEvent = {
+  id: number;
+  jarId: number;
+  batchId: string | null;
+  type: JarEventType;
+  fromValue: string | null; // Previous value for moved/size/date/status changes
+  toValue: string | null;
+  createdDateISO: string;
+};
+
+// Trashed rows stay restorable for this long before they are purged
+export const TRASH_RETENTION_DAYS = 30;
+
+// A top-level entry in the trash. Trashing an item type or batch also trashes
+// everything under it with the same timestamp; those rows are restored with
+// their parent and are not listed separately.
+export type TrashEntry = {
+  kind: "itemType" | "batch" | "jar";
+  id: number | string;
+  name: string;
+  fillDateISO: string | null;
+  jarCount: number;
+  deletedAt: string;
 };
 
 export type CustomCategory = {
@@ -25,8 +141,32 @@ export type CustomCategory = {
   name: string;
   icon: string;
   isDefault: 0 | 1; // 0 false, 1 true - for built-in categories
+  fridgeLifeDays?: number | null; // Days an opened jar keeps in the fridge
+  shelfLifeMonths?: number | null; // Months a sealed jar is best within
+};
+
+export type CustomFieldType = "text" | "number" | "date" | "choice";
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  choice: "Choice",
+};
+
+// Extra data recorded on every batch of a category, e.g. PSI for meats
+export type CategoryField = {
+  id?: number;
+  categoryId: number;
+  name: string;
+  type: CustomFieldType;
+  choices: string[]; // Options for choice fields, empty otherwise
+  sortOrder: number;
 };
 
+// Values are stored as text: numbers as typed, dates as YYYY-MM-DD
+export type BatchFieldValues = Record<number, string>;
+
 export type CustomJarSize = {
   id?: number;
   name: string;
@@ -34,6 +174,15 @@ export type CustomJarSize = {
   hidden: 0 | 1; // 0 visible, 1 hidden
 };
 
+export type StorageLocation = {
+  id?: number;
+  name: string;
+  parentId: number | null; // Null for a top-level place such as a room
+  path: string; // Names from the top down, as stored on jars and batches
+  depth: number;
+  jarCount?: number;
+};
+
 export type Recipe = {
   id?: number;
   name: string;
@@ -41,6 +190,58 @@ export type Recipe = {
   image?: string;
   created_date?: string;
   last_used_date?: string;
+  expectedJarCount?: number | null; // Jars one batch should fill
+  expectedJarSize?: string | null;
+};
+
+export type SupplyKind = "jar" | "lid" | "ring" | "other";
+
+export type JarMouth = "regular" | "wide";
+
+export type Supply = {
+  id?: number;
+  kind: SupplyKind;
+  name: string; // The jar size for empty jars
+  mouth: JarMouth | null; // Null for other supplies and jars of unknown width
+  quantity: number;
+  lowStockThreshold: number; // 0 for no low-stock alert
+};
+
+export const SUPPLY_KIND_LABELS: Record<SupplyKind, string> = {
+  jar: "Empty Jars",
+  lid: "Lids",
+  ring: "Rings",
+  other: "Other Supplies",
+};
+
+export const JAR_MOUTH_LABELS: Record<JarMouth, string> = {
+  regular: "Regular mouth",
+  wide: "Wide mouth",
+};
+
+// "Pint (16 oz) jars", "Wide mouth lids", or an other supply's own name
+export function formatSupplyName(
+  supply: Pick<Supply, "kind" | "name">,
+): string {
+  switch (supply.kind) {
+    case "jar":
+      return `${supply.name} jars`;
+    case "lid":
+      return `${supply.name} lids`;
+    case "ring":
+      return `${supply.name} rings`;
+    default:
+      return supply.name;
+  }
+}
+
+export type ShoppingListItem = {
+  id?: number;
+  name: string;
+  detail: string | null; // Amount or what it's for
+  checked: 0 | 1; // 0 to buy, 1 bought
+  sourceKey: string | null; // Set when filled in, null when added by hand
+  createdDateISO?: string;
 };
 
 export type DateFormat = "MM/DD/YYYY" | "DD/MM/YYYY" | "MMM DD, YYYY";
@@ -52,15 +253,69 @@ export const DATE_FORMATS: { value: DateFormat; label: string }[] = [
 ];
 
 export const CATEGORIES = [
-  { id: "fruits", name: "Fruits", icon: "🍎" },
-  { id: "vegetables", name: "Vegetables", icon: "🥕" },
-  { id: "preserves", name: "Preserves", icon: "🍯" },
-  { id: "pickles", name: "Pickles", icon: "🥒" },
-  { id: "sauces", name: "Sauces", icon: "🍅" },
-  { id: "meats", name: "Meats", icon: "🥩" },
-  { id: "drinks", name: "Drinks", icon: "🧃" },
-  { id: "meals", name: "Meals", icon: "🍲" },
-  { id: "other", name: "Other", icon: "📦" },
+  {
+    id: "fruits",
+    name: "Fruits",
+    icon: "🍎",
+    fridgeLifeDays: 14,
+    shelfLifeMonths: 12,
+  },
+  {
+    id: "vegetables",
+    name: "Vegetables",
+    icon: "🥕",
+    fridgeLifeDays: 7,
+    shelfLifeMonths: 12,
+  },
+  {
+    id: "preserves",
+    name: "Preserves",
+    icon: "🍯",
+    fridgeLifeDays: 21,
+    shelfLifeMonths: 18,
+  },
+  {
+    id: "pickles",
+    name: "Pickles",
+    icon: "🥒",
+    fridgeLifeDays: 30,
+    shelfLifeMonths: 12,
+  },
+  {
+    id: "sauces",
+    name: "Sauces",
+    icon: "🍅",
+    fridgeLifeDays: 7,
+    shelfLifeMonths: 12,
+  },
+  {
+    id: "meats",
+    name: "Meats",
+    icon: "🥩",
+    fridgeLifeDays: 4,
+    shelfLifeMonths: 12,
+  },
+  {
+    id: "drinks",
+    name: "Drinks",
+    icon: "🧃",
+    fridgeLifeDays: 7,
+    shelfLifeMonths: 12,
+  },
+  {
+    id: "meals",
+    name: "Meals",
+    icon: "🍲",
+    fridgeLifeDays: 5,
+    shelfLifeMonths: 12,
+  },
+  {
+    id: "other",
+    name: "Other",
+    icon: "📦",
+    fridgeLifeDays: null,
+    shelfLifeMonths: 12,
+  },
 ];
 
 export const JAR_SIZES = [
@@ -77,8 +332,31 @@ export const JAR_SIZES = [
   "Three Liter (3000 ml)",
 ];
 
-let db: SQLite.SQLiteDatabase | null = null;
+let storageAdapter: StorageAdapter | null = null;
+let databaseName = "jartracker.db";
+let db: StorageDatabase | null = null;
 let isInitializing = false;
+// Lists the pantries and holds the catalog they share; see PANTRIES below
+let registryDb: StorageDatabase | null = null;
+// In-memory pantries last only while their connection is open, so they stay
+// open for the whole session instead of being closed between uses
+const memoryPantries = new Map<number, StorageDatabase>();
+
+// __DEV__ is only defined by the React Native runtime
+const isDevRuntime = typeof __DEV__ !== "undefined" && __DEV__;
+
+// Choose the SQLite implementation (expo-sqlite in the app, node:sqlite in
+// tests). Must be called before the first getDb().
+export function setStorageAdapter(
+  adapter: StorageAdapter,
+  name: string = "jartracker.db",
+): void {
+  storageAdapter = adapter;
+  databaseName = name;
+  registryDb = null;
+  memoryPantries.clear();
+  resetDb();
+}
 
 // Function to reset database connection
 export function resetDb(): void {
@@ -88,7 +366,7 @@ export function resetDb(): void {
 
 // Wrapper function to handle database operations with automatic retry
 async function withDb<T>(
-  operation: (db: SQLite.SQLiteDatabase) => Promise<T>,
+  operation: (db: StorageDatabase) => Promise<T>,
 ): Promise<T> {
   try {
     const database = await getDb();
@@ -108,9 +386,49 @@ async function withDb<T>(
   }
 }
 
-export async function getDb(): Promise<SQLite.SQLiteDatabase> {
+// Run an operation in a single transaction, rolling everything back if it fails
+async function inTransaction<T>(
+  database: StorageDatabase,
+  operation: () => Promise<T>,
+): Promise<T> {
+  await database.execAsync("BEGIN");
+  try {
+    const result = await operation();
+    await database.execAsync("COMMIT");
+    return result;
+  } catch (error) {
+    await database.execAsync("ROLLBACK");
+    throw error;
+  }
+}
+
+// Insert many rows through one prepared statement and return their ids.
+// Call inside a transaction so a failure leaves nothing half-written.
+async function insertRows(
+  database: StorageDatabase,
+  source: string,
+  rows: BindValue[][],
+): Promise<number[]> {
+  const statement = await database.prepareAsync(source);
+  try {
+    const ids: number[] = [];
+    for (const row of rows) {
+      const result = await statement.executeAsync(row);
+      ids.push(result.lastInsertRowId);
+    }
+    return ids;
+  } finally {
+    await statement.finalizeAsync();
+  }
+}
+
+export async function getDb(): Promise<StorageDatabase> {
   if (db) return db;
 
+  if (!storageAdapter) {
+    throw new Error("No storage adapter set. Call setStorageAdapter() first.");
+  }
+
   // Prevent concurrent initialization
   if (isInitializing) {
     // Wait for the current initialization to complete
@@ -122,16 +440,30 @@ export async function getDb(): Promise<SQLite.SQLiteDatabase> {
 
   isInitializing = true;
 
+  // Each pantry keeps its data in its own database file
+  let pantryId: number;
+  try {
+    pantryId = await getCurrentPantryId(await getRegistry());
+  } catch (error) {
+    isInitializing = false;
+    throw error;
+  }
+
   try {
-    // Use the sync method which is more reliable
-    db = SQLite.openDatabaseSync("jartracker.db");
+    db = openPantryDatabase(pantryId);
     // console.log("Database opened successfully");
   } catch (error) {
     console.error("Failed to open database:", error);
+    if (databaseName === ":memory:") {
+      isInitializing = false;
+      throw error;
+    }
     // Try with a different database name as fallback
     // console.log("Trying fallback database name...");
     try {
-      db = SQLite.openDatabaseSync("jartracker_backup.db");
+      db = storageAdapter.openDatabase(
+        pantryFileName(pantryId).replace(/\.db$/, "") + "_backup.db",
+      );
     } catch (fallbackError) {
       console.error("Fallback database also failed:", fallbackError);
       isInitializing = false;
@@ -140,169 +472,13 @@ export async function getDb(): Promise<SQLite.SQLiteDatabase> {
   }
 
   try {
-    // Create tables with all columns
     await db.execAsync(
       `PRAGMA journal_mode = MEMORY;
-     PRAGMA synchronous = NORMAL;
-     CREATE TABLE IF NOT EXISTS item_types (
-       id INTEGER PRIMARY KEY NOT NULL,
-       name TEXT NOT NULL UNIQUE,
-       category TEXT,
-       recipe TEXT,
-       notes TEXT,
-       recipe_image TEXT,
-       lowStockThreshold INTEGER DEFAULT 0
-     );
-     CREATE TABLE IF NOT EXISTS recipes (
-       id INTEGER PRIMARY KEY NOT NULL,
-       name TEXT NOT NULL,
-       content TEXT NOT NULL,
-       image TEXT,
-       created_date TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
-       last_used_date TEXT
-     );
-     CREATE TABLE IF NOT EXISTS jars (
-       id INTEGER PRIMARY KEY NOT NULL,
-       itemTypeId INTEGER NOT NULL REFERENCES item_types(id) ON DELETE CASCADE,
-       fillDateISO TEXT NOT NULL,
-       used INTEGER NOT NULL DEFAULT 0,
-       jarSize TEXT,
-       location TEXT,
-       batchId TEXT,
-       recipe TEXT,
-       recipe_image TEXT,
-       recipeId INTEGER REFERENCES recipes(id) ON DELETE SET NULL,
-       usedDateISO TEXT
-     );
-     CREATE TABLE IF NOT EXISTS custom_categories (
-       id INTEGER PRIMARY KEY NOT NULL,
-       name TEXT NOT NULL UNIQUE,
-       icon TEXT NOT NULL,
-       isDefault INTEGER NOT NULL DEFAULT 0
-     );
-     CREATE TABLE IF NOT EXISTS custom_jar_sizes (
-       id INTEGER PRIMARY KEY NOT NULL,
-       name TEXT NOT NULL UNIQUE,
-       isDefault INTEGER NOT NULL DEFAULT 0,
-       hidden INTEGER NOT NULL DEFAULT 0
-     );
-     CREATE TABLE IF NOT EXISTS app_settings (
-       id INTEGER PRIMARY KEY NOT NULL,
-       key TEXT NOT NULL UNIQUE,
-       value TEXT NOT NULL
-     );
-     CREATE INDEX IF NOT EXISTS idx_jars_itemTypeId ON jars(itemTypeId);`,
+     PRAGMA synchronous = NORMAL;`,
     );
 
-    // Add new columns safely if they don't exist (for existing databases)
-    try {
-      // Check if category and recipe_image columns exist in item_types
-      const itemTypesInfo = await db.getAllAsync(
-        "PRAGMA table_info(item_types)",
-      );
-      const hasCategoryColumn = itemTypesInfo.some(
-        (col: any) => col.name === "category",
-      );
-      const hasItemTypeRecipeImageColumn = itemTypesInfo.some(
-        (col: any) => col.name === "recipe_image",
-      );
-      const hasLowStockThresholdColumn = itemTypesInfo.some(
-        (col: any) => col.name === "lowStockThreshold",
-      );
-
-      if (!hasCategoryColumn) {
-        await db.execAsync("ALTER TABLE item_types ADD COLUMN category TEXT;");
-      }
-      if (!hasItemTypeRecipeImageColumn) {
-        await db.execAsync(
-          "ALTER TABLE item_types ADD COLUMN recipe_image TEXT;",
-        );
-      }
-      if (!hasLowStockThresholdColumn) {
-        await db.execAsync(
-          "ALTER TABLE item_types ADD COLUMN lowStockThreshold INTEGER DEFAULT 0;",
-        );
-      }
-
-      // Check if jarSize, location, batchId, recipe, and recipe_image columns exist in jars
-      const jarsInfo = await db.getAllAsync("PRAGMA table_info(jars)");
-      const hasJarSizeColumn = jarsInfo.some(
-        (col: any) => col.name === "jarSize",
-      );
-      const hasLocationColumn = jarsInfo.some(
-        (col: any) => col.name === "location",
-      );
-      const hasBatchIdColumn = jarsInfo.some(
-        (col: any) => col.name === "batchId",
-      );
-      const hasJarRecipeColumn = jarsInfo.some(
-        (col: any) => col.name === "recipe",
-      );
-      const hasJarRecipeImageColumn = jarsInfo.some(
-        (col: any) => col.name === "recipe_image",
-      );
-      const hasRecipeIdColumn = jarsInfo.some(
-        (col: any) => col.name === "recipeId",
-      );
-
-      if (!hasJarSizeColumn) {
-        await db.execAsync("ALTER TABLE jars ADD COLUMN jarSize TEXT;");
-      }
-      if (!hasLocationColumn) {
-        await db.execAsync("ALTER TABLE jars ADD COLUMN location TEXT;");
-      }
-      if (!hasBatchIdColumn) {
-        await db.execAsync("ALTER TABLE jars ADD COLUMN batchId TEXT;");
-      }
-      if (!hasJarRecipeColumn) {
-        await db.execAsync("ALTER TABLE jars ADD COLUMN recipe TEXT;");
-      }
-      if (!hasJarRecipeImageColumn) {
-        await db.execAsync("ALTER TABLE jars ADD COLUMN recipe_image TEXT;");
-      }
-      if (!hasRecipeIdColumn) {
-        await db.execAsync(
-          "ALTER TABLE jars ADD COLUMN recipeId INTEGER REFERENCES recipes(id) ON DELETE SET NULL;",
-        );
-      }
-
-      // Add usedDateISO column for tracking when jars were used
-      const usedDateColumns = await db.getAllAsync<{ name: string }>(
-        "PRAGMA table_info(jars);",
-      );
-      if (!usedDateColumns.some((col) => col.name === "usedDateISO")) {
-        await db.execAsync("ALTER TABLE jars ADD COLUMN usedDateISO TEXT;");
-      }
-
-      // Create recipes table if it doesn't exist
-      await db.execAsync(`
-      CREATE TABLE IF NOT EXISTS recipes (
-        id INTEGER PRIMARY KEY NOT NULL,
-        name TEXT NOT NULL,
-        content TEXT NOT NULL,
-        image TEXT,
-        created_date TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
-        last_used_date TEXT
-      );
-    `);
-
-      // Check if hidden column exists in custom_jar_sizes
-      const jarSizesInfo = await db.getAllAsync(
-        "PRAGMA table_info(custom_jar_sizes)",
-      );
-      const hasHiddenColumn = jarSizesInfo.some(
-        (col: any) => col.name === "hidden",
-      );
-
-      if (!hasHiddenColumn) {
-        await db.execAsync(
-          "ALTER TABLE custom_jar_sizes ADD COLUMN hidden INTEGER NOT NULL DEFAULT 0;",
-        );
-      }
-    } catch (error) {
-      // Columns might already exist, which is fine
-      // console.log("Database migration info:", error);
-    }
+    // Create or upgrade the schema through the versioned migrations
+    await runMigrations(db);
 
     // Migrate recipes from item_types to jars for existing databases
     await migrateRecipesFromItemTypesToJars(db);
@@ -310,6 +486,9 @@ export async function getDb(): Promise<SQLite.SQLiteDatabase> {
     // Clear all legacy recipe data permanently - we only use recipeId now
     await clearAllLegacyRecipeData();
 
+    // Permanently remove anything that has been in the trash too long
+    await purgeExpiredTrash();
+
     // Initialize custom categories with defaults if empty
     await initializeCustomCategories();
 
@@ -317,7 +496,7 @@ export async function getDb(): Promise<SQLite.SQLiteDatabase> {
     await initializeCustomJarSizes();
 
     // Seed development data if in dev mode
-    if (__DEV__) {
+    if (isDevRuntime) {
       try {
         await seedDevelopmentData();
       } catch (error) {
@@ -349,8 +528,13 @@ async function initializeCustomCategories(): Promise<void> {
     // console.log("Populating default categories...");
     for (const category of CATEGORIES) {
       await database.runAsync(
-        "INSERT INTO custom_categories (name, icon, isDefault) VALUES (?, ?, 1)",
-        [category.name, category.icon],
+        "INSERT INTO custom_categories (name, icon, isDefault, fridgeLifeDays, shelfLifeMonths) VALUES (?, ?, 1, ?, ?)",
+        [
+          category.name,
+          category.icon,
+          category.fridgeLifeDays,
+          category.shelfLifeMonths,
+        ],
       );
     }
 
@@ -424,11 +608,13 @@ export async function getAllCategories(): Promise<CustomCategory[]> {
 export async function addCustomCategory(
   name: string,
   icon: string,
+  fridgeLifeDays: number | null = null,
+  shelfLifeMonths: number | null = null,
 ): Promise<number> {
   const database = await getDb();
   const result = await database.runAsync(
-    "INSERT INTO custom_categories (name, icon, isDefault) VALUES (?, ?, 0)",
-    [name, icon],
+    "INSERT INTO custom_categories (name, icon, isDefault, fridgeLifeDays, shelfLifeMonths) VALUES (?, ?, 0, ?, ?)",
+    [name, icon, fridgeLifeDays, shelfLifeMonths],
   );
   return result.lastInsertRowId as number;
 }
@@ -446,6 +632,30 @@ export async function updateCustomCategory(
   );
 }
 
+// Fridge life can be changed on default categories too
+export async function setCategoryFridgeLife(
+  id: number,
+  fridgeLifeDays: number | null,
+): Promise<void> {
+  const database = await getDb();
+  await database.runAsync(
+    "UPDATE custom_categories SET fridgeLifeDays = ? WHERE id = ?",
+    [fridgeLifeDays, id],
+  );
+}
+
+// Shelf life can be changed on default categories too
+export async function setCategoryShelfLife(
+  id: number,
+  shelfLifeMonths: number | null,
+): Promise<void> {
+  const database = await getDb();
+  await database.runAsync(
+    "UPDATE custom_categories SET shelfLifeMonths = ? WHERE id = ?",
+    [shelfLifeMonths, id],
+  );
+}
+
 // Delete a custom category with safety checks
 export async function deleteCustomCategory(id: number): Promise<void> {
   const database = await getDb();
@@ -479,6 +689,154 @@ export async function deleteCustomCategory(id: number): Promise<void> {
   );
 }
 
+// === CUSTOM FIELDS ===
+
+type CategoryFieldRow = Omit<CategoryField, "choices"> & {
+  choices: string | null;
+};
+
+function toCategoryField(row: CategoryFieldRow): CategoryField {
+  return { ...row, choices: row.choices ? JSON.parse(row.choices) : [] };
+}
+
+export async function getCategoryFields(
+  categoryId: number,
+): Promise<CategoryField[]> {
+  return withDb(async (database) => {
+    const rows = await database.getAllAsync<CategoryFieldRow>(
+      "SELECT * FROM category_fields WHERE categoryId = ? ORDER BY sortOrder, id",
+      [categoryId],
+    );
+    return rows.map(toCategoryField);
+  });
+}
+
+// Item types refer to their category by name
+export async function getCategoryFieldsByName(
+  categoryName: string,
+): Promise<CategoryField[]> {
+  return withDb(async (database) => {
+    const rows = await database.getAllAsync<CategoryFieldRow>(
+      `SELECT f.* FROM category_fields f
+         JOIN custom_categories c ON c.id = f.categoryId
+        WHERE c.name = ?
+        ORDER BY f.sortOrder, f.id`,
+      [categoryName],
+    );
+    return rows.map(toCategoryField);
+  });
+}
+
+type CategoryFieldInput = Pick<
+  CategoryField,
+  "id" | "name" | "type" | "choices"
+>;
+
+// Throws if the fields can't be saved: blank or repeated names, or a choice
+// field without choices
+export function validateCategoryFields(fields: CategoryFieldInput[]): void {
+  const names = new Set<string>();
+  for (const field of fields) {
+    const name = field.name.trim();
+    if (!name) {
+      throw new Error("Every field needs a name");
+    }
+    if (names.has(name.toLowerCase())) {
+      throw new Error(`There is more than one field named "${name}"`);
+    }
+    names.add(name.toLowerCase());
+    if (field.type === "choice" && field.choices.length === 0) {
+      throw new Error(`Add at least one choice to "${name}"`);
+    }
+  }
+}
+
+// Replace a category's fields with the given list, in order. Fields left out
+// are deleted along with the values batches have for them.
+export async function saveCategoryFields(
+  categoryId: number,
+  fields: CategoryFieldInput[],
+): Promise<void> {
+  validateCategoryFields(fields);
+
+  const database = await getDb();
+  await inTransaction(database, async () => {
+    const keptIds = fields
+      .map((field) => field.id)
+      .filter((id): id is number => id != null);
+    await database.runAsync(
+      "DELETE FROM category_fields WHERE categoryId = ? AND id NOT IN (SELECT value FROM json_each(?))",
+      [categoryId, JSON.stringify(keptIds)],
+    );
+    // Renames go through a placeholder name first so two fields can swap
+    await database.runAsync(
+      "UPDATE category_fields SET name = '~' || id WHERE categoryId = ?",
+      [categoryId],
+    );
+    for (const [index, field] of fields.entries()) {
+      const choices =
+        field.type === "choice" ? JSON.stringify(field.choices) : null;
+      if (field.id != null) {
+        await database.runAsync(
+          "UPDATE category_fields SET name = ?, type = ?, choices = ?, sortOrder = ? WHERE id = ? AND categoryId = ?",
+          [field.name.trim(), field.type, choices, index, field.id, categoryId],
+        );
+      } else {
+        await database.runAsync(
+          "INSERT INTO category_fields (categoryId, name, type, choices, sortOrder) VALUES (?, ?, ?, ?, ?)",
+          [categoryId, field.name.trim(), field.type, choices, index],
+        );
+      }
+    }
+  });
+}
+
+export async function getBatchFieldValues(
+  batchId: string,
+): Promise<BatchFieldValues> {
+  return withDb(async (database) => {
+    const rows = await database.getAllAsync<{
+      fieldId: number;
+      value: string;
+    }>("SELECT fieldId, value FROM batch_field_values WHERE batchId = ?", [
+      batchId,
+    ]);
+    return Object.fromEntries(rows.map((row) => [row.fieldId, row.value]));
+  });
+}
+
+// Save a batch's values for the given fields; blank values are cleared
+export async function setBatchFieldValues(
+  batchId: string,
+  fields: CategoryField[],
+  values: BatchFieldValues,
+): Promise<void> {
+  for (const field of fields) {
+    const value = values[field.id!]?.trim();
+    if (value && field.type === "number" && isNaN(Number(value))) {
+      throw new Error(`${field.name} must be a number`);
+    }
+  }
+
+  const database = await getDb();
+  await inTransaction(database, async () => {
+    for (const field of fields) {
+      const value = values[field.id!]?.trim();
+      if (value) {
+        await database.runAsync(
+          "INSERT INTO batch_field_values (batchId, fieldId, value) VALUES (?, ?, ?) ON CONFLICT(batchId, fieldId) DO UPDATE SET value = excluded.value",
+          [batchId, field.id!, value],
+        );
+      } else {
+        await database.runAsync(
+          "DELETE FROM batch_field_values WHERE batchId = ? AND fieldId = ?",
+          [batchId, field.id!],
+        );
+      }
+    }
+  });
+}
+
 // === CUSTOM JAR SIZES FUNCTIONS ===
 
 // Initialize custom jar sizes with defaults and migrate existing data
@@ -611,6 +969,10 @@ export async function updateCustomJarSize(
     name,
     currentJarSize.name,
   ]);
+  await database.runAsync(
+    "UPDATE supplies SET name = ? WHERE kind = 'jar' AND name = ?",
+    [name, currentJarSize.name],
+  );
 }
 
 // Delete a custom jar size with safety checks
@@ -639,11 +1001,15 @@ export async function deleteCustomJarSize(id: number): Promise<void> {
     );
   }
 
-  // Safe to delete
+  // Safe to delete, along with its empty jars in supplies
   await database.runAsync(
     "DELETE FROM custom_jar_sizes WHERE id = ? AND isDefault = 0",
     [id],
   );
+  await database.runAsync(
+    "DELETE FROM supplies WHERE kind = 'jar' AND name = ?",
+    [jarSize.name],
+  );
 }
 
 // Toggle jar size visibility (hide/show)
@@ -655,44 +1021,338 @@ export async function toggleJarSizeVisibility(id: number): Promise<void> {
   );
 }
 
-export async function upsertItemType(itemType: ItemType): Promise<number> {
+// === LOCATIONS FUNCTIONS ===
+
+// Joins nested location names into the path stored on jars and batches
+export const LOCATION_SEPARATOR = " > ";
+
+// Matches a location's own path and every path nested under it
+const LOCATION_PATH_MATCH =
+  "(location = ? OR substr(location, 1, length(?) + 3) = ? || ' > ')";
+
+// True when a path is the location itself or somewhere nested inside it
+export function isWithinLocation(path: string, location: string): boolean {
+  return path === location || path.startsWith(location + LOCATION_SEPARATOR);
+}
+
+// Get all locations in tree order (each followed by the places inside it),
+// with the jars still on the shelf there
+export async function getAllLocations(): Promise<StorageLocation[]> {
   const database = await getDb();
-  if (itemType.id) {
-    await database.runAsync(
-      "UPDATE item_types SET name = ?, category = ?, recipe = ?, notes = ?, recipe_image = ?, lowStockThreshold = ? WHERE id = ?",
-      itemType.name,
-      itemType.category ?? null,
-      itemType.recipe ?? null,
-      itemType.notes ?? null,
-      itemType.recipe_image ?? null,
-      itemType.lowStockThreshold ?? 0,
-      itemType.id,
-    );
-    return itemType.id;
-  }
-  const res = await database.runAsync(
-    "INSERT INTO item_types (name, category, recipe, notes, recipe_image, lowStockThreshold) VALUES (?, ?, ?, ?, ?, ?)",
-    itemType.name,
-    itemType.category ?? null,
-    itemType.recipe ?? null,
-    itemType.notes ?? null,
-    itemType.recipe_image ?? null,
-    itemType.lowStockThreshold ?? 0,
+  return await database.getAllAsync<StorageLocation>(
+    `SELECT lp.id, lp.name, lp.parentId, lp.path, lp.depth,
+            (SELECT COUNT(*) FROM jars j
+              WHERE j.location = lp.path
+                AND j.status IN ('available', 'opened')
+                AND j.deletedAt IS NULL) as jarCount
+       FROM location_paths lp
+      ORDER BY lp.sortKey`,
   );
-  return res.lastInsertRowId as number;
 }
 
-export async function deleteItemType(id: number): Promise<void> {
-  const database = await getDb();
-  await database.runAsync("DELETE FROM item_types WHERE id = ?", id);
+async function getLocationPath(
+  database: StorageDatabase,
+  id: number,
+): Promise<string | null> {
+  const row = await database.getFirstAsync<{ path: string }>(
+    "SELECT path FROM location_paths WHERE id = ?",
+    [id],
+  );
+  return row?.path ?? null;
 }
 
-export async function getRunningLowItems(): Promise<
-  Array<{
-    id: number;
-    name: string;
-    category?: string;
-    available: number;
+// Point jars and batches stored at a path (or inside it) at a new path
+async function replaceLocationPath(
+  database: StorageDatabase,
+  oldPath: string,
+  newPath: string,
+): Promise<void> {
+  for (const table of ["jars", "batches"]) {
+    await database.runAsync(
+      `UPDATE ${table}
+          SET location = ? || substr(location, length(?) + 1)
+        WHERE ${LOCATION_PATH_MATCH}`,
+      [newPath, oldPath, oldPath, oldPath, oldPath],
+    );
+  }
+}
+
+// Names must be unique among siblings, ignoring case
+async function validateLocationName(
+  database: StorageDatabase,
+  name: string,
+  parentId: number | null,
+  id?: number,
+): Promise<void> {
+  if (!name) {
+    throw new Error("Location name is required");
+  }
+  if (name.includes(LOCATION_SEPARATOR.trim())) {
+    throw new Error(
+      `Location names cannot contain "${LOCATION_SEPARATOR.trim()}"`,
+    );
+  }
+  const duplicate = await database.getFirstAsync<{ id: number }>(
+    "SELECT id FROM locations WHERE parentId IS ? AND LOWER(name) = LOWER(?) AND id IS NOT ?",
+    [parentId, name, id ?? null],
+  );
+  if (duplicate) {
+    throw new Error(`A location named "${name}" already exists there`);
+  }
+}
+
+// Add a location, optionally nested inside another one
+export async function addLocation(
+  name: string,
+  parentId: number | null = null,
+): Promise<number> {
+  const database = await getDb();
+  const trimmedName = name.trim();
+  await validateLocationName(database, trimmedName, parentId);
+  const result = await database.runAsync(
+    "INSERT INTO locations (name, parentId) VALUES (?, ?)",
+    [trimmedName, parentId],
+  );
+  return result.lastInsertRowId as number;
+}
+
+// Rename a location or move it under another parent. Jars and batches stored
+// there (or anywhere inside it) follow the new path.
+export async function updateLocation(
+  id: number,
+  name: string,
+  parentId: number | null,
+): Promise<void> {
+  const database = await getDb();
+  const trimmedName = name.trim();
+
+  const oldPath = await getLocationPath(database, id);
+  if (oldPath === null) {
+    throw new Error("Location not found");
+  }
+
+  if (parentId !== null) {
+    const cycle = await database.getFirstAsync<{ id: number }>(
+      `WITH RECURSIVE inside(id) AS (
+         SELECT ?
+         UNION ALL
+         SELECT l.id FROM locations l JOIN inside ON l.parentId = inside.id
+       )
+       SELECT id FROM inside WHERE id = ?`,
+      [id, parentId],
+    );
+    if (cycle) {
+      throw new Error("A location cannot be moved inside itself");
+    }
+  }
+
+  await validateLocationName(database, trimmedName, parentId, id);
+
+  await inTransaction(database, async () => {
+    await database.runAsync(
+      "UPDATE locations SET name = ?, parentId = ? WHERE id = ?",
+      [trimmedName, parentId, id],
+    );
+    const newPath = (await getLocationPath(database, id))!;
+    await replaceLocationPath(database, oldPath, newPath);
+  });
+}
+
+// Fold a duplicate location into another one ("Bsmt 2" into "Basement > Shelf
+// 2"): its jars, batches and the places inside it move to the target
+export async function mergeLocation(
+  sourceId: number,
+  targetId: number,
+): Promise<void> {
+  const database = await getDb();
+
+  const sourcePath = await getLocationPath(database, sourceId);
+  const targetPath = await getLocationPath(database, targetId);
+  if (sourcePath === null || targetPath === null || sourceId === targetId) {
+    throw new Error("Location not found");
+  }
+  if (targetPath.startsWith(sourcePath + LOCATION_SEPARATOR)) {
+    throw new Error("A location cannot be merged into a place inside it");
+  }
+
+  const clash = await database.getFirstAsync<{ name: string }>(
+    `SELECT s.name FROM locations s
+       JOIN locations t ON t.parentId = ? AND LOWER(t.name) = LOWER(s.name)
+      WHERE s.parentId = ?`,
+    [targetId, sourceId],
+  );
+  if (clash) {
+    throw new Error(
+      `Both locations contain "${clash.name}". Merge those first.`,
+    );
+  }
+
+  await inTransaction(database, async () => {
+    await database.runAsync(
+      "UPDATE locations SET parentId = ? WHERE parentId = ?",
+      [targetId, sourceId],
+    );
+    await replaceLocationPath(database, sourcePath, targetPath);
+    await database.runAsync("DELETE FROM locations WHERE id = ?", [sourceId]);
+  });
+}
+
+// Delete a location and the places inside it, if no jars on the shelf are
+// stored there
+export async function deleteLocation(id: number): Promise<void> {
+  const database = await getDb();
+
+  const path = await getLocationPath(database, id);
+  if (path === null) {
+    throw new Error("Location not found");
+  }
+
+  // Same jars as the counts in getAllLocations
+  const jarsCount = await database.getFirstAsync<{ count: number }>(
+    `SELECT COUNT(*) as count FROM jars
+      WHERE status IN ('available', 'opened') AND deletedAt IS NULL
+        AND ${LOCATION_PATH_MATCH}`,
+    [path, path, path],
+  );
+  if (jarsCount && jarsCount.count > 0) {
+    throw new Error(
+      `Cannot delete location "${path}" because ${jarsCount.count} jar(s) are still stored there`,
+    );
+  }
+
+  await inTransaction(database, async () => {
+    await database.runAsync(
+      `WITH RECURSIVE inside(id) AS (
+         SELECT ?
+         UNION ALL
+         SELECT l.id FROM locations l JOIN inside ON l.parentId = inside.id
+       )
+       DELETE FROM locations WHERE id IN (SELECT id FROM inside)`,
+      [id],
+    );
+    // Batches with no jars left there just lose their default location, and
+    // so do used and trashed jars, so a restored jar never points nowhere
+    await database.runAsync(
+      `UPDATE batches SET location = NULL WHERE ${LOCATION_PATH_MATCH}`,
+      [path, path, path],
+    );
+    await database.runAsync(
+      `UPDATE jars SET location = NULL WHERE ${LOCATION_PATH_MATCH}`,
+      [path, path, path],
+    );
+  });
+}
+
+// Add a top-level location for every path on a jar or batch that has none
+// (backups made before locations existed)
+async function addMissingLocations(database: StorageDatabase): Promise<void> {
+  await database.execAsync(
+    `INSERT INTO locations (name)
+     SELECT DISTINCT location FROM (
+       SELECT location FROM batches UNION SELECT location FROM jars
+     )
+      WHERE location IS NOT NULL AND location <> ''
+        AND location NOT IN (SELECT path FROM location_paths);`,
+  );
+}
+
+export async function upsertItemType(itemType: ItemType): Promise<number> {
+  const database = await getDb();
+  if (itemType.id) {
+    await database.runAsync(
+      "UPDATE item_types SET name = ?, category = ?, recipe = ?, notes = ?, recipe_image = ?, lowStockThreshold = ? WHERE id = ?",
+      itemType.name,
+      itemType.category ?? null,
+      itemType.recipe ?? null,
+      itemType.notes ?? null,
+      itemType.recipe_image ?? null,
+      itemType.lowStockThreshold ?? 0,
+      itemType.id,
+    );
+    return itemType.id;
+  }
+
+  // A trashed item type still owns its name, so bring it back instead
+  const trashed = await database.getFirstAsync<{ id: number }>(
+    "SELECT id FROM item_types WHERE name = ? AND deletedAt IS NOT NULL",
+    [itemType.name],
+  );
+  if (trashed) {
+    await database.runAsync(
+      "UPDATE item_types SET deletedAt = NULL WHERE id = ?",
+      [trashed.id],
+    );
+    return await upsertItemType({ ...itemType, id: trashed.id });
+  }
+
+  const res = await database.runAsync(
+    "INSERT INTO item_types (name, category, recipe, notes, recipe_image, lowStockThreshold, fridgeLifeDays, shelfLifeMonths) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+    itemType.name,
+    itemType.category ?? null,
+    itemType.recipe ?? null,
+    itemType.notes ?? null,
+    itemType.recipe_image ?? null,
+    itemType.lowStockThreshold ?? 0,
+    itemType.fridgeLifeDays ?? null,
+    itemType.shelfLifeMonths ?? null,
+  );
+  return res.lastInsertRowId as number;
+}
+
+// Null falls back to the category's fridge life
+export async function setItemTypeFridgeLife(
+  id: number,
+  fridgeLifeDays: number | null,
+): Promise<void> {
+  const database = await getDb();
+  await database.runAsync(
+    "UPDATE item_types SET fridgeLifeDays = ? WHERE id = ?",
+    [fridgeLifeDays, id],
+  );
+}
+
+// Null falls back to the category's shelf life
+export async function setItemTypeShelfLife(
+  id: number,
+  shelfLifeMonths: number | null,
+): Promise<void> {
+  const database = await getDb();
+  await database.runAsync(
+    "UPDATE item_types SET shelfLifeMonths = ? WHERE id = ?",
+    [shelfLifeMonths, id],
+  );
+}
+
+// Move an item type and all of its batches and jars to the trash
+export async function deleteItemType(id: number): Promise<void> {
+  const database = await getDb();
+  const deletedAt = new Date().toISOString();
+  await inTransaction(database, async () => {
+    await database.runAsync(
+      "UPDATE item_types SET deletedAt = ? WHERE id = ? AND deletedAt IS NULL",
+      [deletedAt, id],
+    );
+    await database.runAsync(
+      "UPDATE batches SET deletedAt = ? WHERE itemTypeId = ? AND deletedAt IS NULL",
+      [deletedAt, id],
+    );
+    await database.runAsync(
+      "UPDATE jars SET deletedAt = ? WHERE itemTypeId = ? AND deletedAt IS NULL",
+      [deletedAt, id],
+    );
+    await logJarEvents(database, "deleted", "itemTypeId = ? AND deletedAt = ?", [
+      id,
+      deletedAt,
+    ]);
+  });
+}
+
+export async function getRunningLowItems(): Promise<
+  Array<{
+    id: number;
+    name: string;
+    category?: string;
+    available: number;
     threshold: number;
     categoryIcon?: string;
   }>
@@ -706,10 +1366,10 @@ export async function getRunningLowItems(): Promise<
         it.name,
         it.category,
         it.lowStockThreshold as threshold,
-        COUNT(j.id) - SUM(j.used) as available
+        COUNT(j.id) - SUM(j.status <> 'available') as available
       FROM item_types it
-      LEFT JOIN jars j ON j.itemTypeId = it.id
-      WHERE it.lowStockThreshold > 0
+      LEFT JOIN jars j ON j.itemTypeId = it.id AND j.deletedAt IS NULL
+      WHERE it.lowStockThreshold > 0 AND it.deletedAt IS NULL
       GROUP BY it.id, it.name, it.category, it.lowStockThreshold
       HAVING available < it.lowStockThreshold AND available >= 0
       ORDER BY (available * 1.0 / it.lowStockThreshold) ASC
@@ -726,7 +1386,7 @@ export async function getRunningLowItems(): Promise<
 }
 
 export async function getItemTypesWithCounts(): Promise<
-  Array<ItemType & { total: number; used: number }>
+  Array<ItemType & { total: number; available: number }>
 > {
   const database = await getDb();
   const rows = await database.getAllAsync<{
@@ -736,13 +1396,14 @@ export async function getItemTypesWithCounts(): Promise<
     recipe: string | null;
     notes: string | null;
     total: number;
-    used: number;
+    available: number;
   }>(
     `SELECT it.id, it.name, it.category, it.recipe, it.notes,
             COUNT(j.id) AS total,
-            SUM(CASE WHEN j.used = 1 THEN 1 ELSE 0 END) AS used
+            SUM(CASE WHEN j.status = 'available' THEN 1 ELSE 0 END) AS available
        FROM item_types it
-       LEFT JOIN jars j ON j.itemTypeId = it.id
+       LEFT JOIN jars j ON j.itemTypeId = it.id AND j.deletedAt IS NULL
+      WHERE it.deletedAt IS NULL
       GROUP BY it.id
       ORDER BY it.name COLLATE NOCASE`,
   );
@@ -753,27 +1414,136 @@ export async function getItemTypesWithCounts(): Promise<
     recipe: r.recipe ?? undefined,
     notes: r.notes ?? undefined,
     total: r.total,
-    used: r.used ?? 0,
+    available: r.available ?? 0,
   }));
 }
 
+// Generate a unique batch ID using timestamp and random component
+function generateBatchId(): string {
+  return `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
 export async function createJar(
   itemTypeId: number,
   fillDateISO: string,
   jarSize?: string,
   location?: string,
 ): Promise<number> {
-  const database = await getDb();
-  const res = await database.runAsync(
-    "INSERT INTO jars (itemTypeId, fillDateISO, used, jarSize, location) VALUES (?, ?, 0, ?, ?)",
+  // A single jar is a batch of one
+  const { jarIds } = await createMultipleJars(
     itemTypeId,
     fillDateISO,
-    jarSize ?? null,
-    location ?? null,
+    1,
+    jarSize,
+    location,
   );
-  return res.lastInsertRowId as number;
+  return jarIds[0];
+}
+
+// Jars are checked for a good seal this long after processing
+export const SEAL_CHECK_HOURS = 24;
+
+// Jars entered this long after their check was due are taken as checked,
+// e.g. when adding older stock
+const SEAL_CHECK_SKIP_AFTER_DAYS = 7;
+
+// When new jars of a batch are due for their seal check, or null if they
+// don't need one
+function getSealCheckDue(
+  fillDateISO: string,
+  processMethod?: ProcessMethod | null,
+): string | null {
+  // Fermented jars aren't sealed by processing
+  if (processMethod === "fermented") return null;
+  const due =
+    new Date(fillDateISO).getTime() + SEAL_CHECK_HOURS * 60 * 60 * 1000;
+  if (Date.now() - due > SEAL_CHECK_SKIP_AFTER_DAYS * 24 * 60 * 60 * 1000) {
+    return null;
+  }
+  return new Date(due).toISOString();
+}
+
+// Throws if a processing log can't be saved: negative or fractional counts,
+// or more failed seals than the batch has jars
+export function validateBatchProcessing(
+  processing: BatchProcessing,
+  jarCount?: number,
+): void {
+  const numbers = [
+    ["processMinutes", "Processing time", true],
+    ["processPressurePsi", "Pressure", false],
+    ["altitudeFeet", "Altitude", true],
+    ["headspaceInches", "Headspace", false],
+    ["failedSealCount", "Failed seals", true],
+  ] as const;
+  for (const [key, label, wholeNumber] of numbers) {
+    const value = processing[key];
+    if (value == null) continue;
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`${label} can't be negative`);
+    }
+    if (wholeNumber && !Number.isInteger(value)) {
+      throw new Error(`${label} must be a whole number`);
+    }
+  }
+  if (
+    jarCount !== undefined &&
+    processing.failedSealCount != null &&
+    processing.failedSealCount > jarCount
+  ) {
+    throw new Error(
+      `Failed seals can't be more than the ${jarCount} jar${jarCount !== 1 ? "s" : ""} in the batch`,
+    );
+  }
+}
+
+// Throws if a cost is negative or not a number
+export function validateBatchCosts(costs: BatchCosts): void {
+  for (const [key, label] of [
+    ["ingredientCost", "Ingredient cost"],
+    ["lidCost", "Lid cost"],
+  ] as const) {
+    const value = costs[key];
+    if (value != null && (!Number.isFinite(value) || value < 0)) {
+      throw new Error(`${label} can't be negative`);
+    }
+  }
+}
+
+// Ounces in a jar size, read from its name: "Pint (16 oz)" or "Liter (1000 ml)"
+export function getJarSizeOunces(jarSize?: string | null): number | null {
+  const match = jarSize?.match(/(\d+(?:\.\d+)?)\s*(oz|ml|l)\b/i);
+  if (!match) return null;
+  const amount = Number(match[1]);
+  switch (match[2].toLowerCase()) {
+    case "oz":
+      return amount;
+    case "ml":
+      return amount / 29.5735;
+    default:
+      return (amount * 1000) / 29.5735;
+  }
+}
+
+// A batch's total cost spread over its jars, or null if no cost was entered.
+// Per ounce is null when the jar size doesn't say how much it holds.
+export function getBatchCostSummary(
+  batch: BatchCosts & Pick<Batch, "jarSize" | "yieldCount">,
+): { total: number; perJar: number | null; perOunce: number | null } | null {
+  if (batch.ingredientCost == null && batch.lidCost == null) return null;
+  const total = (batch.ingredientCost ?? 0) + (batch.lidCost ?? 0);
+  const perJar = batch.yieldCount > 0 ? total / batch.yieldCount : null;
+  const ounces = getJarSizeOunces(batch.jarSize);
+  return {
+    total,
+    perJar,
+    perOunce: perJar !== null && ounces ? perJar / ounces : null,
+  };
 }
 
+// Costs have no currency symbol; they are in whatever the user enters
+export const formatCost = (amount: number) => amount.toFixed(2);
+
 export async function createMultipleJars(
   itemTypeId: number,
   fillDateISO: string,
@@ -781,42 +1551,71 @@ export async function createMultipleJars(
   jarSize?: string,
   location?: string,
   recipeId?: number,
+  notes?: string,
+  details: BatchProcessing & BatchCosts = {},
 ): Promise<{ jarIds: number[]; batchId: string }> {
-  const database = await getDb();
-  const jarIds: number[] = [];
+  validateBatchProcessing(details, quantity);
+  validateBatchCosts(details);
 
-  // Generate a unique batch ID using timestamp and random component
-  const batchId = `batch_${Date.now()}_${Math.random()
-    .toString(36)
-    .substr(2, 9)}`;
+  const database = await getDb();
+  const batchId = generateBatchId();
 
-  for (let i = 0; i < quantity; i++) {
-    const res = await database.runAsync(
-      "INSERT INTO jars (itemTypeId, fillDateISO, used, jarSize, location, batchId, recipeId) VALUES (?, ?, 0, ?, ?, ?, ?)",
+  const jarIds = await inTransaction(database, async () => {
+    const detailKeys = [...PROCESSING_KEYS, ...COST_KEYS];
+    await database.runAsync(
+      `INSERT INTO batches (id, itemTypeId, fillDateISO, jarSize, location, recipeId, notes, yieldCount, ${detailKeys.join(", ")}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ${detailKeys.map(() => "?").join(", ")})`,
       [
+        batchId,
         itemTypeId,
         fillDateISO,
         jarSize ?? null,
         location ?? null,
-        batchId,
         recipeId ?? null,
+        notes ?? null,
+        quantity,
+        ...detailKeys.map((key) => details[key] ?? null),
       ],
     );
-    jarIds.push(res.lastInsertRowId as number);
-  }
+
+    await takeSuppliesForJars(database, fillDateISO, jarSize, quantity);
+
+    const sealCheckDue = getSealCheckDue(fillDateISO, details.processMethod);
+    const ids = await insertRows(
+      database,
+      "INSERT INTO jars (itemTypeId, fillDateISO, jarSize, location, batchId, sealCheckDueISO) VALUES (?, ?, ?, ?, ?, ?)",
+      Array.from({ length: quantity }, () => [
+        itemTypeId,
+        fillDateISO,
+        jarSize ?? null,
+        location ?? null,
+        batchId,
+        sealCheckDue,
+      ]),
+    );
+    await logJarEvents(database, "created", "batchId = ?", [batchId]);
+    return ids;
+  });
 
   return { jarIds, batchId };
 }
 
 export async function getJarById(jarId: number): Promise<Jar | null> {
   const database = await getDb();
-  return await database.getFirstAsync<Jar>("SELECT * FROM jars WHERE id = ?", [
-    jarId,
-  ]);
+  return await database.getFirstAsync<Jar>(
+    "SELECT * FROM jars WHERE id = ? AND deletedAt IS NULL",
+    [jarId],
+  );
 }
 
-export async function markJarUsed(
+// Open an available jar, or take an available or opened jar off the shelf.
+// The date defaults to now. A used jar can go back to the empty jars in
+// supplies.
+export async function setJarStatus(
   jarId: number,
+  status: Exclude<JarStatus, "available">,
+  reason?: string,
+  dateISO?: string,
+  returnEmptyJar = false,
 ): Promise<{ success: boolean; message: string; jar?: Jar }> {
   const database = await getDb();
 
@@ -826,76 +1625,436 @@ export async function markJarUsed(
     return { success: false, message: "Jar not found" };
   }
 
-  // Check if already used
-  if (jar.used) {
+  // Only sealed jars can be opened; opened jars can still be used up or lost
+  const canChange =
+    jar.status === "available" ||
+    (jar.status === "opened" && status !== "opened");
+  if (!canChange) {
     return {
       success: false,
-      message: "This jar has already been marked as used",
+      message: `This jar has already been marked as ${JAR_STATUS_LABELS[
+        jar.status
+      ].toLowerCase()}`,
       jar,
     };
   }
 
-  // Mark as used
-  const usedDate = new Date().toISOString();
-  await database.runAsync(
-    "UPDATE jars SET used = 1, usedDateISO = ? WHERE id = ?",
-    [usedDate, jarId],
-  );
-  return { success: true, message: "Jar marked as used successfully", jar };
+  const date = dateISO ?? new Date().toISOString();
+  await inTransaction(database, async () => {
+    await logJarEvents(database, "status_changed", "id = ?", [jarId], {
+      fromColumn: "status",
+      toValue: status,
+    });
+    if (status === "opened") {
+      await database.runAsync(
+        "UPDATE jars SET status = 'opened', openedDateISO = ? WHERE id = ?",
+        [date, jarId],
+      );
+    } else {
+      await database.runAsync(
+        "UPDATE jars SET status = ?, statusReason = ?, statusDateISO = ? WHERE id = ?",
+        [status, reason?.trim() || null, date, jarId],
+      );
+    }
+    // Jar sizes don't record a mouth width, so a new row leaves it unset
+    if (returnEmptyJar && status === "used" && jar.jarSize) {
+      await database.runAsync(
+        `INSERT INTO supplies (kind, name, mouth, quantity) VALUES ('jar', ?, NULL, 1)
+           ON CONFLICT (kind, name) DO UPDATE SET quantity = quantity + 1`,
+        [jar.jarSize],
+      );
+    }
+  });
+  return {
+    success: true,
+    message: `Jar marked as ${JAR_STATUS_LABELS[status].toLowerCase()}`,
+    jar,
+  };
 }
 
-export async function deleteJar(jarId: number): Promise<void> {
-  const database = await getDb();
-  await database.runAsync("DELETE FROM jars WHERE id = ?", [jarId]);
+export async function markJarUsed(
+  jarId: number,
+): Promise<{ success: boolean; message: string; jar?: Jar }> {
+  return setJarStatus(jarId, "used");
 }
 
-export async function deleteJarWithBatchCheck(jarId: number): Promise<{
-  success: boolean;
-  batchDeleted: boolean;
-  batchId?: string;
-}> {
-  const database = await getDb();
+export async function markJarOpened(
+  jarId: number,
+): Promise<{ success: boolean; message: string; jar?: Jar }> {
+  return setJarStatus(jarId, "opened");
+}
 
-  // Get jar details before deletion
+// Step a jar back one status (reverses setJarStatus).
+// A jar that was opened before it left the shelf goes back to the fridge,
+// and an empty jar put back in supplies is taken out again.
+export async function revertJarStatus(
+  jarId: number,
+  emptyJarReturned = false,
+): Promise<void> {
+  const database = await getDb();
   const jar = await getJarById(jarId);
-  if (!jar) {
-    return { success: false, batchDeleted: false };
-  }
-
-  const batchId = jar.batchId;
-
-  // Delete the jar
-  await database.runAsync("DELETE FROM jars WHERE id = ?", [jarId]);
-
-  // Check if this was the last jar in the batch
-  if (batchId) {
-    const remainingJars = await database.getFirstAsync<{ count: number }>(
-      "SELECT COUNT(*) as count FROM jars WHERE batchId = ?",
-      [batchId],
+  if (!jar || jar.status === "available") return;
+
+  const previous: JarStatus =
+    jar.status !== "opened" && jar.openedDateISO ? "opened" : "available";
+  await inTransaction(database, async () => {
+    await logJarEvents(database, "status_changed", "id = ?", [jarId], {
+      fromColumn: "status",
+      toValue: previous,
+    });
+    await database.runAsync(
+      "UPDATE jars SET status = ?, openedDateISO = ?, statusReason = NULL, statusDateISO = NULL WHERE id = ?",
+      [previous, previous === "opened" ? jar.openedDateISO! : null, jarId],
     );
-
-    if (remainingJars && remainingJars.count === 0) {
-      // Batch is now empty
-      return { success: true, batchDeleted: true, batchId };
+    if (emptyJarReturned && jar.jarSize) {
+      await database.runAsync(
+        "UPDATE supplies SET quantity = MAX(quantity - 1, 0) WHERE kind = 'jar' AND name = ?",
+        [jar.jarSize],
+      );
     }
-  }
-
-  return { success: true, batchDeleted: false, batchId };
+  });
 }
 
-export async function addJarToBatch(
-  batchId: string,
-  itemTypeId: number,
-  fillDateISO: string,
-  jarSize?: string,
-  location?: string,
-): Promise<number> {
+export type OpenedJar = {
+  jarId: number;
+  batchId: string;
+  itemTypeId: number;
+  name: string;
+  fillDateISO: string;
+  openedDateISO: string;
+  fridgeLifeDays: number | null; // Item type's, else its category's
+  finishByISO: string | null; // Null when no fridge life is set
+};
+
+// Opened jars, the ones that must be finished soonest first
+export async function getOpenedJars(): Promise<OpenedJar[]> {
+  return withDb(async (database) => {
+    const rows = await database.getAllAsync<Omit<OpenedJar, "finishByISO">>(
+      `SELECT j.id as jarId,
+              j.batchId,
+              j.itemTypeId,
+              it.name,
+              j.fillDateISO,
+              j.openedDateISO,
+              COALESCE(it.fridgeLifeDays, c.fridgeLifeDays) as fridgeLifeDays
+         FROM jars j
+         JOIN item_types it ON it.id = j.itemTypeId
+         LEFT JOIN custom_categories c ON c.name = it.category
+        WHERE j.status = 'opened' AND j.deletedAt IS NULL
+        ORDER BY COALESCE(it.fridgeLifeDays, c.fridgeLifeDays) IS NULL,
+                 julianday(j.openedDateISO) + COALESCE(it.fridgeLifeDays, c.fridgeLifeDays),
+                 j.openedDateISO`,
+    );
+
+    return rows.map((r) => ({
+      ...r,
+      finishByISO:
+        r.fridgeLifeDays != null
+          ? new Date(
+              new Date(r.openedDateISO).getTime() +
+                r.fridgeLifeDays * 24 * 60 * 60 * 1000,
+            ).toISOString()
+          : null,
+    }));
+  });
+}
+
+// A batch with jars still waiting for their seal check
+export type PendingSealCheck = {
+  batchId: string;
+  itemTypeId: number;
+  name: string;
+  fillDateISO: string;
+  jarCount: number;
+  dueISO: string; // When the first of its jars is due
+};
+
+export type SealCheckResult = "sealed" | "failed" | "reprocess";
+
+// Batches waiting for a seal check, the ones due first first
+export async function getPendingSealChecks(): Promise<PendingSealCheck[]> {
+  return withDb(async (database) => {
+    return await database.getAllAsync<PendingSealCheck>(
+      `SELECT j.batchId,
+              j.itemTypeId,
+              it.name,
+              MIN(j.fillDateISO) as fillDateISO,
+              COUNT(*) as jarCount,
+              MIN(j.sealCheckDueISO) as dueISO
+         FROM jars j
+         JOIN item_types it ON it.id = j.itemTypeId
+        WHERE j.sealCheckDueISO IS NOT NULL
+          AND j.status = 'available'
+          AND j.deletedAt IS NULL
+          AND it.deletedAt IS NULL
+        GROUP BY j.batchId
+        ORDER BY MIN(j.sealCheckDueISO)`,
+    );
+  });
+}
+
+export async function getJarsAwaitingSealCheck(
+  batchId: string,
+): Promise<Jar[]> {
   const database = await getDb();
-  const res = await database.runAsync(
-    "INSERT INTO jars (itemTypeId, fillDateISO, used, jarSize, location, batchId) VALUES (?, ?, 0, ?, ?, ?)",
-    [itemTypeId, fillDateISO, jarSize ?? null, location ?? null, batchId],
+  return await database.getAllAsync<Jar>(
+    "SELECT * FROM jars WHERE batchId = ? AND sealCheckDueISO IS NOT NULL AND status = 'available' AND deletedAt IS NULL ORDER BY id ASC",
+    [batchId],
   );
-  return res.lastInsertRowId as number;
+}
+
+// Record the seal check of some jars. Sealed jars are shelf stable; failed
+// ones go in the fridge to be used first, and reprocessed ones get checked
+// again later. Both count as failed seals in their batch's processing log.
+export async function recordSealCheck(
+  results: Record<number, SealCheckResult>,
+): Promise<void> {
+  const entries = Object.entries(results);
+  if (entries.length === 0) return;
+
+  const database = await getDb();
+  const now = new Date();
+  const recheckDue = new Date(
+    now.getTime() + SEAL_CHECK_HOURS * 60 * 60 * 1000,
+  ).toISOString();
+
+  await inTransaction(database, async () => {
+    for (const [id, result] of entries) {
+      const jarId = Number(id);
+      const where =
+        "id = ? AND sealCheckDueISO IS NOT NULL AND status = 'available'";
+      // A jar counts as a failed seal once, however often it is re-checked
+      if (result !== "sealed") {
+        await database.runAsync(
+          `UPDATE batches
+              SET failedSealCount = COALESCE(failedSealCount, 0) + 1
+            WHERE id = (SELECT batchId FROM jars WHERE ${where})
+              AND NOT EXISTS (
+                SELECT 1 FROM jar_events
+                 WHERE jarId = ? AND type = 'seal_checked' AND toValue <> 'sealed')`,
+          [jarId, jarId],
+        );
+      }
+      await logJarEvents(database, "seal_checked", where, [jarId], {
+        fromColumn: "sealCheckDueISO",
+        toValue: result,
+      });
+
+      if (result === "sealed") {
+        await database.runAsync(
+          `UPDATE jars SET sealCheckDueISO = NULL WHERE ${where}`,
+          [jarId],
+        );
+      } else if (result === "failed") {
+        await logJarEvents(database, "status_changed", where, [jarId], {
+          fromColumn: "status",
+          toValue: "opened",
+        });
+        await database.runAsync(
+          `UPDATE jars
+              SET status = 'opened', openedDateISO = ?, statusReason = 'Seal failed',
+                  sealCheckDueISO = NULL
+            WHERE ${where}`,
+          [now.toISOString(), jarId],
+        );
+      } else {
+        await database.runAsync(
+          `UPDATE jars SET sealCheckDueISO = ? WHERE ${where}`,
+          [recheckDue, jarId],
+        );
+      }
+    }
+  });
+}
+
+export type ShelvedJar = {
+  jarId: number;
+  batchId: string;
+  itemTypeId: number;
+  name: string;
+  fillDateISO: string;
+  location: string | null;
+  status: JarStatus;
+};
+
+// Jars still on the shelf or in the fridge, grouped by item and batch
+export async function getShelvedJars(): Promise<ShelvedJar[]> {
+  const database = await getDb();
+  return await database.getAllAsync<ShelvedJar>(
+    `SELECT j.id as jarId, j.batchId, j.itemTypeId, it.name, j.fillDateISO,
+            j.location, j.status
+       FROM jars j
+       JOIN item_types it ON it.id = j.itemTypeId
+      WHERE j.status IN ('available', 'opened') AND j.deletedAt IS NULL
+      ORDER BY it.name COLLATE NOCASE, datetime(j.fillDateISO), j.batchId, j.id`,
+  );
+}
+
+export type JarMove = { jarId: number; location: string | null };
+
+// Give each jar its own location. Returns where the moved jars were before,
+// so the move can be undone by passing that back in.
+export async function moveJars(moves: JarMove[]): Promise<JarMove[]> {
+  if (moves.length === 0) return [];
+  const database = await getDb();
+
+  return await inTransaction(database, async () => {
+    const placeholders = moves.map(() => "?").join(", ");
+    const previous = await database.getAllAsync<JarMove>(
+      `SELECT id as jarId, location FROM jars WHERE id IN (${placeholders})`,
+      moves.map((move) => move.jarId),
+    );
+    const changed = previous.filter(
+      (jar) =>
+        (moves.find((move) => move.jarId === jar.jarId)!.location ?? null) !==
+        jar.location,
+    );
+
+    // Jars going to the same place share one event timestamp
+    const byLocation = new Map<string | null, number[]>();
+    for (const move of moves) {
+      const jarIds = byLocation.get(move.location ?? null) ?? [];
+      jarIds.push(move.jarId);
+      byLocation.set(move.location ?? null, jarIds);
+    }
+    for (const [location, jarIds] of byLocation) {
+      const where = `id IN (${jarIds.map(() => "?").join(", ")}) AND location IS NOT ?`;
+      await logJarEvents(database, "moved", where, [...jarIds, location], {
+        fromColumn: "location",
+        toValue: location,
+      });
+      await database.runAsync(`UPDATE jars SET location = ? WHERE ${where}`, [
+        location,
+        ...jarIds,
+        location,
+      ]);
+    }
+
+    // A batch whose jars now all sit in one place takes that as its location;
+    // a batch spread over several places keeps its own
+    await database.runAsync(
+      `UPDATE batches
+          SET location = (SELECT MIN(j.location) FROM jars j
+                           WHERE j.batchId = batches.id
+                             AND j.deletedAt IS NULL
+                             AND j.status IN ('available', 'opened'))
+        WHERE id IN (SELECT batchId FROM jars WHERE id IN (${placeholders}))
+          AND (SELECT COUNT(DISTINCT COALESCE(j.location, '')) FROM jars j
+                WHERE j.batchId = batches.id
+                  AND j.deletedAt IS NULL
+                  AND j.status IN ('available', 'opened')) = 1`,
+      moves.map((move) => move.jarId),
+    );
+
+    return changed;
+  });
+}
+
+export type OlderJar = {
+  jarId: number;
+  batchId: string;
+  fillDateISO: string;
+  location: string | null;
+  olderCount: number; // Sealed jars of the item filled before the scanned one
+};
+
+// The oldest sealed jar of the same item filled on an earlier day, so the
+// scanner can point at it before a newer jar is used (first in, first out)
+export async function getOlderAvailableJar(
+  jarId: number,
+): Promise<OlderJar | null> {
+  const database = await getDb();
+  return await database.getFirstAsync<OlderJar>(
+    `SELECT o.id as jarId,
+            o.batchId,
+            o.fillDateISO,
+            o.location,
+            COUNT(*) OVER () as olderCount
+       FROM jars j
+       JOIN jars o ON o.itemTypeId = j.itemTypeId
+        AND o.status = 'available'
+        AND o.deletedAt IS NULL
+        AND date(o.fillDateISO) < date(j.fillDateISO)
+      WHERE j.id = ?
+      ORDER BY datetime(o.fillDateISO), o.id
+      LIMIT 1`,
+    [jarId],
+  );
+}
+
+// Move a single jar to the trash
+export async function deleteJar(jarId: number): Promise<void> {
+  await deleteJarWithBatchCheck(jarId);
+}
+
+export async function deleteJarWithBatchCheck(jarId: number): Promise<{
+  success: boolean;
+  batchDeleted: boolean;
+  batchId?: string;
+}> {
+  const database = await getDb();
+
+  // Get jar details before deletion
+  const jar = await getJarById(jarId);
+  if (!jar) {
+    return { success: false, batchDeleted: false };
+  }
+
+  const batchId = jar.batchId;
+  const deletedAt = new Date().toISOString();
+
+  const batchDeleted = await inTransaction(database, async () => {
+    // Move the jar to the trash
+    await database.runAsync("UPDATE jars SET deletedAt = ? WHERE id = ?", [
+      deletedAt,
+      jarId,
+    ]);
+    await logJarEvents(database, "deleted", "id = ?", [jarId]);
+
+    if (!batchId) return false;
+
+    // Check if this was the last jar in the batch
+    const remainingJars = await database.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) as count FROM jars WHERE batchId = ? AND deletedAt IS NULL",
+      [batchId],
+    );
+
+    if (remainingJars && remainingJars.count === 0) {
+      // Batch is now empty, so it goes to the trash together with the jar
+      await database.runAsync(
+        "UPDATE batches SET deletedAt = ? WHERE id = ?",
+        [deletedAt, batchId],
+      );
+      return true;
+    }
+
+    // Removing a jar corrects the batch, so it no longer counts toward the yield
+    await database.runAsync(
+      "UPDATE batches SET yieldCount = MAX(yieldCount - 1, 0) WHERE id = ?",
+      [batchId],
+    );
+    return false;
+  });
+
+  return { success: true, batchDeleted, batchId };
+}
+
+export async function addJarToBatch(
+  batchId: string,
+  itemTypeId: number,
+  fillDateISO: string,
+  jarSize?: string,
+  location?: string,
+): Promise<number> {
+  const jarIds = await addMultipleJarsToBatch(
+    batchId,
+    itemTypeId,
+    fillDateISO,
+    1,
+    jarSize,
+    location,
+  );
+  return jarIds[0];
 }
 
 export async function addMultipleJarsToBatch(
@@ -907,23 +2066,46 @@ export async function addMultipleJarsToBatch(
   location?: string,
 ): Promise<number[]> {
   const database = await getDb();
-  const jarIds: number[] = [];
 
-  for (let i = 0; i < quantity; i++) {
-    const res = await database.runAsync(
-      "INSERT INTO jars (itemTypeId, fillDateISO, used, jarSize, location, batchId) VALUES (?, ?, 0, ?, ?, ?)",
-      [itemTypeId, fillDateISO, jarSize ?? null, location ?? null, batchId],
+  return await inTransaction(database, async () => {
+    const batch = await database.getFirstAsync<Pick<Batch, "processMethod">>(
+      "SELECT processMethod FROM batches WHERE id = ?",
+      [batchId],
     );
-    jarIds.push(res.lastInsertRowId as number);
-  }
+    const sealCheckDue = getSealCheckDue(fillDateISO, batch?.processMethod);
+    const jarIds = await insertRows(
+      database,
+      "INSERT INTO jars (itemTypeId, fillDateISO, jarSize, location, batchId, sealCheckDueISO) VALUES (?, ?, ?, ?, ?, ?)",
+      Array.from({ length: quantity }, () => [
+        itemTypeId,
+        fillDateISO,
+        jarSize ?? null,
+        location ?? null,
+        batchId,
+        sealCheckDue,
+      ]),
+    );
+    await logJarEvents(
+      database,
+      "created",
+      `id IN (${jarIds.map(() => "?").join(", ")})`,
+      jarIds,
+    );
+
+    await database.runAsync(
+      "UPDATE batches SET yieldCount = yieldCount + ? WHERE id = ?",
+      [quantity, batchId],
+    );
+    await takeSuppliesForJars(database, fillDateISO, jarSize, quantity);
 
-  return jarIds;
+    return jarIds;
+  });
 }
 
 export async function getJarsForItemType(itemTypeId: number): Promise<Jar[]> {
   const database = await getDb();
   return await database.getAllAsync<Jar>(
-    "SELECT * FROM jars WHERE itemTypeId = ? ORDER BY datetime(fillDateISO) DESC",
+    "SELECT * FROM jars WHERE itemTypeId = ? AND deletedAt IS NULL ORDER BY datetime(fillDateISO) DESC",
     [itemTypeId],
   );
 }
@@ -931,548 +2113,2835 @@ export async function getJarsForItemType(itemTypeId: number): Promise<Jar[]> {
 export async function getJarsForBatch(batchId: string): Promise<Jar[]> {
   const database = await getDb();
   return await database.getAllAsync<Jar>(
-    "SELECT * FROM jars WHERE batchId = ? ORDER BY id ASC",
+    "SELECT * FROM jars WHERE batchId = ? AND deletedAt IS NULL ORDER BY id ASC",
     [batchId],
   );
 }
 
-export async function getAllBatches(): Promise<
-  Array<{
-    id: number;
-    name: string;
-    category: string;
-    fillDate: string;
-    jarSize: string;
-    location: string;
-    notes: string;
-    totalJars: number;
-    usedJars: number;
-    availableJars: number;
-    jarIds: number[];
-    batchId: string;
-  }>
-> {
-  return withDb(async (database) => {
-    const rows = await database.getAllAsync<{
-      itemTypeId: number;
-      name: string;
-      category: string | null;
-      notes: string | null;
-      fillDateISO: string;
-      jarSize: string | null;
-      location: string | null;
-      totalJars: number;
-      usedJars: number;
-      jarIds: string;
-      batchId: string | null;
-    }>(
-      `SELECT 
-         it.id as itemTypeId,
-         it.name,
-         it.category,
-         it.notes,
-         j.fillDateISO,
-         j.jarSize,
-         j.location,
-         j.batchId,
-         COUNT(j.id) as totalJars,
-         SUM(CASE WHEN j.used = 1 THEN 1 ELSE 0 END) as usedJars,
-         GROUP_CONCAT(j.id) as jarIds
-       FROM item_types it
-       JOIN jars j ON j.itemTypeId = it.id
-       WHERE j.batchId IS NOT NULL
-       GROUP BY j.batchId
-       ORDER BY datetime(j.fillDateISO) DESC`,
+export async function getBatchById(batchId: string): Promise<Batch | null> {
+  const database = await getDb();
+  return await database.getFirstAsync<Batch>(
+    "SELECT * FROM batches WHERE id = ? AND deletedAt IS NULL",
+    [batchId],
+  );
+}
+
+export async function updateBatch(
+  batchId: string,
+  changes: Partial<Omit<Batch, "id" | "createdDateISO">>,
+): Promise<void> {
+  validateBatchProcessing(changes);
+  validateBatchCosts(changes);
+
+  const database = await getDb();
+  const fields = [];
+  const values = [];
+
+  for (const key of [
+    "itemTypeId",
+    "fillDateISO",
+    "jarSize",
+    "location",
+    "recipeId",
+    "notes",
+    "yieldCount",
+    ...PROCESSING_KEYS,
+    ...COST_KEYS,
+  ] as const) {
+    if (changes[key] !== undefined) {
+      fields.push(`${key} = ?`);
+      values.push(changes[key]);
+    }
+  }
+
+  if (fields.length === 0) return;
+
+  await inTransaction(database, async () => {
+    const previous = await database.getFirstAsync<Batch>(
+      "SELECT * FROM batches WHERE id = ?",
+      [batchId],
+    );
+    await database.runAsync(
+      `UPDATE batches SET ${fields.join(", ")} WHERE id = ?`,
+      [...values, batchId],
     );
 
-    return rows.map((r) => ({
-      id: r.itemTypeId,
-      name: r.name,
-      category: r.category ?? "other",
-      fillDate: r.fillDateISO,
-      jarSize: r.jarSize ?? "Unknown",
-      location: r.location ?? "",
-      notes: r.notes ?? "",
-      totalJars: r.totalJars,
-      usedJars: r.usedJars ?? 0,
-      availableJars: r.totalJars - (r.usedJars ?? 0),
-      jarIds: r.jarIds.split(",").map((id) => parseInt(id, 10)),
-      batchId: r.batchId ?? "",
-    }));
+    // Jars keep a copy of the batch's item, fill date, size and location so
+    // per-jar queries (statistics, item history) don't need the batches join
+    if (changes.itemTypeId !== undefined) {
+      await database.runAsync(
+        "UPDATE jars SET itemTypeId = ? WHERE batchId = ?",
+        [changes.itemTypeId, batchId],
+      );
+    }
+
+    // Only jars still on the shelf with the batch's old value follow it, so
+    // jars moved on their own and jars already used keep what they had
+    for (const [column, type] of [
+      ["location", "moved"],
+      ["jarSize", "size_changed"],
+      ["fillDateISO", "date_changed"],
+    ] as const) {
+      const value = changes[column];
+      if (value === undefined || !previous || value === previous[column]) {
+        continue;
+      }
+      const where = `batchId = ? AND deletedAt IS NULL AND status IN ('available', 'opened') AND ${column} IS ?`;
+      const whereParams = [batchId, previous[column] ?? null];
+      await logJarEvents(database, type, where, whereParams, {
+        fromColumn: column,
+        toValue: value,
+      });
+      await database.runAsync(`UPDATE jars SET ${column} = ? WHERE ${where}`, [
+        value,
+        ...whereParams,
+      ]);
+    }
   });
 }
 
-export async function getJarStats(): Promise<{
-  total: number;
-  available: number;
-  used: number;
-}> {
-  return withDb(async (database) => {
-    const result = await database.getFirstAsync<{
-      total: number;
-      used: number;
-    }>(
-      `SELECT 
-         COUNT(*) as total,
-         SUM(CASE WHEN used = 1 THEN 1 ELSE 0 END) as used
-       FROM jars`,
+// Move a batch and its jars to the trash
+export async function deleteBatch(batchId: string): Promise<void> {
+  const database = await getDb();
+  const deletedAt = new Date().toISOString();
+  await inTransaction(database, async () => {
+    await database.runAsync(
+      "UPDATE jars SET deletedAt = ? WHERE batchId = ? AND deletedAt IS NULL",
+      [deletedAt, batchId],
+    );
+    await logJarEvents(database, "deleted", "batchId = ? AND deletedAt = ?", [
+      batchId,
+      deletedAt,
+    ]);
+    await database.runAsync(
+      "UPDATE batches SET deletedAt = ? WHERE id = ? AND deletedAt IS NULL",
+      [deletedAt, batchId],
     );
-
-    const total = result?.total ?? 0;
-    const used = result?.used ?? 0;
-    const available = total - used;
-
-    return { total, available, used };
   });
 }
 
-export async function exportToJson(): Promise<string> {
+export async function getTrash(): Promise<TrashEntry[]> {
   const database = await getDb();
-  const itemTypes = await database.getAllAsync<ItemType>(
-    "SELECT id, name, category, recipe, notes, recipe_image, lowStockThreshold FROM item_types",
-  );
-  const jars = await database.getAllAsync<Jar>(
-    "SELECT id, itemTypeId, fillDateISO, used, jarSize, location, batchId, recipeId FROM jars",
-  );
-  const customCategories = await database.getAllAsync<CustomCategory>(
-    "SELECT id, name, icon, isDefault FROM custom_categories",
-  );
-  const customJarSizes = await database.getAllAsync<CustomJarSize>(
-    "SELECT id, name, isDefault, hidden FROM custom_jar_sizes",
-  );
-  const recipes = await database.getAllAsync<Recipe>(
-    "SELECT id, name, content, image, created_date, last_used_date FROM recipes",
-  );
-  return JSON.stringify(
-    { itemTypes, jars, customCategories, customJarSizes, recipes },
-    null,
-    2,
+  return await database.getAllAsync<TrashEntry>(
+    `SELECT 'itemType' AS kind, it.id, it.name, NULL AS fillDateISO,
+            (SELECT COUNT(*) FROM jars j
+              WHERE j.itemTypeId = it.id AND j.deletedAt = it.deletedAt) AS jarCount,
+            it.deletedAt
+       FROM item_types it
+      WHERE it.deletedAt IS NOT NULL
+     UNION ALL
+     SELECT 'batch' AS kind, b.id, it.name, b.fillDateISO,
+            (SELECT COUNT(*) FROM jars j
+              WHERE j.batchId = b.id AND j.deletedAt = b.deletedAt) AS jarCount,
+            b.deletedAt
+       FROM batches b
+       JOIN item_types it ON it.id = b.itemTypeId
+      WHERE b.deletedAt IS NOT NULL
+        AND (it.deletedAt IS NULL OR it.deletedAt != b.deletedAt)
+     UNION ALL
+     SELECT 'jar' AS kind, j.id, it.name, j.fillDateISO, 1 AS jarCount, j.deletedAt
+       FROM jars j
+       JOIN item_types it ON it.id = j.itemTypeId
+       LEFT JOIN batches b ON b.id = j.batchId
+      WHERE j.deletedAt IS NOT NULL
+        AND (b.deletedAt IS NULL OR b.deletedAt != j.deletedAt)
+        AND (it.deletedAt IS NULL OR it.deletedAt != j.deletedAt)
+      ORDER BY deletedAt DESC`,
   );
 }
 
-export type ImportPayload = {
-  itemTypes: ItemType[];
-  jars: Jar[];
-  customCategories?: CustomCategory[];
-  customJarSizes?: CustomJarSize[];
-  recipes?: Recipe[];
-};
+// Bring an entry back together with everything that was trashed with it.
+// Restoring a jar or batch also restores its item type (and batch) rows.
+export async function restoreFromTrash(entry: TrashEntry): Promise<void> {
+  if (entry.kind === "itemType") {
+    await restoreItemType(entry.id as number);
+  } else if (entry.kind === "batch") {
+    await restoreBatch(entry.id as string);
+  } else {
+    await restoreJar(entry.id as number);
+  }
+}
 
-export async function importFromJson(json: string): Promise<void> {
+export async function restoreItemType(id: number): Promise<void> {
   const database = await getDb();
-  const payload = JSON.parse(json) as ImportPayload;
-  await database.execAsync("BEGIN");
-  try {
-    await database.execAsync(
-      "DELETE FROM jars; DELETE FROM item_types; DELETE FROM custom_categories; DELETE FROM custom_jar_sizes; DELETE FROM recipes;",
+  await inTransaction(database, async () => {
+    await logJarEvents(
+      database,
+      "restored",
+      "itemTypeId = ? AND deletedAt = (SELECT deletedAt FROM item_types WHERE id = ?)",
+      [id, id],
     );
+    await database.runAsync(
+      `UPDATE batches SET deletedAt = NULL
+        WHERE itemTypeId = ?
+          AND deletedAt = (SELECT deletedAt FROM item_types WHERE id = ?)`,
+      [id, id],
+    );
+    await database.runAsync(
+      `UPDATE jars SET deletedAt = NULL
+        WHERE itemTypeId = ?
+          AND deletedAt = (SELECT deletedAt FROM item_types WHERE id = ?)`,
+      [id, id],
+    );
+    await database.runAsync(
+      "UPDATE item_types SET deletedAt = NULL WHERE id = ?",
+      [id],
+    );
+  });
+}
 
-    // Import custom categories first
-    if (payload.customCategories) {
-      for (const category of payload.customCategories) {
-        await database.runAsync(
-          "INSERT INTO custom_categories (id, name, icon, isDefault) VALUES (?, ?, ?, ?)",
-          category.id ?? null,
-          category.name,
-          category.icon,
-          category.isDefault ? 1 : 0,
-        );
-      }
-    } else {
-      // No custom categories in backup, initialize with defaults
-      console.log("No categories in backup, initializing with defaults...");
-      for (const category of CATEGORIES) {
-        await database.runAsync(
-          "INSERT INTO custom_categories (name, icon, isDefault) VALUES (?, ?, 1)",
-          [category.name, category.icon],
-        );
-      }
-    }
+export async function restoreBatch(batchId: string): Promise<void> {
+  const database = await getDb();
+  await inTransaction(database, async () => {
+    await logJarEvents(
+      database,
+      "restored",
+      "batchId = ? AND deletedAt = (SELECT deletedAt FROM batches WHERE id = ?)",
+      [batchId, batchId],
+    );
+    await database.runAsync(
+      `UPDATE jars SET deletedAt = NULL
+        WHERE batchId = ?
+          AND deletedAt = (SELECT deletedAt FROM batches WHERE id = ?)`,
+      [batchId, batchId],
+    );
+    await database.runAsync(
+      "UPDATE batches SET deletedAt = NULL WHERE id = ?",
+      [batchId],
+    );
+    await database.runAsync(
+      "UPDATE item_types SET deletedAt = NULL WHERE id = (SELECT itemTypeId FROM batches WHERE id = ?)",
+      [batchId],
+    );
+  });
+}
 
-    // Import custom jar sizes
-    if (payload.customJarSizes) {
-      for (const jarSize of payload.customJarSizes) {
-        await database.runAsync(
-          "INSERT INTO custom_jar_sizes (id, name, isDefault, hidden) VALUES (?, ?, ?, ?)",
-          jarSize.id ?? null,
-          jarSize.name,
-          jarSize.isDefault ? 1 : 0,
-          jarSize.hidden ? 1 : 0,
-        );
-      }
-    } else {
-      // No jar sizes in backup, initialize with defaults
-      console.log("No jar sizes in backup, initializing with defaults...");
-      for (const jarSize of JAR_SIZES) {
-        await database.runAsync(
-          "INSERT INTO custom_jar_sizes (name, isDefault, hidden) VALUES (?, 1, 0)",
-          [jarSize],
-        );
-      }
+export async function restoreJar(jarId: number): Promise<void> {
+  const database = await getDb();
+  const trashed = await database.getFirstAsync<{
+    batchId: string | null;
+    jarDeletedAt: string | null;
+    batchDeletedAt: string | null;
+  }>(
+    `SELECT j.batchId, j.deletedAt as jarDeletedAt, b.deletedAt as batchDeletedAt
+       FROM jars j
+       LEFT JOIN batches b ON b.id = j.batchId
+      WHERE j.id = ?`,
+    [jarId],
+  );
+  if (!trashed?.jarDeletedAt) return;
+
+  await inTransaction(database, async () => {
+    await logJarEvents(database, "restored", "id = ? AND deletedAt IS NOT NULL", [
+      jarId,
+    ]);
+    await database.runAsync("UPDATE jars SET deletedAt = NULL WHERE id = ?", [
+      jarId,
+    ]);
+    // A batch brought back for this jar leaves the jars trashed with it in the
+    // trash, so they stop counting toward its yield like other trashed jars
+    if (trashed.batchDeletedAt) {
+      await database.runAsync(
+        `UPDATE batches
+            SET deletedAt = NULL,
+                yieldCount = MAX(yieldCount - (SELECT COUNT(*) FROM jars
+                                                WHERE batchId = ?1 AND deletedAt = ?2), 0)
+          WHERE id = ?1`,
+        [trashed.batchId, trashed.batchDeletedAt],
+      );
     }
-
-    // Import recipes
-    if (payload.recipes) {
-      for (const recipe of payload.recipes) {
-        await database.runAsync(
-          "INSERT INTO recipes (id, name, content, image, created_date, last_used_date) VALUES (?, ?, ?, ?, ?, ?)",
-          recipe.id ?? null,
-          recipe.name,
-          recipe.content,
-          recipe.image ?? null,
-          recipe.created_date ?? null,
-          recipe.last_used_date ?? null,
-        );
-      }
+    // Only a jar trashed on its own was taken off the yield (the last jar of
+    // a batch goes to the trash with it instead)
+    if (trashed.jarDeletedAt !== trashed.batchDeletedAt) {
+      await database.runAsync(
+        "UPDATE batches SET yieldCount = yieldCount + 1 WHERE id = ?",
+        [trashed.batchId],
+      );
     }
+    await database.runAsync(
+      "UPDATE item_types SET deletedAt = NULL WHERE id = (SELECT itemTypeId FROM jars WHERE id = ?)",
+      [jarId],
+    );
+  });
+}
 
-    // Map old category IDs to proper names during import
-    const categoryMapping: { [key: string]: string } = {
-      fruits: "Fruits",
-      vegetables: "Vegetables",
-      preserves: "Preserves",
-      pickles: "Pickles",
-      sauces: "Sauces",
-      meats: "Meats",
-      drinks: "Drinks",
-      meals: "Meals",
-      other: "Other",
-    };
-
-    for (const it of payload.itemTypes) {
-      // Migrate old category ID to new category name if needed
-      let category = it.category;
-      if (category && categoryMapping[category]) {
-        category = categoryMapping[category];
-      }
-
-      const res = await database.runAsync(
-        "INSERT INTO item_types (id, name, category, recipe, notes, recipe_image) VALUES (?, ?, ?, ?, ?, ?)",
-        it.id ?? null,
-        it.name,
-        category ?? null,
-        it.recipe ?? null,
-        it.notes ?? null,
-        it.recipe_image ?? null,
+// Permanently delete an entry and everything that was trashed with it
+export async function deleteFromTrash(entry: TrashEntry): Promise<void> {
+  const database = await getDb();
+  await inTransaction(database, async () => {
+    if (entry.kind === "itemType") {
+      await database.runAsync(
+        "DELETE FROM jar_events WHERE jarId IN (SELECT id FROM jars WHERE itemTypeId = ?)",
+        [entry.id],
       );
-      // preserve ids
-      if (!it.id) {
-        await database.runAsync(
-          "UPDATE item_types SET id = ? WHERE rowid = ?",
-          res.lastInsertRowId,
-          res.lastInsertRowId,
-        );
-      }
-    }
-    for (const j of payload.jars) {
+      await database.runAsync("DELETE FROM jars WHERE itemTypeId = ?", [
+        entry.id,
+      ]);
+      await database.runAsync("DELETE FROM batches WHERE itemTypeId = ?", [
+        entry.id,
+      ]);
+      await database.runAsync("DELETE FROM item_types WHERE id = ?", [
+        entry.id,
+      ]);
+    } else if (entry.kind === "batch") {
       await database.runAsync(
-        "INSERT INTO jars (id, itemTypeId, fillDateISO, used, jarSize, location, batchId, recipe, recipe_image, recipeId) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
-        j.id ?? null,
-        j.itemTypeId,
-        j.fillDateISO,
-        j.used ?? 0,
-        j.jarSize ?? null,
-        j.location ?? null,
-        j.batchId ?? null,
-        null, // recipe (legacy field)
-        null, // recipe_image (legacy field)
-        (j as any).recipeId ?? null, // Include recipeId from backup
+        "DELETE FROM jar_events WHERE jarId IN (SELECT id FROM jars WHERE batchId = ? AND deletedAt IS NOT NULL)",
+        [entry.id],
+      );
+      await database.runAsync(
+        "DELETE FROM jars WHERE batchId = ? AND deletedAt IS NOT NULL",
+        [entry.id],
       );
+      await database.runAsync("DELETE FROM batches WHERE id = ?", [entry.id]);
+    } else {
+      await database.runAsync("DELETE FROM jar_events WHERE jarId = ?", [
+        entry.id,
+      ]);
+      await database.runAsync("DELETE FROM jars WHERE id = ?", [entry.id]);
     }
+  });
+}
 
-    // Migrate recipes from item_types to jars for old backups
-    await migrateRecipesFromItemTypesToJars(database);
+export async function emptyTrash(): Promise<void> {
+  const database = await getDb();
+  await purgeTrashedBefore(database, null);
+}
 
-    await database.execAsync("COMMIT");
-  } catch (e) {
-    await database.execAsync("ROLLBACK");
-    throw e;
-  }
+// Remove rows that have been in the trash longer than TRASH_RETENTION_DAYS
+export async function purgeExpiredTrash(): Promise<void> {
+  const database = await getDb();
+  const cutoff = new Date(
+    Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+  ).toISOString();
+  await purgeTrashedBefore(database, cutoff);
 }
 
-// Migration function to copy recipes from item_types to jars
-async function migrateRecipesFromItemTypesToJars(
-  database: SQLite.SQLiteDatabase,
+// Children are trashed no later than their parents, so purging by timestamp
+// never leaves a live row pointing at a purged one
+async function purgeTrashedBefore(
+  database: StorageDatabase,
+  cutoff: string | null,
 ): Promise<void> {
-  try {
-    // Find all jars that don't have recipes but their item_types do
-    const jarsNeedingRecipes = await database.getAllAsync<{
-      jarId: number;
-      itemTypeId: number;
-      batchId: string;
-      recipe: string;
-      recipe_image: string;
-    }>(
-      `SELECT j.id as jarId, j.itemTypeId, j.batchId, it.recipe, it.recipe_image 
-       FROM jars j 
-       JOIN item_types it ON j.itemTypeId = it.id 
-       WHERE (j.recipe IS NULL OR j.recipe = '') 
-       AND (it.recipe IS NOT NULL AND it.recipe != '')`,
+  const condition = cutoff
+    ? "deletedAt IS NOT NULL AND deletedAt < ?"
+    : "deletedAt IS NOT NULL";
+  const params = cutoff ? [cutoff] : [];
+  await inTransaction(database, async () => {
+    await database.runAsync(
+      `DELETE FROM jar_events WHERE jarId IN (SELECT id FROM jars WHERE ${condition})`,
+      params,
+    );
+    await database.runAsync(`DELETE FROM jars WHERE ${condition}`, params);
+    await database.runAsync(`DELETE FROM batches WHERE ${condition}`, params);
+    await database.runAsync(
+      `DELETE FROM item_types WHERE ${condition}`,
+      params,
     );
+  });
+}
 
-    if (jarsNeedingRecipes.length > 0) {
-      console.log(
-        `Migrating recipes for ${jarsNeedingRecipes.length} jars from item_types to batch-specific storage`,
-      );
+// Record an event for every jar matching `where` (a condition on jars). For
+// changes, the previous value is read from the jar's own column.
+async function logJarEvents(
+  database: StorageDatabase,
+  type: JarEventType,
+  where: string,
+  whereParams: BindValue[],
+  change?: { fromColumn: string; toValue: BindValue },
+): Promise<void> {
+  await database.runAsync(
+    `INSERT INTO jar_events (jarId, batchId, type, fromValue, toValue, createdDateISO)
+     SELECT id, batchId, ?, ${change ? change.fromColumn : "NULL"}, ?, ?
+       FROM jars
+      WHERE ${where}`,
+    [type, change?.toValue ?? null, new Date().toISOString(), ...whereParams],
+  );
+}
 
-      // Group by batchId to ensure all jars in a batch get the same recipe
-      const batchGroups = new Map<string, (typeof jarsNeedingRecipes)[0]>();
+export async function recordJarsLabelled(jarIds: number[]): Promise<void> {
+  if (jarIds.length === 0) return;
+  const database = await getDb();
+  await logJarEvents(
+    database,
+    "labelled",
+    `id IN (${jarIds.map(() => "?").join(", ")})`,
+    jarIds,
+  );
+}
 
-      for (const jar of jarsNeedingRecipes) {
-        if (jar.batchId && !batchGroups.has(jar.batchId)) {
-          batchGroups.set(jar.batchId, jar);
-        }
-      }
+export async function getJarEvents(jarId: number): Promise<JarEvent[]> {
+  const database = await getDb();
+  return await database.getAllAsync<JarEvent>(
+    "SELECT * FROM jar_events WHERE jarId = ? ORDER BY createdDateISO DESC, id DESC",
+    [jarId],
+  );
+}
 
-      // Update all jars in each batch with the recipe
-      for (const [batchId, jarData] of batchGroups) {
-        await database.runAsync(
-          "UPDATE jars SET recipe = ?, recipe_image = ? WHERE batchId = ?",
-          [jarData.recipe, jarData.recipe_image, batchId],
-        );
-      }
+export async function getBatchEvents(batchId: string): Promise<JarEvent[]> {
+  const database = await getDb();
+  return await database.getAllAsync<JarEvent>(
+    "SELECT * FROM jar_events WHERE batchId = ? ORDER BY createdDateISO DESC, id DESC",
+    [batchId],
+  );
+}
 
-      // For jars without batchId, update individually
-      for (const jar of jarsNeedingRecipes) {
-        if (!jar.batchId) {
-          await database.runAsync(
-            "UPDATE jars SET recipe = ?, recipe_image = ? WHERE id = ?",
-            [jar.recipe, jar.recipe_image, jar.jarId],
-          );
-        }
-      }
+// Batches are flagged this many days before their best-by date
+export const USE_SOON_DAYS = 30;
 
-      console.log("Recipe migration completed");
-    }
-  } catch (error) {
-    console.error("Error during recipe migration:", error);
-    // Don't throw - migration is best effort
+// Best-by is the fill date plus the shelf life, or null if none is set
+export function getBestByDate(
+  fillDateISO: string,
+  shelfLifeMonths: number | null | undefined,
+): string | null {
+  if (shelfLifeMonths == null) return null;
+  const fillDate = new Date(fillDateISO);
+  if (isNaN(fillDate.getTime())) return null;
+  const bestBy = new Date(fillDate);
+  bestBy.setMonth(bestBy.getMonth() + shelfLifeMonths);
+  // Filled on the 31st: clamp to the end of a shorter month
+  if (bestBy.getDate() !== fillDate.getDate()) {
+    bestBy.setDate(0);
   }
+  return bestBy.toISOString();
 }
 
-export function buildJarQrData(jarId: number): string {
-  return JSON.stringify({ type: "jartracker-jar", id: jarId });
-}
+export type BatchSummary = {
+  id: number; // Item type id
+  name: string;
+  category: string;
+  fillDate: string;
+  jarSize: string;
+  location: string;
+  notes: string;
+  totalJars: number;
+  usedJars: number;
+  availableJars: number;
+  batchId: string;
+  recipeId: number | null;
+  yieldCount: number;
+  bestByISO: string | null;
+  locationCount: number; // Places its jars on the shelf are spread over
+  shelfLocations: string[];
+  // Oldest batch of its item still on the shelf, with a newer one behind it
+  isNextToUse: boolean;
+};
 
-export function parseJarQrData(data: string): number | null {
-  try {
-    const obj = JSON.parse(data);
-    if (obj && obj.type === "jartracker-jar" && typeof obj.id === "number")
-      return obj.id;
-    return null;
-  } catch {
-    return null;
+// Where the next page starts: the last batch of the previous page
+export type BatchCursor = {
+  fillDateISO: string;
+  batchId: string;
+};
+
+export type BatchQuery = {
+  filter: DashboardFilter;
+  search: string;
+  sort: "asc" | "desc";
+};
+
+export const BATCH_PAGE_SIZE = 30;
+
+const HAS_AVAILABLE_JAR = `EXISTS (SELECT 1 FROM jars a
+                 WHERE a.batchId = b.id AND a.deletedAt IS NULL
+                   AND a.status = 'available')`;
+
+// Same as getBestByDate: fill date plus the shelf life, clamped to the end
+// of a shorter month
+const SHELF_LIFE_SQL = "COALESCE(it.shelfLifeMonths, c.shelfLifeMonths)";
+const BEST_BY_SQL = `min(datetime(b.fillDateISO, '+' || ${SHELF_LIFE_SQL} || ' months'),
+       datetime(b.fillDateISO, 'start of month',
+                '+' || (${SHELF_LIFE_SQL} + 1) || ' months', '-1 day'))`;
+
+// WHERE clause for the dashboard filters, on batches b, item_types it and
+// custom_categories c
+function batchFilterSql(
+  filter: DashboardFilter,
+  search: string,
+): { where: string; params: (string | number)[] } {
+  const conditions = ["b.deletedAt IS NULL"];
+  const params: (string | number)[] = [];
+
+  const query = search.trim().toLowerCase();
+  if (query) {
+    conditions.push(
+      `(instr(lower(it.name), ?) > 0
+        OR instr(lower(COALESCE(b.notes, '')), ?) > 0
+        OR instr(lower(COALESCE(b.location, '')), ?) > 0)`,
+    );
+    params.push(query, query, query);
   }
-}
 
-export async function seedDevelopmentData(): Promise<void> {
-  if (!__DEV__) return;
+  if (filter.status === "available") {
+    conditions.push(HAS_AVAILABLE_JAR);
+  } else if (filter.status === "used") {
+    conditions.push(
+      `EXISTS (SELECT 1 FROM jars u
+                WHERE u.batchId = b.id AND u.deletedAt IS NULL
+                  AND u.status = 'used')`,
+    );
+  } else if (filter.status === "useSoon") {
+    conditions.push(
+      HAS_AVAILABLE_JAR,
+      `julianday(${BEST_BY_SQL}) - julianday('now') <= ?`,
+    );
+    params.push(USE_SOON_DAYS);
+  }
 
-  const db = await getDb();
+  if (filter.category) {
+    conditions.push("COALESCE(it.category, 'other') = ?");
+    params.push(filter.category);
+  }
 
-  // Check if data already exists
-  const existingData = await db.getFirstAsync<{ count: number }>(
-    "SELECT COUNT(*) as count FROM item_types",
-  );
+  // Jars on the shelf count where they are; batches with none left by
+  // where they were put
+  if (filter.location) {
+    conditions.push(
+      `(EXISTS (SELECT 1 FROM jars s
+                 WHERE s.batchId = b.id AND s.deletedAt IS NULL
+                   AND s.status IN ('available', 'opened')
+                   AND ${LOCATION_PATH_MATCH})
+        OR (NOT EXISTS (SELECT 1 FROM jars s
+                         WHERE s.batchId = b.id AND s.deletedAt IS NULL
+                           AND s.status IN ('available', 'opened')
+                           AND s.location IS NOT NULL)
+            AND (b.location = ?
+                 OR substr(b.location, 1, length(?) + 3) = ? || ' > ')))`,
+    );
+    params.push(...Array(6).fill(filter.location));
+  }
 
-  if (existingData && existingData.count > 0) {
-    console.log("Development data already exists, skipping seed");
-    return;
+  if (filter.jarSize) {
+    conditions.push("COALESCE(b.jarSize, 'Unknown') = ?");
+    params.push(filter.jarSize);
   }
 
-  console.log("Seeding development data...");
+  const monthsAgo = (months: number) => {
+    const date = new Date();
+    date.setMonth(date.getMonth() - months);
+    return date.toISOString();
+  };
+  if (filter.olderThanMonths !== null) {
+    conditions.push("b.fillDateISO <= ?");
+    params.push(monthsAgo(filter.olderThanMonths));
+  }
+  if (filter.newerThanMonths !== null) {
+    conditions.push("b.fillDateISO >= ?");
+    params.push(monthsAgo(filter.newerThanMonths));
+  }
 
-  const testItemTypes = [
-    {
-      name: "Strawberry Jam",
-      category: "Preserves",
-      recipe: "Fresh strawberries with sugar and lemon",
-    },
-    {
-      name: "Tomato Sauce",
-      category: "Sauces",
-      recipe: "San Marzano tomatoes, basil, garlic",
-    },
-    {
-      name: "Dill Pickles",
-      category: "Pickles",
-      recipe: "Cucumbers in vinegar brine with dill",
-    },
-    {
-      name: "Apple Butter",
-      category: "Preserves",
-      recipe: "Slow-cooked apples with cinnamon",
-    },
-    {
-      name: "Green Beans",
-      category: "Vegetables",
-      recipe: "Fresh green beans pressure canned",
-    },
-    {
-      name: "Peach Preserves",
-      category: "Fruits",
-      recipe: "Ripe peaches with sugar",
-    },
-    {
-      name: "Marinara Sauce",
-      category: "Sauces",
-      recipe: "Roma tomatoes, herbs, onions",
-    },
-    {
-      name: "Corn Relish",
-      category: "Vegetables",
-      recipe: "Sweet corn with peppers and onions",
-    },
-  ];
+  // Same rule as getRunningLowItems
+  if (filter.runningLow) {
+    conditions.push(
+      `it.lowStockThreshold > 0
+       AND (SELECT COUNT(*) FROM jars r
+             WHERE r.itemTypeId = it.id AND r.deletedAt IS NULL
+               AND r.status = 'available') < it.lowStockThreshold`,
+    );
+  }
+
+  return { where: conditions.join(" AND "), params };
+}
+
+// Jar counts and flags for the batches picked by the inner query, which
+// must select b.id, b.fillDateISO and be named "page"
+async function summarizeBatches(
+  database: StorageDatabase,
+  pageSql: string,
+  params: (string | number)[],
+  orderBy: string,
+): Promise<BatchSummary[]> {
+  const rows = await database.getAllAsync<{
+    itemTypeId: number;
+    name: string;
+    category: string | null;
+    notes: string | null;
+    fillDateISO: string;
+    jarSize: string | null;
+    location: string | null;
+    totalJars: number;
+    usedJars: number;
+    availableJars: number;
+    batchId: string;
+    recipeId: number | null;
+    yieldCount: number;
+    shelfLifeMonths: number | null;
+    locationCount: number;
+    shelfLocations: string | null;
+    isNextToUse: number;
+  }>(
+    `WITH page AS (${pageSql})
+     SELECT
+       it.id as itemTypeId,
+       it.name,
+       it.category,
+       b.notes,
+       b.fillDateISO,
+       b.jarSize,
+       b.location,
+       b.id as batchId,
+       b.recipeId,
+       b.yieldCount,
+       COALESCE(it.shelfLifeMonths, c.shelfLifeMonths) as shelfLifeMonths,
+       COUNT(j.id) as totalJars,
+       SUM(CASE WHEN j.status = 'used' THEN 1 ELSE 0 END) as usedJars,
+       SUM(CASE WHEN j.status = 'available' THEN 1 ELSE 0 END) as availableJars,
+       COUNT(DISTINCT CASE WHEN j.status IN ('available', 'opened')
+                           THEN COALESCE(j.location, '') END) as locationCount,
+       (SELECT GROUP_CONCAT(location, char(31))
+          FROM (SELECT DISTINCT s.location
+                  FROM jars s
+                 WHERE s.batchId = b.id AND s.deletedAt IS NULL
+                   AND s.status IN ('available', 'opened')
+                   AND s.location IS NOT NULL)) as shelfLocations,
+       (${HAS_AVAILABLE_JAR}
+        AND EXISTS (SELECT 1 FROM batches o
+                     WHERE o.itemTypeId = b.itemTypeId AND o.id <> b.id
+                       AND o.deletedAt IS NULL
+                       AND EXISTS (SELECT 1 FROM jars a
+                                    WHERE a.batchId = o.id
+                                      AND a.deletedAt IS NULL
+                                      AND a.status = 'available'))
+        AND NOT EXISTS (SELECT 1 FROM batches o
+                         WHERE o.itemTypeId = b.itemTypeId AND o.id <> b.id
+                           AND o.deletedAt IS NULL
+                           AND (o.fillDateISO < b.fillDateISO
+                                OR (o.fillDateISO = b.fillDateISO
+                                    AND o.id < b.id))
+                           AND EXISTS (SELECT 1 FROM jars a
+                                        WHERE a.batchId = o.id
+                                          AND a.deletedAt IS NULL
+                                          AND a.status = 'available')))
+         as isNextToUse
+     FROM page
+     JOIN batches b ON b.id = page.id
+     JOIN item_types it ON it.id = b.itemTypeId
+     LEFT JOIN custom_categories c ON c.name = it.category
+     LEFT JOIN jars j ON j.batchId = b.id AND j.deletedAt IS NULL
+     GROUP BY b.id
+     ORDER BY ${orderBy}`,
+    params,
+  );
+
+  return rows.map((r) => ({
+    id: r.itemTypeId,
+    name: r.name,
+    category: r.category ?? "other",
+    fillDate: r.fillDateISO,
+    jarSize: r.jarSize ?? "Unknown",
+    location: r.location ?? "",
+    notes: r.notes ?? "",
+    totalJars: r.totalJars,
+    usedJars: r.usedJars ?? 0,
+    availableJars: r.availableJars ?? 0,
+    batchId: r.batchId,
+    recipeId: r.recipeId,
+    yieldCount: r.yieldCount,
+    bestByISO: getBestByDate(r.fillDateISO, r.shelfLifeMonths),
+    locationCount: r.locationCount,
+    shelfLocations: r.shelfLocations ? r.shelfLocations.split("\x1f") : [],
+    isNextToUse: r.isNextToUse === 1,
+  }));
+}
+
+// One page of dashboard batches, filtered and sorted by fill date. Pass the
+// returned cursor back to get the next page; it is null after the last one.
+export async function getBatchPage(
+  query: BatchQuery,
+  cursor: BatchCursor | null = null,
+  limit = BATCH_PAGE_SIZE,
+): Promise<{ batches: BatchSummary[]; nextCursor: BatchCursor | null }> {
+  return withDb(async (database) => {
+    const { where, params } = batchFilterSql(query.filter, query.search);
+    const direction = query.sort === "asc" ? "ASC" : "DESC";
+    const after = query.sort === "asc" ? ">" : "<";
+
+    let keyset = "";
+    if (cursor) {
+      keyset = `AND (b.fillDateISO ${after} ?
+                     OR (b.fillDateISO = ? AND b.id ${after} ?))`;
+      params.push(cursor.fillDateISO, cursor.fillDateISO, cursor.batchId);
+    }
+
+    const batches = await summarizeBatches(
+      database,
+      `SELECT b.id, b.fillDateISO
+         FROM batches b
+         JOIN item_types it ON it.id = b.itemTypeId
+         LEFT JOIN custom_categories c ON c.name = it.category
+        WHERE ${where} ${keyset}
+        ORDER BY b.fillDateISO ${direction}, b.id ${direction}
+        LIMIT ?`,
+      [...params, limit],
+      `b.fillDateISO ${direction}, b.id ${direction}`,
+    );
+
+    const last = batches[batches.length - 1];
+    return {
+      batches,
+      nextCursor:
+        batches.length === limit
+          ? { fillDateISO: last.fillDate, batchId: last.batchId }
+          : null,
+    };
+  });
+}
+
+// Number of batches matching the dashboard filters, across all pages
+export async function countBatches(query: BatchQuery): Promise<number> {
+  return withDb(async (database) => {
+    const { where, params } = batchFilterSql(query.filter, query.search);
+    const row = await database.getFirstAsync<{ count: number }>(
+      `SELECT COUNT(*) as count
+         FROM batches b
+         JOIN item_types it ON it.id = b.itemTypeId
+         LEFT JOIN custom_categories c ON c.name = it.category
+        WHERE ${where}`,
+      params,
+    );
+    return row?.count ?? 0;
+  });
+}
+
+// Batches with jars on the shelf nearing or past best-by, soonest first
+export async function getUseSoonBatches(): Promise<BatchSummary[]> {
+  return withDb(async (database) => {
+    const { where, params } = batchFilterSql(
+      { ...EMPTY_DASHBOARD_FILTER, status: "useSoon" },
+      "",
+    );
+    return await summarizeBatches(
+      database,
+      `SELECT b.id, b.fillDateISO, ${BEST_BY_SQL} as bestBy
+         FROM batches b
+         JOIN item_types it ON it.id = b.itemTypeId
+         LEFT JOIN custom_categories c ON c.name = it.category
+        WHERE ${where}`,
+      params,
+      "page.bestBy, b.id",
+    );
+  });
+}
+
+// Jars that left the shelf are split by how: eaten (used), thrown out
+// (discarded or spoiled), or given away and sold
+export async function getJarStats(): Promise<{
+  total: number;
+  available: number;
+  opened: number;
+  used: number;
+  wasted: number;
+  gifted: number;
+  sold: number;
+}> {
+  return withDb(async (database) => {
+    const result = await database.getFirstAsync<{
+      total: number;
+      available: number;
+      opened: number;
+      used: number;
+      wasted: number;
+      gifted: number;
+      sold: number;
+    }>(
+      `SELECT 
+         COUNT(*) as total,
+         SUM(CASE WHEN status = 'available' THEN 1 ELSE 0 END) as available,
+         SUM(CASE WHEN status = 'opened' THEN 1 ELSE 0 END) as opened,
+         SUM(CASE WHEN status = 'used' THEN 1 ELSE 0 END) as used,
+         SUM(CASE WHEN status IN ('discarded', 'spoiled') THEN 1 ELSE 0 END) as wasted,
+         SUM(CASE WHEN status = 'gifted' THEN 1 ELSE 0 END) as gifted,
+         SUM(CASE WHEN status = 'sold' THEN 1 ELSE 0 END) as sold
+       FROM jars
+       WHERE deletedAt IS NULL`,
+    );
+
+    return {
+      total: result?.total ?? 0,
+      available: result?.available ?? 0,
+      opened: result?.opened ?? 0,
+      used: result?.used ?? 0,
+      wasted: result?.wasted ?? 0,
+      gifted: result?.gifted ?? 0,
+      sold: result?.sold ?? 0,
+    };
+  });
+}
+
+// Everything one pantry's backup holds
+async function buildBackup(database: StorageDatabase): Promise<ImportPayload> {
+  const itemTypes = await database.getAllAsync<ItemType>(
+    "SELECT id, name, category, recipe, notes, recipe_image, lowStockThreshold, fridgeLifeDays, shelfLifeMonths FROM item_types WHERE deletedAt IS NULL",
+  );
+  const jars = await database.getAllAsync<Jar>(
+    "SELECT id, itemTypeId, fillDateISO, status, statusReason, statusDateISO, openedDateISO, jarSize, location, batchId, sealCheckDueISO FROM jars WHERE deletedAt IS NULL",
+  );
+  const batches = await database.getAllAsync<Batch>(
+    `SELECT id, itemTypeId, fillDateISO, jarSize, location, recipeId, notes, yieldCount, createdDateISO, ${[...PROCESSING_KEYS, ...COST_KEYS].join(", ")} FROM batches WHERE deletedAt IS NULL`,
+  );
+  const jarEvents = await database.getAllAsync<JarEvent>(
+    "SELECT id, jarId, batchId, type, fromValue, toValue, createdDateISO FROM jar_events WHERE jarId IN (SELECT id FROM jars WHERE deletedAt IS NULL)",
+  );
+  const customCategories = await database.getAllAsync<CustomCategory>(
+    "SELECT id, name, icon, isDefault, fridgeLifeDays, shelfLifeMonths FROM custom_categories",
+  );
+  const customJarSizes = await database.getAllAsync<CustomJarSize>(
+    "SELECT id, name, isDefault, hidden FROM custom_jar_sizes",
+  );
+  const locations = await database.getAllAsync<
+    Pick<StorageLocation, "id" | "name" | "parentId">
+  >("SELECT id, name, parentId FROM locations");
+  const recipes = await database.getAllAsync<Recipe>(
+    "SELECT id, name, content, image, created_date, last_used_date, expectedJarCount, expectedJarSize FROM recipes",
+  );
+  const categoryFields = (
+    await database.getAllAsync<CategoryFieldRow>(
+      "SELECT id, categoryId, name, type, choices, sortOrder FROM category_fields",
+    )
+  ).map(toCategoryField);
+  const batchFieldValues = await database.getAllAsync<BatchFieldValue>(
+    "SELECT batchId, fieldId, value FROM batch_field_values WHERE batchId IN (SELECT id FROM batches WHERE deletedAt IS NULL)",
+  );
+  const supplies = await database.getAllAsync<Supply>(
+    "SELECT id, kind, name, mouth, quantity, lowStockThreshold FROM supplies",
+  );
+  return {
+    itemTypes,
+    batches,
+    jars,
+    jarEvents,
+    customCategories,
+    customJarSizes,
+    locations,
+    recipes,
+    categoryFields,
+    batchFieldValues,
+    supplies,
+  };
+}
+
+// Back up the current pantry, or every pantry into one file
+export async function exportToJson(
+  scope: "current" | "all" = "current",
+): Promise<string> {
+  if (scope === "current") {
+    return JSON.stringify(await buildBackup(await getDb()), null, 2);
+  }
+
+  const currentId = await getCurrentPantryId(await getRegistry());
+  const pantries: PantryBackup[] = [];
+  for (const pantry of await getPantries()) {
+    const data = await withPantryDatabase(pantry.id, currentId, buildBackup);
+    pantries.push({
+      name: pantry.name,
+      sharesCatalog: pantry.sharesCatalog,
+      data,
+    });
+  }
+  return JSON.stringify({ pantries }, null, 2);
+}
+
+export type ImportPayload = {
+  itemTypes: ItemType[];
+  // Backups made before jar statuses only have the used flag
+  jars: Array<Jar & { used?: 0 | 1 }>;
+  batches?: Batch[];
+  jarEvents?: JarEvent[];
+  customCategories?: CustomCategory[];
+  customJarSizes?: CustomJarSize[];
+  locations?: Array<Pick<StorageLocation, "id" | "name" | "parentId">>;
+  recipes?: Recipe[];
+  categoryFields?: CategoryField[];
+  batchFieldValues?: BatchFieldValue[];
+  supplies?: Supply[];
+};
+
+type BatchFieldValue = { batchId: string; fieldId: number; value: string };
+
+// Quote a CSV cell when it holds a separator, quote or line break
+function toCsvCell(value: string | number | null | undefined): string {
+  const text = value == null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per batch in the open pantry with its processing log and costs, and
+// a column for each custom field name (fields of the same name in different categories share a column)
+export async function exportBatchesToCsv(): Promise<string> {
+  const database = await getDb();
+  const batches = await database.getAllAsync<
+    {
+      id: string;
+      itemName: string;
+      category: string | null;
+      fillDateISO: string;
+      jarSize: string | null;
+      location: string | null;
+      recipeName: string | null;
+      notes: string | null;
+      jarCount: number;
+      availableCount: number;
+      yieldCount: number;
+    } & BatchProcessing &
+      BatchCosts
+  >(
+    `SELECT b.id, it.name as itemName, it.category, b.fillDateISO, b.jarSize,
+            b.location, r.name as recipeName, b.notes,
+            b.yieldCount, b.${[...PROCESSING_KEYS, ...COST_KEYS].join(", b.")},
+            (SELECT COUNT(*) FROM jars j
+              WHERE j.batchId = b.id AND j.deletedAt IS NULL) as jarCount,
+            (SELECT COUNT(*) FROM jars j
+              WHERE j.batchId = b.id AND j.deletedAt IS NULL
+                AND j.status = 'available') as availableCount
+       FROM batches b
+       JOIN item_types it ON it.id = b.itemTypeId
+       LEFT JOIN recipes r ON r.id = b.recipeId
+      WHERE b.deletedAt IS NULL AND it.deletedAt IS NULL
+      ORDER BY b.fillDateISO, b.id`,
+  );
+  const fields = await database.getAllAsync<{ id: number; name: string }>(
+    `SELECT f.id, f.name FROM category_fields f
+       JOIN custom_categories c ON c.id = f.categoryId
+      ORDER BY c.name COLLATE NOCASE, f.sortOrder, f.id`,
+  );
+  const values = await database.getAllAsync<BatchFieldValue>(
+    "SELECT batchId, fieldId, value FROM batch_field_values",
+  );
+
+  const fieldColumns: string[] = [];
+  const columnByFieldId = new Map<number, number>();
+  for (const field of fields) {
+    let column = fieldColumns.findIndex(
+      (name) => name.toLowerCase() === field.name.toLowerCase(),
+    );
+    if (column === -1) {
+      column = fieldColumns.push(field.name) - 1;
+    }
+    columnByFieldId.set(field.id, column);
+  }
+  const valuesByBatch = new Map<string, string[]>();
+  for (const value of values) {
+    const column = columnByFieldId.get(value.fieldId);
+    if (column === undefined) continue;
+    const row = valuesByBatch.get(value.batchId) ?? [];
+    row[column] = value.value;
+    valuesByBatch.set(value.batchId, row);
+  }
+
+  const header = [
+    "Item",
+    "Category",
+    "Fill Date",
+    "Jar Size",
+    "Location",
+    "Jars",
+    "Available",
+    "Recipe",
+    "Notes",
+    "Process Method",
+    "Process Minutes",
+    "Pressure (psi)",
+    "Altitude (ft)",
+    "Headspace (in)",
+    "Failed Seals",
+    "Ingredient Cost",
+    "Lid Cost",
+    "Cost per Jar",
+    ...fieldColumns,
+  ];
+  const rows = batches.map((batch) => {
+    const fieldValues = valuesByBatch.get(batch.id) ?? [];
+    const perJar = getBatchCostSummary(batch)?.perJar;
+    return [
+      batch.itemName,
+      batch.category,
+      batch.fillDateISO.split("T")[0],
+      batch.jarSize,
+      batch.location,
+      batch.jarCount,
+      batch.availableCount,
+      batch.recipeName,
+      batch.notes,
+      batch.processMethod && PROCESS_METHOD_LABELS[batch.processMethod],
+      batch.processMinutes,
+      batch.processPressurePsi,
+      batch.altitudeFeet,
+      batch.headspaceInches,
+      batch.failedSealCount,
+      batch.ingredientCost,
+      batch.lidCost,
+      perJar != null ? formatCost(perJar) : null,
+      ...fieldColumns.map((_, column) => fieldValues[column]),
+    ];
+  });
+  return [header, ...rows]
+    .map((row) => row.map(toCsvCell).join(","))
+    .join("\r\n");
+}
+
+// A backup of every pantry, as written by exportToJson("all")
+export type PantryBackup = {
+  name: string;
+  sharesCatalog: boolean;
+  data: ImportPayload;
+};
+
+// Restore a backup. A single-pantry backup replaces the current pantry; a
+// backup of every pantry replaces each pantry of the same name and adds the
+// ones that don't exist yet.
+export async function importFromJson(json: string): Promise<void> {
+  const payload = JSON.parse(json) as
+    ImportPayload | { pantries: PantryBackup[] };
+  if (!("pantries" in payload)) {
+    await importIntoDatabase(await getDb(), payload);
+    return;
+  }
+
+  const registry = await getRegistry();
+  const currentId = await getCurrentPantryId(registry);
+  let catalogSourceId: number | null = null;
+  for (const backup of payload.pantries) {
+    const existing = await registry.getFirstAsync<{ id: number }>(
+      "SELECT id FROM pantries WHERE name = ?",
+      [backup.name],
+    );
+    const id =
+      existing?.id ??
+      (await addPantry(registry, backup.name, backup.sharesCatalog));
+    await registry.runAsync(
+      "UPDATE pantries SET sharesCatalog = ? WHERE id = ?",
+      [backup.sharesCatalog ? 1 : 0, id],
+    );
+    await withPantryDatabase(id, currentId, (database) =>
+      importIntoDatabase(database, backup.data),
+    );
+    // The current pantry's catalog wins if it shares, else the first one's
+    if (
+      backup.sharesCatalog &&
+      (catalogSourceId === null || id === currentId)
+    ) {
+      catalogSourceId = id;
+    }
+  }
+
+  if (catalogSourceId !== null) {
+    await withPantryDatabase(catalogSourceId, currentId, pushSharedCatalog);
+  }
+}
+
+async function importIntoDatabase(
+  database: StorageDatabase,
+  payload: ImportPayload,
+): Promise<void> {
+  await database.execAsync("BEGIN");
+  try {
+    await database.execAsync(
+      "DELETE FROM jar_events; DELETE FROM jars; DELETE FROM batch_field_values; DELETE FROM batches; DELETE FROM item_types; DELETE FROM category_fields; DELETE FROM custom_categories; DELETE FROM custom_jar_sizes; DELETE FROM locations; DELETE FROM recipes;",
+    );
+
+    // Import custom categories first
+    if (payload.customCategories) {
+      await insertRows(
+        database,
+        "INSERT INTO custom_categories (id, name, icon, isDefault, fridgeLifeDays, shelfLifeMonths) VALUES (?, ?, ?, ?, ?, ?)",
+        payload.customCategories.map((category) => [
+          category.id ?? null,
+          category.name,
+          category.icon,
+          category.isDefault ? 1 : 0,
+          category.fridgeLifeDays ?? null,
+          category.shelfLifeMonths ?? null,
+        ]),
+      );
+    } else {
+      // No custom categories in backup, initialize with defaults
+      console.log("No categories in backup, initializing with defaults...");
+      await insertRows(
+        database,
+        "INSERT INTO custom_categories (name, icon, isDefault, fridgeLifeDays, shelfLifeMonths) VALUES (?, ?, 1, ?, ?)",
+        CATEGORIES.map((category) => [
+          category.name,
+          category.icon,
+          category.fridgeLifeDays,
+          category.shelfLifeMonths,
+        ]),
+      );
+    }
+
+    // Import custom jar sizes
+    if (payload.customJarSizes) {
+      await insertRows(
+        database,
+        "INSERT INTO custom_jar_sizes (id, name, isDefault, hidden) VALUES (?, ?, ?, ?)",
+        payload.customJarSizes.map((jarSize) => [
+          jarSize.id ?? null,
+          jarSize.name,
+          jarSize.isDefault ? 1 : 0,
+          jarSize.hidden ? 1 : 0,
+        ]),
+      );
+    } else {
+      // No jar sizes in backup, initialize with defaults
+      console.log("No jar sizes in backup, initializing with defaults...");
+      await insertRows(
+        database,
+        "INSERT INTO custom_jar_sizes (name, isDefault, hidden) VALUES (?, 1, 0)",
+        JAR_SIZES.map((jarSize) => [jarSize]),
+      );
+    }
+
+    // Parents are listed before the places inside them only by chance, so
+    // insert every location first and link them up afterwards
+    if (payload.locations) {
+      await insertRows(
+        database,
+        "INSERT INTO locations (id, name) VALUES (?, ?)",
+        payload.locations.map((location) => [
+          location.id ?? null,
+          location.name,
+        ]),
+      );
+      for (const location of payload.locations) {
+        if (location.id != null && location.parentId != null) {
+          await database.runAsync(
+            "UPDATE locations SET parentId = ? WHERE id = ?",
+            [location.parentId, location.id],
+          );
+        }
+      }
+    }
+
+    // Import recipes
+    if (payload.recipes) {
+      await insertRows(
+        database,
+        "INSERT INTO recipes (id, name, content, image, created_date, last_used_date, expectedJarCount, expectedJarSize) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+        payload.recipes.map((recipe) => [
+          recipe.id ?? null,
+          recipe.name,
+          recipe.content,
+          recipe.image ?? null,
+          recipe.created_date ?? null,
+          recipe.last_used_date ?? null,
+          recipe.expectedJarCount ?? null,
+          recipe.expectedJarSize ?? null,
+        ]),
+      );
+    }
+
+    // Map old category IDs to proper names during import
+    const categoryMapping: { [key: string]: string } = {
+      fruits: "Fruits",
+      vegetables: "Vegetables",
+      preserves: "Preserves",
+      pickles: "Pickles",
+      sauces: "Sauces",
+      meats: "Meats",
+      drinks: "Drinks",
+      meals: "Meals",
+      other: "Other",
+    };
+
+    // Item types without an id get their rowid, so jar references stay valid
+    await insertRows(
+      database,
+      "INSERT INTO item_types (id, name, category, recipe, notes, recipe_image, fridgeLifeDays, shelfLifeMonths) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+      payload.itemTypes.map((it) => [
+        it.id ?? null,
+        it.name,
+        // Migrate old category ID to new category name if needed
+        (it.category && categoryMapping[it.category]) ?? it.category ?? null,
+        it.recipe ?? null,
+        it.notes ?? null,
+        it.recipe_image ?? null,
+        it.fridgeLifeDays ?? null,
+        it.shelfLifeMonths ?? null,
+      ]),
+    );
+
+    await insertRows(
+      database,
+      `INSERT INTO batches (id, itemTypeId, fillDateISO, jarSize, location, recipeId, notes, yieldCount, createdDateISO, ${[...PROCESSING_KEYS, ...COST_KEYS].join(", ")}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP), ?, ?, ?, ?, ?, ?, ?, ?)`,
+      (payload.batches ?? []).map((b) => [
+        b.id,
+        b.itemTypeId,
+        b.fillDateISO,
+        b.jarSize ?? null,
+        b.location ?? null,
+        b.recipeId ?? null,
+        b.notes ?? null,
+        b.yieldCount ?? 0,
+        b.createdDateISO ?? null,
+        ...[...PROCESSING_KEYS, ...COST_KEYS].map((key) => b[key] ?? null),
+      ]),
+    );
+
+    await insertRows(
+      database,
+      "INSERT INTO jars (id, itemTypeId, fillDateISO, status, statusReason, statusDateISO, openedDateISO, jarSize, location, batchId, sealCheckDueISO, recipe, recipe_image, recipeId) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+      payload.jars.map((j) => [
+        j.id ?? null,
+        j.itemTypeId,
+        j.fillDateISO,
+        j.status ?? (j.used ? "used" : "available"),
+        j.statusReason ?? null,
+        j.statusDateISO ?? null,
+        j.openedDateISO ?? null,
+        j.jarSize ?? null,
+        j.location ?? null,
+        j.batchId ?? null,
+        j.sealCheckDueISO ?? null,
+        null, // recipe (legacy field)
+        null, // recipe_image (legacy field)
+        (j as any).recipeId ?? null, // Include recipeId from backup
+      ]),
+    );
+
+    if (payload.categoryFields) {
+      await insertRows(
+        database,
+        "INSERT INTO category_fields (id, categoryId, name, type, choices, sortOrder) VALUES (?, ?, ?, ?, ?, ?)",
+        payload.categoryFields.map((field) => [
+          field.id ?? null,
+          field.categoryId,
+          field.name,
+          field.type,
+          field.type === "choice" ? JSON.stringify(field.choices ?? []) : null,
+          field.sortOrder ?? 0,
+        ]),
+      );
+    }
+
+    if (payload.batchFieldValues) {
+      await insertRows(
+        database,
+        "INSERT INTO batch_field_values (batchId, fieldId, value) VALUES (?, ?, ?)",
+        payload.batchFieldValues.map((v) => [v.batchId, v.fieldId, v.value]),
+      );
+    }
+
+    // Backups from before supplies keep the supplies already on hand
+    if (payload.supplies) {
+      await database.execAsync("DELETE FROM supplies");
+      await insertRows(
+        database,
+        "INSERT INTO supplies (id, kind, name, mouth, quantity, lowStockThreshold) VALUES (?, ?, ?, ?, ?, ?)",
+        payload.supplies.map((supply) => [
+          supply.id ?? null,
+          supply.kind,
+          supply.name,
+          supply.mouth ?? null,
+          supply.quantity ?? 0,
+          supply.lowStockThreshold ?? 0,
+        ]),
+      );
+    }
+
+    if (payload.jarEvents) {
+      await insertRows(
+        database,
+        "INSERT INTO jar_events (id, jarId, batchId, type, fromValue, toValue, createdDateISO) VALUES (?, ?, ?, ?, ?, ?, ?)",
+        payload.jarEvents.map((e) => [
+          e.id ?? null,
+          e.jarId,
+          e.batchId ?? null,
+          e.type,
+          e.fromValue ?? null,
+          e.toValue ?? null,
+          e.createdDateISO,
+        ]),
+      );
+    }
+
+    // Backups made before batches existed only have the batchId on each jar
+    await backfillBatchesFromJars(database);
+
+    await addMissingLocations(database);
+
+    // Backups made before the event log start with what the jars record
+    if (!payload.jarEvents) {
+      await database.execAsync(
+        `INSERT INTO jar_events (jarId, batchId, type, createdDateISO)
+         SELECT id, batchId, 'created', fillDateISO FROM jars;
+         INSERT INTO jar_events (jarId, batchId, type, fromValue, toValue, createdDateISO)
+         SELECT id, batchId, 'status_changed', 'available', status, statusDateISO FROM jars
+          WHERE status <> 'available' AND statusDateISO IS NOT NULL;`,
+      );
+    }
+
+    // Migrate recipes from item_types to jars for old backups
+    await migrateRecipesFromItemTypesToJars(database);
+
+    await database.execAsync("COMMIT");
+  } catch (e) {
+    await database.execAsync("ROLLBACK");
+    throw e;
+  }
+}
+
+// Create batch records for jars whose batch doesn't exist yet (old backups)
+async function backfillBatchesFromJars(
+  database: StorageDatabase,
+): Promise<void> {
+  await database.execAsync(
+    `UPDATE jars
+        SET batchId = 'legacy_' || itemTypeId || '_' || substr(fillDateISO, 1, 10)
+      WHERE batchId IS NULL OR batchId = '';
+     INSERT OR IGNORE INTO batches
+       (id, itemTypeId, fillDateISO, jarSize, location, recipeId, notes, yieldCount)
+     SELECT g.batchId, g.itemTypeId, g.fillDateISO, g.jarSize, g.location, g.recipeId,
+            (SELECT it.notes FROM item_types it WHERE it.id = g.itemTypeId),
+            g.jarCount
+       FROM (SELECT j.batchId,
+                    MIN(j.itemTypeId) AS itemTypeId,
+                    MIN(j.fillDateISO) AS fillDateISO,
+                    MAX(j.jarSize) AS jarSize,
+                    MAX(j.location) AS location,
+                    MAX(j.recipeId) AS recipeId,
+                    COUNT(*) AS jarCount
+               FROM jars j
+              WHERE j.batchId NOT IN (SELECT id FROM batches)
+              GROUP BY j.batchId) g;`,
+  );
+}
+
+// Migration function to copy recipes from item_types to jars
+async function migrateRecipesFromItemTypesToJars(
+  database: StorageDatabase,
+): Promise<void> {
+  try {
+    // Find all jars that don't have recipes but their item_types do
+    const jarsNeedingRecipes = await database.getAllAsync<{
+      jarId: number;
+      itemTypeId: number;
+      batchId: string;
+      recipe: string;
+      recipe_image: string;
+    }>(
+      `SELECT j.id as jarId, j.itemTypeId, j.batchId, it.recipe, it.recipe_image 
+       FROM jars j 
+       JOIN item_types it ON j.itemTypeId = it.id 
+       WHERE (j.recipe IS NULL OR j.recipe = '') 
+       AND (it.recipe IS NOT NULL AND it.recipe != '')`,
+    );
+
+    if (jarsNeedingRecipes.length > 0) {
+      console.log(
+        `Migrating recipes for ${jarsNeedingRecipes.length} jars from item_types to batch-specific storage`,
+      );
+
+      // Group by batchId to ensure all jars in a batch get the same recipe
+      const batchGroups = new Map<string, (typeof jarsNeedingRecipes)[0]>();
+
+      for (const jar of jarsNeedingRecipes) {
+        if (jar.batchId && !batchGroups.has(jar.batchId)) {
+          batchGroups.set(jar.batchId, jar);
+        }
+      }
+
+      // Update all jars in each batch with the recipe
+      for (const [batchId, jarData] of batchGroups) {
+        await database.runAsync(
+          "UPDATE jars SET recipe = ?, recipe_image = ? WHERE batchId = ?",
+          [jarData.recipe, jarData.recipe_image, batchId],
+        );
+      }
+
+      // For jars without batchId, update individually
+      for (const jar of jarsNeedingRecipes) {
+        if (!jar.batchId) {
+          await database.runAsync(
+            "UPDATE jars SET recipe = ?, recipe_image = ? WHERE id = ?",
+            [jar.recipe, jar.recipe_image, jar.jarId],
+          );
+        }
+      }
+
+      console.log("Recipe migration completed");
+    }
+  } catch (error) {
+    console.error("Error during recipe migration:", error);
+    // Don't throw - migration is best effort
+  }
+}
+
+// Jar ids repeat across pantries, so labels also carry the pantry's id
+export type JarQrData = {
+  jarId: number;
+  pantryId: number | null; // Null on labels printed before pantries existed
+};
+
+export function buildJarQrData(jarId: number, pantryId: number): string {
+  return JSON.stringify({ type: "jartracker-jar", id: jarId, pantryId });
+}
+
+export function parseJarQrData(data: string): JarQrData | null {
+  try {
+    const obj = JSON.parse(data);
+    if (obj && obj.type === "jartracker-jar" && typeof obj.id === "number")
+      return {
+        jarId: obj.id,
+        pantryId: typeof obj.pantryId === "number" ? obj.pantryId : null,
+      };
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+export async function seedDevelopmentData(): Promise<void> {
+  if (!isDevRuntime) return;
+
+  const db = await getDb();
+
+  // Check if data already exists
+  const existingData = await db.getFirstAsync<{ count: number }>(
+    "SELECT COUNT(*) as count FROM item_types",
+  );
+
+  if (existingData && existingData.count > 0) {
+    console.log("Development data already exists, skipping seed");
+    return;
+  }
+
+  console.log("Seeding development data...");
+
+  const testItemTypes = [
+    {
+      name: "Strawberry Jam",
+      category: "Preserves",
+      recipe: "Fresh strawberries with sugar and lemon",
+    },
+    {
+      name: "Tomato Sauce",
+      category: "Sauces",
+      recipe: "San Marzano tomatoes, basil, garlic",
+    },
+    {
+      name: "Dill Pickles",
+      category: "Pickles",
+      recipe: "Cucumbers in vinegar brine with dill",
+    },
+    {
+      name: "Apple Butter",
+      category: "Preserves",
+      recipe: "Slow-cooked apples with cinnamon",
+    },
+    {
+      name: "Green Beans",
+      category: "Vegetables",
+      recipe: "Fresh green beans pressure canned",
+    },
+    {
+      name: "Peach Preserves",
+      category: "Fruits",
+      recipe: "Ripe peaches with sugar",
+    },
+    {
+      name: "Marinara Sauce",
+      category: "Sauces",
+      recipe: "Roma tomatoes, herbs, onions",
+    },
+    {
+      name: "Corn Relish",
+      category: "Vegetables",
+      recipe: "Sweet corn with peppers and onions",
+    },
+  ];
+
+  const generateRandomDate = (year: number, month: number) => {
+    const day = Math.floor(Math.random() * 28) + 1;
+    return new Date(year, month - 1, day).toISOString();
+  };
+
+  try {
+    for (const itemType of testItemTypes) {
+      const result = await db.runAsync(
+        "INSERT INTO item_types (name, category, recipe) VALUES (?, ?, ?)",
+        [itemType.name, itemType.category, itemType.recipe],
+      );
+
+      const itemTypeId = result.lastInsertRowId;
+
+      // Generate 2-4 batches per item type
+      const batchCount = Math.floor(Math.random() * 3) + 2;
+
+      for (let batchIndex = 0; batchIndex < batchCount; batchIndex++) {
+        // Spread across 2023, 2024, and 2025
+        const year = 2023 + Math.floor(Math.random() * 3);
+        const month = Math.floor(Math.random() * 12) + 1;
+        const fillDate = generateRandomDate(year, month);
+
+        // Generate unique batch ID
+        const batchId = `batch-${itemTypeId}-${batchIndex}-${year}${month
+          .toString()
+          .padStart(2, "0")}`;
+
+        // Random jar sizes (consistent within batch)
+        const jarSize = JAR_SIZES[Math.floor(Math.random() * JAR_SIZES.length)];
+
+        // Random locations (consistent within batch)
+        const locations = [
+          "Pantry Shelf A",
+          "Basement Storage",
+          "Kitchen Cabinet",
+          "Garage Shelf",
+          "Cold Room",
+        ];
+        const location =
+          locations[Math.floor(Math.random() * locations.length)];
+
+        // Generate 2-6 jars per batch
+        const jarsPerBatch = Math.floor(Math.random() * 5) + 2;
+
+        await db.runAsync(
+          "INSERT INTO batches (id, itemTypeId, fillDateISO, jarSize, location, yieldCount) VALUES (?, ?, ?, ?, ?, ?)",
+          [batchId, itemTypeId, fillDate, jarSize, location, jarsPerBatch],
+        );
+
+        for (let jarIndex = 0; jarIndex < jarsPerBatch; jarIndex++) {
+          // 30% chance of being used, 5% of having spoiled
+          const roll = Math.random();
+          const status: JarStatus =
+            roll < 0.3 ? "used" : roll < 0.35 ? "spoiled" : "available";
+          const statusDate = status === "available" ? null : fillDate;
+
+          await db.runAsync(
+            "INSERT INTO jars (itemTypeId, fillDateISO, jarSize, location, status, statusDateISO, batchId) VALUES (?, ?, ?, ?, ?, ?, ?)",
+            [itemTypeId, fillDate, jarSize, location, status, statusDate, batchId],
+          );
+        }
+      }
+    }
+
+    await addMissingLocations(db);
+
+    console.log("Development data seeded successfully");
+  } catch (error) {
+    console.error("Error seeding development data:", error);
+  }
+}
+
+// === SUPPLIES ===
+
+// Lids and rings come one row per mouth width and are always listed
+const FIXED_SUPPLY_KINDS: SupplyKind[] = ["lid", "ring"];
+
+function validateSupplyCounts(
+  supply: Partial<Pick<Supply, "quantity" | "lowStockThreshold">>,
+): void {
+  for (const [key, label] of [
+    ["quantity", "Quantity"],
+    ["lowStockThreshold", "Low stock alert"],
+  ] as const) {
+    const value = supply[key];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      throw new Error(`${label} must be a whole number of at least 0`);
+    }
+  }
+}
+
+// Supplies grouped by kind: empty jars, lids, rings, then everything else
+export async function getSupplies(): Promise<Supply[]> {
+  const database = await getDb();
+  return database.getAllAsync<Supply>(
+    `SELECT id, kind, name, mouth, quantity, lowStockThreshold FROM supplies
+      ORDER BY CASE kind WHEN 'jar' THEN 0 WHEN 'lid' THEN 1 WHEN 'ring' THEN 2 ELSE 3 END,
+               mouth = 'wide', name COLLATE NOCASE`,
+  );
+}
+
+export async function addSupply(supply: Omit<Supply, "id">): Promise<number> {
+  const name = supply.name.trim();
+  if (!name) {
+    throw new Error("Supply name is required");
+  }
+  if (FIXED_SUPPLY_KINDS.includes(supply.kind)) {
+    throw new Error(`${SUPPLY_KIND_LABELS[supply.kind]} can't be added`);
+  }
+  validateSupplyCounts(supply);
+
+  const database = await getDb();
+  const existing = await database.getFirstAsync<{ id: number }>(
+    "SELECT id FROM supplies WHERE kind = ? AND name = ?",
+    [supply.kind, name],
+  );
+  if (existing) {
+    throw new Error(`${name} is already in your supplies`);
+  }
+  const result = await database.runAsync(
+    "INSERT INTO supplies (kind, name, mouth, quantity, lowStockThreshold) VALUES (?, ?, ?, ?, ?)",
+    [
+      supply.kind,
+      name,
+      supply.kind === "jar" ? (supply.mouth ?? "regular") : null,
+      supply.quantity,
+      supply.lowStockThreshold,
+    ],
+  );
+  return result.lastInsertRowId;
+}
+
+export async function updateSupply(
+  id: number,
+  changes: Partial<Pick<Supply, "quantity" | "lowStockThreshold" | "mouth">>,
+): Promise<void> {
+  validateSupplyCounts(changes);
+
+  const database = await getDb();
+  const fields = [];
+  const values = [];
+  for (const key of ["quantity", "lowStockThreshold"] as const) {
+    if (changes[key] !== undefined) {
+      fields.push(`${key} = ?`);
+      values.push(changes[key]);
+    }
+  }
+  if (fields.length > 0) {
+    values.push(id);
+    await database.runAsync(
+      `UPDATE supplies SET ${fields.join(", ")} WHERE id = ?`,
+      values,
+    );
+  }
+  // Only empty jars choose their mouth width; lids and rings are one of each
+  if (changes.mouth) {
+    await database.runAsync(
+      "UPDATE supplies SET mouth = ? WHERE id = ? AND kind = 'jar'",
+      [changes.mouth, id],
+    );
+  }
+}
+
+// Add to or take from a supply; it never goes below zero
+export async function adjustSupplyQuantity(
+  id: number,
+  change: number,
+): Promise<void> {
+  const database = await getDb();
+  await database.runAsync(
+    "UPDATE supplies SET quantity = MAX(quantity + ?, 0) WHERE id = ?",
+    [change, id],
+  );
+}
+
+export async function deleteSupply(id: number): Promise<void> {
+  const database = await getDb();
+  await database.runAsync(
+    `DELETE FROM supplies WHERE id = ? AND kind NOT IN (${FIXED_SUPPLY_KINDS.map(() => "?").join(", ")})`,
+    [id, ...FIXED_SUPPLY_KINDS],
+  );
+}
+
+// Supplies below their low-stock alert, the emptiest first
+export async function getLowSupplies(): Promise<Supply[]> {
+  return withDb(async (database) =>
+    database.getAllAsync<Supply>(
+      `SELECT id, kind, name, mouth, quantity, lowStockThreshold FROM supplies
+        WHERE lowStockThreshold > 0 AND quantity < lowStockThreshold
+        ORDER BY (quantity * 1.0 / lowStockThreshold) ASC`,
+    ),
+  );
+}
+
+// Jars filled longer ago than this are existing stock being entered, so
+// they don't come out of the supplies on hand
+const SUPPLIES_TAKEN_WITHIN_DAYS = 7;
+
+// Newly filled jars come out of the empty jars of their size, and each
+// takes a lid for its mouth. Sizes that aren't tracked take regular lids.
+async function takeSuppliesForJars(
+  database: StorageDatabase,
+  fillDateISO: string,
+  jarSize: string | undefined,
+  quantity: number,
+): Promise<void> {
+  const age = Date.now() - new Date(fillDateISO).getTime();
+  if (age > SUPPLIES_TAKEN_WITHIN_DAYS * 24 * 60 * 60 * 1000) return;
+
+  const emptyJars = jarSize
+    ? await database.getFirstAsync<Pick<Supply, "mouth">>(
+        "SELECT mouth FROM supplies WHERE kind = 'jar' AND name = ?",
+        [jarSize],
+      )
+    : null;
+  await database.runAsync(
+    `UPDATE supplies SET quantity = MAX(quantity - ?, 0)
+      WHERE (kind = 'jar' AND name = ?) OR (kind = 'lid' AND mouth = ?)`,
+    [quantity, jarSize ?? null, emptyJars?.mouth ?? "regular"],
+  );
+}
+
+// Whether marking a jar used puts its empty jar back in supplies by default
+export async function getReturnEmptyJars(): Promise<boolean> {
+  const database = await getDb();
+  const result = await database.getFirstAsync<{ value: string }>(
+    "SELECT value FROM app_settings WHERE key = ?",
+    ["returnEmptyJars"],
+  );
+  return result?.value === "1";
+}
+
+export async function setReturnEmptyJars(enabled: boolean): Promise<void> {
+  const database = await getDb();
+  await database.runAsync(
+    "INSERT OR REPLACE INTO app_settings (key, value) VALUES (?, ?)",
+    ["returnEmptyJars", enabled ? "1" : "0"],
+  );
+}
+
+// === SHOPPING LIST ===
+
+const INGREDIENTS_HEADING = /^\W*ingredients\b/i;
+const AFTER_INGREDIENTS_HEADING =
+  /^\W*(instructions|directions|method|steps|preparation|processing|notes)\b/i;
+
+// The lines under a recipe's "Ingredients" heading, without their bullets.
+// Recipes are free text, so one without that heading gives nothing.
+function getRecipeIngredients(content: string): string[] {
+  const lines = content.split("\n").map((line) => line.trim());
+  const start = lines.findIndex((line) => INGREDIENTS_HEADING.test(line));
+  if (start === -1) return [];
+
+  const ingredients: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (AFTER_INGREDIENTS_HEADING.test(line)) break;
+    // Skip blank lines and group headings like "For the brine:"
+    if (!line || line.endsWith(":")) continue;
+    ingredients.push(line.replace(/^([-*•·]|\d+[.)])\s*/, ""));
+  }
+  return ingredients.filter(Boolean);
+}
+
+// Still to buy first, then what's in the basket, oldest first
+export async function getShoppingList(): Promise<ShoppingListItem[]> {
+  const database = await getDb();
+  return database.getAllAsync<ShoppingListItem>(
+    `SELECT id, name, detail, checked, sourceKey, createdDateISO
+       FROM shopping_list ORDER BY checked, id`,
+  );
+}
+
+export async function addShoppingListItem(
+  name: string,
+  detail?: string,
+): Promise<number> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Item name is required");
+  }
+  const database = await getDb();
+  const result = await database.runAsync(
+    "INSERT INTO shopping_list (name, detail) VALUES (?, ?)",
+    [trimmed, detail?.trim() || null],
+  );
+  return result.lastInsertRowId;
+}
+
+export async function updateShoppingListItem(
+  id: number,
+  name: string,
+  detail?: string,
+): Promise<void> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Item name is required");
+  }
+  const database = await getDb();
+  await database.runAsync(
+    "UPDATE shopping_list SET name = ?, detail = ? WHERE id = ?",
+    [trimmed, detail?.trim() || null, id],
+  );
+}
+
+export async function setShoppingListItemChecked(
+  id: number,
+  checked: boolean,
+): Promise<void> {
+  const database = await getDb();
+  await database.runAsync("UPDATE shopping_list SET checked = ? WHERE id = ?", [
+    checked ? 1 : 0,
+    id,
+  ]);
+}
+
+export async function deleteShoppingListItem(id: number): Promise<void> {
+  const database = await getDb();
+  await database.runAsync("DELETE FROM shopping_list WHERE id = ?", [id]);
+}
+
+export async function clearCheckedShoppingListItems(): Promise<void> {
+  const database = await getDb();
+  await database.runAsync("DELETE FROM shopping_list WHERE checked = 1");
+}
+
+// Add what's needed to restock: the ingredients of the recipe last used for
+// each item running low, and supplies below their alert. Entries already on
+// the list (checked or not) are left as they are. Returns how many were added.
+export async function fillShoppingList(): Promise<number> {
+  const [lowItems, lowSupplies] = await Promise.all([
+    getRunningLowItems(),
+    getLowSupplies(),
+  ]);
+
+  return withDb(async (database) => {
+    const entries: Array<[name: string, detail: string, sourceKey: string]> =
+      [];
+    for (const item of lowItems) {
+      const recipe = await database.getFirstAsync<{
+        id: number;
+        content: string;
+      }>(
+        `SELECT r.id, r.content FROM batches b
+           JOIN recipes r ON r.id = b.recipeId
+          WHERE b.itemTypeId = ? AND b.deletedAt IS NULL
+          ORDER BY b.fillDateISO DESC LIMIT 1`,
+        [item.id],
+      );
+      const ingredients = recipe ? getRecipeIngredients(recipe.content) : [];
+      if (ingredients.length === 0) {
+        // Without a recipe to read, remind to shop for the item itself
+        entries.push([
+          `Ingredients for ${item.name}`,
+          `${item.available} of ${item.threshold} jars left`,
+          `item:${item.id}`,
+        ]);
+      }
+      for (const ingredient of ingredients) {
+        entries.push([
+          ingredient,
+          `For ${item.name}`,
+          `recipe:${recipe!.id}:${ingredient.toLowerCase()}`,
+        ]);
+      }
+    }
+    for (const supply of lowSupplies) {
+      entries.push([
+        formatSupplyName(supply),
+        `${supply.quantity} left`,
+        `supply:${supply.id}`,
+      ]);
+    }
+
+    return inTransaction(database, async () => {
+      let added = 0;
+      for (const entry of entries) {
+        const result = await database.runAsync(
+          "INSERT OR IGNORE INTO shopping_list (name, detail, sourceKey) VALUES (?, ?, ?)",
+          entry,
+        );
+        added += result.changes;
+      }
+      return added;
+    });
+  });
+}
+
+// === SEARCH ===
+
+export type SearchResultKind = "item" | "batch" | "recipe";
+
+export type SearchResult = {
+  kind: SearchResultKind;
+  refId: number | string; // Item type or recipe id, or batch id
+  title: string;
+  snippet: string; // Matching part of the notes, locations or recipe text
+  itemTypeId: number | null; // Batches only
+  fillDateISO: string | null; // Batches only
+};
+
+// Every word the user typed must match the start of a word in the document
+function toSearchQuery(text: string): string | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!words) return null;
+  return words.map((word) => `"${word}"*`).join(" ");
+}
+
+// Full-text search over item types, batches and recipes, best matches first
+export async function searchPantry(
+  text: string,
+  limit = 100,
+): Promise<SearchResult[]> {
+  const query = toSearchQuery(text);
+  if (!query) return [];
+  const database = await getDb();
+  return await database.getAllAsync<SearchResult>(
+    `SELECT search_index.kind,
+            search_index.refId,
+            search_index.title,
+            snippet(search_index, 3, '', '', '…', 12) as snippet,
+            b.itemTypeId,
+            b.fillDateISO
+       FROM search_index
+       LEFT JOIN batches b
+         ON search_index.kind = 'batch' AND b.id = search_index.refId
+      WHERE search_index MATCH ?
+      ORDER BY rank
+      LIMIT ?`,
+    [query, limit],
+  );
+}
+
+// === DATE FORMAT SETTINGS ===
+
+export async function getDateFormat(): Promise<DateFormat> {
+  const database = await getDb();
+  const result = await database.getFirstAsync<{ value: string }>(
+    "SELECT value FROM app_settings WHERE key = ?",
+    ["dateFormat"],
+  );
+
+  if (result?.value && DATE_FORMATS.some((df) => df.value === result.value)) {
+    return result.value as DateFormat;
+  }
+
+  // Default to US format
+  return "MM/DD/YYYY";
+}
+
+export async function setDateFormat(format: DateFormat): Promise<void> {
+  const database = await getDb();
+  await database.runAsync(
+    "INSERT OR REPLACE INTO app_settings (key, value) VALUES (?, ?)",
+    ["dateFormat", format],
+  );
+}
+
+export function formatDate(date: Date, format?: DateFormat): string {
+  if (!format) {
+    format = "MM/DD/YYYY"; // Default fallback
+  }
+
+  const month = date.getMonth() + 1;
+  const day = date.getDate();
+  const year = date.getFullYear();
+
+  const monthNames = [
+    "Jan",
+    "Feb",
+    "Mar",
+    "Apr",
+    "May",
+    "Jun",
+    "Jul",
+    "Aug",
+    "Sep",
+    "Oct",
+    "Nov",
+    "Dec",
+  ];
+
+  switch (format) {
+    case "MM/DD/YYYY":
+      return `${month.toString().padStart(2, "0")}/${day
+        .toString()
+        .padStart(2, "0")}/${year}`;
+    case "DD/MM/YYYY":
+      return `${day.toString().padStart(2, "0")}/${month
+        .toString()
+        .padStart(2, "0")}/${year}`;
+    case "MMM DD, YYYY":
+      return `${monthNames[month - 1]} ${day}, ${year}`;
+    default:
+      return date.toLocaleDateString();
+  }
+}
+
+export async function formatDateWithUserPreference(
+  date: Date,
+): Promise<string> {
+  const userFormat = await getDateFormat();
+  return formatDate(date, userFormat);
+}
+
+export function formatDateString(
+  dateString: string,
+  format?: DateFormat,
+): string {
+  const date = new Date(dateString);
+  return formatDate(date, format);
+}
+
+export async function formatDateStringWithUserPreference(
+  dateString: string,
+): Promise<string> {
+  const userFormat = await getDateFormat();
+  return formatDateString(dateString, userFormat);
+}
+
+// === SAVED VIEWS ===
+
+export type DashboardStatus = "all" | "available" | "used" | "useSoon";
+
+// Everything the dashboard's batch list can be narrowed by
+export type DashboardFilter = {
+  category: string | null;
+  status: DashboardStatus;
+  location: string | null; // Includes the places nested inside it
+  olderThanMonths: number | null; // Filled at least this long ago
+  newerThanMonths: number | null; // Filled at most this long ago
+  jarSize: string | null;
+  runningLow: boolean;
+};
+
+export const EMPTY_DASHBOARD_FILTER: DashboardFilter = {
+  category: null,
+  status: "all",
+  location: null,
+  olderThanMonths: null,
+  newerThanMonths: null,
+  jarSize: null,
+  runningLow: false,
+};
+
+export type SavedView = {
+  id: string;
+  name: string;
+  filter: DashboardFilter;
+};
+
+const SAVED_VIEWS_KEY = "savedViews";
+
+async function writeSavedViews(views: SavedView[]): Promise<void> {
+  const database = await getDb();
+  await database.runAsync(
+    "INSERT OR REPLACE INTO app_settings (key, value) VALUES (?, ?)",
+    [SAVED_VIEWS_KEY, JSON.stringify(views)],
+  );
+}
+
+export async function getSavedViews(): Promise<SavedView[]> {
+  const database = await getDb();
+  const result = await database.getFirstAsync<{ value: string }>(
+    "SELECT value FROM app_settings WHERE key = ?",
+    [SAVED_VIEWS_KEY],
+  );
+  if (!result?.value) return [];
+
+  try {
+    const views = JSON.parse(result.value) as SavedView[];
+    // Filters saved before a field existed get its default
+    return views.map((view) => ({
+      ...view,
+      filter: { ...EMPTY_DASHBOARD_FILTER, ...view.filter },
+    }));
+  } catch (error) {
+    console.error("Error reading saved views:", error);
+    return [];
+  }
+}
+
+// Saving under an existing name (any case) replaces that view's filters
+export async function saveView(
+  name: string,
+  filter: DashboardFilter,
+): Promise<SavedView> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("View name is required");
+  }
+
+  const views = await getSavedViews();
+  const existing = views.find(
+    (view) => view.name.toLowerCase() === trimmed.toLowerCase(),
+  );
+  const saved: SavedView = {
+    id:
+      existing?.id ??
+      `view_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name: trimmed,
+    filter: { ...filter },
+  };
+  await writeSavedViews(
+    existing
+      ? views.map((view) => (view.id === existing.id ? saved : view))
+      : [...views, saved],
+  );
+  return saved;
+}
+
+export async function deleteSavedView(id: string): Promise<void> {
+  const views = await getSavedViews();
+  await writeSavedViews(views.filter((view) => view.id !== id));
+}
+
+// === DIAGNOSTICS ===
+
+export type IntegrityProblemKind =
+  | "missingRecipe"
+  | "mixedBatch"
+  | "missingCategory"
+  | "legacyRecipe"
+  | "foreignKey"
+  | "corruption";
+
+export type IntegrityProblem = {
+  kind: IntegrityProblemKind;
+  description: string;
+};
+
+// Kinds that repairIntegrityProblems can fix; corruption needs a restore
+export const REPAIRABLE_PROBLEM_KINDS: IntegrityProblemKind[] = [
+  "missingRecipe",
+  "mixedBatch",
+  "missingCategory",
+  "legacyRecipe",
+  "foreignKey",
+];
+
+// Recipe links are checked on their own, so foreign_key_check skips them
+const RECIPE_LINK_SQL = `SELECT 'batches' as tableName, b.rowid, b.recipeId,
+         it.name, b.fillDateISO
+    FROM batches b
+    JOIN item_types it ON it.id = b.itemTypeId
+   WHERE b.recipeId IS NOT NULL
+     AND b.recipeId NOT IN (SELECT id FROM recipes)
+  UNION ALL
+  SELECT 'jars', j.rowid, j.recipeId, it.name, j.fillDateISO
+    FROM jars j
+    JOIN item_types it ON it.id = j.itemTypeId
+   WHERE j.recipeId IS NOT NULL
+     AND j.recipeId NOT IN (SELECT id FROM recipes)`;
+
+type ForeignKeyViolation = {
+  table: string;
+  rowid: number;
+  parent: string;
+  column: string;
+  onDelete: string;
+};
+
+async function getForeignKeyViolations(
+  database: StorageDatabase,
+): Promise<ForeignKeyViolation[]> {
+  const violations = await database.getAllAsync<{
+    table: string;
+    rowid: number;
+    parent: string;
+    fkid: number;
+  }>("PRAGMA foreign_key_check");
+  const keysByTable = new Map<
+    string,
+    { id: number; from: string; on_delete: string }[]
+  >();
+  const result: ForeignKeyViolation[] = [];
+  for (const violation of violations) {
+    if (!keysByTable.has(violation.table)) {
+      keysByTable.set(
+        violation.table,
+        await database.getAllAsync(
+          `PRAGMA foreign_key_list(${violation.table})`,
+        ),
+      );
+    }
+    const key = keysByTable
+      .get(violation.table)!
+      .find((k) => k.id === violation.fkid);
+    if (!key || violation.parent === "recipes") continue;
+    result.push({
+      table: violation.table,
+      rowid: violation.rowid,
+      parent: violation.parent,
+      column: key.from,
+      onDelete: key.on_delete,
+    });
+  }
+  return result;
+}
+
+// Look for data that the app's own writes should never produce, plus
+// SQLite's own integrity and foreign key checks
+export async function checkDatabaseIntegrity(): Promise<IntegrityProblem[]> {
+  return withDb(async (database) => {
+    const problems: IntegrityProblem[] = [];
+    const dateFormat = await getDateFormat();
+
+    const corruption = await database.getAllAsync<{
+      integrity_check: string;
+    }>("PRAGMA integrity_check");
+    for (const row of corruption) {
+      if (row.integrity_check !== "ok") {
+        problems.push({ kind: "corruption", description: row.integrity_check });
+      }
+    }
+
+    const recipeLinks = await database.getAllAsync<{
+      tableName: string;
+      recipeId: number;
+      name: string;
+      fillDateISO: string;
+    }>(RECIPE_LINK_SQL);
+    for (const link of recipeLinks) {
+      problems.push({
+        kind: "missingRecipe",
+        description: `${link.tableName === "batches" ? "Batch" : "Jar"} of ${
+          link.name
+        } filled ${formatDateString(
+          link.fillDateISO,
+          dateFormat,
+        )} links to deleted recipe #${link.recipeId}`,
+      });
+    }
+
+    const mixedJars = await database.getAllAsync<{
+      jarId: number;
+      jarItem: string | null;
+      batchItem: string;
+    }>(
+      `SELECT j.id as jarId, ji.name as jarItem, bi.name as batchItem
+         FROM jars j
+         JOIN batches b ON b.id = j.batchId
+         JOIN item_types bi ON bi.id = b.itemTypeId
+         LEFT JOIN item_types ji ON ji.id = j.itemTypeId
+        WHERE j.itemTypeId <> b.itemTypeId
+        ORDER BY j.id`,
+    );
+    for (const jar of mixedJars) {
+      problems.push({
+        kind: "mixedBatch",
+        description: `Jar #${jar.jarId} is ${
+          jar.jarItem ?? "a deleted item"
+        } but its batch is ${jar.batchItem}`,
+      });
+    }
+
+    const missingCategories = await database.getAllAsync<{
+      name: string;
+      category: string;
+    }>(
+      `SELECT it.name, it.category
+         FROM item_types it
+        WHERE it.category IS NOT NULL AND it.category <> ''
+          AND it.category NOT IN (SELECT name FROM custom_categories)
+        ORDER BY it.name`,
+    );
+    for (const item of missingCategories) {
+      problems.push({
+        kind: "missingCategory",
+        description: `${item.name} is in category "${item.category}", which is not in your categories`,
+      });
+    }
+
+    const legacyRecipes = await database.getAllAsync<{ label: string }>(
+      `SELECT 'Item ' || name as label FROM item_types
+        WHERE recipe IS NOT NULL OR recipe_image IS NOT NULL
+       UNION ALL
+       SELECT 'Jar #' || id FROM jars
+        WHERE recipe IS NOT NULL OR recipe_image IS NOT NULL`,
+    );
+    for (const row of legacyRecipes) {
+      problems.push({
+        kind: "legacyRecipe",
+        description: `${row.label} still has old recipe text or an image from before the recipe collection`,
+      });
+    }
+
+    for (const violation of await getForeignKeyViolations(database)) {
+      problems.push({
+        kind: "foreignKey",
+        description: `Row ${violation.rowid} in ${violation.table} points at a missing row in ${violation.parent} (${violation.column})`,
+      });
+    }
+
+    return problems;
+  });
+}
+
+// Fix every problem of one kind and return how many rows changed
+export async function repairIntegrityProblems(
+  kind: IntegrityProblemKind,
+): Promise<number> {
+  if (!REPAIRABLE_PROBLEM_KINDS.includes(kind)) {
+    throw new Error(
+      "Database corruption cannot be repaired here. Restore a backup instead.",
+    );
+  }
+
+  return withDb((database) =>
+    inTransaction(database, async () => {
+      switch (kind) {
+        case "missingRecipe": {
+          let changes = 0;
+          for (const table of ["batches", "jars"]) {
+            const result = await database.runAsync(
+              `UPDATE ${table} SET recipeId = NULL
+                WHERE recipeId IS NOT NULL
+                  AND recipeId NOT IN (SELECT id FROM recipes)`,
+            );
+            changes += result.changes;
+          }
+          return changes;
+        }
 
-  const generateRandomDate = (year: number, month: number) => {
-    const day = Math.floor(Math.random() * 28) + 1;
-    return new Date(year, month - 1, day).toISOString();
-  };
+        // The batch decides what a jar is
+        case "mixedBatch": {
+          const result = await database.runAsync(
+            `UPDATE jars
+                SET itemTypeId = (SELECT b.itemTypeId FROM batches b
+                                   WHERE b.id = jars.batchId)
+              WHERE itemTypeId <> (SELECT b.itemTypeId FROM batches b
+                                    WHERE b.id = jars.batchId)`,
+          );
+          return result.changes;
+        }
 
-  try {
-    for (const itemType of testItemTypes) {
-      const result = await db.runAsync(
-        "INSERT INTO item_types (name, category, recipe) VALUES (?, ?, ?)",
-        [itemType.name, itemType.category, itemType.recipe],
-      );
+        case "missingCategory": {
+          const result = await database.runAsync(
+            `INSERT INTO custom_categories (name, icon, isDefault)
+             SELECT DISTINCT category, '📦', 0
+               FROM item_types
+              WHERE category IS NOT NULL AND category <> ''
+                AND category NOT IN (SELECT name FROM custom_categories)`,
+          );
+          return result.changes;
+        }
 
-      const itemTypeId = result.lastInsertRowId;
+        case "legacyRecipe": {
+          let changes = 0;
+          for (const table of ["item_types", "jars"]) {
+            const result = await database.runAsync(
+              `UPDATE ${table} SET recipe = NULL, recipe_image = NULL
+                WHERE recipe IS NOT NULL OR recipe_image IS NOT NULL`,
+            );
+            changes += result.changes;
+          }
+          return changes;
+        }
 
-      // Generate 2-4 batches per item type
-      const batchCount = Math.floor(Math.random() * 3) + 2;
+        // Do what the foreign key's ON DELETE would have done. Deleting a
+        // row can orphan rows that pointed at it, so go until none are left.
+        case "foreignKey": {
+          let changes = 0;
+          let passChanges: number;
+          do {
+            passChanges = 0;
+            for (const violation of await getForeignKeyViolations(database)) {
+              const result = await database.runAsync(
+                violation.onDelete === "SET NULL"
+                  ? `UPDATE ${violation.table} SET ${violation.column} = NULL WHERE rowid = ?`
+                  : `DELETE FROM ${violation.table} WHERE rowid = ?`,
+                [violation.rowid],
+              );
+              passChanges += result.changes;
+            }
+            changes += passChanges;
+          } while (passChanges > 0);
+          return changes;
+        }
+      }
+      return 0;
+    }),
+  );
+}
 
-      for (let batchIndex = 0; batchIndex < batchCount; batchIndex++) {
-        // Spread across 2023, 2024, and 2025
-        const year = 2023 + Math.floor(Math.random() * 3);
-        const month = Math.floor(Math.random() * 12) + 1;
-        const fillDate = generateRandomDate(year, month);
+// === PANTRIES ===
 
-        // Generate unique batch ID
-        const batchId = `batch-${itemTypeId}-${batchIndex}-${year}${month
-          .toString()
-          .padStart(2, "0")}`;
+// Each pantry is its own database file. A small registry database lists the
+// pantries, remembers which one is open, and keeps the categories, jar sizes
+// and recipes that pantries can share. A sharing pantry pushes its catalog
+// there when the app switches away from it, and the pantry switched to pulls
+// it back in, so only the open pantry's copy is ever edited.
 
-        // Random jar sizes (consistent within batch)
-        const jarSize = JAR_SIZES[Math.floor(Math.random() * JAR_SIZES.length)];
+export type Pantry = {
+  id: number;
+  name: string;
+  sharesCatalog: boolean;
+};
 
-        // Random locations (consistent within batch)
-        const locations = [
-          "Pantry Shelf A",
-          "Basement Storage",
-          "Kitchen Cabinet",
-          "Garage Shelf",
-          "Cold Room",
-        ];
-        const location =
-          locations[Math.floor(Math.random() * locations.length)];
+// The first pantry keeps the original file so existing data stays put
+const FIRST_PANTRY_ID = 1;
 
-        // Generate 2-6 jars per batch
-        const jarsPerBatch = Math.floor(Math.random() * 5) + 2;
+function pantryFileName(id: number): string {
+  return id === FIRST_PANTRY_ID
+    ? databaseName
+    : `${databaseName.replace(/\.db$/, "")}_pantry_${id}.db`;
+}
 
-        for (let jarIndex = 0; jarIndex < jarsPerBatch; jarIndex++) {
-          // 30% chance of being used
-          const used = Math.random() < 0.3 ? 1 : 0;
+function openPantryDatabase(id: number): StorageDatabase {
+  if (!storageAdapter) {
+    throw new Error("No storage adapter set. Call setStorageAdapter() first.");
+  }
+  if (databaseName !== ":memory:") {
+    return storageAdapter.openDatabase(pantryFileName(id));
+  }
+  let database = memoryPantries.get(id);
+  if (!database) {
+    database = storageAdapter.openDatabase(":memory:");
+    memoryPantries.set(id, database);
+  }
+  return database;
+}
 
-          await db.runAsync(
-            "INSERT INTO jars (itemTypeId, fillDateISO, jarSize, location, used, batchId) VALUES (?, ?, ?, ?, ?, ?)",
-            [itemTypeId, fillDate, jarSize, location, used, batchId],
-          );
-        }
-      }
-    }
+// In-memory pantries are kept open; see memoryPantries
+async function closePantryDatabase(database: StorageDatabase): Promise<void> {
+  if (databaseName !== ":memory:") {
+    await database.closeAsync();
+  }
+}
 
-    console.log("Development data seeded successfully");
-  } catch (error) {
-    console.error("Error seeding development data:", error);
+async function getRegistry(): Promise<StorageDatabase> {
+  if (registryDb) return registryDb;
+  if (!storageAdapter) {
+    throw new Error("No storage adapter set. Call setStorageAdapter() first.");
   }
+
+  const database = storageAdapter.openDatabase(
+    databaseName === ":memory:"
+      ? ":memory:"
+      : `${databaseName.replace(/\.db$/, "")}_pantries.db`,
+  );
+  await database.execAsync(
+    `CREATE TABLE IF NOT EXISTS pantries (
+       id INTEGER PRIMARY KEY AUTOINCREMENT,
+       name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+       sharesCatalog INTEGER NOT NULL DEFAULT 0,
+       createdDateISO TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+     );
+     CREATE TABLE IF NOT EXISTS registry_settings (
+       key TEXT PRIMARY KEY NOT NULL,
+       value TEXT NOT NULL
+     );
+     CREATE TABLE IF NOT EXISTS shared_categories (
+       name TEXT PRIMARY KEY NOT NULL,
+       icon TEXT NOT NULL,
+       isDefault INTEGER NOT NULL DEFAULT 0,
+       fridgeLifeDays INTEGER,
+       shelfLifeMonths INTEGER
+     );
+     CREATE TABLE IF NOT EXISTS shared_jar_sizes (
+       name TEXT PRIMARY KEY NOT NULL,
+       isDefault INTEGER NOT NULL DEFAULT 0,
+       hidden INTEGER NOT NULL DEFAULT 0
+     );
+     CREATE TABLE IF NOT EXISTS shared_recipes (
+       name TEXT PRIMARY KEY NOT NULL,
+       content TEXT NOT NULL,
+       image TEXT,
+       expectedJarCount INTEGER,
+       expectedJarSize TEXT
+     );
+     CREATE TABLE IF NOT EXISTS shared_category_fields (
+       categoryName TEXT NOT NULL,
+       name TEXT NOT NULL,
+       type TEXT NOT NULL,
+       choices TEXT,
+       sortOrder INTEGER NOT NULL DEFAULT 0,
+       PRIMARY KEY (categoryName, name)
+     );
+     INSERT INTO pantries (id, name)
+       SELECT ${FIRST_PANTRY_ID}, 'Home' WHERE NOT EXISTS (SELECT 1 FROM pantries);`,
+  );
+  // Registries made before recipes had an expected yield
+  await addColumnIfMissing(
+    database,
+    "shared_recipes",
+    "expectedJarCount",
+    "INTEGER",
+  );
+  await addColumnIfMissing(
+    database,
+    "shared_recipes",
+    "expectedJarSize",
+    "TEXT",
+  );
+  registryDb = database;
+  return database;
 }
 
-// === DATE FORMAT SETTINGS ===
+// Falls back to the oldest pantry if the saved one has been deleted
+async function getCurrentPantryId(registry: StorageDatabase): Promise<number> {
+  const row = await registry.getFirstAsync<{ id: number }>(
+    `SELECT id FROM pantries
+      ORDER BY id = (SELECT CAST(value AS INTEGER) FROM registry_settings
+                      WHERE key = 'currentPantryId') DESC, id
+      LIMIT 1`,
+  );
+  if (!row) {
+    throw new Error("No pantries found");
+  }
+  return row.id;
+}
 
-export async function getDateFormat(): Promise<DateFormat> {
-  const database = await getDb();
-  const result = await database.getFirstAsync<{ value: string }>(
-    "SELECT value FROM app_settings WHERE key = ?",
-    ["dateFormat"],
+async function addPantry(
+  registry: StorageDatabase,
+  name: string,
+  sharesCatalog: boolean,
+): Promise<number> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Pantry name is required");
+  }
+  const existing = await registry.getFirstAsync<{ id: number }>(
+    "SELECT id FROM pantries WHERE name = ?",
+    [trimmed],
+  );
+  if (existing) {
+    throw new Error(`A pantry named "${trimmed}" already exists`);
+  }
+  const result = await registry.runAsync(
+    "INSERT INTO pantries (name, sharesCatalog) VALUES (?, ?)",
+    [trimmed, sharesCatalog ? 1 : 0],
   );
+  return result.lastInsertRowId;
+}
 
-  if (result?.value && DATE_FORMATS.some((df) => df.value === result.value)) {
-    return result.value as DateFormat;
+// Run an operation against any pantry's database. The open pantry uses the
+// app's connection; others are opened, brought up to date and closed again.
+async function withPantryDatabase<T>(
+  id: number,
+  currentId: number,
+  operation: (database: StorageDatabase) => Promise<T>,
+): Promise<T> {
+  if (id === currentId) {
+    return withDb(operation);
+  }
+  const database = openPantryDatabase(id);
+  try {
+    await runMigrations(database);
+    return await operation(database);
+  } finally {
+    await closePantryDatabase(database);
   }
+}
 
-  // Default to US format
-  return "MM/DD/YYYY";
+type SharedCategoryField = Omit<CategoryFieldRow, "id" | "categoryId"> & {
+  categoryName: string;
+};
+
+// Replace the shared catalog with this pantry's categories (with their custom
+// fields), jar sizes and recipes
+async function pushSharedCatalog(database: StorageDatabase): Promise<void> {
+  const categories = await database.getAllAsync<CustomCategory>(
+    "SELECT name, icon, isDefault, fridgeLifeDays, shelfLifeMonths FROM custom_categories",
+  );
+  const fields = await database.getAllAsync<SharedCategoryField>(
+    `SELECT c.name as categoryName, f.name, f.type, f.choices, f.sortOrder
+       FROM category_fields f
+       JOIN custom_categories c ON c.id = f.categoryId`,
+  );
+  const jarSizes = await database.getAllAsync<CustomJarSize>(
+    "SELECT name, isDefault, hidden FROM custom_jar_sizes",
+  );
+  const recipes = await database.getAllAsync<Recipe>(
+    "SELECT name, content, image, expectedJarCount, expectedJarSize FROM recipes ORDER BY id",
+  );
+
+  const registry = await getRegistry();
+  await inTransaction(registry, async () => {
+    await registry.execAsync(
+      "DELETE FROM shared_categories; DELETE FROM shared_category_fields; DELETE FROM shared_jar_sizes; DELETE FROM shared_recipes;",
+    );
+    await insertRows(
+      registry,
+      "INSERT INTO shared_categories (name, icon, isDefault, fridgeLifeDays, shelfLifeMonths) VALUES (?, ?, ?, ?, ?)",
+      categories.map((category) => [
+        category.name,
+        category.icon,
+        category.isDefault ? 1 : 0,
+        category.fridgeLifeDays ?? null,
+        category.shelfLifeMonths ?? null,
+      ]),
+    );
+    await insertRows(
+      registry,
+      "INSERT INTO shared_category_fields (categoryName, name, type, choices, sortOrder) VALUES (?, ?, ?, ?, ?)",
+      fields.map((field) => [
+        field.categoryName,
+        field.name,
+        field.type,
+        field.choices,
+        field.sortOrder,
+      ]),
+    );
+    await insertRows(
+      registry,
+      "INSERT INTO shared_jar_sizes (name, isDefault, hidden) VALUES (?, ?, ?)",
+      jarSizes.map((jarSize) => [
+        jarSize.name,
+        jarSize.isDefault ? 1 : 0,
+        jarSize.hidden ? 1 : 0,
+      ]),
+    );
+    // Recipes are matched by name, so the newest of any duplicates wins
+    await insertRows(
+      registry,
+      "INSERT OR REPLACE INTO shared_recipes (name, content, image, expectedJarCount, expectedJarSize) VALUES (?, ?, ?, ?, ?)",
+      recipes.map((recipe) => [
+        recipe.name,
+        recipe.content,
+        recipe.image ?? null,
+        recipe.expectedJarCount ?? null,
+        recipe.expectedJarSize ?? null,
+      ]),
+    );
+  });
 }
 
-export async function setDateFormat(format: DateFormat): Promise<void> {
-  const database = await getDb();
-  await database.runAsync(
-    "INSERT OR REPLACE INTO app_settings (key, value) VALUES (?, ?)",
-    ["dateFormat", format],
+// Bring the shared catalog into a pantry, matching entries by name. With
+// removeMissing, entries another pantry deleted go too unless this pantry
+// still uses them.
+async function pullSharedCatalog(
+  database: StorageDatabase,
+  removeMissing: boolean,
+): Promise<void> {
+  const registry = await getRegistry();
+  const categories = await registry.getAllAsync<Omit<CustomCategory, "id">>(
+    "SELECT name, icon, isDefault, fridgeLifeDays, shelfLifeMonths FROM shared_categories",
+  );
+  // Nothing has been shared yet
+  if (categories.length === 0) return;
+  const fields = await registry.getAllAsync<SharedCategoryField>(
+    "SELECT categoryName, name, type, choices, sortOrder FROM shared_category_fields",
+  );
+  const jarSizes = await registry.getAllAsync<Omit<CustomJarSize, "id">>(
+    "SELECT name, isDefault, hidden FROM shared_jar_sizes",
+  );
+  const recipes = await registry.getAllAsync<
+    Pick<
+      Recipe,
+      "name" | "content" | "image" | "expectedJarCount" | "expectedJarSize"
+    >
+  >(
+    "SELECT name, content, image, expectedJarCount, expectedJarSize FROM shared_recipes",
   );
+
+  await inTransaction(database, async () => {
+    await insertRows(
+      database,
+      `INSERT INTO custom_categories (name, icon, isDefault, fridgeLifeDays, shelfLifeMonths)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(name) DO UPDATE SET icon = excluded.icon,
+         isDefault = excluded.isDefault, fridgeLifeDays = excluded.fridgeLifeDays,
+         shelfLifeMonths = excluded.shelfLifeMonths`,
+      categories.map((category) => [
+        category.name,
+        category.icon,
+        category.isDefault ? 1 : 0,
+        category.fridgeLifeDays ?? null,
+        category.shelfLifeMonths ?? null,
+      ]),
+    );
+    await insertRows(
+      database,
+      `INSERT INTO category_fields (categoryId, name, type, choices, sortOrder)
+       SELECT id, ?2, ?3, ?4, ?5 FROM custom_categories WHERE name = ?1
+       ON CONFLICT(categoryId, name) DO UPDATE SET name = excluded.name,
+         type = excluded.type, choices = excluded.choices,
+         sortOrder = excluded.sortOrder`,
+      fields.map((field) => [
+        field.categoryName,
+        field.name,
+        field.type,
+        field.choices,
+        field.sortOrder,
+      ]),
+    );
+    await insertRows(
+      database,
+      `INSERT INTO custom_jar_sizes (name, isDefault, hidden) VALUES (?, ?, ?)
+       ON CONFLICT(name) DO UPDATE SET isDefault = excluded.isDefault,
+         hidden = excluded.hidden`,
+      jarSizes.map((jarSize) => [
+        jarSize.name,
+        jarSize.isDefault ? 1 : 0,
+        jarSize.hidden ? 1 : 0,
+      ]),
+    );
+    await insertRows(
+      database,
+      `UPDATE recipes SET content = ?, image = ?, expectedJarCount = ?,
+         expectedJarSize = ? WHERE name = ?`,
+      recipes.map((recipe) => [
+        recipe.content,
+        recipe.image ?? null,
+        recipe.expectedJarCount ?? null,
+        recipe.expectedJarSize ?? null,
+        recipe.name,
+      ]),
+    );
+    await insertRows(
+      database,
+      `INSERT INTO recipes (name, content, image, expectedJarCount, expectedJarSize, created_date)
+       SELECT ?1, ?2, ?3, ?4, ?5, datetime('now')
+        WHERE NOT EXISTS (SELECT 1 FROM recipes WHERE name = ?1)`,
+      recipes.map((recipe) => [
+        recipe.name,
+        recipe.content,
+        recipe.image ?? null,
+        recipe.expectedJarCount ?? null,
+        recipe.expectedJarSize ?? null,
+      ]),
+    );
+
+    if (!removeMissing) return;
+    await database.runAsync(
+      `DELETE FROM custom_categories
+        WHERE name NOT IN (SELECT value FROM json_each(?))
+          AND name NOT IN (SELECT category FROM item_types WHERE category IS NOT NULL)`,
+      [JSON.stringify(categories.map((category) => category.name))],
+    );
+    // Only fields of shared categories; the comparison ignores case
+    await database.runAsync(
+      `DELETE FROM category_fields
+        WHERE categoryId IN (SELECT id FROM custom_categories
+                              WHERE name IN (SELECT value FROM json_each(?)))
+          AND NOT EXISTS (
+            SELECT 1 FROM json_each(?) s
+              JOIN custom_categories c ON c.id = category_fields.categoryId
+             WHERE c.name = json_extract(s.value, '$[0]')
+               AND category_fields.name = json_extract(s.value, '$[1]'))`,
+      [
+        JSON.stringify(categories.map((category) => category.name)),
+        JSON.stringify(fields.map((field) => [field.categoryName, field.name])),
+      ],
+    );
+    await database.runAsync(
+      `DELETE FROM custom_jar_sizes
+        WHERE name NOT IN (SELECT value FROM json_each(?))
+          AND name NOT IN (SELECT jarSize FROM jars WHERE jarSize IS NOT NULL)
+          AND name NOT IN (SELECT jarSize FROM batches WHERE jarSize IS NOT NULL)`,
+      [JSON.stringify(jarSizes.map((jarSize) => jarSize.name))],
+    );
+    await database.runAsync(
+      `DELETE FROM recipes
+        WHERE name NOT IN (SELECT value FROM json_each(?))
+          AND id NOT IN (SELECT recipeId FROM batches WHERE recipeId IS NOT NULL)
+          AND id NOT IN (SELECT recipeId FROM jars WHERE recipeId IS NOT NULL)`,
+      [JSON.stringify(recipes.map((recipe) => recipe.name))],
+    );
+  });
 }
 
-export function formatDate(date: Date, format?: DateFormat): string {
-  if (!format) {
-    format = "MM/DD/YYYY"; // Default fallback
-  }
+export async function getPantries(): Promise<Pantry[]> {
+  const registry = await getRegistry();
+  const rows = await registry.getAllAsync<{
+    id: number;
+    name: string;
+    sharesCatalog: number;
+  }>(
+    "SELECT id, name, sharesCatalog FROM pantries ORDER BY name COLLATE NOCASE",
+  );
+  return rows.map((row) => ({
+    ...row,
+    sharesCatalog: row.sharesCatalog === 1,
+  }));
+}
 
-  const month = date.getMonth() + 1;
-  const day = date.getDate();
-  const year = date.getFullYear();
+export async function getCurrentPantry(): Promise<Pantry> {
+  const registry = await getRegistry();
+  const currentId = await getCurrentPantryId(registry);
+  const pantries = await getPantries();
+  return pantries.find((pantry) => pantry.id === currentId)!;
+}
 
-  const monthNames = [
-    "Jan",
-    "Feb",
-    "Mar",
-    "Apr",
-    "May",
-    "Jun",
-    "Jul",
-    "Aug",
-    "Sep",
-    "Oct",
-    "Nov",
-    "Dec",
-  ];
+// A new sharing pantry starts from the open pantry's catalog when nothing
+// has been shared yet
+export async function createPantry(
+  name: string,
+  sharesCatalog: boolean,
+): Promise<Pantry> {
+  const registry = await getRegistry();
+  const id = await addPantry(registry, name, sharesCatalog);
+  if (sharesCatalog) {
+    const shared = await registry.getFirstAsync<{ count: number }>(
+      "SELECT COUNT(*) as count FROM shared_categories",
+    );
+    if (!shared?.count) {
+      await withDb(pushSharedCatalog);
+    }
+  }
+  return { id, name: name.trim(), sharesCatalog };
+}
 
-  switch (format) {
-    case "MM/DD/YYYY":
-      return `${month.toString().padStart(2, "0")}/${day
-        .toString()
-        .padStart(2, "0")}/${year}`;
-    case "DD/MM/YYYY":
-      return `${day.toString().padStart(2, "0")}/${month
-        .toString()
-        .padStart(2, "0")}/${year}`;
-    case "MMM DD, YYYY":
-      return `${monthNames[month - 1]} ${day}, ${year}`;
-    default:
-      return date.toLocaleDateString();
+export async function renamePantry(id: number, name: string): Promise<void> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Pantry name is required");
   }
+  const registry = await getRegistry();
+  const existing = await registry.getFirstAsync<{ id: number }>(
+    "SELECT id FROM pantries WHERE name = ? AND id <> ?",
+    [trimmed, id],
+  );
+  if (existing) {
+    throw new Error(`A pantry named "${trimmed}" already exists`);
+  }
+  await registry.runAsync("UPDATE pantries SET name = ? WHERE id = ?", [
+    trimmed,
+    id,
+  ]);
 }
 
-export async function formatDateWithUserPreference(
-  date: Date,
-): Promise<string> {
-  const userFormat = await getDateFormat();
-  return formatDate(date, userFormat);
+// Turning sharing on merges the pantry's catalog with the shared one, so
+// nothing either side had is lost
+export async function setPantrySharing(
+  id: number,
+  sharesCatalog: boolean,
+): Promise<void> {
+  const registry = await getRegistry();
+  await registry.runAsync(
+    "UPDATE pantries SET sharesCatalog = ? WHERE id = ?",
+    [sharesCatalog ? 1 : 0, id],
+  );
+  if (!sharesCatalog) return;
+
+  const currentId = await getCurrentPantryId(registry);
+  await withPantryDatabase(id, currentId, async (database) => {
+    await pullSharedCatalog(database, false);
+    await pushSharedCatalog(database);
+  });
+  // The open pantry's copy is the one pushed next, so it needs the merge too
+  const current = await getCurrentPantry();
+  if (id !== currentId && current.sharesCatalog) {
+    await withDb((database) => pullSharedCatalog(database, false));
+  }
 }
 
-export function formatDateString(
-  dateString: string,
-  format?: DateFormat,
-): string {
-  const date = new Date(dateString);
-  return formatDate(date, format);
+export async function deletePantry(id: number): Promise<void> {
+  const registry = await getRegistry();
+  if (id === (await getCurrentPantryId(registry))) {
+    throw new Error("Switch to another pantry before deleting this one");
+  }
+  const count = await registry.getFirstAsync<{ count: number }>(
+    "SELECT COUNT(*) as count FROM pantries",
+  );
+  if ((count?.count ?? 0) <= 1) {
+    throw new Error("Cannot delete the only pantry");
+  }
+  await registry.runAsync("DELETE FROM pantries WHERE id = ?", [id]);
+  if (databaseName === ":memory:") {
+    await memoryPantries.get(id)?.closeAsync();
+    memoryPantries.delete(id);
+  } else {
+    storageAdapter?.deleteDatabase?.(pantryFileName(id));
+  }
 }
 
-export async function formatDateStringWithUserPreference(
-  dateString: string,
-): Promise<string> {
-  const userFormat = await getDateFormat();
-  return formatDateString(dateString, userFormat);
+// Close the open pantry and open another. Callers should reload everything
+// they show afterwards.
+export async function switchPantry(id: number): Promise<void> {
+  const registry = await getRegistry();
+  const currentId = await getCurrentPantryId(registry);
+  if (id === currentId) return;
+
+  const pantries = await getPantries();
+  const current = pantries.find((pantry) => pantry.id === currentId);
+  const target = pantries.find((pantry) => pantry.id === id);
+  if (!target) {
+    throw new Error("Pantry not found");
+  }
+
+  const database = await getDb();
+  if (current?.sharesCatalog) {
+    await pushSharedCatalog(database);
+  }
+  await closePantryDatabase(database);
+  resetDb();
+
+  await registry.runAsync(
+    "INSERT OR REPLACE INTO registry_settings (key, value) VALUES ('currentPantryId', ?)",
+    [String(id)],
+  );
+  if (target.sharesCatalog) {
+    await pullSharedCatalog(await getDb(), true);
+  }
 }
 
 // Functions for batch-specific recipes
@@ -1500,7 +4969,7 @@ export async function updateBatchRecipe(
   // First, check if this batch has a linked recipe in the recipes table
   const batchInfo = await database.getFirstAsync<{
     recipeId: number | null;
-  }>("SELECT recipeId FROM jars WHERE batchId = ? LIMIT 1", [batchId]);
+  }>("SELECT recipeId FROM batches WHERE id = ?", [batchId]);
 
   if (batchInfo?.recipeId) {
     // Update the recipe in the recipes table
@@ -1541,8 +5010,14 @@ export async function createRecipe(
   });
 
   const result = await database.runAsync(
-    "INSERT INTO recipes (name, content, image, created_date) VALUES (?, ?, ?, datetime('now'))",
-    [recipe.name, recipe.content, recipe.image ?? null],
+    "INSERT INTO recipes (name, content, image, expectedJarCount, expectedJarSize, created_date) VALUES (?, ?, ?, ?, ?, datetime('now'))",
+    [
+      recipe.name,
+      recipe.content,
+      recipe.image ?? null,
+      recipe.expectedJarCount ?? null,
+      recipe.expectedJarSize ?? null,
+    ],
   );
 
   console.log("createRecipe: Created recipe with ID:", result.lastInsertRowId);
@@ -1553,30 +5028,6 @@ export async function getAllRecipes(): Promise<Recipe[]> {
   const database = await getDb();
   console.log("getAllRecipes: Querying recipes table...");
 
-  // Check if table exists
-  try {
-    const tableCheck = await database.getFirstAsync(
-      "SELECT name FROM sqlite_master WHERE type='table' AND name='recipes'",
-    );
-    console.log("Recipes table exists:", !!tableCheck);
-
-    if (!tableCheck) {
-      console.log("Creating recipes table...");
-      await database.execAsync(`
-        CREATE TABLE IF NOT EXISTS recipes (
-          id INTEGER PRIMARY KEY NOT NULL,
-          name TEXT NOT NULL,
-          content TEXT NOT NULL,
-          image TEXT,
-          created_date TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
-          last_used_date TEXT
-        );
-      `);
-    }
-  } catch (error) {
-    console.error("Error checking/creating recipes table:", error);
-  }
-
   const result = await database.getAllAsync<Recipe>(
     "SELECT * FROM recipes ORDER BY last_used_date DESC, created_date DESC",
   );
@@ -1621,6 +5072,14 @@ export async function updateRecipe(
     fields.push("image = ?");
     values.push(recipe.image);
   }
+  if (recipe.expectedJarCount !== undefined) {
+    fields.push("expectedJarCount = ?");
+    values.push(recipe.expectedJarCount);
+  }
+  if (recipe.expectedJarSize !== undefined) {
+    fields.push("expectedJarSize = ?");
+    values.push(recipe.expectedJarSize);
+  }
 
   if (fields.length > 0) {
     values.push(id);
@@ -1641,9 +5100,9 @@ export async function updateRecipe(
     );
 
     if (updatedRecipe) {
-      // Update legacy fields in all jars that reference this recipe
+      // Update legacy fields in all jars whose batch references this recipe
       const updateResult = await database.runAsync(
-        "UPDATE jars SET recipe = ?, recipe_image = ? WHERE recipeId = ?",
+        "UPDATE jars SET recipe = ?, recipe_image = ? WHERE batchId IN (SELECT id FROM batches WHERE recipeId = ?)",
         [updatedRecipe.content, updatedRecipe.image, id],
       );
 
@@ -1657,9 +5116,9 @@ export async function updateRecipe(
 export async function deleteRecipe(id: number): Promise<void> {
   const database = await getDb();
 
-  // First, clear any legacy recipe fields in jars that reference this recipe
+  // First, clear any legacy recipe fields in jars whose batch references this recipe
   await database.runAsync(
-    "UPDATE jars SET recipe = NULL, recipe_image = NULL WHERE recipeId = ?",
+    "UPDATE jars SET recipe = NULL, recipe_image = NULL WHERE batchId IN (SELECT id FROM batches WHERE recipeId = ?)",
     [id],
   );
 
@@ -1673,7 +5132,7 @@ export async function deleteRecipeIfUnused(id: number): Promise<void> {
 
   // Check if the recipe is still being used by any batch
   const usage = await database.getFirstAsync<{ count: number }>(
-    "SELECT COUNT(*) as count FROM jars WHERE recipeId = ?",
+    "SELECT COUNT(*) as count FROM batches WHERE recipeId = ?",
     [id],
   );
 
@@ -1701,12 +5160,82 @@ export async function setBatchRecipeById(
   if (recipeId) {
     await updateRecipeLastUsed(recipeId);
   }
-  await database.runAsync("UPDATE jars SET recipeId = ? WHERE batchId = ?", [
+  await database.runAsync("UPDATE batches SET recipeId = ? WHERE id = ?", [
     recipeId ?? null,
     batchId,
   ]);
 }
 
+export type RecipeYieldBatch = {
+  batchId: string;
+  itemName: string;
+  fillDateISO: string;
+  jarSize: string | null;
+  jarCount: number;
+  // The same amount counted in the recipe's expected jar size, or null if the
+  // sizes can't be compared
+  expectedSizeCount: number | null;
+};
+
+export type RecipeYield = {
+  batches: RecipeYieldBatch[]; // Newest first
+  // Average jars per batch in the expected jar size, or null if no batch
+  // can be compared
+  averageJarCount: number | null;
+  comparedBatchCount: number;
+};
+
+// Jars counted in another jar size, using the ounces in each size name. Null
+// when either size doesn't say how much it holds.
+function countInJarSize(
+  jarCount: number,
+  fromSize: string | null,
+  toSize?: string | null,
+): number | null {
+  if (!toSize || fromSize === toSize) return jarCount;
+  const fromOunces = getJarSizeOunces(fromSize);
+  const toOunces = getJarSizeOunces(toSize);
+  return fromOunces && toOunces ? (jarCount * fromOunces) / toOunces : null;
+}
+
+// What batches linked to a recipe actually made, to compare with the
+// recipe's expected yield
+export async function getRecipeYield(recipeId: number): Promise<RecipeYield> {
+  const database = await getDb();
+  const recipe = await getRecipeById(recipeId);
+  const rows = await database.getAllAsync<
+    Omit<RecipeYieldBatch, "expectedSizeCount">
+  >(
+    `SELECT b.id as batchId, it.name as itemName, b.fillDateISO, b.jarSize,
+            b.yieldCount as jarCount
+       FROM batches b
+       JOIN item_types it ON it.id = b.itemTypeId
+      WHERE b.recipeId = ? AND b.deletedAt IS NULL AND b.yieldCount > 0
+      ORDER BY b.fillDateISO DESC`,
+    [recipeId],
+  );
+
+  const batches = rows.map((row) => ({
+    ...row,
+    expectedSizeCount: countInJarSize(
+      row.jarCount,
+      row.jarSize,
+      recipe?.expectedJarSize,
+    ),
+  }));
+  const counts = batches
+    .map((batch) => batch.expectedSizeCount)
+    .filter((count): count is number => count !== null);
+  return {
+    batches,
+    averageJarCount:
+      counts.length > 0
+        ? counts.reduce((sum, count) => sum + count, 0) / counts.length
+        : null,
+    comparedBatchCount: counts.length,
+  };
+}
+
 // Functions to import existing batch recipes
 export async function getUniqueBatchRecipes(): Promise<
   {
@@ -1736,9 +5265,10 @@ export async function getUniqueBatchRecipes(): Promise<
        it.name as itemTypeName
      FROM jars j
      JOIN item_types it ON j.itemTypeId = it.id
+     JOIN batches b ON b.id = j.batchId
      WHERE j.recipe IS NOT NULL 
        AND j.recipe != ''
-       AND j.recipeId IS NULL
+       AND b.recipeId IS NULL
      GROUP BY j.recipe, j.recipe_image
      ORDER BY batchCount DESC, j.recipe`,
   );
@@ -1805,15 +5335,17 @@ export async function importBatchRecipeToCollection(
   );
 
   if (source === "jar") {
-    // Update all jars that have this recipe to reference the new recipe ID
+    // Update all batches that have this recipe to reference the new recipe ID
     const updateResult = await database.runAsync(
-      "UPDATE jars SET recipeId = ? WHERE recipe = ? AND (recipe_image = ? OR (recipe_image IS NULL AND ? IS NULL)) AND recipeId IS NULL",
+      `UPDATE batches SET recipeId = ?
+        WHERE recipeId IS NULL
+          AND id IN (SELECT batchId FROM jars WHERE recipe = ? AND (recipe_image = ? OR (recipe_image IS NULL AND ? IS NULL)))`,
       [recipeId, recipe, recipeImage, recipeImage],
     );
     console.log(
       "importBatchRecipeToCollection: Updated",
       updateResult.changes,
-      "jars to reference this recipe",
+      "batches to reference this recipe",
     );
   }
 
@@ -1832,7 +5364,11 @@ export async function getBatchRecipeInfo(batchId: string): Promise<{
     recipe_image: string | null;
     recipeId: number | null;
   }>(
-    "SELECT recipe, recipe_image, recipeId FROM jars WHERE batchId = ? LIMIT 1",
+    `SELECT j.recipe, j.recipe_image, b.recipeId
+       FROM batches b
+       LEFT JOIN jars j ON j.batchId = b.id
+      WHERE b.id = ?
+      LIMIT 1`,
     [batchId],
   );
 
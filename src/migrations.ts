@@ -0,0 +1,762 @@
+import type { StorageDatabase } from "./storage/types";
+
+export type Migration = {
+  version: number;
+  name: string;
+  up: (db: StorageDatabase) => Promise<void>;
+};
+
+// Add a column only if it is missing (older installs were upgraded in place
+// before migrations existed, so their tables can be in any state)
+export async function addColumnIfMissing(
+  db: StorageDatabase,
+  table: string,
+  column: string,
+  definition: string,
+): Promise<void> {
+  const columns = await db.getAllAsync<{ name: string }>(
+    `PRAGMA table_info(${table})`,
+  );
+  if (!columns.some((col) => col.name === column)) {
+    await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+  }
+}
+
+// Ordered list of schema migrations. Never edit a migration that has shipped -
+// append a new one with the next version number instead.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial schema",
+    up: async (db) => {
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS item_types (
+           id INTEGER PRIMARY KEY NOT NULL,
+           name TEXT NOT NULL UNIQUE,
+           category TEXT,
+           recipe TEXT,
+           notes TEXT,
+           recipe_image TEXT,
+           lowStockThreshold INTEGER DEFAULT 0
+         );
+         CREATE TABLE IF NOT EXISTS recipes (
+           id INTEGER PRIMARY KEY NOT NULL,
+           name TEXT NOT NULL,
+           content TEXT NOT NULL,
+           image TEXT,
+           created_date TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+           last_used_date TEXT
+         );
+         CREATE TABLE IF NOT EXISTS jars (
+           id INTEGER PRIMARY KEY NOT NULL,
+           itemTypeId INTEGER NOT NULL REFERENCES item_types(id) ON DELETE CASCADE,
+           fillDateISO TEXT NOT NULL,
+           used INTEGER NOT NULL DEFAULT 0,
+           jarSize TEXT,
+           location TEXT,
+           batchId TEXT,
+           recipe TEXT,
+           recipe_image TEXT,
+           recipeId INTEGER REFERENCES recipes(id) ON DELETE SET NULL,
+           usedDateISO TEXT
+         );
+         CREATE TABLE IF NOT EXISTS custom_categories (
+           id INTEGER PRIMARY KEY NOT NULL,
+           name TEXT NOT NULL UNIQUE,
+           icon TEXT NOT NULL,
+           isDefault INTEGER NOT NULL DEFAULT 0
+         );
+         CREATE TABLE IF NOT EXISTS custom_jar_sizes (
+           id INTEGER PRIMARY KEY NOT NULL,
+           name TEXT NOT NULL UNIQUE,
+           isDefault INTEGER NOT NULL DEFAULT 0,
+           hidden INTEGER NOT NULL DEFAULT 0
+         );
+         CREATE TABLE IF NOT EXISTS app_settings (
+           id INTEGER PRIMARY KEY NOT NULL,
+           key TEXT NOT NULL UNIQUE,
+           value TEXT NOT NULL
+         );
+         CREATE INDEX IF NOT EXISTS idx_jars_itemTypeId ON jars(itemTypeId);`,
+      );
+
+      // Databases created by releases before this framework may be missing
+      // columns that were added over time
+      await addColumnIfMissing(db, "item_types", "category", "TEXT");
+      await addColumnIfMissing(db, "item_types", "recipe_image", "TEXT");
+      await addColumnIfMissing(
+        db,
+        "item_types",
+        "lowStockThreshold",
+        "INTEGER DEFAULT 0",
+      );
+      await addColumnIfMissing(db, "jars", "jarSize", "TEXT");
+      await addColumnIfMissing(db, "jars", "location", "TEXT");
+      await addColumnIfMissing(db, "jars", "batchId", "TEXT");
+      await addColumnIfMissing(db, "jars", "recipe", "TEXT");
+      await addColumnIfMissing(db, "jars", "recipe_image", "TEXT");
+      await addColumnIfMissing(
+        db,
+        "jars",
+        "recipeId",
+        "INTEGER REFERENCES recipes(id) ON DELETE SET NULL",
+      );
+      await addColumnIfMissing(db, "jars", "usedDateISO", "TEXT");
+      await addColumnIfMissing(
+        db,
+        "custom_jar_sizes",
+        "hidden",
+        "INTEGER NOT NULL DEFAULT 0",
+      );
+    },
+  },
+  {
+    version: 2,
+    name: "batches table",
+    up: async (db) => {
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS batches (
+           id TEXT PRIMARY KEY NOT NULL,
+           itemTypeId INTEGER NOT NULL REFERENCES item_types(id) ON DELETE CASCADE,
+           fillDateISO TEXT NOT NULL,
+           jarSize TEXT,
+           location TEXT,
+           recipeId INTEGER REFERENCES recipes(id) ON DELETE SET NULL,
+           notes TEXT,
+           yieldCount INTEGER NOT NULL DEFAULT 0,
+           createdDateISO TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+         );
+         CREATE INDEX IF NOT EXISTS idx_batches_itemTypeId ON batches(itemTypeId);
+         CREATE INDEX IF NOT EXISTS idx_jars_batchId ON jars(batchId);`,
+      );
+
+      // Jars created before batches existed get one batch per item and fill day
+      await db.execAsync(
+        `UPDATE jars
+            SET batchId = 'legacy_' || itemTypeId || '_' || substr(fillDateISO, 1, 10)
+          WHERE batchId IS NULL OR batchId = '';`,
+      );
+
+      // Batch-level fields used to be copied onto every jar, so take them from
+      // the jars. Notes were shown per item type, so each batch starts with those.
+      await db.execAsync(
+        `INSERT OR IGNORE INTO batches
+           (id, itemTypeId, fillDateISO, jarSize, location, recipeId, notes, yieldCount)
+         SELECT g.batchId, g.itemTypeId, g.fillDateISO, g.jarSize, g.location, g.recipeId,
+                (SELECT it.notes FROM item_types it WHERE it.id = g.itemTypeId),
+                g.jarCount
+           FROM (SELECT j.batchId,
+                        MIN(j.itemTypeId) AS itemTypeId,
+                        MIN(j.fillDateISO) AS fillDateISO,
+                        MAX(j.jarSize) AS jarSize,
+                        MAX(j.location) AS location,
+                        MAX(j.recipeId) AS recipeId,
+                        COUNT(*) AS jarCount
+                   FROM jars j
+                  GROUP BY j.batchId) g;`,
+      );
+    },
+  },
+  {
+    version: 3,
+    name: "trash",
+    up: async (db) => {
+      // Rows with a deletedAt timestamp are in the trash
+      await db.execAsync(
+        `ALTER TABLE item_types ADD COLUMN deletedAt TEXT;
+         ALTER TABLE batches ADD COLUMN deletedAt TEXT;
+         ALTER TABLE jars ADD COLUMN deletedAt TEXT;`,
+      );
+    },
+  },
+  {
+    version: 4,
+    name: "jar events",
+    up: async (db) => {
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS jar_events (
+           id INTEGER PRIMARY KEY NOT NULL,
+           jarId INTEGER NOT NULL,
+           batchId TEXT,
+           type TEXT NOT NULL,
+           fromValue TEXT,
+           toValue TEXT,
+           createdDateISO TEXT NOT NULL
+         );
+         CREATE INDEX IF NOT EXISTS idx_jar_events_jarId ON jar_events(jarId);
+         CREATE INDEX IF NOT EXISTS idx_jar_events_batchId ON jar_events(batchId);`,
+      );
+
+      // Seed the history with what is already known about each jar
+      await db.execAsync(
+        `INSERT INTO jar_events (jarId, batchId, type, createdDateISO)
+         SELECT id, batchId, 'created', fillDateISO FROM jars;
+         INSERT INTO jar_events (jarId, batchId, type, createdDateISO)
+         SELECT id, batchId, 'used', usedDateISO FROM jars
+          WHERE used = 1 AND usedDateISO IS NOT NULL;
+         INSERT INTO jar_events (jarId, batchId, type, createdDateISO)
+         SELECT id, batchId, 'deleted', deletedAt FROM jars
+          WHERE deletedAt IS NOT NULL;`,
+      );
+    },
+  },
+  {
+    version: 5,
+    name: "jar status",
+    up: async (db) => {
+      // The used flag only told eaten jars apart from the rest; a status also
+      // covers jars that were thrown out, given away or sold
+      await db.execAsync(
+        `ALTER TABLE jars ADD COLUMN status TEXT NOT NULL DEFAULT 'available';
+         ALTER TABLE jars ADD COLUMN statusReason TEXT;
+         ALTER TABLE jars ADD COLUMN statusDateISO TEXT;
+         UPDATE jars SET status = 'used', statusDateISO = usedDateISO WHERE used = 1;
+         ALTER TABLE jars DROP COLUMN used;
+         ALTER TABLE jars DROP COLUMN usedDateISO;
+         CREATE INDEX IF NOT EXISTS idx_jars_status ON jars(status);`,
+      );
+    },
+  },
+  {
+    version: 6,
+    name: "opened jars",
+    up: async (db) => {
+      // Fridge life is set per category and can be overridden per item type
+      await db.execAsync(
+        `ALTER TABLE jars ADD COLUMN openedDateISO TEXT;
+         ALTER TABLE custom_categories ADD COLUMN fridgeLifeDays INTEGER;
+         ALTER TABLE item_types ADD COLUMN fridgeLifeDays INTEGER;
+         UPDATE custom_categories
+            SET fridgeLifeDays = CASE name
+              WHEN 'Fruits' THEN 14
+              WHEN 'Vegetables' THEN 7
+              WHEN 'Preserves' THEN 21
+              WHEN 'Pickles' THEN 30
+              WHEN 'Sauces' THEN 7
+              WHEN 'Meats' THEN 4
+              WHEN 'Drinks' THEN 7
+              WHEN 'Meals' THEN 5
+            END
+          WHERE isDefault = 1;`,
+      );
+    },
+  },
+  {
+    version: 7,
+    name: "shelf life",
+    up: async (db) => {
+      // Like fridge life: set per category, overridable per item type
+      await db.execAsync(
+        `ALTER TABLE custom_categories ADD COLUMN shelfLifeMonths INTEGER;
+         ALTER TABLE item_types ADD COLUMN shelfLifeMonths INTEGER;
+         UPDATE custom_categories
+            SET shelfLifeMonths = CASE name WHEN 'Preserves' THEN 18 ELSE 12 END
+          WHERE isDefault = 1;`,
+      );
+    },
+  },
+  {
+    version: 8,
+    name: "locations",
+    up: async (db) => {
+      // Jars and batches keep the full path ("Basement > Shelf 2") as text,
+      // the way they keep the jar size name
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS locations (
+           id INTEGER PRIMARY KEY NOT NULL,
+           name TEXT NOT NULL,
+           parentId INTEGER REFERENCES locations(id) ON DELETE CASCADE
+         );
+         CREATE INDEX IF NOT EXISTS idx_locations_parentId ON locations(parentId);
+         CREATE VIEW IF NOT EXISTS location_paths AS
+           WITH RECURSIVE tree(id, name, parentId, path, depth, sortKey) AS (
+             SELECT id, name, parentId, name, 0, LOWER(name)
+               FROM locations WHERE parentId IS NULL
+             UNION ALL
+             SELECT l.id, l.name, l.parentId, tree.path || ' > ' || l.name,
+                    tree.depth + 1, tree.sortKey || char(1) || LOWER(l.name)
+               FROM locations l JOIN tree ON l.parentId = tree.id
+           )
+           SELECT id, name, parentId, path, depth, sortKey FROM tree;`,
+      );
+
+      // Free-text locations become top-level places. Spellings that only
+      // differ in case or spacing are merged into the first one found.
+      await db.execAsync(
+        `UPDATE jars SET location = NULLIF(TRIM(location), '');
+         UPDATE batches SET location = NULLIF(TRIM(location), '');
+         INSERT INTO locations (name)
+         SELECT MIN(location) FROM (
+           SELECT location FROM batches WHERE location IS NOT NULL
+           UNION ALL
+           SELECT location FROM jars WHERE location IS NOT NULL
+         )
+          GROUP BY LOWER(location);
+         UPDATE jars
+            SET location = (SELECT l.name FROM locations l
+                             WHERE LOWER(l.name) = LOWER(jars.location))
+          WHERE location IS NOT NULL;
+         UPDATE batches
+            SET location = (SELECT l.name FROM locations l
+                             WHERE LOWER(l.name) = LOWER(batches.location))
+          WHERE location IS NOT NULL;`,
+      );
+    },
+  },
+  {
+    version: 9,
+    name: "search index",
+    up: async (db) => {
+      // One document per item type, batch and recipe. Triggers keep it in
+      // step with every write, including imports; trashed rows are left out.
+      const indexItem = (where: string) =>
+        `INSERT INTO search_index (kind, refId, title, body)
+         SELECT 'item', it.id, it.name,
+                COALESCE(it.category, '') || ' ' || COALESCE(it.notes, '')
+           FROM item_types it
+          WHERE ${where} AND it.deletedAt IS NULL;`;
+      // Jars moved apart from their batch make it findable by their place too
+      const indexBatch = (where: string) =>
+        `INSERT INTO search_index (kind, refId, title, body)
+         SELECT 'batch', b.id, it.name,
+                COALESCE(b.notes, '') || ' ' || COALESCE(b.location, '') || ' ' ||
+                COALESCE((SELECT GROUP_CONCAT(DISTINCT j.location) FROM jars j
+                           WHERE j.batchId = b.id AND j.deletedAt IS NULL
+                             AND j.location IS NOT b.location), '')
+           FROM batches b
+           JOIN item_types it ON it.id = b.itemTypeId
+          WHERE ${where} AND b.deletedAt IS NULL AND it.deletedAt IS NULL;`;
+      const indexRecipe = (where: string) =>
+        `INSERT INTO search_index (kind, refId, title, body)
+         SELECT 'recipe', r.id, r.name, r.content FROM recipes r WHERE ${where};`;
+      const unindex = (kind: string, refId: string) =>
+        `DELETE FROM search_index WHERE kind = '${kind}' AND refId = ${refId};`;
+      const reindexBatch = (batchId: string) =>
+        unindex("batch", batchId) + indexBatch(`b.id = ${batchId}`);
+
+      await db.execAsync(
+        `CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+           kind UNINDEXED,
+           refId UNINDEXED,
+           title,
+           body,
+           tokenize = 'unicode61 remove_diacritics 2'
+         );
+
+         CREATE TRIGGER IF NOT EXISTS search_item_types_insert
+         AFTER INSERT ON item_types BEGIN
+           ${indexItem("it.id = NEW.id")}
+         END;
+         CREATE TRIGGER IF NOT EXISTS search_item_types_update
+         AFTER UPDATE ON item_types BEGIN
+           ${unindex("item", "OLD.id")}
+           ${indexItem("it.id = NEW.id")}
+           DELETE FROM search_index WHERE kind = 'batch'
+             AND refId IN (SELECT id FROM batches WHERE itemTypeId = NEW.id);
+           ${indexBatch("b.itemTypeId = NEW.id")}
+         END;
+         CREATE TRIGGER IF NOT EXISTS search_item_types_delete
+         AFTER DELETE ON item_types BEGIN
+           ${unindex("item", "OLD.id")}
+         END;
+
+         CREATE TRIGGER IF NOT EXISTS search_batches_insert
+         AFTER INSERT ON batches BEGIN
+           ${indexBatch("b.id = NEW.id")}
+         END;
+         CREATE TRIGGER IF NOT EXISTS search_batches_update
+         AFTER UPDATE ON batches BEGIN
+           ${unindex("batch", "OLD.id")}
+           ${indexBatch("b.id = NEW.id")}
+         END;
+         CREATE TRIGGER IF NOT EXISTS search_batches_delete
+         AFTER DELETE ON batches BEGIN
+           ${unindex("batch", "OLD.id")}
+         END;
+
+         CREATE TRIGGER IF NOT EXISTS search_jars_insert
+         AFTER INSERT ON jars BEGIN
+           ${reindexBatch("NEW.batchId")}
+         END;
+         CREATE TRIGGER IF NOT EXISTS search_jars_update
+         AFTER UPDATE OF location, batchId, deletedAt ON jars BEGIN
+           ${reindexBatch("OLD.batchId")}
+           ${reindexBatch("NEW.batchId")}
+         END;
+
+         CREATE TRIGGER IF NOT EXISTS search_recipes_insert
+         AFTER INSERT ON recipes BEGIN
+           ${indexRecipe("r.id = NEW.id")}
+         END;
+         CREATE TRIGGER IF NOT EXISTS search_recipes_update
+         AFTER UPDATE ON recipes BEGIN
+           ${unindex("recipe", "OLD.id")}
+           ${indexRecipe("r.id = NEW.id")}
+         END;
+         CREATE TRIGGER IF NOT EXISTS search_recipes_delete
+         AFTER DELETE ON recipes BEGIN
+           ${unindex("recipe", "OLD.id")}
+         END;
+
+         ${indexItem("1")}
+         ${indexBatch("1")}
+         ${indexRecipe("1")}`,
+      );
+    },
+  },
+  {
+    version: 10,
+    name: "batch list indexes",
+    up: async (db) => {
+      // The dashboard pages through batches by fill date and checks each
+      // batch's jars by status
+      await db.execAsync(
+        `CREATE INDEX IF NOT EXISTS idx_batches_fillDate
+           ON batches(fillDateISO, id) WHERE deletedAt IS NULL;
+         CREATE INDEX IF NOT EXISTS idx_batches_itemType_fillDate
+           ON batches(itemTypeId, fillDateISO);
+         CREATE INDEX IF NOT EXISTS idx_jars_batchId_status
+           ON jars(batchId, status);`,
+      );
+    },
+  },
+  {
+    version: 11,
+    name: "custom fields",
+    up: async (db) => {
+      // Batch documents in the search index now carry their field values, so
+      // the triggers that index batches are replaced with ones that add them
+      const indexBatch = (where: string) =>
+        `INSERT INTO search_index (kind, refId, title, body)
+         SELECT 'batch', b.id, it.name,
+                COALESCE(b.notes, '') || ' ' || COALESCE(b.location, '') || ' ' ||
+                COALESCE((SELECT GROUP_CONCAT(DISTINCT j.location) FROM jars j
+                           WHERE j.batchId = b.id AND j.deletedAt IS NULL
+                             AND j.location IS NOT b.location), '') || ' ' ||
+                COALESCE((SELECT GROUP_CONCAT(f.name || ' ' || v.value, ' ')
+                            FROM batch_field_values v
+                            JOIN category_fields f ON f.id = v.fieldId
+                           WHERE v.batchId = b.id), '')
+           FROM batches b
+           JOIN item_types it ON it.id = b.itemTypeId
+          WHERE ${where} AND b.deletedAt IS NULL AND it.deletedAt IS NULL;`;
+      const reindexBatches = (batchIds: string) =>
+        `DELETE FROM search_index WHERE kind = 'batch' AND refId IN (${batchIds});
+         ${indexBatch(`b.id IN (${batchIds})`)}`;
+
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS category_fields (
+           id INTEGER PRIMARY KEY NOT NULL,
+           categoryId INTEGER NOT NULL REFERENCES custom_categories(id) ON DELETE CASCADE,
+           name TEXT NOT NULL COLLATE NOCASE,
+           type TEXT NOT NULL CHECK (type IN ('text', 'number', 'date', 'choice')),
+           choices TEXT,
+           sortOrder INTEGER NOT NULL DEFAULT 0,
+           UNIQUE (categoryId, name)
+         );
+         CREATE TABLE IF NOT EXISTS batch_field_values (
+           batchId TEXT NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+           fieldId INTEGER NOT NULL REFERENCES category_fields(id) ON DELETE CASCADE,
+           value TEXT NOT NULL,
+           PRIMARY KEY (batchId, fieldId)
+         );
+         CREATE INDEX IF NOT EXISTS idx_batch_field_values_fieldId
+           ON batch_field_values(fieldId);
+
+         -- Foreign keys are not enforced, so cascade by hand
+         CREATE TRIGGER IF NOT EXISTS custom_categories_delete_fields
+         AFTER DELETE ON custom_categories BEGIN
+           DELETE FROM category_fields WHERE categoryId = OLD.id;
+         END;
+         CREATE TRIGGER IF NOT EXISTS category_fields_delete_values
+         AFTER DELETE ON category_fields BEGIN
+           DELETE FROM batch_field_values WHERE fieldId = OLD.id;
+         END;
+         CREATE TRIGGER IF NOT EXISTS batches_delete_field_values
+         AFTER DELETE ON batches BEGIN
+           DELETE FROM batch_field_values WHERE batchId = OLD.id;
+         END;
+
+         DROP TRIGGER IF EXISTS search_item_types_update;
+         CREATE TRIGGER search_item_types_update
+         AFTER UPDATE ON item_types BEGIN
+           DELETE FROM search_index WHERE kind = 'item' AND refId = OLD.id;
+           INSERT INTO search_index (kind, refId, title, body)
+           SELECT 'item', it.id, it.name,
+                  COALESCE(it.category, '') || ' ' || COALESCE(it.notes, '')
+             FROM item_types it
+            WHERE it.id = NEW.id AND it.deletedAt IS NULL;
+           ${reindexBatches("SELECT id FROM batches WHERE itemTypeId = NEW.id")}
+         END;
+         DROP TRIGGER IF EXISTS search_batches_insert;
+         CREATE TRIGGER search_batches_insert
+         AFTER INSERT ON batches BEGIN
+           ${indexBatch("b.id = NEW.id")}
+         END;
+         DROP TRIGGER IF EXISTS search_batches_update;
+         CREATE TRIGGER search_batches_update
+         AFTER UPDATE ON batches BEGIN
+           DELETE FROM search_index WHERE kind = 'batch' AND refId = OLD.id;
+           ${indexBatch("b.id = NEW.id")}
+         END;
+         DROP TRIGGER IF EXISTS search_jars_insert;
+         CREATE TRIGGER search_jars_insert
+         AFTER INSERT ON jars BEGIN
+           ${reindexBatches("NEW.batchId")}
+         END;
+         DROP TRIGGER IF EXISTS search_jars_update;
+         CREATE TRIGGER search_jars_update
+         AFTER UPDATE OF location, batchId, deletedAt ON jars BEGIN
+           ${reindexBatches("OLD.batchId, NEW.batchId")}
+         END;
+
+         CREATE TRIGGER search_field_values_insert
+         AFTER INSERT ON batch_field_values BEGIN
+           ${reindexBatches("NEW.batchId")}
+         END;
+         CREATE TRIGGER search_field_values_update
+         AFTER UPDATE ON batch_field_values BEGIN
+           ${reindexBatches("OLD.batchId, NEW.batchId")}
+         END;
+         CREATE TRIGGER search_field_values_delete
+         AFTER DELETE ON batch_field_values BEGIN
+           ${reindexBatches("OLD.batchId")}
+         END;
+         CREATE TRIGGER search_category_fields_rename
+         AFTER UPDATE OF name ON category_fields BEGIN
+           ${reindexBatches("SELECT batchId FROM batch_field_values WHERE fieldId = NEW.id")}
+         END;`,
+      );
+    },
+  },
+  {
+    version: 12,
+    name: "batch processing log",
+    up: async (db) => {
+      // How a batch was processed, kept as a safety record. Pressure is in
+      // psi, altitude in feet and headspace in inches.
+      await db.execAsync(
+        `ALTER TABLE batches ADD COLUMN processMethod TEXT
+           CHECK (processMethod IN ('water_bath', 'pressure', 'steam', 'fermented'));
+         ALTER TABLE batches ADD COLUMN processMinutes INTEGER;
+         ALTER TABLE batches ADD COLUMN processPressurePsi REAL;
+         ALTER TABLE batches ADD COLUMN altitudeFeet INTEGER;
+         ALTER TABLE batches ADD COLUMN headspaceInches REAL;
+         ALTER TABLE batches ADD COLUMN failedSealCount INTEGER;`,
+      );
+    },
+  },
+  {
+    version: 13,
+    name: "seal check",
+    up: async (db) => {
+      // Set while a jar waits for its seal check after canning. Jars from
+      // before this version are taken as checked.
+      await db.execAsync(
+        `ALTER TABLE jars ADD COLUMN sealCheckDueISO TEXT;
+         CREATE INDEX IF NOT EXISTS idx_jars_sealCheck
+           ON jars(batchId) WHERE sealCheckDueISO IS NOT NULL;`,
+      );
+    },
+  },
+  {
+    version: 14,
+    name: "batch costs",
+    up: async (db) => {
+      // What a batch cost in total, in the user's own currency
+      await db.execAsync(
+        `ALTER TABLE batches ADD COLUMN ingredientCost REAL;
+         ALTER TABLE batches ADD COLUMN lidCost REAL;`,
+      );
+    },
+  },
+  {
+    version: 15,
+    name: "recipe expected yield",
+    up: async (db) => {
+      // How many jars, and of what size, one batch of the recipe should fill
+      await db.execAsync(
+        `ALTER TABLE recipes ADD COLUMN expectedJarCount INTEGER CHECK (expectedJarCount > 0);
+         ALTER TABLE recipes ADD COLUMN expectedJarSize TEXT;`,
+      );
+    },
+  },
+  {
+    version: 16,
+    name: "supplies",
+    up: async (db) => {
+      // Canning supplies on hand. Empty jars are named by their jar size and
+      // carry the mouth width that decides which lids they take.
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS supplies (
+           id INTEGER PRIMARY KEY AUTOINCREMENT,
+           kind TEXT NOT NULL CHECK (kind IN ('jar', 'lid', 'ring', 'other')),
+           name TEXT NOT NULL,
+           mouth TEXT CHECK (mouth IN ('regular', 'wide')),
+           quantity INTEGER NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+           lowStockThreshold INTEGER NOT NULL DEFAULT 0 CHECK (lowStockThreshold >= 0),
+           UNIQUE (kind, name)
+         );
+         INSERT INTO supplies (kind, name, mouth) VALUES
+           ('lid', 'Regular mouth', 'regular'),
+           ('lid', 'Wide mouth', 'wide'),
+           ('ring', 'Regular mouth', 'regular'),
+           ('ring', 'Wide mouth', 'wide');`,
+      );
+    },
+  },
+  {
+    version: 17,
+    name: "shopping list",
+    up: async (db) => {
+      // Entries filled in from low stock keep a sourceKey so filling in
+      // again doesn't add them twice; entries added by hand have none
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS shopping_list (
+           id INTEGER PRIMARY KEY AUTOINCREMENT,
+           name TEXT NOT NULL,
+           detail TEXT,
+           checked INTEGER NOT NULL DEFAULT 0 CHECK (checked IN (0, 1)),
+           sourceKey TEXT UNIQUE,
+           createdDateISO TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+         );`,
+      );
+    },
+  },
+  {
+    version: 18,
+    name: "search jar triggers",
+    up: async (db) => {
+      // A jar only changes its batch's document when it is kept somewhere
+      // else, so adding or importing a batch's jars no longer re-indexes the
+      // batch once per jar
+      const indexBatch = (where: string) =>
+        `INSERT INTO search_index (kind, refId, title, body)
+         SELECT 'batch', b.id, it.name,
+                COALESCE(b.notes, '') || ' ' || COALESCE(b.location, '') || ' ' ||
+                COALESCE((SELECT GROUP_CONCAT(DISTINCT j.location) FROM jars j
+                           WHERE j.batchId = b.id AND j.deletedAt IS NULL
+                             AND j.location IS NOT b.location), '') || ' ' ||
+                COALESCE((SELECT GROUP_CONCAT(f.name || ' ' || v.value, ' ')
+                            FROM batch_field_values v
+                            JOIN category_fields f ON f.id = v.fieldId
+                           WHERE v.batchId = b.id), '')
+           FROM batches b
+           JOIN item_types it ON it.id = b.itemTypeId
+          WHERE ${where} AND b.deletedAt IS NULL AND it.deletedAt IS NULL;`;
+      const reindexBatches = (batchIds: string) =>
+        `DELETE FROM search_index WHERE kind = 'batch' AND refId IN (${batchIds});
+         ${indexBatch(`b.id IN (${batchIds})`)}`;
+      const keptApart = (jar: string) =>
+        `(${jar}.location IS NOT NULL AND ${jar}.location IS NOT
+          (SELECT location FROM batches WHERE id = ${jar}.batchId))`;
+
+      await db.execAsync(
+        `DROP TRIGGER IF EXISTS search_jars_insert;
+         CREATE TRIGGER search_jars_insert
+         AFTER INSERT ON jars WHEN ${keptApart("NEW")} BEGIN
+           ${reindexBatches("NEW.batchId")}
+         END;
+         DROP TRIGGER IF EXISTS search_jars_update;
+         CREATE TRIGGER search_jars_update
+         AFTER UPDATE OF location, batchId, deletedAt ON jars
+         WHEN ${keptApart("OLD")} OR ${keptApart("NEW")} BEGIN
+           ${reindexBatches("OLD.batchId, NEW.batchId")}
+         END;`,
+      );
+    },
+  },
+  {
+    version: 19,
+    name: "supplies primary key",
+    up: async (db) => {
+      // Rebuilt with a plain integer key like the other tables; the copy
+      // keeps every id so nothing pointing at a supply changes
+      await db.execAsync(
+        `CREATE TABLE supplies_new (
+           id INTEGER PRIMARY KEY NOT NULL,
+           kind TEXT NOT NULL CHECK (kind IN ('jar', 'lid', 'ring', 'other')),
+           name TEXT NOT NULL,
+           mouth TEXT CHECK (mouth IN ('regular', 'wide')),
+           quantity INTEGER NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+           lowStockThreshold INTEGER NOT NULL DEFAULT 0 CHECK (lowStockThreshold >= 0),
+           UNIQUE (kind, name)
+         );
+         INSERT INTO supplies_new (id, kind, name, mouth, quantity, lowStockThreshold)
+           SELECT id, kind, name, mouth, quantity, lowStockThreshold FROM supplies;
+         DROP TABLE supplies;
+         ALTER TABLE supplies_new RENAME TO supplies;`,
+      );
+    },
+  },
+  {
+    version: 20,
+    name: "shopping list primary key",
+    up: async (db) => {
+      // Rebuilt with a plain integer key like the other tables, keeping ids
+      await db.execAsync(
+        `CREATE TABLE shopping_list_new (
+           id INTEGER PRIMARY KEY NOT NULL,
+           name TEXT NOT NULL,
+           detail TEXT,
+           checked INTEGER NOT NULL DEFAULT 0 CHECK (checked IN (0, 1)),
+           sourceKey TEXT UNIQUE,
+           createdDateISO TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+         );
+         INSERT INTO shopping_list_new (id, name, detail, checked, sourceKey, createdDateISO)
+           SELECT id, name, detail, checked, sourceKey, createdDateISO FROM shopping_list;
+         DROP TABLE shopping_list;
+         ALTER TABLE shopping_list_new RENAME TO shopping_list;`,
+      );
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export async function getSchemaVersion(
+  db: StorageDatabase,
+): Promise<number> {
+  await db.execAsync(
+    `CREATE TABLE IF NOT EXISTS schema_version (
+       id INTEGER PRIMARY KEY NOT NULL CHECK (id = 1),
+       version INTEGER NOT NULL
+     );
+     INSERT OR IGNORE INTO schema_version (id, version) VALUES (1, 0);`,
+  );
+  const row = await db.getFirstAsync<{ version: number }>(
+    "SELECT version FROM schema_version WHERE id = 1",
+  );
+  return row?.version ?? 0;
+}
+
+// Bring the database up to LATEST_SCHEMA_VERSION. Each migration runs in its
+// own transaction together with the version bump, so an interrupted upgrade
+// resumes from the last migration that completed.
+export async function runMigrations(db: StorageDatabase): Promise<void> {
+  const currentVersion = await getSchemaVersion(db);
+
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than this app supports (${LATEST_SCHEMA_VERSION}). Please update Jar Tracker to open this database.`,
+    );
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= currentVersion) continue;
+
+    await db.execAsync("BEGIN");
+    try {
+      await migration.up(db);
+      await db.runAsync("UPDATE schema_version SET version = ? WHERE id = 1", [
+        migration.version,
+      ]);
+      await db.execAsync("COMMIT");
+    } catch (e) {
+      await db.execAsync("ROLLBACK");
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${e.message}`,
+      );
+    }
+  }
+}
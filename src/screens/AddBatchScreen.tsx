@@ -38,8 +38,30 @@ import {
   createRecipe,
   updateRecipe,
   setBatchRecipeById,
+  getCategoryFieldsByName,
+  setBatchFieldValues,
+  type BatchFieldValues,
+  type CategoryField,
+  validateBatchProcessing,
+  type BatchProcessing,
+  validateBatchCosts,
+  type BatchCosts,
 } from "../db";
 import { theme } from "../theme";
+import { LocationPicker } from "../components/LocationPicker";
+import { CustomFieldInputs } from "../components/CustomFieldInputs";
+import {
+  ProcessingInputs,
+  EMPTY_PROCESSING_DRAFT,
+  parseProcessingDraft,
+  type ProcessingDraft,
+} from "../components/ProcessingInputs";
+import {
+  CostInputs,
+  EMPTY_COST_DRAFT,
+  parseCostDraft,
+  type CostDraft,
+} from "../components/CostInputs";
 
 type Nav = NativeStackNavigationProp<RootStackParamList>;
 
@@ -66,6 +88,11 @@ export default function AddBatchScreen() {
   const [category, setCategory] = React.useState("");
   const [jarSize, setJarSize] = React.useState("");
   const [location, setLocation] = React.useState("");
+  const [customFields, setCustomFields] = React.useState<CategoryField[]>([]);
+  const [fieldValues, setFieldValues] = React.useState<BatchFieldValues>({});
+  const [processingDraft, setProcessingDraft] =
+    React.useState<ProcessingDraft>(EMPTY_PROCESSING_DRAFT);
+  const [costDraft, setCostDraft] = React.useState<CostDraft>(EMPTY_COST_DRAFT);
   const [lowStockThreshold, setLowStockThreshold] = React.useState("0");
 
   // Modal state for selecting existing item types
@@ -93,12 +120,25 @@ export default function AddBatchScreen() {
     formatDate();
   }, [fillDate]);
 
+  // Each category brings its own custom fields
+  React.useEffect(() => {
+    if (!category) {
+      setCustomFields([]);
+      return;
+    }
+    getCategoryFieldsByName(category)
+      .then(setCustomFields)
+      .catch((error) =>
+        console.error("Error loading custom fields:", error)
+      );
+  }, [category]);
+
   const loadExistingItemTypes = async () => {
     const db = await getDb();
     const [itemTypes, categoriesData, jarSizesData, recipesData] =
       await Promise.all([
         db.getAllAsync<ItemType>(
-          "SELECT * FROM item_types ORDER BY name COLLATE NOCASE"
+          "SELECT * FROM item_types WHERE deletedAt IS NULL ORDER BY name COLLATE NOCASE"
         ),
         getAllCategories(),
         getAllJarSizes(),
@@ -120,7 +160,6 @@ export default function AddBatchScreen() {
     // Keep recipe fields empty for new batch - recipes are now batch-specific
     setRecipe("");
     setRecipeImage(null);
-    setNotes(itemType.notes || "");
     setCategory(itemType.category || "");
     setLowStockThreshold((itemType.lowStockThreshold || 0).toString());
     setShowItemTypeModal(false);
@@ -315,13 +354,41 @@ export default function AddBatchScreen() {
       return;
     }
 
+    const invalidNumber = customFields.find(
+      (field) =>
+        field.type === "number" &&
+        fieldValues[field.id!]?.trim() &&
+        isNaN(Number(fieldValues[field.id!]))
+    );
+    if (invalidNumber) {
+      Alert.alert("Invalid Number", `${invalidNumber.name} must be a number`);
+      return;
+    }
+
+    let processing: BatchProcessing;
+    try {
+      processing = parseProcessingDraft(processingDraft);
+      validateBatchProcessing(processing, qty);
+    } catch (error) {
+      Alert.alert("Invalid Processing", error.message);
+      return;
+    }
+
+    let costs: BatchCosts;
+    try {
+      costs = parseCostDraft(costDraft);
+      validateBatchCosts(costs);
+    } catch (error) {
+      Alert.alert("Invalid Cost", error.message);
+      return;
+    }
+
     let itemTypeId: number;
 
     if (selectedItemType) {
-      // Using existing item type, update it with new category/notes if changed
-      // Note: recipes are now batch-specific, not item-type specific
+      // Using existing item type, update it with new category if changed
+      // Note: recipes and notes are batch-specific, not item-type specific
       if (
-        notes !== (selectedItemType.notes || "") ||
         category !== (selectedItemType.category || "") ||
         parseInt(lowStockThreshold) !==
           (selectedItemType.lowStockThreshold || 0)
@@ -330,7 +397,7 @@ export default function AddBatchScreen() {
           id: selectedItemType.id,
           name: selectedItemType.name,
           category: category,
-          notes: notes.trim() || undefined,
+          notes: selectedItemType.notes,
           lowStockThreshold: parseInt(lowStockThreshold) || 0,
         });
       }
@@ -347,7 +414,6 @@ export default function AddBatchScreen() {
       itemTypeId = await upsertItemType({
         name: newItemTypeName.trim(),
         category: category,
-        notes: notes.trim() || undefined,
         lowStockThreshold: parseInt(lowStockThreshold) || 0,
       });
     }
@@ -360,9 +426,16 @@ export default function AddBatchScreen() {
       isoDate,
       qty,
       jarSize,
-      location.trim() || undefined
+      location || undefined,
+      undefined,
+      notes.trim() || undefined,
+      { ...processing, ...costs }
     );
 
+    if (customFields.length > 0) {
+      await setBatchFieldValues(batchId, customFields, fieldValues);
+    }
+
     // Handle recipe creation/linking if we have recipe content
     if (selectedRecipe) {
       // User selected an existing recipe from the library
@@ -539,11 +612,39 @@ export default function AddBatchScreen() {
 
       {/* Location */}
       <Text style={styles.label}>Location (Optional)</Text>
-      <TextInput
-        style={styles.input}
+      <LocationPicker
+        style={[styles.input, styles.selectInput]}
         value={location}
-        onChangeText={setLocation}
-        placeholder="e.g., Pantry Shelf A, Basement Storage, etc."
+        onChange={setLocation}
+      />
+
+      {/* Custom fields of the category */}
+      <CustomFieldInputs
+        fields={customFields}
+        values={fieldValues}
+        onChange={setFieldValues}
+        labelStyle={styles.label}
+        inputStyle={styles.input}
+      />
+
+      {/* Processing log */}
+      <Text style={styles.sectionHeading}>Processing (Optional)</Text>
+      <ProcessingInputs
+        draft={processingDraft}
+        onChange={setProcessingDraft}
+        labelStyle={styles.label}
+        inputStyle={styles.input}
+      />
+
+      {/* Costs */}
+      <Text style={styles.sectionHeading}>Costs (Optional)</Text>
+      <CostInputs
+        draft={costDraft}
+        onChange={setCostDraft}
+        jarCount={parseInt(quantity) || 0}
+        jarSize={jarSize}
+        labelStyle={styles.label}
+        inputStyle={styles.input}
       />
 
       {/* Recipe */}
@@ -1012,6 +1113,15 @@ const styles = StyleSheet.create({
     color: theme.colors.text,
     flex: 1,
   },
+  sectionHeading: {
+    marginTop: theme.spacing.xl,
+    paddingTop: theme.spacing.lg,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+    fontWeight: theme.fontWeight.bold,
+    fontSize: theme.fontSize.lg,
+    color: theme.colors.text,
+  },
   label: {
     marginTop: theme.spacing.lg,
     marginBottom: theme.spacing.sm,
@@ -3,54 +3,85 @@ import { View, Text, TouchableOpacity, StyleSheet, Alert } from "react-native";
 import * as FileSystem from "expo-file-system/legacy";
 import * as Sharing from "expo-sharing";
 import * as DocumentPicker from "expo-document-picker";
-import { exportToJson, importFromJson } from "../db";
+import {
+  exportToJson,
+  exportBatchesToCsv,
+  importFromJson,
+  getPantries,
+} from "../db";
 import { theme } from "../theme";
 import { SafeAreaView } from "react-native-safe-area-context";
 
-export default function BackupRestoreScreen() {
-  const onBackup = async () => {
+// Save a file where the user picks (Android), or hand it to the share sheet.
+// Reports whether it was saved, shared or only left in the app cache.
+async function saveFile(
+  fileName: string,
+  contents: string,
+  mimeType: string,
+  dialogTitle: string,
+): Promise<"saved" | "shared" | "cached"> {
+  // Try to use Storage Access Framework for proper saving
+  if (FileSystem.StorageAccessFramework) {
     try {
-      const json = await exportToJson();
-      const timestamp = new Date()
-        .toISOString()
-        .replace(/[:.]/g, "-")
-        .slice(0, -5);
-      const fileName = `jartracker-backup-${timestamp}.json`;
-
-      // Try to use Storage Access Framework for proper saving
-      if (FileSystem.StorageAccessFramework) {
-        try {
-          const permissions =
-            await FileSystem.StorageAccessFramework.requestDirectoryPermissionsAsync();
-          if (permissions.granted) {
-            const fileUri =
-              await FileSystem.StorageAccessFramework.createFileAsync(
-                permissions.directoryUri,
-                fileName,
-                "application/json",
-              );
-            await FileSystem.writeAsStringAsync(fileUri, json);
-            Alert.alert(
-              "Backup Saved",
-              `Backup saved successfully as ${fileName}`,
-            );
-            return;
-          }
-        } catch (safError) {
-          // console.log("SAF not available, falling back to sharing:", safError);
-        }
+      const permissions =
+        await FileSystem.StorageAccessFramework.requestDirectoryPermissionsAsync();
+      if (permissions.granted) {
+        const fileUri = await FileSystem.StorageAccessFramework.createFileAsync(
+          permissions.directoryUri,
+          fileName,
+          mimeType,
+        );
+        await FileSystem.writeAsStringAsync(fileUri, contents);
+        return "saved";
       }
+    } catch (safError) {
+      // console.log("SAF not available, falling back to sharing:", safError);
+    }
+  }
 
-      // Fallback to sharing if SAF doesn't work
-      const tempUri = FileSystem.cacheDirectory + fileName;
-      await FileSystem.writeAsStringAsync(tempUri, json);
+  // Fallback to sharing if SAF doesn't work
+  const tempUri = FileSystem.cacheDirectory + fileName;
+  await FileSystem.writeAsStringAsync(tempUri, contents);
 
-      if (await Sharing.isAvailableAsync()) {
-        await Sharing.shareAsync(tempUri, {
-          mimeType: "application/json",
-          dialogTitle: "Save JarTracker Backup",
-        });
-      } else {
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(tempUri, { mimeType, dialogTitle });
+    return "shared";
+  }
+  return "cached";
+}
+
+const fileTimestamp = () =>
+  new Date().toISOString().replace(/[:.]/g, "-").slice(0, -5);
+
+export default function BackupRestoreScreen() {
+  // With several pantries, ask whether to back up just the open one
+  const onBackupPress = async () => {
+    const pantries = await getPantries();
+    if (pantries.length <= 1) {
+      await onBackup("current");
+      return;
+    }
+    Alert.alert("Create Backup", "Which pantries should be backed up?", [
+      { text: "Cancel", style: "cancel" },
+      { text: "This Pantry", onPress: () => onBackup("current") },
+      { text: "All Pantries", onPress: () => onBackup("all") },
+    ]);
+  };
+
+  const onBackup = async (scope: "current" | "all") => {
+    try {
+      const json = await exportToJson(scope);
+      const prefix = scope === "all" ? "jartracker-all-pantries" : "jartracker";
+      const fileName = `${prefix}-backup-${fileTimestamp()}.json`;
+      const result = await saveFile(
+        fileName,
+        json,
+        "application/json",
+        "Save JarTracker Backup",
+      );
+      if (result === "saved") {
+        Alert.alert("Backup Saved", `Backup saved successfully as ${fileName}`);
+      } else if (result === "cached") {
         Alert.alert(
           "Backup Created",
           `Backup created in app cache. Use the share button to save it permanently.`,
@@ -64,6 +95,31 @@ export default function BackupRestoreScreen() {
       );
     }
   };
+
+  const onExportCsv = async () => {
+    try {
+      const csv = await exportBatchesToCsv();
+      const fileName = `jartracker-batches-${fileTimestamp()}.csv`;
+      const result = await saveFile(
+        fileName,
+        csv,
+        "text/csv",
+        "Save JarTracker Spreadsheet",
+      );
+      if (result === "saved") {
+        Alert.alert("Export Saved", `Spreadsheet saved as ${fileName}`);
+      } else if (result === "cached") {
+        Alert.alert(
+          "Export Created",
+          "Spreadsheet created in app cache. Use the share button to save it permanently.",
+        );
+      }
+    } catch (error) {
+      console.error("CSV export failed:", error);
+      Alert.alert("Export Failed", "An error occurred while exporting.");
+    }
+  };
+
   const onRestore = async () => {
     const res = await DocumentPicker.getDocumentAsync({
       type: "application/json",
@@ -85,11 +141,22 @@ export default function BackupRestoreScreen() {
         </View>
         <Text style={styles.sectionTitle}>Backup Data</Text>
 
-        <TouchableOpacity style={styles.btn} onPress={onBackup}>
+        <TouchableOpacity style={styles.btn} onPress={onBackupPress}>
           <Text style={styles.btnText}>Create Backup</Text>
         </TouchableOpacity>
         <Text style={styles.helpText}>
-          Creates a backup file and lets you choose where to save it
+          Creates a backup file of this pantry or of every pantry and lets you
+          choose where to save it
+        </Text>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Export Spreadsheet</Text>
+        <TouchableOpacity style={styles.btn} onPress={onExportCsv}>
+          <Text style={styles.btnText}>Export Batches as CSV</Text>
+        </TouchableOpacity>
+        <Text style={styles.helpText}>
+          One row per batch in this pantry, with a column for each custom field
         </Text>
       </View>
 
@@ -102,7 +169,9 @@ export default function BackupRestoreScreen() {
           <Text style={styles.btnText}>Restore from Backup</Text>
         </TouchableOpacity>
         <Text style={styles.helpText}>
-          Choose a backup file to restore your data
+          Choose a backup file to restore your data. A backup of one pantry
+          replaces the pantry that is open; a backup of all pantries replaces
+          the pantries with the same names.
         </Text>
       </View>
     </SafeAreaView>
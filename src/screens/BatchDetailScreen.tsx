@@ -16,14 +16,19 @@ import {
 import DateTimePicker from "@react-native-community/datetimepicker";
 import * as ImagePicker from "expo-image-picker";
 import * as FileSystem from "expo-file-system/legacy";
-import { RouteProp, useNavigation, useRoute } from "@react-navigation/native";
+import {
+  RouteProp,
+  useFocusEffect,
+  useNavigation,
+  useRoute,
+} from "@react-navigation/native";
 import { Ionicons } from "@expo/vector-icons";
 import { FontAwesome6 } from "@expo/vector-icons";
 import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import type { RootStackParamList } from "../App";
 import {
   getDb,
-  markJarUsed,
+  setJarStatus,
   getAllCategories,
   getAllJarSizes,
   deleteJarWithBatchCheck,
@@ -32,6 +37,20 @@ import {
   updateBatchRecipe,
   addMultipleJarsToBatch,
   getJarsForBatch,
+  getBatchById,
+  updateBatch,
+  deleteBatch,
+  revertJarStatus,
+  setItemTypeFridgeLife,
+  setItemTypeShelfLife,
+  getBestByDate,
+  restoreJar,
+  restoreBatch,
+  getBatchEvents,
+  getJarEvents,
+  type JarEvent,
+  TRASH_RETENTION_DAYS,
+  type Batch,
   type CustomCategory,
   type CustomJarSize,
   formatDateWithUserPreference,
@@ -43,19 +62,69 @@ import {
   setBatchRecipeById,
   deleteRecipeIfUnused,
   Recipe,
+  JAR_STATUS_LABELS,
+  type JarStatus,
+  getCategoryFieldsByName,
+  getBatchFieldValues,
+  setBatchFieldValues,
+  getDateFormat,
+  type BatchFieldValues,
+  type CategoryField,
+  type DateFormat,
+  type BatchProcessing,
+  type BatchCosts,
 } from "../db";
 import { theme } from "../theme";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { useUndo } from "../contexts/UndoContext";
+import { JarTimeline } from "../components/JarTimeline";
+import { LocationPicker } from "../components/LocationPicker";
+import {
+  CustomFieldInputs,
+  formatFieldValue,
+} from "../components/CustomFieldInputs";
+import {
+  ProcessingInputs,
+  EMPTY_PROCESSING_DRAFT,
+  toProcessingDraft,
+  parseProcessingDraft,
+  describeProcessing,
+  type ProcessingDraft,
+} from "../components/ProcessingInputs";
+import {
+  CostInputs,
+  EMPTY_COST_DRAFT,
+  toCostDraft,
+  parseCostDraft,
+  describeCosts,
+  type CostDraft,
+} from "../components/CostInputs";
+import {
+  JarStatusModal,
+  type JarStatusChoice,
+} from "../components/JarStatusModal";
 
 type Route = RouteProp<RootStackParamList, "BatchDetail">;
 type Nav = NativeStackNavigationProp<RootStackParamList>;
 
 type JarWithDetails = {
   id: number;
-  used: number;
+  status: JarStatus;
+  statusReason?: string | null;
   jarSize?: string;
   location?: string;
   fillDateISO: string;
+  sealCheckDueISO?: string | null;
+};
+
+const STATUS_COLORS: Record<JarStatus, string> = {
+  available: "#2e7d32",
+  opened: "#f57c00",
+  used: "#d32f2f",
+  discarded: "#795548",
+  spoiled: "#795548",
+  gifted: "#1976d2",
+  sold: "#1976d2",
 };
 
 const getCategoryIcon = (categoryId: string, categories: CustomCategory[]) => {
@@ -78,6 +147,7 @@ const getCategoryColor = (categoryId: string) => {
 export default function BatchDetailScreen() {
   const navigation = useNavigation<Nav>();
   const route = useRoute<Route>();
+  const { showUndo } = useUndo();
   const { batchName, itemTypeId, fillDate, batchId } = route.params;
 
   // Validate required parameters
@@ -102,18 +172,34 @@ export default function BatchDetailScreen() {
 
   const [jars, setJars] = React.useState<JarWithDetails[]>([]);
   const [itemType, setItemType] = React.useState<any>(null);
+  const [batch, setBatch] = React.useState<Batch | null>(null);
   const [categories, setCategories] = React.useState<CustomCategory[]>([]);
   const [jarSizes, setJarSizes] = React.useState<CustomJarSize[]>([]);
   const [loading, setLoading] = React.useState(true);
   const [showIndividualJars, setShowIndividualJars] = React.useState(false);
   const [isEditingRecipe, setIsEditingRecipe] = React.useState(false);
   const [isEditingNotes, setIsEditingNotes] = React.useState(false);
+  const [customFields, setCustomFields] = React.useState<CategoryField[]>([]);
+  const [fieldValues, setFieldValues] = React.useState<BatchFieldValues>({});
+  const [fieldDraft, setFieldDraft] = React.useState<BatchFieldValues>({});
+  const [isEditingFields, setIsEditingFields] = React.useState(false);
+  const [processingDraft, setProcessingDraft] =
+    React.useState<ProcessingDraft>(EMPTY_PROCESSING_DRAFT);
+  const [isEditingProcessing, setIsEditingProcessing] = React.useState(false);
+  const [costDraft, setCostDraft] = React.useState<CostDraft>(EMPTY_COST_DRAFT);
+  const [isEditingCosts, setIsEditingCosts] = React.useState(false);
+  const [dateFormat, setDateFormat] = React.useState<DateFormat>("MM/DD/YYYY");
   const [recipeText, setRecipeText] = React.useState("");
   const [notesText, setNotesText] = React.useState("");
   const [isRecipeExpanded, setIsRecipeExpanded] = React.useState(false);
   const [isNotesExpanded, setIsNotesExpanded] = React.useState(false);
   const [isEditingThreshold, setIsEditingThreshold] = React.useState(false);
   const [thresholdText, setThresholdText] = React.useState("0");
+  const [isEditingShelfLife, setIsEditingShelfLife] = React.useState(false);
+  const [shelfLifeText, setShelfLifeText] = React.useState("");
+  const [formattedBestBy, setFormattedBestBy] = React.useState("");
+  const [isEditingFridgeLife, setIsEditingFridgeLife] = React.useState(false);
+  const [fridgeLifeText, setFridgeLifeText] = React.useState("");
   const [recipeImage, setRecipeImage] = React.useState<string | null>(null);
   const [recipeName, setRecipeName] = React.useState("");
   const [selectedRecipe, setSelectedRecipe] = React.useState<Recipe | null>(
@@ -134,6 +220,18 @@ export default function BatchDetailScreen() {
   const [formattedFillDate, setFormattedFillDate] = React.useState("");
   const [showJarSizeModal, setShowJarSizeModal] = React.useState(false);
   const [showCategoryModal, setShowCategoryModal] = React.useState(false);
+  const [batchEvents, setBatchEvents] = React.useState<JarEvent[]>([]);
+  const [showFullHistory, setShowFullHistory] = React.useState(false);
+  const [historyJarNumber, setHistoryJarNumber] = React.useState<
+    number | null
+  >(null);
+  const [jarEvents, setJarEvents] = React.useState<JarEvent[]>([]);
+  const [statusJar, setStatusJar] = React.useState<{
+    id: number;
+    number: number;
+    status: JarStatus;
+    jarSize?: string;
+  } | null>(null);
   const [shouldThrowError, setShouldThrowError] = React.useState(false);
 
   // Simulate error for testing ErrorBoundary (dev only)
@@ -187,15 +285,13 @@ export default function BatchDetailScreen() {
       setRecipeText(batchRecipeData?.recipe || "");
       setRecipeImage(batchRecipeData?.recipe_image || null);
 
-      // Check if batch has a linked recipe from recipes table
-      const linkedRecipe = await db.getFirstAsync<{ recipeId: number | null }>(
-        "SELECT recipeId FROM jars WHERE batchId = ? LIMIT 1",
-        [batchId],
-      );
+      // Load the batch record itself (recipe, notes, yield, details)
+      const batchData = await getBatchById(batchId);
+      setBatch(batchData);
 
-      if (linkedRecipe?.recipeId) {
+      if (batchData?.recipeId) {
         try {
-          const recipeData = await getRecipeById(linkedRecipe.recipeId);
+          const recipeData = await getRecipeById(batchData.recipeId);
           if (recipeData) {
             setSelectedRecipe(recipeData);
             setRecipeName(recipeData.name);
@@ -212,15 +308,28 @@ export default function BatchDetailScreen() {
         }
       }
 
-      // Initialize notes from item type
-      setNotesText(itemTypeData?.notes || "");
+      setNotesText(batchData?.notes || "");
+
+      // Custom fields come from the item's category
+      const [fieldsData, fieldValuesData, dateFormatData] = await Promise.all([
+        itemTypeData?.category
+          ? getCategoryFieldsByName(itemTypeData.category)
+          : Promise.resolve([]),
+        getBatchFieldValues(batchId),
+        getDateFormat(),
+      ]);
+      setCustomFields(fieldsData);
+      setFieldValues(fieldValuesData);
+      setDateFormat(dateFormatData);
       setThresholdText((itemTypeData?.lowStockThreshold || 0).toString());
+      setShelfLifeText(itemTypeData?.shelfLifeMonths?.toString() ?? "");
+      setFridgeLifeText(itemTypeData?.fridgeLifeDays?.toString() ?? "");
 
       // Get jars for this specific batch using batchId
       // console.log("Fetching jars for batch ID:", batchId);
       const batchJars = await db.getAllAsync<JarWithDetails>(
         `SELECT * FROM jars 
-         WHERE batchId = ?
+         WHERE batchId = ? AND deletedAt IS NULL
          ORDER BY id ASC`,
         [batchId],
       );
@@ -228,12 +337,15 @@ export default function BatchDetailScreen() {
 
       setJars(batchJars);
 
+      const eventsData = await getBatchEvents(batchId);
+      setBatchEvents(eventsData);
+
       // Initialize editable detail fields
-      setJarSizeText(batchJars[0]?.jarSize || "");
-      setLocationText(batchJars[0]?.location || "");
+      setJarSizeText(batchData?.jarSize || "");
+      setLocationText(batchData?.location || "");
       // Format date for editing (YYYY-MM-DD format)
-      const dateForEdit = batchJars[0]?.fillDateISO
-        ? batchJars[0].fillDateISO.split("T")[0]
+      const dateForEdit = batchData?.fillDateISO
+        ? batchData.fillDateISO.split("T")[0]
         : fillDate.split("T")[0];
       setDateCannedText(dateForEdit);
 
@@ -253,9 +365,12 @@ export default function BatchDetailScreen() {
     }
   }, [itemTypeId, fillDate, batchId]);
 
-  React.useEffect(() => {
-    loadData();
-  }, [loadData]);
+  // Reload on focus so changes made on other screens, like a seal check, show
+  useFocusEffect(
+    React.useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
 
   const saveRecipe = async () => {
     try {
@@ -300,7 +415,21 @@ export default function BatchDetailScreen() {
     }
   };
 
+  // Put the batch's recipe back the way it was before a change
+  const restoreBatchRecipe = async (
+    previousRecipeId: number | undefined,
+    previousText: string,
+    previousImage: string | null,
+  ) => {
+    await setBatchRecipeById(batchId, previousRecipeId);
+    await updateBatchRecipe(batchId, previousText, previousImage);
+    await loadData();
+  };
+
   const selectExistingRecipe = async (recipe: Recipe) => {
+    const previousRecipeId = selectedRecipe?.id;
+    const previousText = recipeText;
+    const previousImage = recipeImage;
     try {
       setSelectedRecipe(recipe);
       setRecipeName(recipe.name);
@@ -311,6 +440,10 @@ export default function BatchDetailScreen() {
       // Immediately save the selected recipe
       await setBatchRecipeById(batchId, recipe.id);
       await updateBatchRecipe(batchId, recipe.content, recipe.image || null);
+
+      showUndo(`Recipe changed to "${recipe.name}"`, () =>
+        restoreBatchRecipe(previousRecipeId, previousText, previousImage),
+      );
     } catch (error) {
       console.error("Error selecting recipe:", error);
       Alert.alert("Error", "Failed to select recipe");
@@ -320,6 +453,8 @@ export default function BatchDetailScreen() {
   const clearSelectedRecipe = async () => {
     try {
       const recipeIdToCheck = selectedRecipe?.id;
+      const previousText = recipeText;
+      const previousImage = recipeImage;
 
       setSelectedRecipe(null);
       setRecipeText("");
@@ -330,10 +465,17 @@ export default function BatchDetailScreen() {
       await setBatchRecipeById(batchId); // Pass undefined to clear
       await updateBatchRecipe(batchId, "", null); // Clear custom recipe text and image
 
-      // If there was a linked recipe, check if it's still used elsewhere
-      if (recipeIdToCheck) {
-        await deleteRecipeIfUnused(recipeIdToCheck);
-      }
+      // If there was a linked recipe, check if it's still used elsewhere once
+      // the removal can no longer be undone
+      showUndo(
+        "Recipe removed from batch",
+        () => restoreBatchRecipe(recipeIdToCheck, previousText, previousImage),
+        async () => {
+          if (recipeIdToCheck) {
+            await deleteRecipeIfUnused(recipeIdToCheck);
+          }
+        },
+      );
     } catch (error) {
       console.error("Error clearing recipe:", error);
       Alert.alert("Error", "Failed to clear recipe");
@@ -423,12 +565,8 @@ export default function BatchDetailScreen() {
 
   const saveNotes = async () => {
     try {
-      const db = await getDb();
-      await db.runAsync("UPDATE item_types SET notes = ? WHERE id = ?", [
-        notesText,
-        itemTypeId,
-      ]);
-      setItemType((prev) => ({ ...prev, notes: notesText }));
+      await updateBatch(batchId, { notes: notesText });
+      setBatch((prev) => (prev ? { ...prev, notes: notesText } : prev));
       setIsEditingNotes(false);
     } catch (error) {
       console.error("Error saving notes:", error);
@@ -436,6 +574,64 @@ export default function BatchDetailScreen() {
     }
   };
 
+  const saveProcessing = async () => {
+    let processing: BatchProcessing;
+    try {
+      processing = parseProcessingDraft(processingDraft);
+      await updateBatch(batchId, processing);
+    } catch (error) {
+      console.error("Error saving processing log:", error);
+      Alert.alert("Error", error.message);
+      return;
+    }
+    setBatch((prev) => (prev ? { ...prev, ...processing } : prev));
+    setIsEditingProcessing(false);
+  };
+
+  const startEditingProcessing = () => {
+    if (batch) {
+      setProcessingDraft(toProcessingDraft(batch));
+    }
+    setIsEditingProcessing(true);
+  };
+
+  const saveCosts = async () => {
+    let costs: BatchCosts;
+    try {
+      costs = parseCostDraft(costDraft);
+      await updateBatch(batchId, costs);
+    } catch (error) {
+      console.error("Error saving costs:", error);
+      Alert.alert("Error", error.message);
+      return;
+    }
+    setBatch((prev) => (prev ? { ...prev, ...costs } : prev));
+    setIsEditingCosts(false);
+  };
+
+  const startEditingCosts = () => {
+    if (batch) {
+      setCostDraft(toCostDraft(batch));
+    }
+    setIsEditingCosts(true);
+  };
+
+  const saveFieldValues = async () => {
+    try {
+      await setBatchFieldValues(batchId, customFields, fieldDraft);
+      setFieldValues(await getBatchFieldValues(batchId));
+      setIsEditingFields(false);
+    } catch (error) {
+      console.error("Error saving custom fields:", error);
+      Alert.alert("Error", error.message);
+    }
+  };
+
+  const startEditingFields = () => {
+    setFieldDraft(fieldValues);
+    setIsEditingFields(true);
+  };
+
   const saveThreshold = async () => {
     try {
       const db = await getDb();
@@ -452,10 +648,32 @@ export default function BatchDetailScreen() {
     }
   };
 
-  const saveDetails = async () => {
+  const saveShelfLife = async () => {
     try {
-      const db = await getDb();
+      const shelfLifeMonths = parseInt(shelfLifeText) || null;
+      await setItemTypeShelfLife(itemTypeId, shelfLifeMonths);
+      setItemType((prev) => ({ ...prev, shelfLifeMonths }));
+      setIsEditingShelfLife(false);
+    } catch (error) {
+      console.error("Error saving shelf life:", error);
+      Alert.alert("Error", "Failed to save shelf life");
+    }
+  };
+
+  const saveFridgeLife = async () => {
+    try {
+      const fridgeLifeDays = parseInt(fridgeLifeText) || null;
+      await setItemTypeFridgeLife(itemTypeId, fridgeLifeDays);
+      setItemType((prev) => ({ ...prev, fridgeLifeDays }));
+      setIsEditingFridgeLife(false);
+    } catch (error) {
+      console.error("Error saving fridge life:", error);
+      Alert.alert("Error", "Failed to save fridge life");
+    }
+  };
 
+  const saveDetails = async () => {
+    try {
       // Validate date format
       const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
       if (dateCannedText && !dateRegex.test(dateCannedText)) {
@@ -463,11 +681,37 @@ export default function BatchDetailScreen() {
         return;
       }
 
-      // Update all jars in this batch with new details
-      await db.runAsync(
-        "UPDATE jars SET jarSize = ?, location = ?, fillDateISO = ? WHERE batchId = ?",
-        [jarSizeText, locationText, dateCannedText, batchId],
-      );
+      // Only what changed is saved, so jars moved or resized on their own
+      // aren't reset to the batch's values
+      const changes: Partial<Batch> = {};
+      const previousDetails: Partial<Batch> = {};
+      if (jarSizeText !== (batch?.jarSize || "")) {
+        changes.jarSize = jarSizeText;
+        // Unset values stay null so undo doesn't store an empty string
+        previousDetails.jarSize = batch?.jarSize;
+      }
+      if (locationText !== (batch?.location || "")) {
+        changes.location = locationText;
+        previousDetails.location = batch?.location;
+      }
+      if (
+        dateCannedText &&
+        dateCannedText !== batch?.fillDateISO?.split("T")[0]
+      ) {
+        changes.fillDateISO = dateCannedText;
+        previousDetails.fillDateISO = batch?.fillDateISO;
+      }
+      if (Object.keys(changes).length === 0) {
+        setIsEditingDetails(false);
+        return;
+      }
+
+      await updateBatch(batchId, changes);
+
+      showUndo("Batch details updated", async () => {
+        await updateBatch(batchId, previousDetails);
+        await loadData();
+      });
 
       // Reload the data to reflect changes
       await loadData();
@@ -512,35 +756,36 @@ export default function BatchDetailScreen() {
     return text;
   };
 
-  const handleMarkUsed = async (jarId: number) => {
-    Alert.alert(
-      "Mark Jar as Used",
-      "Are you sure you want to mark this jar as used?",
-      [
-        { text: "Cancel", style: "cancel" },
-        {
-          text: "Mark Used",
-          style: "destructive",
-          onPress: async () => {
-            try {
-              const result = await markJarUsed(jarId);
-              if (result.success) {
-                await loadData();
-                Alert.alert("Success", result.message);
-              } else {
-                Alert.alert("Error", result.message);
-              }
-            } catch (error) {
-              console.error("Error marking jar as used:", error);
-              Alert.alert(
-                "Error",
-                `Failed to mark jar as used: ${error.message}`,
-              );
-            }
-          },
-        },
-      ],
-    );
+  const handleSetStatus = async (
+    status: JarStatusChoice,
+    reason: string,
+    dateISO: string,
+    returnEmptyJar: boolean,
+  ) => {
+    if (!statusJar) return;
+    const jarId = statusJar.id;
+    setStatusJar(null);
+    try {
+      const result = await setJarStatus(
+        jarId,
+        status,
+        reason,
+        dateISO,
+        returnEmptyJar,
+      );
+      if (result.success) {
+        await loadData();
+        showUndo(result.message, async () => {
+          await revertJarStatus(jarId, returnEmptyJar);
+          await loadData();
+        });
+      } else {
+        Alert.alert("Error", result.message);
+      }
+    } catch (error) {
+      console.error("Error updating jar status:", error);
+      Alert.alert("Error", `Failed to update jar status: ${error.message}`);
+    }
   };
 
   const handleRemoveJar = async (jarId: number, jarIndex: number) => {
@@ -557,14 +802,17 @@ export default function BatchDetailScreen() {
               const result = await deleteJarWithBatchCheck(jarId);
               if (result.success) {
                 if (result.batchDeleted) {
-                  Alert.alert(
-                    "Batch Deleted",
-                    "The batch is now empty and has been removed.",
-                    [{ text: "OK", onPress: () => navigation.goBack() }],
+                  navigation.goBack();
+                  showUndo(
+                    "The batch is now empty and has been moved to the Trash",
+                    () => restoreBatch(batchId),
                   );
                 } else {
                   await loadData();
-                  Alert.alert("Success", "Jar removed from batch.");
+                  showUndo("Jar moved to the Trash", async () => {
+                    await restoreJar(jarId);
+                    await loadData();
+                  });
                 }
               }
             } catch (error) {
@@ -588,16 +836,13 @@ export default function BatchDetailScreen() {
         return;
       }
 
-      // Get current jar size and location from existing jars if available
-      const currentJar = jars.length > 0 ? jars[0] : null;
-
       await addMultipleJarsToBatch(
         batchId,
         itemTypeId,
-        fillDate,
+        batch?.fillDateISO ?? fillDate,
         quantity,
-        currentJar?.jarSize,
-        currentJar?.location,
+        batch?.jarSize,
+        batch?.location,
       );
 
       setShowAddJarModal(false);
@@ -613,6 +858,17 @@ export default function BatchDetailScreen() {
     }
   };
 
+  const showJarHistory = async (jarId: number, jarIndex: number) => {
+    try {
+      const events = await getJarEvents(jarId);
+      setJarEvents(events);
+      setHistoryJarNumber(jarIndex + 1);
+    } catch (error) {
+      console.error("Error loading jar history:", error);
+      Alert.alert("Error", "Failed to load jar history");
+    }
+  };
+
   const handleGenerateLabels = () => {
     const jarIds = jars.map((jar) => jar.id);
     navigation.navigate("QRLabel", {
@@ -624,9 +880,11 @@ export default function BatchDetailScreen() {
   const handleDeleteBatch = () => {
     Alert.alert(
       "Delete Batch",
-      `Are you sure you want to delete this entire batch of "${batchName}"? This will permanently delete all ${
+      `Are you sure you want to delete this entire batch of "${batchName}"? All ${
         jars.length
-      } jar${jars.length !== 1 ? "s" : ""} in this batch and cannot be undone.`,
+      } jar${
+        jars.length !== 1 ? "s" : ""
+      } in this batch will be moved to the Trash, where they can be restored for ${TRASH_RETENTION_DAYS} days.`,
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -634,19 +892,11 @@ export default function BatchDetailScreen() {
           style: "destructive",
           onPress: async () => {
             try {
-              const db = await getDb();
-              if (!db) {
-                throw new Error("Database connection failed");
-              }
-
-              // Delete all jars in this batch
-              await db.runAsync("DELETE FROM jars WHERE batchId = ?", [
-                batchId,
-              ]);
+              await deleteBatch(batchId);
 
               Alert.alert(
                 "Batch Deleted",
-                `The batch "${batchName}" has been deleted successfully.`,
+                `The batch "${batchName}" has been moved to the Trash.`,
                 [
                   {
                     text: "OK",
@@ -664,8 +914,31 @@ export default function BatchDetailScreen() {
     );
   };
 
-  const availableJars = jars.filter((jar) => !jar.used);
-  const usedJars = jars.filter((jar) => jar.used);
+  const availableJars = jars.filter((jar) => jar.status === "available");
+  const awaitingSealCheck = availableJars.filter((jar) => jar.sealCheckDueISO);
+  const usedJars = jars.filter((jar) => jar.status === "used");
+  const openedJars = jars.filter((jar) => jar.status === "opened");
+  const itemCategory = categories.find((c) => c.name === itemType?.category);
+  const categoryFridgeLife = itemCategory?.fridgeLifeDays;
+  const categoryShelfLife = itemCategory?.shelfLifeMonths;
+  const bestByISO = getBestByDate(
+    batch?.fillDateISO ?? fillDate,
+    itemType?.shelfLifeMonths ?? categoryShelfLife,
+  );
+
+  React.useEffect(() => {
+    if (bestByISO) {
+      formatDateStringWithUserPreference(bestByISO).then(setFormattedBestBy);
+    } else {
+      setFormattedBestBy("");
+    }
+  }, [bestByISO]);
+  const otherJars = jars.filter(
+    (jar) =>
+      jar.status !== "available" &&
+      jar.status !== "opened" &&
+      jar.status !== "used",
+  );
 
   if (loading) {
     return (
@@ -828,11 +1101,10 @@ export default function BatchDetailScreen() {
             </View>
             <Text style={styles.modalDetailLabel}>Location:</Text>
             {isEditingDetails ? (
-              <TextInput
+              <LocationPicker
                 style={styles.detailInput}
                 value={locationText}
-                onChangeText={setLocationText}
-                placeholder="e.g., Pantry, Basement"
+                onChange={setLocationText}
               />
             ) : (
               <Text style={styles.modalDetailValue}>
@@ -840,6 +1112,18 @@ export default function BatchDetailScreen() {
               </Text>
             )}
           </View>
+
+          {/* Yield */}
+          <View style={styles.modalDetailRow}>
+            <View style={styles.detailIconContainer}>
+              <Ionicons name="layers-outline" size={20} color="#666" />
+            </View>
+            <Text style={styles.modalDetailLabel}>Yield:</Text>
+            <Text style={styles.modalDetailValue}>
+              {batch?.yieldCount ?? jars.length} jar
+              {(batch?.yieldCount ?? jars.length) !== 1 ? "s" : ""}
+            </Text>
+          </View>
         </View>
 
         {/* Jar Statistics */}
@@ -863,7 +1147,44 @@ export default function BatchDetailScreen() {
               </Text>
               <Text style={styles.modalStatLabel}>Used</Text>
             </View>
+            {openedJars.length > 0 && (
+              <View style={styles.modalStatCard}>
+                <Text style={[styles.modalStatNumber, { color: "#f57c00" }]}>
+                  {openedJars.length}
+                </Text>
+                <Text style={styles.modalStatLabel}>Opened</Text>
+              </View>
+            )}
+            {otherJars.length > 0 && (
+              <View style={styles.modalStatCard}>
+                <Text style={[styles.modalStatNumber, { color: "#795548" }]}>
+                  {otherJars.length}
+                </Text>
+                <Text style={styles.modalStatLabel}>Gone</Text>
+              </View>
+            )}
           </View>
+          {awaitingSealCheck.length > 0 && (
+            <TouchableOpacity
+              style={styles.sealCheckBanner}
+              onPress={() => navigation.navigate("SealCheck", { batchId })}
+            >
+              <Ionicons
+                name="shield-checkmark-outline"
+                size={20}
+                color={theme.colors.primary}
+              />
+              <Text style={styles.sealCheckText}>
+                {awaitingSealCheck.length} jar
+                {awaitingSealCheck.length !== 1 ? "s" : ""} awaiting seal check
+              </Text>
+              <Ionicons
+                name="chevron-forward"
+                size={20}
+                color={theme.colors.textSecondary}
+              />
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Recipe */}
@@ -967,6 +1288,161 @@ export default function BatchDetailScreen() {
           )}
         </View>
 
+        {/* Processing log */}
+        <View style={styles.modalSection}>
+          <View style={styles.editableHeader}>
+            <Text style={styles.modalSectionTitle}>Processing</Text>
+            <TouchableOpacity
+              onPress={() => {
+                if (isEditingProcessing) {
+                  saveProcessing();
+                } else {
+                  startEditingProcessing();
+                }
+              }}
+            >
+              <Ionicons
+                name={
+                  isEditingProcessing ? "checkmark-outline" : "create-outline"
+                }
+                size={20}
+                color={theme.colors.primary}
+              />
+            </TouchableOpacity>
+          </View>
+          {isEditingProcessing ? (
+            <ProcessingInputs
+              draft={processingDraft}
+              onChange={setProcessingDraft}
+              labelStyle={styles.fieldLabel}
+              inputStyle={styles.editableInput}
+            />
+          ) : (
+            <TouchableOpacity
+              style={styles.modalNotesBox}
+              onPress={startEditingProcessing}
+            >
+              {batch && describeProcessing(batch).length > 0 ? (
+                describeProcessing(batch).map(([label, value]) => (
+                  <Text key={label} style={styles.modalNotesText}>
+                    <Text style={styles.fieldName}>{label}: </Text>
+                    {value}
+                  </Text>
+                ))
+              ) : (
+                <Text style={styles.modalNotesText}>
+                  Tap to record how this batch was processed...
+                </Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Costs */}
+        <View style={styles.modalSection}>
+          <View style={styles.editableHeader}>
+            <Text style={styles.modalSectionTitle}>Costs</Text>
+            <TouchableOpacity
+              onPress={() => {
+                if (isEditingCosts) {
+                  saveCosts();
+                } else {
+                  startEditingCosts();
+                }
+              }}
+            >
+              <Ionicons
+                name={isEditingCosts ? "checkmark-outline" : "create-outline"}
+                size={20}
+                color={theme.colors.primary}
+              />
+            </TouchableOpacity>
+          </View>
+          {isEditingCosts ? (
+            <CostInputs
+              draft={costDraft}
+              onChange={setCostDraft}
+              jarCount={batch?.yieldCount ?? 0}
+              jarSize={batch?.jarSize}
+              labelStyle={styles.fieldLabel}
+              inputStyle={styles.editableInput}
+            />
+          ) : (
+            <TouchableOpacity
+              style={styles.modalNotesBox}
+              onPress={startEditingCosts}
+            >
+              {batch && describeCosts(batch).length > 0 ? (
+                describeCosts(batch).map(([label, value]) => (
+                  <Text key={label} style={styles.modalNotesText}>
+                    <Text style={styles.fieldName}>{label}: </Text>
+                    {value}
+                  </Text>
+                ))
+              ) : (
+                <Text style={styles.modalNotesText}>
+                  Tap to record what this batch cost...
+                </Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Custom fields of the category */}
+        {customFields.length > 0 && (
+          <View style={styles.modalSection}>
+            <View style={styles.editableHeader}>
+              <Text style={styles.modalSectionTitle}>
+                {itemType?.category} Details
+              </Text>
+              <TouchableOpacity
+                onPress={() => {
+                  if (isEditingFields) {
+                    saveFieldValues();
+                  } else {
+                    startEditingFields();
+                  }
+                }}
+              >
+                <Ionicons
+                  name={
+                    isEditingFields ? "checkmark-outline" : "create-outline"
+                  }
+                  size={20}
+                  color={theme.colors.primary}
+                />
+              </TouchableOpacity>
+            </View>
+            {isEditingFields ? (
+              <CustomFieldInputs
+                fields={customFields}
+                values={fieldDraft}
+                onChange={setFieldDraft}
+                labelStyle={styles.fieldLabel}
+                inputStyle={styles.editableInput}
+              />
+            ) : (
+              <TouchableOpacity
+                style={styles.modalNotesBox}
+                onPress={startEditingFields}
+              >
+                {customFields.map((field) => (
+                  <Text key={field.id} style={styles.modalNotesText}>
+                    <Text style={styles.fieldName}>{field.name}: </Text>
+                    {fieldValues[field.id!]
+                      ? formatFieldValue(
+                          field,
+                          fieldValues[field.id!],
+                          dateFormat,
+                        )
+                      : "—"}
+                  </Text>
+                ))}
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
         {/* Notes */}
         <View style={styles.modalSection}>
           <View style={styles.editableHeader}>
@@ -1094,6 +1570,122 @@ export default function BatchDetailScreen() {
           )}
         </View>
 
+        {/* Shelf Life */}
+        <View style={styles.modalSection}>
+          <View style={styles.editableHeader}>
+            <Text style={styles.modalSectionTitle}>Shelf Life</Text>
+            <TouchableOpacity
+              onPress={() => {
+                if (isEditingShelfLife) {
+                  saveShelfLife();
+                } else {
+                  setIsEditingShelfLife(true);
+                }
+              }}
+            >
+              <Ionicons
+                name={
+                  isEditingShelfLife ? "checkmark-outline" : "create-outline"
+                }
+                size={20}
+                color={theme.colors.primary}
+              />
+            </TouchableOpacity>
+          </View>
+          {isEditingShelfLife ? (
+            <View>
+              <TextInput
+                style={styles.editableInput}
+                value={shelfLifeText}
+                onChangeText={(text) =>
+                  setShelfLifeText(text.replace(/[^0-9]/g, ""))
+                }
+                placeholder={
+                  categoryShelfLife
+                    ? `${categoryShelfLife} (category default)`
+                    : "Months a sealed jar keeps"
+                }
+                keyboardType="numeric"
+              />
+              <Text style={styles.helperText}>
+                Months a sealed jar is best within. Leave empty to use the
+                category default.
+              </Text>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={styles.modalNotesBox}
+              onPress={() => setIsEditingShelfLife(true)}
+            >
+              <Text style={styles.modalNotesText}>
+                {bestByISO
+                  ? `Best by ${formattedBestBy}${
+                      itemType?.shelfLifeMonths ? "" : " (category default)"
+                    }`
+                  : "Set how long a sealed jar keeps"}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Fridge Life */}
+        <View style={styles.modalSection}>
+          <View style={styles.editableHeader}>
+            <Text style={styles.modalSectionTitle}>Fridge Life</Text>
+            <TouchableOpacity
+              onPress={() => {
+                if (isEditingFridgeLife) {
+                  saveFridgeLife();
+                } else {
+                  setIsEditingFridgeLife(true);
+                }
+              }}
+            >
+              <Ionicons
+                name={
+                  isEditingFridgeLife ? "checkmark-outline" : "create-outline"
+                }
+                size={20}
+                color={theme.colors.primary}
+              />
+            </TouchableOpacity>
+          </View>
+          {isEditingFridgeLife ? (
+            <View>
+              <TextInput
+                style={styles.editableInput}
+                value={fridgeLifeText}
+                onChangeText={(text) =>
+                  setFridgeLifeText(text.replace(/[^0-9]/g, ""))
+                }
+                placeholder={
+                  categoryFridgeLife
+                    ? `${categoryFridgeLife} (category default)`
+                    : "Days an opened jar keeps"
+                }
+                keyboardType="numeric"
+              />
+              <Text style={styles.helperText}>
+                Days an opened jar keeps in the fridge. Leave empty to use the
+                category default.
+              </Text>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={styles.modalNotesBox}
+              onPress={() => setIsEditingFridgeLife(true)}
+            >
+              <Text style={styles.modalNotesText}>
+                {itemType?.fridgeLifeDays
+                  ? `Finish within ${itemType.fridgeLifeDays} days of opening`
+                  : categoryFridgeLife
+                  ? `Finish within ${categoryFridgeLife} days of opening (category default)`
+                  : "Set how long an opened jar keeps"}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
         {/* Actions */}
         <View style={styles.modalSection}>
           <Text style={styles.modalSectionTitle}>Actions</Text>
@@ -1180,14 +1772,28 @@ export default function BatchDetailScreen() {
                         <Text
                           style={[
                             styles.statusText,
-                            { color: item.used ? "#d32f2f" : "#2e7d32" },
+                            { color: STATUS_COLORS[item.status] },
                           ]}
                         >
-                          {item.used ? "USED" : "AVAILABLE"}
+                          {JAR_STATUS_LABELS[item.status].toUpperCase()}
                         </Text>
                       </View>
                     </View>
 
+                    {item.statusReason ? (
+                      <Text style={styles.statusReasonText}>
+                        {item.statusReason}
+                      </Text>
+                    ) : null}
+
+                    {/* Jars can be moved apart from the rest of the batch */}
+                    {item.location && item.location !== batch?.location ? (
+                      <Text style={styles.statusReasonText}>
+                        <Ionicons name="location-outline" size={12} />{" "}
+                        {item.location}
+                      </Text>
+                    ) : null}
+
                     <View style={styles.jarActions}>
                       <TouchableOpacity
                         style={styles.actionBtn}
@@ -1203,17 +1809,37 @@ export default function BatchDetailScreen() {
                         <Text style={styles.actionBtnText}>Label</Text>
                       </TouchableOpacity>
 
-                      {!item.used && (
+                      <TouchableOpacity
+                        style={[styles.actionBtn, styles.historyBtn]}
+                        onPress={() => showJarHistory(item.id, index)}
+                      >
+                        <Ionicons
+                          name="time-outline"
+                          size={16}
+                          color="white"
+                        />
+                        <Text style={styles.actionBtnText}>History</Text>
+                      </TouchableOpacity>
+
+                      {(item.status === "available" ||
+                        item.status === "opened") && (
                         <TouchableOpacity
                           style={[styles.actionBtn, styles.markUsedBtn]}
-                          onPress={() => handleMarkUsed(item.id)}
+                          onPress={() =>
+                            setStatusJar({
+                              id: item.id,
+                              number: index + 1,
+                              status: item.status,
+                              jarSize: item.jarSize,
+                            })
+                          }
                         >
                           <Ionicons
                             name="checkmark-outline"
                             size={16}
                             color="white"
                           />
-                          <Text style={styles.actionBtnText}>Mark Used</Text>
+                          <Text style={styles.actionBtnText}>Mark As</Text>
                         </TouchableOpacity>
                       )}
 
@@ -1237,8 +1863,65 @@ export default function BatchDetailScreen() {
             )}
           </View>
         )}
+
+        {/* History */}
+        <View style={styles.modalSection}>
+          <View style={styles.editableHeader}>
+            <Text style={styles.modalSectionTitle}>History</Text>
+            {batchEvents.length > 5 && (
+              <TouchableOpacity
+                onPress={() => setShowFullHistory(!showFullHistory)}
+              >
+                <Text style={styles.expandButtonText}>
+                  {showFullHistory ? "Show less" : "Show all"}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <JarTimeline
+            events={batchEvents}
+            limit={showFullHistory ? undefined : 5}
+          />
+        </View>
       </ScrollView>
 
+      {/* Jar History Modal */}
+      <Modal
+        visible={historyJarNumber !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setHistoryJarNumber(null)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity
+              onPress={() => setHistoryJarNumber(null)}
+              hitSlop={8}
+              accessibilityRole="button"
+              accessibilityLabel="Close jar history"
+            >
+              <Text style={styles.modalCancel}>Close</Text>
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>
+              Jar #{historyJarNumber} History
+            </Text>
+            <View style={{ width: 60 }} />
+          </View>
+          <ScrollView contentContainerStyle={styles.historyModalContent}>
+            <JarTimeline events={jarEvents} />
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+
+      <JarStatusModal
+        visible={statusJar !== null}
+        title={`Jar #${statusJar?.number}`}
+        canOpen={statusJar?.status === "available"}
+        jarSize={statusJar?.jarSize}
+        onCancel={() => setStatusJar(null)}
+        onConfirm={handleSetStatus}
+      />
+
       {/* Fullscreen Image Modal */}
       {recipeImage && (
         <Modal
@@ -1641,6 +2324,15 @@ const styles = StyleSheet.create({
   removeBtn: {
     backgroundColor: "#ff6b6b",
   },
+  statusReasonText: {
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    fontStyle: "italic",
+    marginBottom: 8,
+  },
+  historyBtn: {
+    backgroundColor: theme.colors.textSecondary,
+  },
   sectionHeaderWithButton: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -1799,6 +2491,22 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     gap: theme.spacing.md,
   },
+  sealCheckBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.md,
+    padding: theme.spacing.md,
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+  },
+  sealCheckText: {
+    flex: 1,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
   modalStatCard: {
     flex: 1,
     backgroundColor: theme.colors.surface,
@@ -1856,6 +2564,16 @@ const styles = StyleSheet.create({
     fontWeight: theme.fontWeight.semibold,
     color: theme.colors.surface,
   },
+  fieldLabel: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text,
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+  },
+  fieldName: {
+    fontWeight: theme.fontWeight.semibold,
+  },
   editableHeader: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -1987,6 +2705,9 @@ const styles = StyleSheet.create({
     backgroundColor: theme.colors.background,
     padding: theme.spacing.lg,
   },
+  historyModalContent: {
+    paddingVertical: theme.spacing.md,
+  },
   modalHeader: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -8,6 +8,7 @@ import {
   TouchableOpacity,
   Modal,
   TextInput,
+  ScrollView,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import {
@@ -15,18 +16,49 @@ import {
   addCustomCategory,
   updateCustomCategory,
   deleteCustomCategory,
+  setCategoryFridgeLife,
+  setCategoryShelfLife,
+  getCategoryFields,
+  saveCategoryFields,
+  validateCategoryFields,
+  CUSTOM_FIELD_TYPE_LABELS,
   type CustomCategory,
+  type CustomFieldType,
 } from "../db";
 import { theme } from "../theme";
 import { SafeAreaView } from "react-native-safe-area-context";
 
+// A custom field being edited; choices are typed as a comma-separated list
+type FieldDraft = {
+  id?: number;
+  name: string;
+  type: CustomFieldType;
+  choicesText: string;
+};
+
+type CategoryFormData = {
+  name: string;
+  icon: string;
+  fridgeLifeDays: number | null;
+  shelfLifeMonths: number | null;
+  fields: FieldDraft[];
+};
+
 interface EditCategoryModalProps {
   visible: boolean;
   category: CustomCategory | null;
-  onSave: (category: { name: string; icon: string }) => void;
+  onSave: (category: CategoryFormData) => void;
   onCancel: () => void;
 }
 
+const FIELD_TYPES = Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[];
+
+const parseChoices = (text: string) =>
+  text
+    .split(",")
+    .map((choice) => choice.trim())
+    .filter(Boolean);
+
 const AVAILABLE_ICONS = [
   "🍎",
   "🥕",
@@ -74,23 +106,60 @@ const EditCategoryModal: React.FC<EditCategoryModalProps> = ({
 }) => {
   const [name, setName] = useState("");
   const [selectedIcon, setSelectedIcon] = useState("📦");
+  const [fridgeLifeText, setFridgeLifeText] = useState("");
+  const [shelfLifeText, setShelfLifeText] = useState("");
+  const [fields, setFields] = useState<FieldDraft[]>([]);
   const [error, setError] = useState("");
+  // Default categories keep their name and icon; only shelf and fridge life
+  // change
+  const isDefault = category?.isDefault === 1;
 
   useEffect(() => {
     if (category) {
       setName(category.name);
       setSelectedIcon(category.icon);
+      setFridgeLifeText(category.fridgeLifeDays?.toString() ?? "");
+      setShelfLifeText(category.shelfLifeMonths?.toString() ?? "");
     } else {
       setName("");
       setSelectedIcon("📦");
+      setFridgeLifeText("");
+      setShelfLifeText("");
     }
     setError(""); // Clear error when modal opens/closes
+
+    setFields([]);
+    if (category?.id && visible) {
+      getCategoryFields(category.id)
+        .then((existing) =>
+          setFields(
+            existing.map((field) => ({
+              id: field.id,
+              name: field.name,
+              type: field.type,
+              choicesText: field.choices.join(", "),
+            }))
+          )
+        )
+        .catch((error) => console.error("Error loading fields:", error));
+    }
   }, [category, visible]);
 
+  const updateField = (index: number, change: Partial<FieldDraft>) =>
+    setFields((prev) =>
+      prev.map((field, i) => (i === index ? { ...field, ...change } : field))
+    );
+
   const handleSave = () => {
     if (name.trim()) {
       setError("");
-      onSave({ name: name.trim(), icon: selectedIcon });
+      onSave({
+        name: name.trim(),
+        icon: selectedIcon,
+        fridgeLifeDays: parseInt(fridgeLifeText) || null,
+        shelfLifeMonths: parseInt(shelfLifeText) || null,
+        fields,
+      });
       // Field will be cleared when modal closes due to useEffect
     } else {
       setError("Category name is required");
@@ -100,39 +169,145 @@ const EditCategoryModal: React.FC<EditCategoryModalProps> = ({
   return (
     <Modal visible={visible} animationType="slide" transparent>
       <View style={styles.modalOverlay}>
-        <View style={styles.modalContainer}>
+        <ScrollView
+          style={styles.modalContainer}
+          keyboardShouldPersistTaps="handled"
+        >
           <Text style={styles.modalTitle}>
-            {category ? "Edit Category" : "Add Category"}
+            {isDefault
+              ? `${category.icon} ${category.name}`
+              : category
+              ? "Edit Category"
+              : "Add Category"}
           </Text>
 
-          <Text style={styles.label}>Name:</Text>
+          {!isDefault && (
+            <>
+              <Text style={styles.label}>Name:</Text>
+              <TextInput
+                style={[
+                  styles.textInput,
+                  error ? styles.textInputError : null,
+                ]}
+                value={name}
+                onChangeText={(text) => {
+                  setName(text);
+                  if (error) setError(""); // Clear error when user types
+                }}
+                placeholder="Enter category name"
+                autoFocus
+              />
+              {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+              <Text style={styles.label}>Icon:</Text>
+              <View style={styles.iconGrid}>
+                {AVAILABLE_ICONS.map((icon) => (
+                  <TouchableOpacity
+                    key={icon}
+                    style={[
+                      styles.iconButton,
+                      selectedIcon === icon && styles.selectedIconButton,
+                    ]}
+                    onPress={() => setSelectedIcon(icon)}
+                  >
+                    <Text style={styles.emojiIcon}>{icon}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+
+          <Text style={styles.label}>Shelf life (months):</Text>
           <TextInput
-            style={[styles.textInput, error ? styles.textInputError : null]}
-            value={name}
-            onChangeText={(text) => {
-              setName(text);
-              if (error) setError(""); // Clear error when user types
-            }}
-            placeholder="Enter category name"
-            autoFocus
+            style={styles.textInput}
+            value={shelfLifeText}
+            onChangeText={(text) =>
+              setShelfLifeText(text.replace(/[^0-9]/g, ""))
+            }
+            placeholder="e.g. 12"
+            keyboardType="numeric"
           />
-          {error ? <Text style={styles.errorText}>{error}</Text> : null}
 
-          <Text style={styles.label}>Icon:</Text>
-          <View style={styles.iconGrid}>
-            {AVAILABLE_ICONS.map((icon) => (
-              <TouchableOpacity
-                key={icon}
-                style={[
-                  styles.iconButton,
-                  selectedIcon === icon && styles.selectedIconButton,
-                ]}
-                onPress={() => setSelectedIcon(icon)}
-              >
-                <Text style={styles.emojiIcon}>{icon}</Text>
-              </TouchableOpacity>
-            ))}
-          </View>
+          <Text style={styles.label}>Fridge life once opened (days):</Text>
+          <TextInput
+            style={styles.textInput}
+            value={fridgeLifeText}
+            onChangeText={(text) =>
+              setFridgeLifeText(text.replace(/[^0-9]/g, ""))
+            }
+            placeholder="e.g. 21"
+            keyboardType="numeric"
+          />
+
+          <Text style={styles.label}>Custom fields:</Text>
+          <Text style={styles.helperText}>
+            Recorded on every batch in this category, e.g. PSI or brine
+            strength.
+          </Text>
+          {fields.map((field, index) => (
+            <View key={field.id ?? `new-${index}`} style={styles.fieldCard}>
+              <View style={styles.fieldRow}>
+                <TextInput
+                  style={[styles.textInput, styles.fieldNameInput]}
+                  value={field.name}
+                  onChangeText={(text) => updateField(index, { name: text })}
+                  placeholder="Field name"
+                />
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() =>
+                    setFields((prev) => prev.filter((_, i) => i !== index))
+                  }
+                  accessibilityLabel={`Remove ${field.name || "field"}`}
+                >
+                  <Ionicons name="trash" size={20} color="#ff4444" />
+                </TouchableOpacity>
+              </View>
+              <View style={styles.typeRow}>
+                {FIELD_TYPES.map((type) => (
+                  <TouchableOpacity
+                    key={type}
+                    style={[
+                      styles.typeOption,
+                      field.type === type && styles.typeOptionActive,
+                    ]}
+                    onPress={() => updateField(index, { type })}
+                  >
+                    <Text
+                      style={[
+                        styles.typeOptionText,
+                        field.type === type && styles.typeOptionTextActive,
+                      ]}
+                    >
+                      {CUSTOM_FIELD_TYPE_LABELS[type]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {field.type === "choice" && (
+                <TextInput
+                  style={[styles.textInput, styles.choicesInput]}
+                  value={field.choicesText}
+                  onChangeText={(text) =>
+                    updateField(index, { choicesText: text })
+                  }
+                  placeholder="Choices, separated by commas"
+                />
+              )}
+            </View>
+          ))}
+          <TouchableOpacity
+            style={styles.addFieldButton}
+            onPress={() =>
+              setFields((prev) => [
+                ...prev,
+                { name: "", type: "text", choicesText: "" },
+              ])
+            }
+          >
+            <Ionicons name="add" size={18} color={theme.colors.primary} />
+            <Text style={styles.addFieldText}>Add Field</Text>
+          </TouchableOpacity>
 
           <View style={styles.modalButtons}>
             <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
@@ -142,7 +317,7 @@ const EditCategoryModal: React.FC<EditCategoryModalProps> = ({
               <Text style={styles.saveButtonText}>Save</Text>
             </TouchableOpacity>
           </View>
-        </View>
+        </ScrollView>
       </View>
     </Modal>
   );
@@ -184,11 +359,33 @@ export default function CategoryManagementScreen() {
     setModalVisible(true);
   };
 
-  const handleSaveCategory = async (categoryData: {
-    name: string;
-    icon: string;
-  }) => {
+  const handleSaveCategory = async (categoryData: CategoryFormData) => {
+    const fields = categoryData.fields.map((field) => ({
+      id: field.id,
+      name: field.name,
+      type: field.type,
+      choices: parseChoices(field.choicesText),
+    }));
     try {
+      // Check the fields before anything is saved
+      validateCategoryFields(fields);
+
+      if (editingCategory?.isDefault === 1) {
+        await saveCategoryFields(editingCategory.id!, fields);
+        await setCategoryFridgeLife(
+          editingCategory.id!,
+          categoryData.fridgeLifeDays
+        );
+        await setCategoryShelfLife(
+          editingCategory.id!,
+          categoryData.shelfLifeMonths
+        );
+        setModalVisible(false);
+        setEditingCategory(null);
+        await loadCategories();
+        return;
+      }
+
       // Check for duplicate names (case-insensitive)
       const isDuplicate = categories.some(
         (cat) =>
@@ -210,8 +407,23 @@ export default function CategoryManagementScreen() {
           categoryData.name,
           categoryData.icon
         );
+        await setCategoryFridgeLife(
+          editingCategory.id!,
+          categoryData.fridgeLifeDays
+        );
+        await setCategoryShelfLife(
+          editingCategory.id!,
+          categoryData.shelfLifeMonths
+        );
+        await saveCategoryFields(editingCategory.id!, fields);
       } else {
-        await addCustomCategory(categoryData.name, categoryData.icon);
+        const categoryId = await addCustomCategory(
+          categoryData.name,
+          categoryData.icon,
+          categoryData.fridgeLifeDays,
+          categoryData.shelfLifeMonths
+        );
+        await saveCategoryFields(categoryId, fields);
       }
       setModalVisible(false);
       setEditingCategory(null);
@@ -259,20 +471,32 @@ export default function CategoryManagementScreen() {
     <View style={styles.categoryItem}>
       <View style={styles.categoryInfo}>
         <Text style={styles.categoryEmoji}>{item.icon || "📦"}</Text>
-        <Text style={styles.categoryName}>{item.name || "Unknown"}</Text>
+        <View>
+          <Text style={styles.categoryName}>{item.name || "Unknown"}</Text>
+          {item.shelfLifeMonths ? (
+            <Text style={styles.fridgeLifeText}>
+              Best within {item.shelfLifeMonths} month
+              {item.shelfLifeMonths !== 1 ? "s" : ""} of canning
+            </Text>
+          ) : null}
+          {item.fridgeLifeDays ? (
+            <Text style={styles.fridgeLifeText}>
+              Keeps {item.fridgeLifeDays} day
+              {item.fridgeLifeDays !== 1 ? "s" : ""} once opened
+            </Text>
+          ) : null}
+        </View>
         {item.isDefault === 1 && (
           <Text style={styles.defaultLabel}>Default</Text>
         )}
       </View>
       <View style={styles.categoryActions}>
-        {item.isDefault !== 1 && (
-          <TouchableOpacity
-            style={styles.actionButton}
-            onPress={() => handleEditCategory(item)}
-          >
-            <Ionicons name="pencil" size={20} color="#666" />
-          </TouchableOpacity>
-        )}
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => handleEditCategory(item)}
+        >
+          <Ionicons name="pencil" size={20} color="#666" />
+        </TouchableOpacity>
         {item.isDefault !== 1 && (
           <TouchableOpacity
             style={styles.actionButton}
@@ -377,6 +601,12 @@ const styles = StyleSheet.create({
     marginLeft: 12,
     color: theme.colors.text,
   },
+  fridgeLifeText: {
+    fontSize: 12,
+    color: "#666",
+    marginLeft: 12,
+    marginTop: 2,
+  },
   defaultLabel: {
     fontSize: 12,
     color: "#666",
@@ -405,6 +635,8 @@ const styles = StyleSheet.create({
     padding: 20,
     width: "90%",
     maxWidth: 400,
+    maxHeight: "85%",
+    flexGrow: 0,
   },
   modalTitle: {
     fontSize: 20,
@@ -476,6 +708,69 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "500",
   },
+  helperText: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  fieldCard: {
+    borderWidth: 1,
+    borderColor: "#eee",
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 12,
+  },
+  fieldRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  fieldNameInput: {
+    flex: 1,
+    marginBottom: 8,
+  },
+  typeRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  typeOption: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+  },
+  typeOptionActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  typeOptionText: {
+    fontSize: 14,
+    color: theme.colors.primary,
+  },
+  typeOptionTextActive: {
+    color: "white",
+  },
+  choicesInput: {
+    marginTop: 8,
+    marginBottom: 0,
+  },
+  addFieldButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 10,
+    marginBottom: 20,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderColor: theme.colors.primary,
+  },
+  addFieldText: {
+    color: theme.colors.primary,
+    fontSize: 16,
+    marginLeft: 4,
+  },
   emojiIcon: {
     fontSize: 24,
   },
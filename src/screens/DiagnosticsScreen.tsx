@@ -0,0 +1,311 @@
+import React, { useCallback, useState } from "react";
+import {
+  View,
+  Text,
+  SectionList,
+  StyleSheet,
+  Alert,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  checkDatabaseIntegrity,
+  repairIntegrityProblems,
+  REPAIRABLE_PROBLEM_KINDS,
+  type IntegrityProblem,
+  type IntegrityProblemKind,
+} from "../db";
+import { theme } from "../theme";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+// Long lists only show their first rows; the repair still fixes them all
+const MAX_ROWS_PER_KIND = 20;
+
+const KIND_INFO: Record<
+  IntegrityProblemKind,
+  { title: string; repair: string }
+> = {
+  corruption: {
+    title: "Database Corruption",
+    repair: "Restore a backup from Backup & Restore to recover.",
+  },
+  missingRecipe: {
+    title: "Links to Deleted Recipes",
+    repair: "Unlink the missing recipes. Batches keep everything else.",
+  },
+  mixedBatch: {
+    title: "Jars That Don't Match Their Batch",
+    repair: "Make each jar the same item as its batch.",
+  },
+  missingCategory: {
+    title: "Missing Categories",
+    repair: "Add the missing categories back to your category list.",
+  },
+  legacyRecipe: {
+    title: "Old Recipe Text",
+    repair: "Clear recipe text and images left over from older versions.",
+  },
+  foreignKey: {
+    title: "Broken References",
+    repair:
+      "Clear references to missing rows, and remove rows that cannot exist without them.",
+  },
+};
+
+type ProblemSection = {
+  kind: IntegrityProblemKind;
+  total: number;
+  data: IntegrityProblem[];
+};
+
+const groupByKind = (problems: IntegrityProblem[]): ProblemSection[] =>
+  (Object.keys(KIND_INFO) as IntegrityProblemKind[])
+    .map((kind) => {
+      const ofKind = problems.filter((problem) => problem.kind === kind);
+      return {
+        kind,
+        total: ofKind.length,
+        data: ofKind.slice(0, MAX_ROWS_PER_KIND),
+      };
+    })
+    .filter((section) => section.total > 0);
+
+export default function DiagnosticsScreen() {
+  const [problems, setProblems] = useState<IntegrityProblem[]>([]);
+  const [isChecking, setIsChecking] = useState(true);
+  const [checkedAt, setCheckedAt] = useState<Date | null>(null);
+
+  const runCheck = async () => {
+    setIsChecking(true);
+    try {
+      setProblems(await checkDatabaseIntegrity());
+      setCheckedAt(new Date());
+    } catch (error) {
+      console.error("Error checking database:", error);
+      Alert.alert("Error", "Failed to check the database");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      runCheck();
+    }, [])
+  );
+
+  const handleRepair = (section: ProblemSection) => {
+    Alert.alert(
+      `Repair ${KIND_INFO[section.kind].title}`,
+      `${KIND_INFO[section.kind].repair}\n\nConsider making a backup first.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Repair",
+          onPress: async () => {
+            try {
+              const changes = await repairIntegrityProblems(section.kind);
+              Alert.alert(
+                "Repaired",
+                `Updated ${changes} record${changes !== 1 ? "s" : ""}.`
+              );
+            } catch (error) {
+              console.error("Error repairing database:", error);
+              Alert.alert("Error", error.message);
+            }
+            await runCheck();
+          },
+        },
+      ]
+    );
+  };
+
+  const sections = groupByKind(problems);
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom", "left", "right"]}>
+      <SectionList
+        sections={sections}
+        keyExtractor={(item, index) => `${item.kind}-${index}`}
+        contentContainerStyle={styles.listContainer}
+        stickySectionHeadersEnabled={false}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <Text style={styles.headerText}>
+              Checks for broken links between items, batches, jars, recipes
+              and categories, and runs SQLite's own integrity checks.
+            </Text>
+            <TouchableOpacity
+              style={[styles.checkButton, isChecking && { opacity: 0.5 }]}
+              onPress={runCheck}
+              disabled={isChecking}
+            >
+              {isChecking ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text style={styles.buttonText}>Check Again</Text>
+              )}
+            </TouchableOpacity>
+            {checkedAt && !isChecking && (
+              <Text style={styles.summaryText}>
+                {problems.length === 0
+                  ? "No problems found"
+                  : `${problems.length} problem${
+                      problems.length !== 1 ? "s" : ""
+                    } found`}
+              </Text>
+            )}
+          </View>
+        }
+        renderSectionHeader={({ section }) => (
+          <View style={styles.sectionHeader}>
+            <View style={styles.sectionTitleRow}>
+              <Text style={styles.sectionTitle}>
+                {KIND_INFO[section.kind].title} ({section.total})
+              </Text>
+              {REPAIRABLE_PROBLEM_KINDS.includes(section.kind) && (
+                <TouchableOpacity onPress={() => handleRepair(section)}>
+                  <Text style={styles.repairText}>Repair</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            <Text style={styles.sectionHint}>
+              {KIND_INFO[section.kind].repair}
+            </Text>
+          </View>
+        )}
+        renderItem={({ item }) => (
+          <View style={styles.problemRow}>
+            <Ionicons
+              name={
+                item.kind === "corruption" ? "alert-circle" : "warning-outline"
+              }
+              size={18}
+              color={
+                item.kind === "corruption"
+                  ? theme.colors.error
+                  : theme.colors.warning
+              }
+            />
+            <Text style={styles.problemText}>{item.description}</Text>
+          </View>
+        )}
+        renderSectionFooter={({ section }) =>
+          section.total > section.data.length ? (
+            <Text style={styles.moreText}>
+              and {section.total - section.data.length} more
+            </Text>
+          ) : null
+        }
+        ListEmptyComponent={
+          checkedAt && !isChecking ? (
+            <View style={styles.emptyState}>
+              <Ionicons
+                name="checkmark-circle"
+                size={64}
+                color={theme.colors.primary}
+              />
+              <Text style={styles.emptyText}>Your data looks healthy</Text>
+            </View>
+          ) : null
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  listContainer: {
+    padding: 16,
+  },
+  header: {
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  headerText: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  checkButton: {
+    backgroundColor: theme.colors.primary,
+    height: 40,
+    minWidth: 140,
+    borderRadius: 20,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 16,
+  },
+  buttonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  summaryText: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    marginTop: 12,
+  },
+  sectionHeader: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  sectionTitleRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: theme.colors.text,
+    flexShrink: 1,
+  },
+  repairText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: theme.colors.primary,
+    marginLeft: 8,
+  },
+  sectionHint: {
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  problemRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    backgroundColor: "white",
+    padding: 12,
+    marginBottom: 6,
+    borderRadius: 8,
+    gap: 8,
+  },
+  problemText: {
+    flex: 1,
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  moreText: {
+    fontSize: 12,
+    color: "#999",
+    textAlign: "center",
+    marginBottom: 8,
+  },
+  emptyState: {
+    alignItems: "center",
+    marginTop: 48,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+    marginTop: 12,
+  },
+});
@@ -9,55 +9,138 @@ import {
   StatusBar,
   ActivityIndicator,
   TextInput,
+  Alert,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useFocusEffect, useNavigation } from "@react-navigation/native";
 import { FontAwesome6, Ionicons } from "@expo/vector-icons";
 import {
-  getAllBatches,
+  getBatchPage,
+  countBatches,
+  getUseSoonBatches,
   getJarStats,
   getAllCategories,
   type CustomCategory,
   getDb,
-  formatDateStringWithUserPreference,
+  getDateFormat,
+  formatDateString,
+  type DateFormat,
   CATEGORIES,
   getRunningLowItems,
+  getOpenedJars,
+  type OpenedJar,
+  getPendingSealChecks,
+  type PendingSealCheck,
+  getLowSupplies,
+  formatSupplyName,
+  type Supply,
+  USE_SOON_DAYS,
   resetDb,
+  getSavedViews,
+  saveView,
+  deleteSavedView,
+  type BatchCursor,
+  type BatchQuery,
+  type BatchSummary,
+  EMPTY_DASHBOARD_FILTER,
+  type DashboardFilter,
+  type DashboardStatus,
+  type SavedView,
+  getCurrentPantry,
+  type Pantry,
 } from "../db";
 import { theme } from "../theme";
 import type { RootStackParamList } from "../App";
 import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { DashboardFilterModal } from "../components/DashboardFilterModal";
+import { PantrySwitcherModal } from "../components/PantrySwitcherModal";
 
 type Nav = NativeStackNavigationProp<RootStackParamList>;
 
-type StatusFilter = "all" | "available" | "used";
+type StatusFilter = DashboardStatus;
 type CategoryFilter = "all" | string;
 
-type Batch = {
-  id: number;
-  name: string;
-  category: string;
-  fillDate: string;
-  jarSize: string;
-  location: string;
-  notes: string;
-  totalJars: number;
-  usedJars: number;
-  availableJars: number;
-  jarIds: number[];
-  batchId: string;
-  formattedFillDate?: string;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getFinishByText = (jar: OpenedJar) => {
+  if (!jar.finishByISO) return "No fridge life set";
+  const daysLeft = Math.ceil(
+    (new Date(jar.finishByISO).getTime() - Date.now()) / DAY_MS,
+  );
+  if (daysLeft < 0) {
+    return `${-daysLeft} day${daysLeft !== -1 ? "s" : ""} overdue`;
+  }
+  if (daysLeft === 0) return "Finish today";
+  return `${daysLeft} day${daysLeft !== 1 ? "s" : ""} left`;
+};
+
+const getSealCheckText = (check: PendingSealCheck) => {
+  const hoursLeft = Math.ceil(
+    (new Date(check.dueISO).getTime() - Date.now()) / (60 * 60 * 1000),
+  );
+  return hoursLeft <= 0 ? "Check now" : `Check in ${hoursLeft} h`;
+};
+
+const getDaysUntil = (dateISO: string) =>
+  Math.ceil((new Date(dateISO).getTime() - Date.now()) / DAY_MS);
+
+const getBestByText = (bestByISO: string) => {
+  const daysLeft = getDaysUntil(bestByISO);
+  if (daysLeft < 0) {
+    return `${-daysLeft} day${daysLeft !== -1 ? "s" : ""} past best-by`;
+  }
+  if (daysLeft === 0) return "Best-by today";
+  return `Best-by in ${daysLeft} day${daysLeft !== 1 ? "s" : ""}`;
 };
 
+const FILTER_KEYS = Object.keys(EMPTY_DASHBOARD_FILTER) as Array<
+  keyof DashboardFilter
+>;
+
+const isSameFilter = (a: DashboardFilter, b: DashboardFilter) =>
+  FILTER_KEYS.every((key) => a[key] === b[key]);
+
+// Short description of the filters set from the Filters sheet
+const describeExtraFilters = (filter: DashboardFilter) =>
+  [
+    filter.location,
+    filter.jarSize,
+    filter.olderThanMonths !== null &&
+      `filled over ${filter.olderThanMonths} mo ago`,
+    filter.newerThanMonths !== null &&
+      `filled within ${filter.newerThanMonths} mo`,
+    filter.runningLow && "running low",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+// Only batches with jars still on the shelf need using up
+const isUseSoon = (batch: Batch) =>
+  batch.availableJars > 0 &&
+  batch.bestByISO !== null &&
+  getDaysUntil(batch.bestByISO) <= USE_SOON_DAYS;
+
+type Batch = BatchSummary;
+
 export default function HomeScreen() {
   const navigation = useNavigation<Nav>();
   const insets = useSafeAreaInsets();
   const [batches, setBatches] = React.useState<Batch[]>([]);
+  const [nextCursor, setNextCursor] = React.useState<BatchCursor | null>(null);
+  const [batchCount, setBatchCount] = React.useState(0);
+  const [isLoadingMore, setIsLoadingMore] = React.useState(false);
+  const [useSoonBatches, setUseSoonBatches] = React.useState<Batch[]>([]);
+  const [dateFormat, setDateFormatState] =
+    React.useState<DateFormat>("MM/DD/YYYY");
   const [stats, setStats] = React.useState({ total: 0, available: 0, used: 0 });
-  const [statusFilter, setStatusFilter] = React.useState<StatusFilter>("all");
-  const [categoryFilter, setCategoryFilter] =
-    React.useState<CategoryFilter>("all");
+  const [filter, setFilter] = React.useState<DashboardFilter>(
+    EMPTY_DASHBOARD_FILTER,
+  );
+  const [savedViews, setSavedViews] = React.useState<SavedView[]>([]);
+  const [showFilters, setShowFilters] = React.useState(false);
+  const [pantry, setPantry] = React.useState<Pantry | null>(null);
+  const [showPantries, setShowPantries] = React.useState(false);
   const [searchQuery, setSearchQuery] = React.useState("");
   const [sortByDate, setSortByDate] = React.useState<"asc" | "desc">("desc");
   const [categories, setCategories] = React.useState<CustomCategory[]>([]);
@@ -72,34 +155,104 @@ export default function HomeScreen() {
       categoryIcon?: string;
     }>
   >([]);
+  const [openedJars, setOpenedJars] = React.useState<OpenedJar[]>([]);
+  const [sealChecks, setSealChecks] = React.useState<PendingSealCheck[]>([]);
+  const [lowSupplies, setLowSupplies] = React.useState<Supply[]>([]);
+
+  const statusFilter = filter.status;
+  const categoryFilter: CategoryFilter = filter.category ?? "all";
+  const setStatusFilter = (status: StatusFilter) =>
+    setFilter((prev) => ({ ...prev, status }));
+  const setCategoryFilter = (category: CategoryFilter) =>
+    setFilter((prev) => ({
+      ...prev,
+      category: category === "all" ? null : category,
+    }));
+  const extraFilterText = describeExtraFilters(filter);
+
+  // Filtering and sorting happen in SQL; the list fetches a page at a time
+  const batchQuery: BatchQuery = {
+    filter,
+    search: searchQuery,
+    sort: sortByDate,
+  };
+  const batchQueryRef = React.useRef(batchQuery);
+  batchQueryRef.current = batchQuery;
+  // Bumped on every reload so pages for an older query are dropped
+  const batchQueryVersion = React.useRef(0);
+
+  const loadBatches = async () => {
+    const version = ++batchQueryVersion.current;
+    const query = batchQueryRef.current;
+    const [page, count] = await Promise.all([
+      getBatchPage(query),
+      countBatches(query),
+    ]);
+    if (version !== batchQueryVersion.current) return;
+    setBatches(page.batches);
+    setNextCursor(page.nextCursor);
+    setBatchCount(count);
+  };
+
+  const loadMoreBatches = async () => {
+    if (!nextCursor || isLoadingMore) return;
+    const version = batchQueryVersion.current;
+    setIsLoadingMore(true);
+    try {
+      const page = await getBatchPage(batchQueryRef.current, nextCursor);
+      if (version !== batchQueryVersion.current) return;
+      setBatches((prev) => [...prev, ...page.batches]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Error loading more batches:", error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const fetchDashboard = async () => {
+    const [
+      statsData,
+      categoriesData,
+      lowStockData,
+      openedData,
+      viewsData,
+      useSoonData,
+      format,
+      pantryData,
+      sealCheckData,
+      lowSuppliesData,
+    ] = await Promise.all([
+      getJarStats(),
+      getAllCategories(),
+      getRunningLowItems(),
+      getOpenedJars(),
+      getSavedViews(),
+      getUseSoonBatches(),
+      getDateFormat(),
+      getCurrentPantry(),
+      getPendingSealChecks(),
+      getLowSupplies(),
+    ]);
+
+    setStats(statsData);
+    setCategories(categoriesData);
+    setRunningLowItems(lowStockData);
+    setOpenedJars(openedData);
+    setSavedViews(viewsData);
+    setUseSoonBatches(useSoonData);
+    setDateFormatState(format);
+    setPantry(pantryData);
+    setSealChecks(sealCheckData);
+    setLowSupplies(lowSuppliesData);
+    await loadBatches();
+  };
 
   const loadData = async () => {
     try {
       // Ensure DB is initialized first (this includes seeding)
       await getDb();
-
-      const [batchData, statsData, categoriesData, lowStockData] =
-        await Promise.all([
-          getAllBatches(),
-          getJarStats(),
-          getAllCategories(),
-          getRunningLowItems(),
-        ]);
-
-      // Format dates for each batch
-      const batchesWithFormattedDates = await Promise.all(
-        batchData.map(async (batch) => ({
-          ...batch,
-          formattedFillDate: await formatDateStringWithUserPreference(
-            batch.fillDate,
-          ),
-        })),
-      );
-
-      setBatches(batchesWithFormattedDates);
-      setStats(statsData);
-      setCategories(categoriesData);
-      setRunningLowItems(lowStockData);
+      await fetchDashboard();
     } catch (error) {
       console.error("Error loading data:", error);
 
@@ -112,28 +265,7 @@ export default function HomeScreen() {
         resetDb();
         try {
           // Try one more time with fresh connection
-          const [batchData, statsData, categoriesData, lowStockData] =
-            await Promise.all([
-              getAllBatches(),
-              getJarStats(),
-              getAllCategories(),
-              getRunningLowItems(),
-            ]);
-
-          // Format dates for each batch
-          const batchesWithFormattedDates = await Promise.all(
-            batchData.map(async (batch) => ({
-              ...batch,
-              formattedFillDate: await formatDateStringWithUserPreference(
-                batch.fillDate,
-              ),
-            })),
-          );
-
-          setBatches(batchesWithFormattedDates);
-          setStats(statsData);
-          setCategories(categoriesData);
-          setRunningLowItems(lowStockData);
+          await fetchDashboard();
         } catch (retryError) {
           console.error("Error loading data on retry:", retryError);
         }
@@ -149,44 +281,52 @@ export default function HomeScreen() {
     }, []),
   );
 
-  const filteredBatches = batches
-    .filter((batch) => {
-      // Search filter
-      if (searchQuery.trim()) {
-        const query = searchQuery.toLowerCase();
-        const matchesName = batch.name.toLowerCase().includes(query);
-        const matchesNotes =
-          batch.notes?.toLowerCase().includes(query) || false;
-        const matchesLocation =
-          batch.location?.toLowerCase().includes(query) || false;
-
-        if (!matchesName && !matchesNotes && !matchesLocation) {
-          return false;
-        }
-      }
+  // The first page is loaded with the rest of the dashboard on focus
+  const isFirstQuery = React.useRef(true);
+  React.useEffect(() => {
+    if (isFirstQuery.current) {
+      isFirstQuery.current = false;
+      return;
+    }
+    loadBatches().catch((error) =>
+      console.error("Error loading batches:", error),
+    );
+  }, [filter, searchQuery, sortByDate]);
 
-      // Status filter
-      if (statusFilter === "available" && batch.availableJars === 0)
-        return false;
-      if (statusFilter === "used" && batch.usedJars === 0) return false;
-
-      // Category filter
-      if (categoryFilter !== "all" && batch.category !== categoryFilter)
-        return false;
-
-      return true;
-    })
-    .sort((a, b) => {
-      // Sort by date
-      const dateA = new Date(a.fillDate).getTime();
-      const dateB = new Date(b.fillDate).getTime();
-
-      if (sortByDate === "asc") {
-        return dateA - dateB;
-      } else {
-        return dateB - dateA;
-      }
-    });
+  const activeView = savedViews.find((view) =>
+    isSameFilter(view.filter, filter),
+  );
+
+  // Tapping the active view again goes back to the unfiltered dashboard
+  const applyView = (view: SavedView) => {
+    setFilter(view === activeView ? EMPTY_DASHBOARD_FILTER : view.filter);
+  };
+
+  const confirmDeleteView = (view: SavedView) => {
+    Alert.alert("Delete View", `Delete the saved view "${view.name}"?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteSavedView(view.id);
+            setSavedViews(await getSavedViews());
+          } catch (error) {
+            console.error("Error deleting view:", error);
+            Alert.alert("Error", "Failed to delete view");
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleSaveView = async (name: string, draft: DashboardFilter) => {
+    await saveView(name, draft);
+    setFilter(draft);
+    setSavedViews(await getSavedViews());
+    setShowFilters(false);
+  };
 
   const getCategoryIcon = (categoryId: string) => {
     const category = categories.find((c) => c.name === categoryId);
@@ -216,6 +356,10 @@ export default function HomeScreen() {
 
   const renderBatchCard = ({ item }: { item: Batch }) => {
     const isRunningLow = isItemRunningLow(item.id);
+    const isNextToUse = item.isNextToUse;
+    const useSoon = isUseSoon(item);
+    const isPastBestBy =
+      item.bestByISO !== null && getDaysUntil(item.bestByISO) < 0;
 
     return (
       <TouchableOpacity
@@ -237,8 +381,34 @@ export default function HomeScreen() {
           </View>
         )}
 
+        {useSoon && (
+          <View
+            style={[
+              styles.useSoonBadge,
+              isPastBestBy && { backgroundColor: theme.colors.error },
+            ]}
+          >
+            <Ionicons name="time-outline" size={14} color="#fff" />
+            <Text style={styles.lowStockBadgeText}>
+              {isPastBestBy ? "Past Best-By" : "Use Soon"}
+            </Text>
+          </View>
+        )}
+
         <View style={styles.cardHeader}>
-          <Text style={styles.batchName}>{item.name}</Text>
+          <View style={styles.batchNameColumn}>
+            <Text style={styles.batchName}>{item.name}</Text>
+            {isNextToUse && (
+              <View style={styles.nextToUseTag}>
+                <Ionicons
+                  name="arrow-forward-circle"
+                  size={14}
+                  color={theme.colors.primary}
+                />
+                <Text style={styles.nextToUseTagText}>Next to use</Text>
+              </View>
+            )}
+          </View>
           <View
             style={[
               styles.categoryChip,
@@ -260,16 +430,41 @@ export default function HomeScreen() {
           <View style={styles.detailRow}>
             <Ionicons name="calendar-outline" size={16} color="#666" />
             <Text style={styles.detailText}>
-              Canned: {item.formattedFillDate || item.fillDate}
+              Canned: {formatDateString(item.fillDate, dateFormat)}
             </Text>
           </View>
 
-          {item.location && (
+          {item.bestByISO && item.availableJars > 0 && (
+            <View style={styles.detailRow}>
+              <Ionicons name="hourglass-outline" size={16} color="#666" />
+              <Text
+                style={[
+                  styles.detailText,
+                  useSoon && {
+                    color: isPastBestBy
+                      ? theme.colors.error
+                      : theme.colors.warning,
+                  },
+                ]}
+              >
+                {getBestByText(item.bestByISO)}
+              </Text>
+            </View>
+          )}
+
+          {item.locationCount > 1 ? (
+            <View style={styles.detailRow}>
+              <Ionicons name="location-outline" size={16} color="#666" />
+              <Text style={styles.detailText}>
+                Spread over {item.locationCount} locations
+              </Text>
+            </View>
+          ) : item.location ? (
             <View style={styles.detailRow}>
               <Ionicons name="location-outline" size={16} color="#666" />
               <Text style={styles.detailText}>Location: {item.location}</Text>
             </View>
-          )}
+          ) : null}
 
           {item.notes && (
             <View style={styles.detailRow}>
@@ -307,219 +502,566 @@ export default function HomeScreen() {
         barStyle="dark-content"
         backgroundColor={theme.colors.background}
       />
-      <ScrollView showsVerticalScrollIndicator={false}>
-        {/* Header */}
-        <View style={styles.header}>
-          <Text style={styles.headerTitle}>Pantry Dashboard</Text>
-          <TouchableOpacity
-            style={styles.addButton}
-            onPress={() => navigation.navigate("AddBatch")}
-          >
-            <Ionicons name="add" size={24} color="white" />
-          </TouchableOpacity>
-        </View>
-
-        {/* Stats Cards (now clickable filters) */}
-        <View style={styles.statsContainer}>
-          <TouchableOpacity
-            style={[
-              styles.statCard,
-              statusFilter === "all" && styles.statCardActive,
-            ]}
-            onPress={() => setStatusFilter("all")}
-          >
-            <Text
-              style={[
-                styles.statNumber,
-                statusFilter === "all" && styles.statNumberActive,
-              ]}
-            >
-              {stats.total}
-            </Text>
-            <Text
-              style={[
-                styles.statLabel,
-                statusFilter === "all" && styles.statLabelActive,
-              ]}
-            >
-              Total Jars
-            </Text>
-          </TouchableOpacity>
-
-          <TouchableOpacity
-            style={[
-              styles.statCard,
-              statusFilter === "available" && styles.statCardActive,
-            ]}
-            onPress={() => setStatusFilter("available")}
-          >
-            <Text
-              style={[
-                styles.statNumber,
-                { color: "#2e7d32" },
-                statusFilter === "available" && styles.statNumberActive,
-              ]}
-            >
-              {stats.available}
-            </Text>
-            <Text
-              style={[
-                styles.statLabel,
-                statusFilter === "available" && styles.statLabelActive,
-              ]}
-            >
-              Available
-            </Text>
-          </TouchableOpacity>
+      <FlatList
+        data={batches}
+        renderItem={renderBatchCard}
+        keyExtractor={(item) => item.batchId}
+        showsVerticalScrollIndicator={false}
+        onEndReached={loadMoreBatches}
+        onEndReachedThreshold={0.5}
+        ListHeaderComponent={
+          <>
+            {/* Header */}
+            <View style={styles.header}>
+              <TouchableOpacity
+                style={styles.pantrySwitcher}
+                onPress={() => setShowPantries(true)}
+                accessibilityLabel="Switch pantry"
+              >
+                <Text style={styles.headerTitle} numberOfLines={1}>
+                  {pantry?.name ?? "Pantry Dashboard"}
+                </Text>
+                <Ionicons
+                  name="chevron-down"
+                  size={20}
+                  color={theme.colors.textSecondary}
+                />
+              </TouchableOpacity>
+              <View style={styles.headerButtons}>
+                <TouchableOpacity
+                  style={[styles.addButton, styles.moveButton]}
+                  onPress={() => navigation.navigate("Search")}
+                  accessibilityLabel="Search"
+                >
+                  <Ionicons
+                    name="search"
+                    size={22}
+                    color={theme.colors.primary}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.addButton, styles.moveButton]}
+                  onPress={() => navigation.navigate("ShoppingList")}
+                  accessibilityLabel="Shopping list"
+                >
+                  <Ionicons
+                    name="cart-outline"
+                    size={22}
+                    color={theme.colors.primary}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.addButton, styles.moveButton]}
+                  onPress={() => navigation.navigate("MoveJars")}
+                  accessibilityLabel="Move jars"
+                >
+                  <Ionicons
+                    name="swap-horizontal"
+                    size={22}
+                    color={theme.colors.primary}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.addButton}
+                  onPress={() => navigation.navigate("AddBatch")}
+                >
+                  <Ionicons name="add" size={24} color="white" />
+                </TouchableOpacity>
+              </View>
+            </View>
 
-          <TouchableOpacity
-            style={[
-              styles.statCard,
-              statusFilter === "used" && styles.statCardActive,
-            ]}
-            onPress={() => setStatusFilter("used")}
-          >
-            <Text
-              style={[
-                styles.statNumber,
-                { color: "#d32f2f" },
-                statusFilter === "used" && styles.statNumberActive,
-              ]}
-            >
-              {stats.used}
-            </Text>
-            <Text
-              style={[
-                styles.statLabel,
-                statusFilter === "used" && styles.statLabelActive,
-              ]}
+            {/* Saved views and the Filters sheet */}
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.viewChips}
             >
-              Used
-            </Text>
-          </TouchableOpacity>
-        </View>
+              <TouchableOpacity
+                style={[
+                  styles.viewChip,
+                  !!extraFilterText && styles.viewChipActive,
+                ]}
+                onPress={() => setShowFilters(true)}
+              >
+                <Ionicons
+                  name="options-outline"
+                  size={16}
+                  color={
+                    extraFilterText
+                      ? theme.colors.surface
+                      : theme.colors.primary
+                  }
+                />
+                <Text
+                  style={[
+                    styles.viewChipText,
+                    !!extraFilterText && styles.viewChipTextActive,
+                  ]}
+                >
+                  Filters
+                </Text>
+              </TouchableOpacity>
+              {savedViews.map((view) => (
+                <TouchableOpacity
+                  key={view.id}
+                  style={[
+                    styles.viewChip,
+                    view === activeView && styles.viewChipActive,
+                  ]}
+                  onPress={() => applyView(view)}
+                  onLongPress={() => confirmDeleteView(view)}
+                >
+                  <Ionicons
+                    name="bookmark-outline"
+                    size={16}
+                    color={
+                      view === activeView
+                        ? theme.colors.surface
+                        : theme.colors.primary
+                    }
+                  />
+                  <Text
+                    style={[
+                      styles.viewChipText,
+                      view === activeView && styles.viewChipTextActive,
+                    ]}
+                  >
+                    {view.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            {!!extraFilterText && (
+              <View style={[styles.sectionHeaderRow, styles.extraFilterRow]}>
+                <Text style={styles.extraFilterText}>{extraFilterText}</Text>
+                <TouchableOpacity
+                  onPress={() =>
+                    setFilter({
+                      ...EMPTY_DASHBOARD_FILTER,
+                      category: filter.category,
+                      status: filter.status,
+                    })
+                  }
+                >
+                  <Text style={styles.sectionHeaderAction}>Clear</Text>
+                </TouchableOpacity>
+              </View>
+            )}
 
-        {/* Category Filter */}
-        <View style={styles.filterSection}>
-          <Text style={styles.filterTitle}>Filter by Category</Text>
-          <View style={styles.categoryButtons}>
-            <TouchableOpacity
-              style={[
-                styles.categoryButton,
-                categoryFilter === "all" && styles.categoryButtonActive,
-              ]}
-              onPress={() => setCategoryFilter("all")}
-            >
-              <Text style={styles.categoryIcon}>📋</Text>
-              <Text
+            {/* Stats Cards (now clickable filters) */}
+            <View style={styles.statsContainer}>
+              <TouchableOpacity
                 style={[
-                  styles.categoryButtonText,
-                  categoryFilter === "all" && styles.categoryButtonTextActive,
+                  styles.statCard,
+                  statusFilter === "all" && styles.statCardActive,
                 ]}
+                onPress={() => setStatusFilter("all")}
               >
-                All
-              </Text>
-            </TouchableOpacity>
+                <Text
+                  style={[
+                    styles.statNumber,
+                    statusFilter === "all" && styles.statNumberActive,
+                  ]}
+                >
+                  {stats.total}
+                </Text>
+                <Text
+                  style={[
+                    styles.statLabel,
+                    statusFilter === "all" && styles.statLabelActive,
+                  ]}
+                >
+                  Total Jars
+                </Text>
+              </TouchableOpacity>
 
-            {categories.map((category) => (
               <TouchableOpacity
-                key={category.id || category.name}
                 style={[
-                  styles.categoryButton,
-                  categoryFilter === category.name &&
-                    styles.categoryButtonActive,
+                  styles.statCard,
+                  statusFilter === "available" && styles.statCardActive,
                 ]}
-                onPress={() => setCategoryFilter(category.name)}
+                onPress={() => setStatusFilter("available")}
               >
-                <Text style={styles.categoryIcon}>{category.icon}</Text>
                 <Text
                   style={[
-                    styles.categoryButtonText,
-                    categoryFilter === category.name &&
-                      styles.categoryButtonTextActive,
+                    styles.statNumber,
+                    { color: "#2e7d32" },
+                    statusFilter === "available" && styles.statNumberActive,
                   ]}
                 >
-                  {category.name}
+                  {stats.available}
+                </Text>
+                <Text
+                  style={[
+                    styles.statLabel,
+                    statusFilter === "available" && styles.statLabelActive,
+                  ]}
+                >
+                  Available
                 </Text>
               </TouchableOpacity>
-            ))}
-          </View>
-        </View>
 
-        {/* Search Bar */}
-        <View style={styles.searchRow}>
-          <View style={styles.searchContainer}>
-            <Ionicons
-              name="search"
-              size={20}
-              color={theme.colors.textSecondary}
-              style={styles.searchIcon}
-            />
-            <TextInput
-              style={styles.searchInput}
-              placeholder="Search batch names, notes, or loca..."
-              placeholderTextColor={theme.colors.textSecondary}
-              value={searchQuery}
-              onChangeText={setSearchQuery}
-              clearButtonMode="while-editing"
-            />
-            {searchQuery.length > 0 && (
               <TouchableOpacity
-                style={styles.clearButton}
-                onPress={() => setSearchQuery("")}
+                style={[
+                  styles.statCard,
+                  statusFilter === "used" && styles.statCardActive,
+                ]}
+                onPress={() => setStatusFilter("used")}
               >
+                <Text
+                  style={[
+                    styles.statNumber,
+                    { color: "#d32f2f" },
+                    statusFilter === "used" && styles.statNumberActive,
+                  ]}
+                >
+                  {stats.used}
+                </Text>
+                <Text
+                  style={[
+                    styles.statLabel,
+                    statusFilter === "used" && styles.statLabelActive,
+                  ]}
+                >
+                  Used
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Jars waiting for their seal check after canning */}
+            {sealChecks.length > 0 && (
+              <View style={styles.filterSection}>
+                <View style={styles.sectionHeaderRow}>
+                  <Text style={styles.filterTitle}>
+                    Seal Checks ({sealChecks.length})
+                  </Text>
+                  <TouchableOpacity
+                    onPress={() => navigation.navigate("SealCheck")}
+                  >
+                    <Text style={styles.sectionHeaderAction}>Check all</Text>
+                  </TouchableOpacity>
+                </View>
+                {sealChecks.map((check) => {
+                  const isDue = new Date(check.dueISO).getTime() <= Date.now();
+
+                  return (
+                    <TouchableOpacity
+                      key={check.batchId}
+                      style={styles.openedJarRow}
+                      onPress={() =>
+                        navigation.navigate("SealCheck", {
+                          batchId: check.batchId,
+                        })
+                      }
+                    >
+                      <Ionicons
+                        name="shield-checkmark-outline"
+                        size={20}
+                        color={theme.colors.primary}
+                      />
+                      <Text style={styles.openedJarName}>
+                        {check.name} ({check.jarCount})
+                      </Text>
+                      <Text
+                        style={[
+                          styles.openedJarCountdown,
+                          isDue && { color: theme.colors.warning },
+                        ]}
+                      >
+                        {getSealCheckText(check)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+
+            {/* Canning supplies below their low-stock alert */}
+            {lowSupplies.length > 0 && (
+              <View style={styles.filterSection}>
+                <View style={styles.sectionHeaderRow}>
+                  <Text style={styles.filterTitle}>
+                    Supplies Running Low ({lowSupplies.length})
+                  </Text>
+                  <TouchableOpacity
+                    onPress={() => navigation.navigate("Supplies")}
+                  >
+                    <Text style={styles.sectionHeaderAction}>Supplies</Text>
+                  </TouchableOpacity>
+                </View>
+                {lowSupplies.map((supply) => (
+                  <TouchableOpacity
+                    key={supply.id}
+                    style={styles.openedJarRow}
+                    onPress={() => navigation.navigate("Supplies")}
+                  >
+                    <Ionicons
+                      name="warning-outline"
+                      size={20}
+                      color={theme.colors.warning}
+                    />
+                    <Text style={styles.openedJarName}>
+                      {formatSupplyName(supply)}
+                    </Text>
+                    <Text
+                      style={[
+                        styles.openedJarCountdown,
+                        { color: theme.colors.warning },
+                      ]}
+                    >
+                      {supply.quantity} left
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            {/* Opened Jars, soonest to finish first */}
+            {openedJars.length > 0 && (
+              <View style={styles.filterSection}>
+                <Text style={styles.filterTitle}>
+                  Opened Jars ({openedJars.length})
+                </Text>
+                {openedJars.map((jar) => {
+                  const isOverdue =
+                    jar.finishByISO !== null &&
+                    new Date(jar.finishByISO).getTime() < Date.now();
+
+                  return (
+                    <TouchableOpacity
+                      key={jar.jarId}
+                      style={styles.openedJarRow}
+                      onPress={() =>
+                        navigation.navigate("BatchDetail", {
+                          batchName: jar.name,
+                          itemTypeId: jar.itemTypeId,
+                          fillDate: jar.fillDateISO,
+                          batchId: jar.batchId,
+                        })
+                      }
+                    >
+                      <Ionicons
+                        name="snow-outline"
+                        size={20}
+                        color={theme.colors.primary}
+                      />
+                      <Text style={styles.openedJarName}>
+                        {jar.name} #{jar.jarId}
+                      </Text>
+                      <Text
+                        style={[
+                          styles.openedJarCountdown,
+                          isOverdue && { color: theme.colors.error },
+                        ]}
+                      >
+                        {getFinishByText(jar)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+
+            {/* Batches nearing or past their best-by date */}
+            {useSoonBatches.length > 0 && (
+              <View style={styles.filterSection}>
+                <View style={styles.sectionHeaderRow}>
+                  <Text style={styles.filterTitle}>
+                    Use Soon / Past Best-By ({useSoonBatches.length})
+                  </Text>
+                  <TouchableOpacity
+                    onPress={() =>
+                      setStatusFilter(
+                        statusFilter === "useSoon" ? "all" : "useSoon",
+                      )
+                    }
+                  >
+                    <Text style={styles.sectionHeaderAction}>
+                      {statusFilter === "useSoon" ? "Show all" : "Filter list"}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+                {useSoonBatches.map((batch) => {
+                  const isPastBestBy = getDaysUntil(batch.bestByISO!) < 0;
+
+                  return (
+                    <TouchableOpacity
+                      key={batch.batchId}
+                      style={styles.openedJarRow}
+                      onPress={() =>
+                        navigation.navigate("BatchDetail", {
+                          batchName: batch.name,
+                          itemTypeId: batch.id,
+                          fillDate: batch.fillDate,
+                          batchId: batch.batchId,
+                        })
+                      }
+                    >
+                      <Ionicons
+                        name="hourglass-outline"
+                        size={20}
+                        color={theme.colors.primary}
+                      />
+                      <Text style={styles.openedJarName}>
+                        {batch.name} ({batch.availableJars})
+                      </Text>
+                      <Text
+                        style={[
+                          styles.openedJarCountdown,
+                          isPastBestBy && { color: theme.colors.error },
+                        ]}
+                      >
+                        {getBestByText(batch.bestByISO!)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+
+            {/* Category Filter */}
+            <View style={styles.filterSection}>
+              <Text style={styles.filterTitle}>Filter by Category</Text>
+              <View style={styles.categoryButtons}>
+                <TouchableOpacity
+                  style={[
+                    styles.categoryButton,
+                    categoryFilter === "all" && styles.categoryButtonActive,
+                  ]}
+                  onPress={() => setCategoryFilter("all")}
+                >
+                  <Text style={styles.categoryIcon}>📋</Text>
+                  <Text
+                    style={[
+                      styles.categoryButtonText,
+                      categoryFilter === "all" &&
+                        styles.categoryButtonTextActive,
+                    ]}
+                  >
+                    All
+                  </Text>
+                </TouchableOpacity>
+
+                {categories.map((category) => (
+                  <TouchableOpacity
+                    key={category.id || category.name}
+                    style={[
+                      styles.categoryButton,
+                      categoryFilter === category.name &&
+                        styles.categoryButtonActive,
+                    ]}
+                    onPress={() => setCategoryFilter(category.name)}
+                  >
+                    <Text style={styles.categoryIcon}>{category.icon}</Text>
+                    <Text
+                      style={[
+                        styles.categoryButtonText,
+                        categoryFilter === category.name &&
+                          styles.categoryButtonTextActive,
+                      ]}
+                    >
+                      {category.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {/* Search Bar */}
+            <View style={styles.searchRow}>
+              <View style={styles.searchContainer}>
                 <Ionicons
-                  name="close-circle"
+                  name="search"
                   size={20}
                   color={theme.colors.textSecondary}
+                  style={styles.searchIcon}
+                />
+                <TextInput
+                  style={styles.searchInput}
+                  placeholder="Search batch names, notes, or loca..."
+                  placeholderTextColor={theme.colors.textSecondary}
+                  value={searchQuery}
+                  onChangeText={setSearchQuery}
+                  clearButtonMode="while-editing"
+                />
+                {searchQuery.length > 0 && (
+                  <TouchableOpacity
+                    style={styles.clearButton}
+                    onPress={() => setSearchQuery("")}
+                  >
+                    <Ionicons
+                      name="close-circle"
+                      size={20}
+                      color={theme.colors.textSecondary}
+                    />
+                  </TouchableOpacity>
+                )}
+              </View>
+              <TouchableOpacity
+                style={styles.sortButton}
+                onPress={() =>
+                  setSortByDate(sortByDate === "asc" ? "desc" : "asc")
+                }
+              >
+                <Ionicons
+                  name={sortByDate === "asc" ? "calendar-outline" : "calendar"}
+                  size={28}
+                  color={theme.colors.primary}
+                />
+                <Ionicons
+                  name={sortByDate === "asc" ? "arrow-up" : "arrow-down"}
+                  size={22}
+                  color={theme.colors.primary}
+                  style={styles.sortArrow}
                 />
               </TouchableOpacity>
+            </View>
+
+            {/* Batch Cards */}
+            <View style={styles.batchesSection}>
+              <Text style={styles.batchesTitle}>Batches ({batchCount})</Text>
+            </View>
+          </>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Ionicons name="cube-outline" size={48} color="#ccc" />
+            <Text style={styles.emptyText}>No batches found</Text>
+            <Text style={styles.emptySubtext}>
+              Try adjusting your filters or add a new batch
+            </Text>
+          </View>
+        }
+        ListFooterComponent={
+          <View style={styles.listFooter}>
+            {isLoadingMore && (
+              <ActivityIndicator color={theme.colors.primary} />
             )}
           </View>
-          <TouchableOpacity
-            style={styles.sortButton}
-            onPress={() => setSortByDate(sortByDate === "asc" ? "desc" : "asc")}
-          >
-            <Ionicons
-              name={sortByDate === "asc" ? "calendar-outline" : "calendar"}
-              size={28}
-              color={theme.colors.primary}
-            />
-            <Ionicons
-              name={sortByDate === "asc" ? "arrow-up" : "arrow-down"}
-              size={22}
-              color={theme.colors.primary}
-              style={styles.sortArrow}
-            />
-          </TouchableOpacity>
-        </View>
+        }
+      />
 
-        {/* Batch Cards */}
-        <View style={styles.batchesSection}>
-          <Text style={styles.batchesTitle}>
-            Batches ({filteredBatches.length})
-          </Text>
-          {filteredBatches.length > 0 ? (
-            <FlatList
-              data={filteredBatches}
-              renderItem={renderBatchCard}
-              keyExtractor={(item, index) =>
-                `${item.id}-${item.fillDate}-${index}`
-              }
-              scrollEnabled={false}
-              showsVerticalScrollIndicator={false}
-            />
-          ) : (
-            <View style={styles.emptyState}>
-              <Ionicons name="cube-outline" size={48} color="#ccc" />
-              <Text style={styles.emptyText}>No batches found</Text>
-              <Text style={styles.emptySubtext}>
-                Try adjusting your filters or add a new batch
-              </Text>
-            </View>
-          )}
-        </View>
-      </ScrollView>
+      <DashboardFilterModal
+        visible={showFilters}
+        filter={filter}
+        onApply={(draft) => {
+          setFilter(draft);
+          setShowFilters(false);
+        }}
+        onSave={handleSaveView}
+        onClose={() => setShowFilters(false)}
+      />
+
+      <PantrySwitcherModal
+        visible={showPantries}
+        onClose={() => setShowPantries(false)}
+        onSwitched={() => {
+          // Saved views belong to the pantry that was left
+          setShowPantries(false);
+          setFilter(EMPTY_DASHBOARD_FILTER);
+          loadData();
+        }}
+      />
     </SafeAreaView>
   );
 }
@@ -546,6 +1088,23 @@ const styles = StyleSheet.create({
   headerTitle: {
     ...theme.typography.headingTitle,
     paddingVertical: theme.spacing.xl,
+    flexShrink: 1,
+  },
+  pantrySwitcher: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing.xs,
+    marginRight: theme.spacing.sm,
+  },
+  headerButtons: {
+    flexDirection: "row",
+    gap: theme.spacing.sm,
+  },
+  moveButton: {
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
   },
   addButton: {
     backgroundColor: theme.colors.primary,
@@ -555,6 +1114,43 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
+  viewChips: {
+    paddingHorizontal: theme.spacing.xl,
+    paddingTop: theme.spacing.sm,
+    gap: theme.spacing.sm,
+  },
+  viewChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.round,
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+  },
+  viewChipActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  viewChipText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.primary,
+  },
+  viewChipTextActive: {
+    color: theme.colors.surface,
+  },
+  extraFilterRow: {
+    paddingHorizontal: theme.spacing.xl,
+    paddingTop: theme.spacing.sm,
+    gap: theme.spacing.sm,
+  },
+  extraFilterText: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
   statsContainer: {
     flexDirection: "row",
     paddingHorizontal: theme.spacing.xl,
@@ -612,6 +1208,38 @@ const styles = StyleSheet.create({
     color: theme.colors.text,
     marginBottom: theme.spacing.sm,
   },
+  sectionHeaderRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "baseline",
+  },
+  sectionHeaderAction: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.primary,
+  },
+  openedJarRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing.sm,
+    backgroundColor: theme.colors.surface,
+    paddingVertical: theme.spacing.md,
+    paddingHorizontal: theme.spacing.lg,
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    marginBottom: theme.spacing.sm,
+  },
+  openedJarName: {
+    flex: 1,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  openedJarCountdown: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.warning,
+  },
   categoryButtons: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -645,6 +1273,8 @@ const styles = StyleSheet.create({
   },
   batchesSection: {
     paddingHorizontal: theme.spacing.xl,
+  },
+  listFooter: {
     paddingBottom: theme.spacing.xl,
   },
   batchesTitle: {
@@ -663,6 +1293,7 @@ const styles = StyleSheet.create({
     marginTop: -1,
   },
   batchCard: {
+    marginHorizontal: theme.spacing.xl,
     backgroundColor: theme.colors.surface,
     borderRadius: theme.borderRadius.lg,
     padding: theme.spacing.lg,
@@ -690,6 +1321,19 @@ const styles = StyleSheet.create({
     zIndex: 1,
     gap: theme.spacing.xs,
   },
+  useSoonBadge: {
+    position: "absolute",
+    bottom: theme.spacing.xs,
+    left: theme.spacing.xs,
+    backgroundColor: theme.colors.warning,
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: theme.borderRadius.md,
+    zIndex: 1,
+    gap: theme.spacing.xs,
+  },
   lowStockBadgeText: {
     color: "#fff",
     fontSize: theme.fontSize.xs,
@@ -701,12 +1345,25 @@ const styles = StyleSheet.create({
     alignItems: "flex-start",
     marginBottom: theme.spacing.md,
   },
+  batchNameColumn: {
+    flex: 1,
+    marginRight: theme.spacing.md,
+  },
+  nextToUseTag: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: theme.spacing.xs,
+    marginTop: theme.spacing.xs,
+  },
+  nextToUseTagText: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.primary,
+  },
   batchName: {
     fontSize: theme.fontSize.lg,
     fontWeight: theme.fontWeight.semibold,
     color: theme.colors.text,
-    flex: 1,
-    marginRight: theme.spacing.md,
   },
   categoryChip: {
     paddingHorizontal: theme.spacing.sm,
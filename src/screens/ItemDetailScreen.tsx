@@ -15,6 +15,7 @@ import {
   getJarsForItemType,
   markJarUsed,
   formatDateStringWithUserPreference,
+  JAR_STATUS_LABELS,
 } from "../db";
 
 type Route = RouteProp<RootStackParamList, "ItemDetail">;
@@ -107,7 +108,10 @@ export default function ItemDetailScreen() {
               {batchJars.map((item: any) => (
                 <View key={item.id} style={styles.row}>
                   <Text style={styles.jarText}>
-                    Jar #{item.id} {item.used ? "(used)" : ""}
+                    Jar #{item.id}{" "}
+                    {item.status !== "available"
+                      ? `(${JAR_STATUS_LABELS[item.status].toLowerCase()})`
+                      : ""}
                   </Text>
                   <View style={{ flexDirection: "row", gap: 8 }}>
                     <TouchableOpacity
@@ -118,7 +122,7 @@ export default function ItemDetailScreen() {
                     >
                       <Text style={styles.btnText}>Label</Text>
                     </TouchableOpacity>
-                    {!item.used && (
+                    {item.status === "available" && (
                       <TouchableOpacity
                         style={styles.btn}
                         onPress={async () => {
@@ -0,0 +1,493 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  Alert,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ScrollView,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  getAllLocations,
+  addLocation,
+  updateLocation,
+  deleteLocation,
+  mergeLocation,
+  LOCATION_SEPARATOR,
+  type StorageLocation,
+} from "../db";
+import { theme } from "../theme";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+interface EditLocationModalProps {
+  visible: boolean;
+  location: StorageLocation | null;
+  // Parent for a new location, when added from inside another one
+  defaultParentId: number | null;
+  locations: StorageLocation[];
+  onSave: (location: { name: string; parentId: number | null }) => void;
+  onCancel: () => void;
+}
+
+const EditLocationModal: React.FC<EditLocationModalProps> = ({
+  visible,
+  location,
+  defaultParentId,
+  locations,
+  onSave,
+  onCancel,
+}) => {
+  const [name, setName] = useState("");
+  const [parentId, setParentId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (location) {
+      setName(location.name);
+      setParentId(location.parentId);
+    } else {
+      setName("");
+      setParentId(defaultParentId);
+    }
+  }, [location, defaultParentId, visible]);
+
+  const handleSave = () => {
+    if (name.trim()) {
+      onSave({ name: name.trim(), parentId });
+    }
+  };
+
+  // A location can't be moved inside itself or one of its own places
+  const parentOptions = location
+    ? locations.filter(
+        (l) =>
+          l.path !== location.path &&
+          !l.path.startsWith(location.path + LOCATION_SEPARATOR),
+      )
+    : locations;
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContainer}>
+          <Text style={styles.modalTitle}>
+            {location ? "Edit Location" : "Add Location"}
+          </Text>
+
+          <Text style={styles.label}>Name:</Text>
+          <TextInput
+            style={styles.textInput}
+            value={name}
+            onChangeText={setName}
+            placeholder="Enter location (e.g., Basement, Shelf 2, Bin A)"
+            autoFocus
+          />
+
+          <Text style={styles.label}>Inside:</Text>
+          <ScrollView style={styles.parentList}>
+            <TouchableOpacity
+              style={styles.parentOption}
+              onPress={() => setParentId(null)}
+            >
+              <Text style={styles.parentOptionText}>Nothing (top level)</Text>
+              {parentId === null && (
+                <Ionicons
+                  name="checkmark"
+                  size={18}
+                  color={theme.colors.primary}
+                />
+              )}
+            </TouchableOpacity>
+            {parentOptions.map((option) => (
+              <TouchableOpacity
+                key={option.id}
+                style={[
+                  styles.parentOption,
+                  { paddingLeft: 12 + option.depth * 16 },
+                ]}
+                onPress={() => setParentId(option.id!)}
+              >
+                <Text style={styles.parentOptionText}>{option.name}</Text>
+                {parentId === option.id && (
+                  <Ionicons
+                    name="checkmark"
+                    size={18}
+                    color={theme.colors.primary}
+                  />
+                )}
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <View style={styles.modalButtons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default function LocationManagementScreen() {
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingLocation, setEditingLocation] =
+    useState<StorageLocation | null>(null);
+  const [newParentId, setNewParentId] = useState<number | null>(null);
+
+  const loadLocations = async () => {
+    try {
+      setLocations(await getAllLocations());
+    } catch (error) {
+      console.error("Error loading locations:", error);
+      Alert.alert("Error", "Failed to load locations");
+    }
+  };
+
+  useEffect(() => {
+    loadLocations();
+  }, []);
+
+  const handleAddLocation = (parentId: number | null = null) => {
+    setEditingLocation(null);
+    setNewParentId(parentId);
+    setModalVisible(true);
+  };
+
+  const handleEditLocation = (location: StorageLocation) => {
+    setEditingLocation(location);
+    setModalVisible(true);
+  };
+
+  const handleSaveLocation = async (locationData: {
+    name: string;
+    parentId: number | null;
+  }) => {
+    // Renaming a place to match one next to it merges the two
+    const duplicate =
+      editingLocation &&
+      locations.find(
+        (l) =>
+          l.id !== editingLocation.id &&
+          l.parentId === locationData.parentId &&
+          l.name.toLowerCase() === locationData.name.toLowerCase()
+      );
+    if (duplicate) {
+      Alert.alert(
+        "Merge Locations",
+        `"${duplicate.path}" already exists. Move everything in "${editingLocation.path}" there?`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Merge",
+            onPress: async () => {
+              try {
+                await mergeLocation(editingLocation.id!, duplicate.id!);
+                setModalVisible(false);
+                setEditingLocation(null);
+                await loadLocations();
+              } catch (error) {
+                console.error("Error merging locations:", error);
+                Alert.alert("Error", error.message);
+              }
+            },
+          },
+        ]
+      );
+      return;
+    }
+
+    try {
+      if (editingLocation) {
+        await updateLocation(
+          editingLocation.id!,
+          locationData.name,
+          locationData.parentId
+        );
+      } else {
+        await addLocation(locationData.name, locationData.parentId);
+      }
+      setModalVisible(false);
+      setEditingLocation(null);
+      await loadLocations();
+    } catch (error) {
+      console.error("Error saving location:", error);
+      Alert.alert("Error", error.message);
+    }
+  };
+
+  const handleDeleteLocation = (location: StorageLocation) => {
+    const hasChildren = locations.some((l) => l.parentId === location.id);
+    Alert.alert(
+      "Delete Location",
+      `Are you sure you want to delete "${location.path}"${
+        hasChildren ? " and the places inside it" : ""
+      }? This action cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteLocation(location.id!);
+              await loadLocations();
+            } catch (error) {
+              console.error("Error deleting location:", error);
+              Alert.alert(
+                "Error",
+                `Failed to delete location. ${error.message}`
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderLocationItem = ({ item }: { item: StorageLocation }) => (
+    <View style={[styles.locationItem, { marginLeft: item.depth * 16 }]}>
+      <View style={styles.locationInfo}>
+        <Ionicons
+          name={item.depth === 0 ? "home-outline" : "return-down-forward"}
+          size={18}
+          color="#666"
+        />
+        <Text style={styles.locationName}>{item.name}</Text>
+        {!!item.jarCount && (
+          <Text style={styles.countLabel}>
+            {item.jarCount} jar{item.jarCount !== 1 ? "s" : ""}
+          </Text>
+        )}
+      </View>
+      <View style={styles.locationActions}>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => handleAddLocation(item.id!)}
+          accessibilityLabel={`Add a location inside ${item.name}`}
+        >
+          <Ionicons name="add" size={20} color="#666" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => handleEditLocation(item)}
+        >
+          <Ionicons name="pencil" size={20} color="#666" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => handleDeleteLocation(item)}
+        >
+          <Ionicons name="trash" size={20} color="#ff4444" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom", "left", "right"]}>
+      <FlatList
+        data={locations}
+        keyExtractor={(item) => item.id!.toString()}
+        renderItem={renderLocationItem}
+        contentContainerStyle={styles.listContainer}
+        ListHeaderComponent={
+          <View style={styles.headerButton}>
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => handleAddLocation()}
+            >
+              <Text style={styles.buttonText}>Add Location</Text>
+            </TouchableOpacity>
+          </View>
+        }
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            No locations yet. Add rooms first, then the shelves and bins inside
+            them.
+          </Text>
+        }
+      />
+
+      <EditLocationModal
+        visible={modalVisible}
+        location={editingLocation}
+        defaultParentId={newParentId}
+        locations={locations}
+        onSave={handleSaveLocation}
+        onCancel={() => {
+          setModalVisible(false);
+          setEditingLocation(null);
+        }}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  headerButton: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    marginBottom: 16,
+    marginTop: 0,
+  },
+  addButton: {
+    backgroundColor: theme.colors.primary,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 16,
+  },
+  buttonText: {
+    color: "white",
+    fontSize: 18,
+    fontWeight: "500",
+  },
+  listContainer: {
+    padding: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#666",
+    textAlign: "center",
+    marginTop: 16,
+  },
+  locationItem: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    backgroundColor: "white",
+    padding: 16,
+    marginBottom: 8,
+    borderRadius: 8,
+    elevation: 1,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 2,
+  },
+  locationInfo: {
+    flexDirection: "row",
+    alignItems: "center",
+    flex: 1,
+    gap: 8,
+  },
+  locationName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: theme.colors.text,
+    flexShrink: 1,
+  },
+  countLabel: {
+    fontSize: 12,
+    color: "#666",
+    backgroundColor: "#f0f0f0",
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  locationActions: {
+    flexDirection: "row",
+  },
+  actionButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  modalContainer: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 20,
+    width: "90%",
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    marginBottom: 20,
+    textAlign: "center",
+    color: theme.colors.text,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "500",
+    marginBottom: 8,
+    color: theme.colors.text,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+    fontSize: 16,
+  },
+  parentList: {
+    maxHeight: 200,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    marginBottom: 20,
+  },
+  parentOption: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "#ddd",
+  },
+  parentOptionText: {
+    fontSize: 16,
+    color: theme.colors.text,
+  },
+  modalButtons: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 12,
+    marginRight: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    alignItems: "center",
+  },
+  cancelButtonText: {
+    color: "#666",
+    fontSize: 16,
+  },
+  saveButton: {
+    flex: 1,
+    padding: 12,
+    marginLeft: 8,
+    borderRadius: 8,
+    backgroundColor: theme.colors.primary,
+    alignItems: "center",
+  },
+  saveButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "500",
+  },
+});
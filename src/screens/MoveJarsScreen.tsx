@@ -0,0 +1,455 @@
+import React, { useCallback, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  SectionList,
+  StyleSheet,
+  Alert,
+  TouchableOpacity,
+} from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { Ionicons } from "@expo/vector-icons";
+import { CameraView, Camera } from "expo-camera";
+import {
+  getShelvedJars,
+  getCurrentPantry,
+  moveJars,
+  parseJarQrData,
+  getDateFormat,
+  formatDateString,
+  type DateFormat,
+  type JarMove,
+  type ShelvedJar,
+} from "../db";
+import { theme } from "../theme";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useUndo } from "../contexts/UndoContext";
+import { LocationPicker } from "../components/LocationPicker";
+
+type BatchSection = {
+  batchId: string;
+  name: string;
+  fillDateISO: string;
+  data: ShelvedJar[];
+};
+
+const groupByBatch = (jars: ShelvedJar[]): BatchSection[] => {
+  const sections: BatchSection[] = [];
+  for (const jar of jars) {
+    const section = sections.find((s) => s.batchId === jar.batchId);
+    if (section) {
+      section.data.push(jar);
+    } else {
+      sections.push({
+        batchId: jar.batchId,
+        name: jar.name,
+        fillDateISO: jar.fillDateISO,
+        data: [jar],
+      });
+    }
+  }
+  return sections;
+};
+
+const describeLocation = (location: string | null) =>
+  location || "No location";
+
+// One line per destination, e.g. "3 jars to Basement > Shelf 2"
+const summarizeMoves = (moves: JarMove[]) => {
+  const counts = new Map<string | null, number>();
+  for (const move of moves) {
+    counts.set(move.location, (counts.get(move.location) ?? 0) + 1);
+  }
+  return Array.from(counts)
+    .map(
+      ([location, count]) =>
+        `${count} jar${count !== 1 ? "s" : ""} to ${describeLocation(
+          location
+        )}`
+    )
+    .join("\n");
+};
+
+export default function MoveJarsScreen() {
+  const [jars, setJars] = useState<ShelvedJar[]>([]);
+  const [dateFormat, setDateFormatState] = useState<DateFormat>("MM/DD/YYYY");
+  const [destination, setDestination] = useState("");
+  // Each picked jar keeps the destination that was chosen when it was picked
+  const [staged, setStaged] = useState<Record<number, string>>({});
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanMessage, setScanMessage] = useState("");
+  const lastScannedId = useRef<number | null>(null);
+  const pantryId = useRef<number | null>(null);
+  const { showUndo } = useUndo();
+
+  const loadJars = async () => {
+    try {
+      const [jarsData, format, pantry] = await Promise.all([
+        getShelvedJars(),
+        getDateFormat(),
+        getCurrentPantry(),
+      ]);
+      setJars(jarsData);
+      setDateFormatState(format);
+      pantryId.current = pantry.id;
+    } catch (error) {
+      console.error("Error loading jars:", error);
+      Alert.alert("Error", "Failed to load jars");
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadJars();
+    }, [])
+  );
+
+  const toggleJar = (jarId: number) => {
+    setStaged((prev) => {
+      const next = { ...prev };
+      if (jarId in next) {
+        delete next[jarId];
+      } else {
+        next[jarId] = destination;
+      }
+      return next;
+    });
+  };
+
+  const toggleBatch = (section: BatchSection) => {
+    const allStaged = section.data.every((jar) => jar.jarId in staged);
+    setStaged((prev) => {
+      const next = { ...prev };
+      for (const jar of section.data) {
+        if (allStaged) {
+          delete next[jar.jarId];
+        } else {
+          next[jar.jarId] = destination;
+        }
+      }
+      return next;
+    });
+  };
+
+  const startScanning = async () => {
+    const { status } = await Camera.requestCameraPermissionsAsync();
+    if (status !== "granted") {
+      Alert.alert("No Camera Access", "Allow camera access to scan labels.");
+      return;
+    }
+    lastScannedId.current = null;
+    setScanMessage("Scan each jar's label");
+    setIsScanning(true);
+  };
+
+  const handleBarCodeScanned = ({ data }: { data: string }) => {
+    const label = parseJarQrData(data);
+    // The camera reports the same label many times while it is in view
+    if (label === null || label.jarId === lastScannedId.current) return;
+    const { jarId } = label;
+    lastScannedId.current = jarId;
+
+    if (label.pantryId !== null && label.pantryId !== pantryId.current) {
+      setScanMessage(`Jar ${jarId} belongs to another pantry`);
+      return;
+    }
+
+    const jar = jars.find((j) => j.jarId === jarId);
+    if (!jar) {
+      setScanMessage(`Jar ${jarId} is not on the shelf`);
+      return;
+    }
+    setStaged((prev) => ({ ...prev, [jarId]: destination }));
+    setScanMessage(
+      `${jar.name} jar ${jarId} → ${describeLocation(destination)}`
+    );
+  };
+
+  const handleMove = async () => {
+    const moves: JarMove[] = Object.entries(staged).map(
+      ([jarId, location]) => ({
+        jarId: Number(jarId),
+        location: location || null,
+      })
+    );
+
+    try {
+      const previous = await moveJars(moves);
+      const movedIds = new Set(previous.map((jar) => jar.jarId));
+      const moved = moves.filter((move) => movedIds.has(move.jarId));
+      const unchanged = moves.length - moved.length;
+
+      Alert.alert(
+        moved.length > 0 ? "Jars Moved" : "Nothing Moved",
+        [
+          summarizeMoves(moved),
+          unchanged > 0
+            ? `${unchanged} jar${unchanged !== 1 ? "s were" : " was"} already there`
+            : "",
+        ]
+          .filter(Boolean)
+          .join("\n\n")
+      );
+      if (moved.length > 0) {
+        showUndo(
+          `Moved ${moved.length} jar${moved.length !== 1 ? "s" : ""}`,
+          async () => {
+            await moveJars(previous);
+            await loadJars();
+          }
+        );
+      }
+
+      setStaged({});
+      setIsScanning(false);
+      await loadJars();
+    } catch (error) {
+      console.error("Error moving jars:", error);
+      Alert.alert("Error", "Failed to move jars");
+    }
+  };
+
+  const stagedCount = Object.keys(staged).length;
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom", "left", "right"]}>
+      <View style={styles.destinationSection}>
+        <Text style={styles.label}>Move to</Text>
+        <View style={styles.destinationRow}>
+          <LocationPicker
+            style={styles.destinationPicker}
+            value={destination}
+            onChange={setDestination}
+          />
+          <TouchableOpacity
+            style={[styles.scanButton, isScanning && styles.scanButtonActive]}
+            onPress={() => (isScanning ? setIsScanning(false) : startScanning())}
+            accessibilityLabel={isScanning ? "Stop scanning" : "Scan labels"}
+          >
+            <Ionicons
+              name={isScanning ? "close" : "qr-code-outline"}
+              size={22}
+              color={isScanning ? "white" : theme.colors.primary}
+            />
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.helperText}>
+          Pick jars below or scan their labels. Change the destination at any
+          time; jars already picked keep theirs.
+        </Text>
+      </View>
+
+      {isScanning && (
+        <View style={styles.cameraContainer}>
+          <CameraView
+            style={StyleSheet.absoluteFillObject}
+            barcodeScannerSettings={{ barcodeTypes: ["qr"] }}
+            onBarcodeScanned={handleBarCodeScanned}
+          />
+          <Text style={styles.scanMessage}>{scanMessage}</Text>
+        </View>
+      )}
+
+      <SectionList
+        sections={groupByBatch(jars)}
+        keyExtractor={(item) => item.jarId.toString()}
+        contentContainerStyle={styles.listContainer}
+        stickySectionHeadersEnabled={false}
+        renderSectionHeader={({ section }) => (
+          <TouchableOpacity
+            style={styles.sectionHeader}
+            onPress={() => toggleBatch(section)}
+          >
+            <Text style={styles.sectionTitle}>
+              {section.name} ·{" "}
+              {formatDateString(section.fillDateISO, dateFormat)}
+            </Text>
+            <Text style={styles.sectionAction}>
+              {section.data.every((jar) => jar.jarId in staged)
+                ? "Clear"
+                : "Pick all"}
+            </Text>
+          </TouchableOpacity>
+        )}
+        renderItem={({ item }) => {
+          const isStaged = item.jarId in staged;
+          return (
+            <TouchableOpacity
+              style={[styles.jarRow, isStaged && styles.jarRowStaged]}
+              onPress={() => toggleJar(item.jarId)}
+              accessibilityRole="checkbox"
+              accessibilityState={{ checked: isStaged }}
+            >
+              <Ionicons
+                name={isStaged ? "checkbox" : "square-outline"}
+                size={22}
+                color={isStaged ? theme.colors.primary : "#999"}
+              />
+              <View style={styles.jarInfo}>
+                <Text style={styles.jarName}>
+                  Jar {item.jarId}
+                  {item.status === "opened" ? " (opened)" : ""}
+                </Text>
+                <Text style={styles.jarLocation}>
+                  {describeLocation(item.location)}
+                  {isStaged
+                    ? ` → ${describeLocation(staged[item.jarId] || null)}`
+                    : ""}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          );
+        }}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>No jars on the shelf to move.</Text>
+        }
+      />
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.moveButton, stagedCount === 0 && { opacity: 0.5 }]}
+          onPress={handleMove}
+          disabled={stagedCount === 0}
+        >
+          <Text style={styles.moveButtonText}>
+            Move {stagedCount} Jar{stagedCount !== 1 ? "s" : ""}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  destinationSection: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e0e0e0",
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "500",
+    marginBottom: 8,
+    color: theme.colors.text,
+  },
+  destinationRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  destinationPicker: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+    borderRadius: 8,
+    padding: 12,
+    backgroundColor: "white",
+  },
+  scanButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "white",
+  },
+  scanButtonActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  helperText: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 8,
+  },
+  cameraContainer: {
+    height: 220,
+    justifyContent: "flex-end",
+    alignItems: "center",
+    overflow: "hidden",
+  },
+  scanMessage: {
+    backgroundColor: "rgba(0,0,0,0.6)",
+    color: "white",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  listContainer: {
+    padding: 16,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: theme.colors.text,
+    flexShrink: 1,
+  },
+  sectionAction: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: theme.colors.primary,
+    marginLeft: 8,
+  },
+  jarRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "transparent",
+    gap: 12,
+  },
+  jarRowStaged: {
+    borderColor: theme.colors.primary,
+  },
+  jarInfo: {
+    flex: 1,
+  },
+  jarName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: theme.colors.text,
+  },
+  jarLocation: {
+    fontSize: 14,
+    color: "#666",
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#666",
+    textAlign: "center",
+    marginTop: 16,
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: "#e0e0e0",
+  },
+  moveButton: {
+    backgroundColor: theme.colors.primary,
+    padding: 14,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  moveButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
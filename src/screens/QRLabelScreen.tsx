@@ -10,7 +10,13 @@ import {
 import QRCode from "react-native-qrcode-svg";
 import { RouteProp } from "@react-navigation/native";
 import type { RootStackParamList } from "../App";
-import { buildJarQrData, getDb, formatDateWithUserPreference } from "../db";
+import {
+  buildJarQrData,
+  getCurrentPantry,
+  getDb,
+  formatDateWithUserPreference,
+  recordJarsLabelled,
+} from "../db";
 import * as Print from "expo-print";
 import * as Sharing from "expo-sharing";
 import QRCodeGenerator from "qrcode-generator";
@@ -126,6 +132,7 @@ export default function QRLabelScreen({
 
     // Get formatted current date once for all labels
     const formattedDate = await formatDateWithUserPreference(new Date());
+    const pantry = await getCurrentPantry();
 
     // Process jars in groups of 24 (4x6 grid)
     for (let i = 0; i < jarIds.length; i += 24) {
@@ -138,7 +145,7 @@ export default function QRLabelScreen({
         const currentJarId = sheetJars[j];
         if (currentJarId) {
           // Generate QR code data
-          const qrData = buildJarQrData(currentJarId);
+          const qrData = buildJarQrData(currentJarId, pantry.id);
 
           try {
             // Generate QR code as data URL
@@ -333,6 +340,8 @@ export default function QRLabelScreen({
         dialogTitle: `${name} Labels`,
         UTI: "com.adobe.pdf",
       });
+
+      await recordJarsLabelled(allJarIds);
     } catch (error) {
       console.error("Error generating PDF:", error);
       Alert.alert("Error", "Failed to generate PDF. Please try again.");
@@ -1,13 +1,32 @@
 import React from "react";
 import { View, Text, StyleSheet, Alert } from "react-native";
 import { CameraView, Camera } from "expo-camera";
-import { markJarUsed, parseJarQrData, getJarById } from "../db";
+import {
+  setJarStatus,
+  revertJarStatus,
+  parseJarQrData,
+  getJarById,
+  getOlderAvailableJar,
+  getCurrentPantry,
+  getPantries,
+  switchPantry,
+  formatDateStringWithUserPreference,
+  JAR_STATUS_LABELS,
+  type Jar,
+} from "../db";
+import { useUndo } from "../contexts/UndoContext";
+import {
+  JarStatusModal,
+  type JarStatusChoice,
+} from "../components/JarStatusModal";
 
 export default function QRScannerScreen() {
   const [hasPermission, setHasPermission] = React.useState<boolean | null>(
     null
   );
   const [scanned, setScanned] = React.useState(false);
+  const [statusJar, setStatusJar] = React.useState<Jar | null>(null);
+  const { showUndo } = useUndo();
 
   React.useEffect(() => {
     (async () => {
@@ -20,13 +39,83 @@ export default function QRScannerScreen() {
     if (scanned) return;
     setScanned(true);
 
-    const jarId = parseJarQrData(data);
-    if (!jarId) {
+    const label = parseJarQrData(data);
+    if (!label) {
       Alert.alert("Invalid QR Code", "This QR code is not a pantry jar label.");
       setTimeout(() => setScanned(false), 2000);
       return;
     }
 
+    // The same jar id is a different jar in another pantry
+    if (label.pantryId !== null) {
+      try {
+        const current = await getCurrentPantry();
+        if (label.pantryId !== current.id) {
+          await offerPantrySwitch(label.pantryId, label.jarId);
+          return;
+        }
+      } catch (error) {
+        console.error("Error checking the label's pantry:", error);
+        Alert.alert("Error", "Failed to check which pantry this jar is in.", [
+          {
+            text: "OK",
+            onPress: () => setTimeout(() => setScanned(false), 500),
+          },
+        ]);
+        return;
+      }
+    }
+
+    await handleJar(label.jarId);
+  };
+
+  const offerPantrySwitch = async (pantryId: number, jarId: number) => {
+    const pantry = (await getPantries()).find((p) => p.id === pantryId);
+    if (!pantry) {
+      Alert.alert(
+        "Unknown Pantry",
+        "This label belongs to a pantry that no longer exists.",
+        [
+          {
+            text: "OK",
+            onPress: () => setTimeout(() => setScanned(false), 500),
+          },
+        ]
+      );
+      return;
+    }
+    Alert.alert(
+      "Jar From Another Pantry",
+      `This jar belongs to ${pantry.name}. Switch to that pantry to record it?`,
+      [
+        {
+          text: "Cancel",
+          style: "cancel",
+          onPress: () => setTimeout(() => setScanned(false), 500),
+        },
+        {
+          text: "Switch",
+          onPress: async () => {
+            try {
+              await switchPantry(pantryId);
+            } catch (error) {
+              console.error("Error switching pantry:", error);
+              Alert.alert("Error", "Failed to open this pantry", [
+                {
+                  text: "OK",
+                  onPress: () => setTimeout(() => setScanned(false), 500),
+                },
+              ]);
+              return;
+            }
+            await handleJar(jarId);
+          },
+        },
+      ]
+    );
+  };
+
+  const handleJar = async (jarId: number) => {
     try {
       // Get jar details first
       const jar = await getJarById(jarId);
@@ -39,11 +128,13 @@ export default function QRScannerScreen() {
         return;
       }
 
-      // Check if already used
-      if (jar.used) {
+      // Check if the jar is still on the shelf or in the fridge
+      if (jar.status !== "available" && jar.status !== "opened") {
         Alert.alert(
-          "Already Used",
-          `This jar (ID: ${jarId}) has already been marked as used.`,
+          "Already Marked",
+          `This jar (ID: ${jarId}) has already been marked as ${JAR_STATUS_LABELS[
+            jar.status
+          ].toLowerCase()}.`,
           [
             {
               text: "OK",
@@ -54,46 +145,39 @@ export default function QRScannerScreen() {
         return;
       }
 
-      // Show confirmation dialog with delay
-      setTimeout(() => {
+      // First in, first out: point at an older sealed jar of the same item
+      const olderJar =
+        jar.status === "available" ? await getOlderAvailableJar(jarId) : null;
+      if (olderJar) {
+        const olderDate = await formatDateStringWithUserPreference(
+          olderJar.fillDateISO
+        );
+        const otherCount = olderJar.olderCount - 1;
         Alert.alert(
-          "Mark Jar as Used",
-          `Are you sure you want to mark jar ${jarId} as used?\n\nThis action cannot be undone.`,
+          "Older Jar Available",
+          `Jar ${olderJar.jarId} was filled earlier (${olderDate}) and is ${
+            olderJar.location ? `in ${olderJar.location}` : "still on the shelf"
+          }.${
+            otherCount > 0
+              ? ` ${otherCount} other older jar${
+                  otherCount !== 1 ? "s are" : " is"
+                } also available.`
+              : ""
+          }`,
           [
             {
               text: "Cancel",
               style: "cancel",
               onPress: () => setTimeout(() => setScanned(false), 500),
             },
-            {
-              text: "Mark Used",
-              style: "destructive",
-              onPress: async () => {
-                const result = await markJarUsed(jarId);
-                if (result.success) {
-                  Alert.alert(
-                    "Success",
-                    `Jar ${jarId} has been marked as used.`,
-                    [
-                      {
-                        text: "OK",
-                        onPress: () => setTimeout(() => setScanned(false), 500),
-                      },
-                    ]
-                  );
-                } else {
-                  Alert.alert("Error", result.message, [
-                    {
-                      text: "OK",
-                      onPress: () => setTimeout(() => setScanned(false), 500),
-                    },
-                  ]);
-                }
-              },
-            },
+            { text: "Use This One", onPress: () => setStatusJar(jar) },
           ]
         );
-      }, 1000); // 1 second delay before showing confirmation
+        return;
+      }
+
+      // Ask what happened to the jar after a short delay
+      setTimeout(() => setStatusJar(jar), 1000);
     } catch (error) {
       console.error("Error processing scanned jar:", error);
       Alert.alert(
@@ -109,6 +193,56 @@ export default function QRScannerScreen() {
     }
   };
 
+  const handleCancelStatus = () => {
+    setStatusJar(null);
+    setTimeout(() => setScanned(false), 500);
+  };
+
+  const handleSetStatus = async (
+    status: JarStatusChoice,
+    reason: string,
+    dateISO: string,
+    returnEmptyJar: boolean
+  ) => {
+    if (!statusJar) return;
+    const jarId = statusJar.id!;
+    setStatusJar(null);
+
+    try {
+      const result = await setJarStatus(
+        jarId,
+        status,
+        reason,
+        dateISO,
+        returnEmptyJar
+      );
+      if (result.success) {
+        showUndo(
+          `Jar ${jarId} has been marked as ${JAR_STATUS_LABELS[
+            status
+          ].toLowerCase()}.`,
+          () => revertJarStatus(jarId, returnEmptyJar)
+        );
+        setTimeout(() => setScanned(false), 2000);
+      } else {
+        Alert.alert("Error", result.message, [
+          {
+            text: "OK",
+            onPress: () => setTimeout(() => setScanned(false), 500),
+          },
+        ]);
+      }
+    } catch (error) {
+      console.error("Error updating jar status:", error);
+      Alert.alert("Error", `Failed to update jar status: ${error.message}`, [
+        {
+          text: "OK",
+          onPress: () => setTimeout(() => setScanned(false), 500),
+        },
+      ]);
+    }
+  };
+
   if (hasPermission === null) {
     return (
       <View style={styles.center}>
@@ -136,6 +270,14 @@ export default function QRScannerScreen() {
       <View style={styles.overlay}>
         <Text style={styles.overlayText}>Scan a jar label</Text>
       </View>
+      <JarStatusModal
+        visible={statusJar !== null}
+        title={`Jar ${statusJar?.id}`}
+        canOpen={statusJar?.status === "available"}
+        jarSize={statusJar?.jarSize}
+        onCancel={handleCancelStatus}
+        onConfirm={handleSetStatus}
+      />
     </View>
   );
 }
@@ -12,6 +12,7 @@ import {
   ScrollView,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { RouteProp, useRoute } from "@react-navigation/native";
 import { Ionicons } from "@expo/vector-icons";
 import * as ImagePicker from "expo-image-picker";
 import * as FileSystem from "expo-file-system/legacy";
@@ -22,9 +23,33 @@ import {
   createRecipe,
   updateRecipe,
   deleteRecipe,
+  getAllJarSizes,
+  getRecipeYield,
+  type CustomJarSize,
+  type RecipeYield,
+  type RecipeYieldBatch,
 } from "../db";
+import type { RootStackParamList } from "../App";
+
+type Route = RouteProp<RootStackParamList, "RecipeManagement">;
+
+// "6 jars" or "6.5 jars", with the jar size when there is one
+const formatYield = (jarCount: number, jarSize?: string | null) => {
+  const count = Number(jarCount.toFixed(1));
+  const jars = `${count} jar${count === 1 ? "" : "s"}`;
+  return jarSize ? `${jars} · ${jarSize}` : jars;
+};
+
+// How far a batch came out from the expected yield: "+1", "-0.5" or "as expected"
+const formatYieldDifference = (batch: RecipeYieldBatch, expected: number) => {
+  const difference = Number((batch.expectedSizeCount! - expected).toFixed(1));
+  if (difference === 0) return "as expected";
+  return difference > 0 ? `+${difference}` : `${difference}`;
+};
 
 export default function RecipeManagementScreen() {
+  const route = useRoute<Route>();
+  const recipeId = route.params?.recipeId;
   const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [showModal, setShowModal] = useState(false);
   const [showDetailModal, setShowDetailModal] = useState(false);
@@ -33,10 +58,26 @@ export default function RecipeManagementScreen() {
   const [recipeName, setRecipeName] = useState("");
   const [recipeContent, setRecipeContent] = useState("");
   const [recipeImage, setRecipeImage] = useState<string | null>(null);
+  const [expectedJarCount, setExpectedJarCount] = useState("");
+  const [expectedJarSize, setExpectedJarSize] = useState<string | null>(null);
+  const [jarSizes, setJarSizes] = useState<CustomJarSize[]>([]);
+  const [recipeYield, setRecipeYield] = useState<RecipeYield | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
 
   useEffect(() => {
-    loadRecipes();
+    loadRecipes().then((allRecipes) => {
+      // Opened from search: show that recipe straight away
+      const linked = allRecipes?.find((recipe) => recipe.id === recipeId);
+      if (linked) {
+        openDetailModal(linked);
+      }
+    });
+  }, [recipeId]);
+
+  useEffect(() => {
+    getAllJarSizes()
+      .then(setJarSizes)
+      .catch((error) => console.error("Error loading jar sizes:", error));
   }, []);
 
   const loadRecipes = async () => {
@@ -55,6 +96,7 @@ export default function RecipeManagementScreen() {
       //   }))
       // );
       setRecipes(allRecipes);
+      return allRecipes;
     } catch (error) {
       console.error("Error loading recipes:", error);
       Alert.alert("Error", "Failed to load recipes");
@@ -72,6 +114,8 @@ export default function RecipeManagementScreen() {
     setRecipeName(recipe?.name || "");
     setRecipeContent(recipe?.content || "");
     setRecipeImage(recipe?.image || null);
+    setExpectedJarCount(recipe?.expectedJarCount?.toString() ?? "");
+    setExpectedJarSize(recipe?.expectedJarSize ?? null);
     setShowModal(true);
   };
 
@@ -81,16 +125,23 @@ export default function RecipeManagementScreen() {
     setRecipeName("");
     setRecipeContent("");
     setRecipeImage(null);
+    setExpectedJarCount("");
+    setExpectedJarSize(null);
   };
 
   const openDetailModal = (recipe: Recipe) => {
     setDetailRecipe(recipe);
+    setRecipeYield(null);
     setShowDetailModal(true);
+    getRecipeYield(recipe.id!)
+      .then(setRecipeYield)
+      .catch((error) => console.error("Error loading recipe yield:", error));
   };
 
   const closeDetailModal = () => {
     setShowDetailModal(false);
     setDetailRecipe(null);
+    setRecipeYield(null);
   };
 
   const saveRecipe = async () => {
@@ -102,19 +153,30 @@ export default function RecipeManagementScreen() {
       Alert.alert("Error", "Please enter recipe content");
       return;
     }
+    const jarCount = expectedJarCount.trim();
+    if (jarCount && !(/^\d+$/.test(jarCount) && Number(jarCount) > 0)) {
+      Alert.alert("Error", "Please enter the expected jars as a whole number");
+      return;
+    }
 
+    const expectedYield = {
+      expectedJarCount: jarCount ? Number(jarCount) : null,
+      expectedJarSize,
+    };
     try {
       if (editingRecipe) {
         await updateRecipe(editingRecipe.id!, {
           name: recipeName.trim(),
           content: recipeContent.trim(),
           image: recipeImage,
+          ...expectedYield,
         });
       } else {
         await createRecipe({
           name: recipeName.trim(),
           content: recipeContent.trim(),
           image: recipeImage,
+          ...expectedYield,
         });
       }
       closeModal();
@@ -264,6 +326,11 @@ export default function RecipeManagementScreen() {
       <Text style={styles.recipeContent} numberOfLines={3}>
         {item.content}
       </Text>
+      {item.expectedJarCount && (
+        <Text style={styles.lastUsed}>
+          Makes {formatYield(item.expectedJarCount, item.expectedJarSize)}
+        </Text>
+      )}
       {item.last_used_date && (
         <Text style={styles.lastUsed}>
           Last used: {new Date(item.last_used_date).toLocaleDateString()}
@@ -386,6 +453,44 @@ export default function RecipeManagementScreen() {
                 textAlignVertical="top"
               />
             </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Expected Yield (Optional)</Text>
+              <TextInput
+                style={styles.input}
+                value={expectedJarCount}
+                onChangeText={setExpectedJarCount}
+                placeholder="Jars per batch"
+                keyboardType="number-pad"
+              />
+              <View style={styles.jarSizeRow}>
+                {jarSizes.map((size) => {
+                  const selected = expectedJarSize === size.name;
+                  return (
+                    <TouchableOpacity
+                      key={size.name}
+                      style={[
+                        styles.jarSizeChip,
+                        selected && styles.jarSizeChipActive,
+                      ]}
+                      // Tapping the selected size clears it
+                      onPress={() =>
+                        setExpectedJarSize(selected ? null : size.name)
+                      }
+                    >
+                      <Text
+                        style={[
+                          styles.jarSizeText,
+                          selected && styles.jarSizeTextActive,
+                        ]}
+                      >
+                        {size.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
           </ScrollView>
         </SafeAreaView>
       </Modal>
@@ -436,6 +541,50 @@ export default function RecipeManagementScreen() {
               </ScrollView>
             </View>
 
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Yield</Text>
+              <Text style={styles.detailYield}>
+                Expected:{" "}
+                {detailRecipe?.expectedJarCount
+                  ? formatYield(
+                      detailRecipe.expectedJarCount,
+                      detailRecipe.expectedJarSize,
+                    )
+                  : "Not set"}
+              </Text>
+              {recipeYield && (
+                <Text style={styles.detailYield}>
+                  {recipeYield.batches.length === 0
+                    ? "No batches made with this recipe yet"
+                    : recipeYield.averageJarCount === null
+                      ? "Past batches used jar sizes that can't be compared"
+                      : `Average: ${formatYield(
+                          recipeYield.averageJarCount,
+                          detailRecipe?.expectedJarSize,
+                        )} over ${recipeYield.comparedBatchCount} batch${
+                          recipeYield.comparedBatchCount === 1 ? "" : "es"
+                        }`}
+                </Text>
+              )}
+              {recipeYield?.batches.slice(0, 5).map((batch) => (
+                <View key={batch.batchId} style={styles.yieldBatchRow}>
+                  <Text style={styles.yieldBatchName} numberOfLines={1}>
+                    {new Date(batch.fillDateISO).toLocaleDateString()} ·{" "}
+                    {batch.itemName}
+                  </Text>
+                  <Text style={styles.yieldBatchCount}>
+                    {formatYield(batch.jarCount, batch.jarSize)}
+                    {detailRecipe?.expectedJarCount &&
+                      batch.expectedSizeCount !== null &&
+                      ` (${formatYieldDifference(
+                        batch,
+                        detailRecipe.expectedJarCount,
+                      )})`}
+                  </Text>
+                </View>
+              ))}
+            </View>
+
             {detailRecipe?.last_used_date && (
               <View style={styles.inputGroup}>
                 <Text style={styles.label}>Last Used</Text>
@@ -686,6 +835,49 @@ const styles = StyleSheet.create({
     color: theme.colors.textSecondary,
     paddingVertical: theme.spacing.sm,
   },
+  detailYield: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+    paddingVertical: theme.spacing.xs,
+  },
+  yieldBatchRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.xs,
+  },
+  yieldBatchName: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+  yieldBatchCount: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text,
+  },
+  jarSizeRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.md,
+  },
+  jarSizeChip: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 0.5,
+    borderColor: theme.colors.primary,
+  },
+  jarSizeChipActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  jarSizeText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+  jarSizeTextActive: {
+    color: theme.colors.surface,
+  },
   detailCreated: {
     fontSize: theme.fontSize.md,
     color: theme.colors.textSecondary,
@@ -0,0 +1,346 @@
+import React, { useCallback, useState } from "react";
+import {
+  View,
+  Text,
+  SectionList,
+  StyleSheet,
+  Alert,
+  TouchableOpacity,
+} from "react-native";
+import {
+  RouteProp,
+  useFocusEffect,
+  useNavigation,
+  useRoute,
+} from "@react-navigation/native";
+import { Ionicons } from "@expo/vector-icons";
+import type { RootStackParamList } from "../App";
+import {
+  getPendingSealChecks,
+  getJarsAwaitingSealCheck,
+  recordSealCheck,
+  getDateFormat,
+  formatDateString,
+  type DateFormat,
+  type Jar,
+  type PendingSealCheck,
+  type SealCheckResult,
+} from "../db";
+import { theme } from "../theme";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+type BatchSection = PendingSealCheck & { data: Jar[] };
+
+const RESULT_OPTIONS: Array<{
+  result: SealCheckResult;
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+}> = [
+  { result: "sealed", label: "Sealed", icon: "checkmark-circle-outline" },
+  { result: "failed", label: "Fridge", icon: "snow-outline" },
+  { result: "reprocess", label: "Reprocess", icon: "refresh-outline" },
+];
+
+// "Due now", "Due in 5 h" or "Due in 40 min"
+const getSealCheckDueText = (dueISO: string) => {
+  const minutes = Math.ceil((new Date(dueISO).getTime() - Date.now()) / 60000);
+  if (minutes <= 0) return "Due now";
+  if (minutes < 60) return `Due in ${minutes} min`;
+  return `Due in ${Math.round(minutes / 60)} h`;
+};
+
+export default function SealCheckScreen() {
+  const navigation = useNavigation();
+  const route = useRoute<RouteProp<RootStackParamList, "SealCheck">>();
+  const batchId = route.params?.batchId;
+  const [sections, setSections] = useState<BatchSection[]>([]);
+  const [dateFormat, setDateFormatState] = useState<DateFormat>("MM/DD/YYYY");
+  const [results, setResults] = useState<Record<number, SealCheckResult>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadChecks = async () => {
+    try {
+      const [checks, format] = await Promise.all([
+        getPendingSealChecks(),
+        getDateFormat(),
+      ]);
+      const batches = checks.filter(
+        (check) => !batchId || check.batchId === batchId
+      );
+      const jars = await Promise.all(
+        batches.map((check) => getJarsAwaitingSealCheck(check.batchId))
+      );
+      setSections(batches.map((check, i) => ({ ...check, data: jars[i] })));
+      setDateFormatState(format);
+    } catch (error) {
+      console.error("Error loading seal checks:", error);
+      Alert.alert("Error", "Failed to load jars awaiting a seal check");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadChecks();
+    }, [batchId])
+  );
+
+  const setResult = (jarId: number, result: SealCheckResult) => {
+    setResults((prev) => {
+      const next = { ...prev };
+      // Tapping the chosen result again clears it
+      if (next[jarId] === result) {
+        delete next[jarId];
+      } else {
+        next[jarId] = result;
+      }
+      return next;
+    });
+  };
+
+  const markBatchSealed = (section: BatchSection) => {
+    setResults((prev) => {
+      const next = { ...prev };
+      for (const jar of section.data) {
+        next[jar.id!] ??= "sealed";
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    const values = Object.values(results);
+    const count = (result: SealCheckResult) =>
+      values.filter((value) => value === result).length;
+    try {
+      await recordSealCheck(results);
+      setResults({});
+      Alert.alert(
+        "Seal Check Saved",
+        [
+          `${count("sealed")} sealed`,
+          count("failed") > 0 &&
+            `${count("failed")} moved to the fridge to use first`,
+          count("reprocess") > 0 &&
+            `${count("reprocess")} to check again after reprocessing`,
+        ]
+          .filter(Boolean)
+          .join("\n")
+      );
+      if (batchId) {
+        navigation.goBack();
+      } else {
+        await loadChecks();
+      }
+    } catch (error) {
+      console.error("Error saving seal check:", error);
+      Alert.alert("Error", "Failed to save the seal check");
+    }
+  };
+
+  const checkedCount = Object.keys(results).length;
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom", "left", "right"]}>
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => item.id!.toString()}
+        contentContainerStyle={styles.listContainer}
+        stickySectionHeadersEnabled={false}
+        ListHeaderComponent={
+          <Text style={styles.helperText}>
+            Press the middle of each lid. Lids that don't flex are sealed. Jars
+            that didn't seal go in the fridge to be used first, or can be
+            reprocessed and checked again.
+          </Text>
+        }
+        renderSectionHeader={({ section }) => (
+          <View style={styles.sectionHeader}>
+            <View style={styles.sectionInfo}>
+              <Text style={styles.sectionTitle}>
+                {section.name} ·{" "}
+                {formatDateString(section.fillDateISO, dateFormat)}
+              </Text>
+              <Text style={styles.sectionDue}>
+                {getSealCheckDueText(section.dueISO)}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={() => markBatchSealed(section)}>
+              <Text style={styles.sectionAction}>All sealed</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        renderItem={({ item }) => (
+          <View style={styles.jarRow}>
+            <Text style={styles.jarName}>Jar {item.id}</Text>
+            <View style={styles.resultRow}>
+              {RESULT_OPTIONS.map(({ result, label, icon }) => {
+                const selected = results[item.id!] === result;
+                return (
+                  <TouchableOpacity
+                    key={result}
+                    style={[
+                      styles.resultOption,
+                      selected && styles.resultOptionActive,
+                    ]}
+                    onPress={() => setResult(item.id!, result)}
+                    accessibilityRole="radio"
+                    accessibilityState={{ checked: selected }}
+                  >
+                    <Ionicons
+                      name={icon}
+                      size={16}
+                      color={selected ? "white" : theme.colors.primary}
+                    />
+                    <Text
+                      style={[
+                        styles.resultText,
+                        selected && styles.resultTextActive,
+                      ]}
+                    >
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
+        ListEmptyComponent={
+          isLoading ? null : (
+            <View style={styles.emptyState}>
+              <Ionicons
+                name="shield-checkmark-outline"
+                size={64}
+                color={theme.colors.primary}
+              />
+              <Text style={styles.emptyText}>
+                No jars are waiting for a seal check
+              </Text>
+            </View>
+          )
+        }
+      />
+
+      {sections.length > 0 && (
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.saveButton, checkedCount === 0 && { opacity: 0.5 }]}
+            onPress={handleSave}
+            disabled={checkedCount === 0}
+          >
+            <Text style={styles.saveButtonText}>
+              Save {checkedCount} Jar{checkedCount !== 1 ? "s" : ""}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  listContainer: {
+    padding: 16,
+  },
+  helperText: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    marginBottom: 8,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  sectionInfo: {
+    flexShrink: 1,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: theme.colors.text,
+  },
+  sectionDue: {
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  sectionAction: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: theme.colors.primary,
+    marginLeft: 8,
+  },
+  jarRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: "white",
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    gap: 8,
+  },
+  jarName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: theme.colors.text,
+  },
+  resultRow: {
+    flexDirection: "row",
+    gap: 6,
+  },
+  resultOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+  },
+  resultOptionActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  resultText: {
+    fontSize: 12,
+    color: theme.colors.primary,
+  },
+  resultTextActive: {
+    color: "white",
+  },
+  emptyState: {
+    alignItems: "center",
+    marginTop: 48,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+    marginTop: 12,
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: "#e0e0e0",
+  },
+  saveButton: {
+    backgroundColor: theme.colors.primary,
+    padding: 16,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  saveButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,221 @@
+import React, { useCallback, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  SectionList,
+  TouchableOpacity,
+  StyleSheet,
+} from "react-native";
+import { useFocusEffect, useNavigation } from "@react-navigation/native";
+import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  searchPantry,
+  getDateFormat,
+  formatDateString,
+  type DateFormat,
+  type SearchResult,
+  type SearchResultKind,
+} from "../db";
+import { theme } from "../theme";
+import type { RootStackParamList } from "../App";
+
+type Nav = NativeStackNavigationProp<RootStackParamList>;
+
+const SECTIONS: {
+  kind: SearchResultKind;
+  title: string;
+  icon: keyof typeof Ionicons.glyphMap;
+}[] = [
+  { kind: "item", title: "Items", icon: "pricetag-outline" },
+  { kind: "batch", title: "Batches", icon: "layers-outline" },
+  { kind: "recipe", title: "Recipes", icon: "book-outline" },
+];
+
+export default function SearchScreen() {
+  const navigation = useNavigation<Nav>();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [dateFormat, setDateFormatState] = useState<DateFormat>("MM/DD/YYYY");
+  // Results can arrive out of order while typing; only keep the latest
+  const latestQuery = useRef("");
+
+  const runSearch = async (text: string) => {
+    latestQuery.current = text;
+    try {
+      const found = await searchPantry(text);
+      if (latestQuery.current === text) {
+        setResults(found);
+      }
+    } catch (error) {
+      console.error("Error searching:", error);
+    }
+  };
+
+  // Pick up edits made on the detail screens when coming back
+  useFocusEffect(
+    useCallback(() => {
+      getDateFormat().then(setDateFormatState);
+      runSearch(latestQuery.current);
+    }, [])
+  );
+
+  const handleChange = (text: string) => {
+    setQuery(text);
+    runSearch(text);
+  };
+
+  const openResult = (result: SearchResult) => {
+    if (result.kind === "item") {
+      navigation.navigate("ItemDetail", { itemTypeId: Number(result.refId) });
+    } else if (result.kind === "batch") {
+      navigation.navigate("BatchDetail", {
+        batchName: result.title,
+        itemTypeId: result.itemTypeId!,
+        fillDate: result.fillDateISO!,
+        batchId: String(result.refId),
+      });
+    } else {
+      navigation.navigate("RecipeManagement", {
+        recipeId: Number(result.refId),
+      });
+    }
+  };
+
+  const sections = SECTIONS.map((section) => ({
+    ...section,
+    data: results.filter((result) => result.kind === section.kind),
+  })).filter((section) => section.data.length > 0);
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom", "left", "right"]}>
+      <View style={styles.searchContainer}>
+        <Ionicons name="search" size={20} color={theme.colors.textSecondary} />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search items, batches, locations, recipes..."
+          value={query}
+          onChangeText={handleChange}
+          autoFocus
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+          returnKeyType="search"
+        />
+      </View>
+
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => `${item.kind}-${item.refId}`}
+        contentContainerStyle={styles.listContainer}
+        stickySectionHeadersEnabled={false}
+        keyboardShouldPersistTaps="handled"
+        renderSectionHeader={({ section }) => (
+          <Text style={styles.sectionTitle}>
+            {section.title} ({section.data.length})
+          </Text>
+        )}
+        renderItem={({ item, section }) => (
+          <TouchableOpacity
+            style={styles.resultRow}
+            onPress={() => openResult(item)}
+          >
+            <Ionicons
+              name={section.icon}
+              size={20}
+              color={theme.colors.primary}
+            />
+            <View style={styles.resultInfo}>
+              <Text style={styles.resultTitle}>
+                {item.title}
+                {item.kind === "batch" && item.fillDateISO
+                  ? ` · ${formatDateString(item.fillDateISO, dateFormat)}`
+                  : ""}
+              </Text>
+              {!!item.snippet && (
+                <Text style={styles.resultSnippet} numberOfLines={2}>
+                  {item.snippet}
+                </Text>
+              )}
+            </View>
+            <Ionicons name="chevron-forward" size={18} color="#999" />
+          </TouchableOpacity>
+        )}
+        ListEmptyComponent={
+          query.trim() ? (
+            <Text style={styles.emptyText}>Nothing matches "{query}".</Text>
+          ) : (
+            <Text style={styles.emptyText}>
+              Search item names, batch notes, locations and recipes.
+            </Text>
+          )
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  searchContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: theme.colors.surface,
+    margin: 16,
+    marginBottom: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  searchInput: {
+    flex: 1,
+    height: 50,
+    marginLeft: 10,
+    color: theme.colors.text,
+    fontSize: 16,
+  },
+  listContainer: {
+    padding: 16,
+    paddingTop: 0,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: theme.colors.text,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  resultRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    gap: 12,
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: theme.colors.text,
+  },
+  resultSnippet: {
+    fontSize: 14,
+    color: "#666",
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#666",
+    textAlign: "center",
+    marginTop: 24,
+  },
+});
@@ -119,12 +119,54 @@ export default function SettingsScreen({ navigation }: any) {
           </View>
           <Ionicons name="chevron-forward" size={20} color="#999" />
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.settingsItem}
+          onPress={() => navigation.navigate("LocationManagement")}
+        >
+          <Ionicons name="location" size={24} color={theme.colors.primary} />
+          <View style={styles.settingsText}>
+            <Text style={styles.settingsLabel}>Manage Locations</Text>
+            <Text style={styles.settingsValue}>
+              Rooms, shelves and bins where jars are stored
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#999" />
+        </TouchableOpacity>
       </View>
 
       {/* Data Section */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Data</Text>
 
+        <TouchableOpacity
+          style={styles.settingsItem}
+          onPress={() => navigation.navigate("Supplies")}
+        >
+          <Ionicons name="cube" size={24} color={theme.colors.primary} />
+          <View style={styles.settingsText}>
+            <Text style={styles.settingsLabel}>Supplies</Text>
+            <Text style={styles.settingsValue}>
+              Empty jars, lids, rings and other canning supplies
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#999" />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.settingsItem}
+          onPress={() => navigation.navigate("ShoppingList")}
+        >
+          <Ionicons name="cart" size={24} color={theme.colors.primary} />
+          <View style={styles.settingsText}>
+            <Text style={styles.settingsLabel}>Shopping List</Text>
+            <Text style={styles.settingsValue}>
+              Ingredients and supplies for what's running low
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#999" />
+        </TouchableOpacity>
+
         <TouchableOpacity
           style={styles.settingsItem}
           onPress={() => navigation.navigate("RecipeManagement")}
@@ -152,6 +194,39 @@ export default function SettingsScreen({ navigation }: any) {
           </View>
           <Ionicons name="chevron-forward" size={20} color="#999" />
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.settingsItem}
+          onPress={() => navigation.navigate("Trash")}
+        >
+          <Ionicons name="trash" size={24} color={theme.colors.primary} />
+          <View style={styles.settingsText}>
+            <Text style={styles.settingsLabel}>Trash</Text>
+            <Text style={styles.settingsValue}>
+              Restore deleted jars, batches and items
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#999" />
+        </TouchableOpacity>
+      </View>
+
+      {/* Diagnostics Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Diagnostics</Text>
+
+        <TouchableOpacity
+          style={styles.settingsItem}
+          onPress={() => navigation.navigate("Diagnostics")}
+        >
+          <Ionicons name="medkit" size={24} color={theme.colors.primary} />
+          <View style={styles.settingsText}>
+            <Text style={styles.settingsLabel}>Check Database</Text>
+            <Text style={styles.settingsValue}>
+              Find and repair inconsistent data
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#999" />
+        </TouchableOpacity>
       </View>
     </View>
   );
@@ -0,0 +1,509 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  Alert,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+} from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { Ionicons } from "@expo/vector-icons";
+import * as FileSystem from "expo-file-system/legacy";
+import * as Sharing from "expo-sharing";
+import {
+  getShoppingList,
+  fillShoppingList,
+  addShoppingListItem,
+  updateShoppingListItem,
+  setShoppingListItemChecked,
+  deleteShoppingListItem,
+  clearCheckedShoppingListItems,
+  type ShoppingListItem,
+} from "../db";
+import { theme } from "../theme";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+// What's still to buy, one "- name (detail)" line each
+const formatShoppingList = (items: ShoppingListItem[]) =>
+  [
+    "Shopping List",
+    "",
+    ...items.map(
+      (item) => `- ${item.name}${item.detail ? ` (${item.detail})` : ""}`
+    ),
+  ].join("\n");
+
+interface EditItemModalProps {
+  visible: boolean;
+  item: ShoppingListItem | null; // Null when adding
+  onSave: (name: string, detail: string) => void;
+  onDelete: (item: ShoppingListItem) => void;
+  onCancel: () => void;
+}
+
+const EditItemModal: React.FC<EditItemModalProps> = ({
+  visible,
+  item,
+  onSave,
+  onDelete,
+  onCancel,
+}) => {
+  const [name, setName] = useState("");
+  const [detail, setDetail] = useState("");
+
+  useEffect(() => {
+    if (visible) {
+      setName(item?.name ?? "");
+      setDetail(item?.detail ?? "");
+    }
+  }, [visible, item]);
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContainer}>
+          <Text style={styles.modalTitle}>
+            {item ? "Edit Item" : "Add Item"}
+          </Text>
+
+          <Text style={styles.label}>Item</Text>
+          <TextInput
+            style={styles.textInput}
+            value={name}
+            onChangeText={setName}
+            placeholder="e.g. Pickling salt"
+            autoFocus={!item}
+          />
+
+          <Text style={styles.label}>Amount or Note (optional)</Text>
+          <TextInput
+            style={styles.textInput}
+            value={detail}
+            onChangeText={setDetail}
+            placeholder="e.g. 2 lb"
+          />
+
+          <View style={styles.modalButtons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.saveButton}
+              onPress={() => onSave(name, detail)}
+            >
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+
+          {item && (
+            <TouchableOpacity
+              style={styles.deleteButton}
+              onPress={() => onDelete(item)}
+            >
+              <Text style={styles.deleteButtonText}>Remove from List</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default function ShoppingListScreen() {
+  const [items, setItems] = useState<ShoppingListItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<{
+    item: ShoppingListItem | null;
+  } | null>(null);
+
+  const loadItems = async () => {
+    try {
+      setItems(await getShoppingList());
+    } catch (error) {
+      console.error("Error loading shopping list:", error);
+      Alert.alert("Error", "Failed to load the shopping list");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadItems();
+    }, [])
+  );
+
+  const toBuy = items.filter((item) => !item.checked);
+  const checkedCount = items.length - toBuy.length;
+
+  const handleFill = async () => {
+    try {
+      const added = await fillShoppingList();
+      await loadItems();
+      Alert.alert(
+        "Shopping List",
+        added > 0
+          ? `Added ${added} item${added !== 1 ? "s" : ""} from what's running low`
+          : "Everything running low is already on the list"
+      );
+    } catch (error) {
+      console.error("Error filling shopping list:", error);
+      Alert.alert("Error", "Failed to fill in the shopping list");
+    }
+  };
+
+  const handleToggle = async (item: ShoppingListItem) => {
+    try {
+      await setShoppingListItemChecked(item.id!, !item.checked);
+      await loadItems();
+    } catch (error) {
+      console.error("Error updating shopping list item:", error);
+      Alert.alert("Error", "Failed to update the item");
+    }
+  };
+
+  const handleSave = async (name: string, detail: string) => {
+    if (!editing) return;
+    try {
+      if (editing.item) {
+        await updateShoppingListItem(editing.item.id!, name, detail);
+      } else {
+        await addShoppingListItem(name, detail);
+      }
+      setEditing(null);
+      await loadItems();
+    } catch (error) {
+      console.error("Error saving shopping list item:", error);
+      Alert.alert("Error", error.message);
+    }
+  };
+
+  const handleDelete = async (item: ShoppingListItem) => {
+    try {
+      await deleteShoppingListItem(item.id!);
+      setEditing(null);
+      await loadItems();
+    } catch (error) {
+      console.error("Error removing shopping list item:", error);
+      Alert.alert("Error", "Failed to remove the item");
+    }
+  };
+
+  const handleClearChecked = () => {
+    Alert.alert(
+      "Clear Checked Items",
+      `Remove the ${checkedCount} checked item${checkedCount !== 1 ? "s" : ""} from the list?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Clear",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await clearCheckedShoppingListItems();
+              await loadItems();
+            } catch (error) {
+              console.error("Error clearing shopping list:", error);
+              Alert.alert("Error", "Failed to clear checked items");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // The share sheet takes files, so the list goes out as a text file
+  const handleShare = async () => {
+    if (toBuy.length === 0) {
+      Alert.alert("Nothing to Share", "Everything on the list is checked off");
+      return;
+    }
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert("Error", "Sharing is not available on this device");
+        return;
+      }
+      const uri = FileSystem.cacheDirectory + "shopping-list.txt";
+      await FileSystem.writeAsStringAsync(uri, formatShoppingList(toBuy));
+      await Sharing.shareAsync(uri, {
+        mimeType: "text/plain",
+        dialogTitle: "Share Shopping List",
+      });
+    } catch (error) {
+      console.error("Error sharing shopping list:", error);
+      Alert.alert("Error", "Failed to share the shopping list");
+    }
+  };
+
+  const renderItem = ({ item }: { item: ShoppingListItem }) => (
+    <View style={styles.itemRow}>
+      <TouchableOpacity
+        onPress={() => handleToggle(item)}
+        accessibilityRole="checkbox"
+        accessibilityState={{ checked: !!item.checked }}
+        accessibilityLabel={item.name}
+      >
+        <Ionicons
+          name={item.checked ? "checkbox" : "square-outline"}
+          size={24}
+          color={
+            item.checked ? theme.colors.textSecondary : theme.colors.primary
+          }
+        />
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.itemInfo}
+        onPress={() => setEditing({ item })}
+      >
+        <Text style={[styles.itemName, !!item.checked && styles.itemChecked]}>
+          {item.name}
+        </Text>
+        {item.detail && <Text style={styles.itemDetail}>{item.detail}</Text>}
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom", "left", "right"]}>
+      <FlatList
+        data={items}
+        keyExtractor={(item) => item.id!.toString()}
+        renderItem={renderItem}
+        contentContainerStyle={styles.listContainer}
+        ListHeaderComponent={
+          <>
+            <Text style={styles.helperText}>
+              Fill In adds the ingredients of the recipe last used for each item
+              running low, and supplies below their alert. Tap an item to edit
+              it.
+            </Text>
+            <View style={styles.actionRow}>
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={handleFill}
+              >
+                <Ionicons name="sparkles" size={18} color="white" />
+                <Text style={styles.actionButtonText}>Fill In</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.secondaryButton]}
+                onPress={() => setEditing({ item: null })}
+              >
+                <Ionicons name="add" size={18} color={theme.colors.primary} />
+                <Text style={styles.secondaryButtonText}>Add</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.secondaryButton]}
+                onPress={handleShare}
+              >
+                <Ionicons
+                  name="share-outline"
+                  size={18}
+                  color={theme.colors.primary}
+                />
+                <Text style={styles.secondaryButtonText}>Share</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        }
+        ListEmptyComponent={
+          isLoading ? null : (
+            <View style={styles.emptyState}>
+              <Ionicons
+                name="cart-outline"
+                size={64}
+                color={theme.colors.primary}
+              />
+              <Text style={styles.emptyText}>Your shopping list is empty</Text>
+            </View>
+          )
+        }
+        ListFooterComponent={
+          checkedCount > 0 ? (
+            <TouchableOpacity
+              style={styles.clearButton}
+              onPress={handleClearChecked}
+            >
+              <Text style={styles.clearButtonText}>
+                Clear {checkedCount} Checked
+              </Text>
+            </TouchableOpacity>
+          ) : null
+        }
+      />
+
+      <EditItemModal
+        visible={editing !== null}
+        item={editing?.item ?? null}
+        onSave={handleSave}
+        onDelete={handleDelete}
+        onCancel={() => setEditing(null)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  listContainer: {
+    padding: 16,
+  },
+  helperText: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    marginBottom: 12,
+  },
+  actionRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 16,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: theme.colors.primary,
+  },
+  actionButtonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    backgroundColor: "white",
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+  },
+  secondaryButtonText: {
+    color: theme.colors.primary,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    gap: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: theme.colors.text,
+  },
+  itemChecked: {
+    color: theme.colors.textSecondary,
+    textDecorationLine: "line-through",
+  },
+  itemDetail: {
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: "center",
+    marginTop: 48,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+    marginTop: 12,
+  },
+  clearButton: {
+    padding: 12,
+    alignItems: "center",
+  },
+  clearButtonText: {
+    color: theme.colors.error,
+    fontSize: 16,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  modalContainer: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 20,
+    width: "90%",
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    marginBottom: 12,
+    textAlign: "center",
+    color: theme.colors.text,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "500",
+    marginTop: 12,
+    marginBottom: 8,
+    color: theme.colors.text,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  modalButtons: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 12,
+    marginRight: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    alignItems: "center",
+  },
+  cancelButtonText: {
+    color: "#666",
+    fontSize: 16,
+  },
+  saveButton: {
+    flex: 1,
+    padding: 12,
+    marginLeft: 8,
+    borderRadius: 8,
+    backgroundColor: theme.colors.primary,
+    alignItems: "center",
+  },
+  saveButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  deleteButton: {
+    marginTop: 12,
+    padding: 12,
+    alignItems: "center",
+  },
+  deleteButtonText: {
+    color: theme.colors.error,
+    fontSize: 16,
+  },
+});
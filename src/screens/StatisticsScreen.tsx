@@ -10,7 +10,12 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useFocusEffect } from "@react-navigation/native";
-import { getDb, getAllCategories, type CustomCategory } from "../db";
+import {
+  getDb,
+  getAllCategories,
+  formatCost,
+  type CustomCategory,
+} from "../db";
 import { theme } from "../theme";
 import { SafeAreaView } from "react-native-safe-area-context";
 
@@ -18,8 +23,40 @@ type YearlyStats = {
   year: number;
   totalCanned: number;
   totalUsed: number;
+  totalWasted: number;
+  totalGifted: number;
+  totalSold: number;
+};
+
+// Jars that left the shelf without being eaten
+type OutcomeStats = {
+  id: number;
+  name: string;
+  wasted: number;
+  gifted: number;
+  sold: number;
+  reasons: string | null;
+};
+
+// What batches of an item type cost, spread over their jars
+type ItemTypeCostStats = {
+  id: number;
+  name: string;
+  totalCost: number;
+  jarCount: number;
+};
+
+// Sealed jars on the shelf, valued at what their batch cost per jar
+type InventoryValue = {
+  value: number | null;
+  jarCount: number;
 };
 
+// A batch's total cost, for batches with any cost entered
+const BATCH_COST_SQL =
+  "(COALESCE(b.ingredientCost, 0) + COALESCE(b.lidCost, 0))";
+const HAS_COST_SQL = "(b.ingredientCost IS NOT NULL OR b.lidCost IS NOT NULL)";
+
 type CategoryStats = {
   category: string;
   categoryName: string;
@@ -97,6 +134,15 @@ export default function StatisticsScreen() {
     new Set()
   );
   const [monthlyStats, setMonthlyStats] = React.useState<MonthlyStats[]>([]);
+  const [outcomeStats, setOutcomeStats] = React.useState<OutcomeStats[]>([]);
+  const [yearlySpent, setYearlySpent] = React.useState<Record<number, number>>(
+    {}
+  );
+  const [itemTypeCosts, setItemTypeCosts] = React.useState<
+    ItemTypeCostStats[]
+  >([]);
+  const [inventoryValue, setInventoryValue] =
+    React.useState<InventoryValue | null>(null);
   const [loading, setLoading] = React.useState(true);
   const [refreshing, setRefreshing] = React.useState(false);
   const [selectedYear, setSelectedYear] = React.useState(
@@ -113,24 +159,34 @@ export default function StatisticsScreen() {
         SELECT 
           year,
           SUM(totalCanned) as totalCanned,
-          SUM(totalUsed) as totalUsed
+          SUM(totalUsed) as totalUsed,
+          SUM(totalWasted) as totalWasted,
+          SUM(totalGifted) as totalGifted,
+          SUM(totalSold) as totalSold
         FROM (
           SELECT 
             CAST(strftime('%Y', j.fillDateISO) as INTEGER) as year,
             COUNT(*) as totalCanned,
-            0 as totalUsed
+            0 as totalUsed,
+            0 as totalWasted,
+            0 as totalGifted,
+            0 as totalSold
           FROM jars j
+          WHERE j.deletedAt IS NULL
           GROUP BY strftime('%Y', j.fillDateISO)
           
           UNION ALL
           
           SELECT 
-            CAST(strftime('%Y', j.usedDateISO) as INTEGER) as year,
+            CAST(strftime('%Y', j.statusDateISO) as INTEGER) as year,
             0 as totalCanned,
-            COUNT(*) as totalUsed
+            SUM(CASE WHEN j.status = 'used' THEN 1 ELSE 0 END) as totalUsed,
+            SUM(CASE WHEN j.status IN ('discarded', 'spoiled') THEN 1 ELSE 0 END) as totalWasted,
+            SUM(CASE WHEN j.status = 'gifted' THEN 1 ELSE 0 END) as totalGifted,
+            SUM(CASE WHEN j.status = 'sold' THEN 1 ELSE 0 END) as totalSold
           FROM jars j
-          WHERE j.used = 1 AND j.usedDateISO IS NOT NULL
-          GROUP BY strftime('%Y', j.usedDateISO)
+          WHERE j.deletedAt IS NULL AND j.status <> 'available' AND j.statusDateISO IS NOT NULL
+          GROUP BY strftime('%Y', j.statusDateISO)
         ) combined
         GROUP BY year
         ORDER BY year DESC
@@ -149,6 +205,9 @@ export default function StatisticsScreen() {
           year: currentYear,
           totalCanned: 0,
           totalUsed: 0,
+          totalWasted: 0,
+          totalGifted: 0,
+          totalSold: 0,
         });
       }
 
@@ -168,7 +227,7 @@ export default function StatisticsScreen() {
           0 as totalUsed
         FROM jars j
         LEFT JOIN item_types it ON j.itemTypeId = it.id
-        WHERE strftime('%Y', j.fillDateISO) = ?
+        WHERE j.deletedAt IS NULL AND strftime('%Y', j.fillDateISO) = ?
         GROUP BY it.category
         ORDER BY totalCanned DESC
       `,
@@ -183,7 +242,7 @@ export default function StatisticsScreen() {
           COUNT(j.id) as totalUsed
         FROM jars j
         LEFT JOIN item_types it ON j.itemTypeId = it.id
-        WHERE j.used = 1 AND strftime('%Y', j.usedDateISO) = ?
+        WHERE j.deletedAt IS NULL AND j.status = 'used' AND strftime('%Y', j.statusDateISO) = ?
         GROUP BY it.category
         ORDER BY totalUsed DESC
       `,
@@ -212,7 +271,7 @@ export default function StatisticsScreen() {
             COUNT(*) as count
           FROM jars j
           LEFT JOIN item_types it ON j.itemTypeId = it.id
-          WHERE COALESCE(it.category, 'other') = ? AND strftime('%Y', j.fillDateISO) = ?
+          WHERE j.deletedAt IS NULL AND COALESCE(it.category, 'other') = ? AND strftime('%Y', j.fillDateISO) = ?
           GROUP BY j.jarSize
           ORDER BY count DESC
         `,
@@ -237,9 +296,9 @@ export default function StatisticsScreen() {
             COUNT(*) as count
           FROM jars j
           LEFT JOIN item_types it ON j.itemTypeId = it.id
-          WHERE COALESCE(it.category, 'other') = ? 
-            AND j.used = 1 
-            AND strftime('%Y', j.usedDateISO) = ?
+          WHERE j.deletedAt IS NULL AND COALESCE(it.category, 'other') = ? 
+            AND j.status = 'used' 
+            AND strftime('%Y', j.statusDateISO) = ?
           GROUP BY j.jarSize
           ORDER BY count DESC
         `,
@@ -272,7 +331,7 @@ export default function StatisticsScreen() {
             j.itemTypeId,
             COUNT(*) as totalCanned
           FROM jars j
-          WHERE strftime('%Y', j.fillDateISO) = ?
+          WHERE j.deletedAt IS NULL AND strftime('%Y', j.fillDateISO) = ?
           GROUP BY j.itemTypeId
         ) canned ON canned.itemTypeId = it.id
         LEFT JOIN (
@@ -280,7 +339,7 @@ export default function StatisticsScreen() {
             j.itemTypeId,
             COUNT(*) as totalUsed
           FROM jars j
-          WHERE j.used = 1 AND strftime('%Y', j.usedDateISO) = ?
+          WHERE j.deletedAt IS NULL AND j.status = 'used' AND strftime('%Y', j.statusDateISO) = ?
           GROUP BY j.itemTypeId
         ) used ON used.itemTypeId = it.id
         WHERE COALESCE(canned.totalCanned, 0) > 0 OR COALESCE(used.totalUsed, 0) > 0
@@ -301,7 +360,7 @@ export default function StatisticsScreen() {
             COALESCE(j.jarSize, 'Unknown') as jarSize,
             COUNT(*) as count
           FROM jars j
-          WHERE j.itemTypeId = ? AND strftime('%Y', j.fillDateISO) = ?
+          WHERE j.deletedAt IS NULL AND j.itemTypeId = ? AND strftime('%Y', j.fillDateISO) = ?
           GROUP BY j.jarSize
           ORDER BY count DESC
         `,
@@ -318,7 +377,7 @@ export default function StatisticsScreen() {
             COALESCE(j.jarSize, 'Unknown') as jarSize,
             COUNT(*) as count
           FROM jars j
-          WHERE j.itemTypeId = ? AND j.used = 1 AND strftime('%Y', j.usedDateISO) = ?
+          WHERE j.deletedAt IS NULL AND j.itemTypeId = ? AND j.status = 'used' AND strftime('%Y', j.statusDateISO) = ?
           GROUP BY j.jarSize
           ORDER BY count DESC
         `,
@@ -343,20 +402,91 @@ export default function StatisticsScreen() {
       const monthlyData = await db.getAllAsync<MonthlyStats>(
         `
         SELECT 
-          CAST(strftime('%m', j.usedDateISO) as INTEGER) as month,
-          CAST(strftime('%Y', j.usedDateISO) as INTEGER) as year,
+          CAST(strftime('%m', j.statusDateISO) as INTEGER) as month,
+          CAST(strftime('%Y', j.statusDateISO) as INTEGER) as year,
           0 as canned,
           COUNT(*) as used
         FROM jars j
-        WHERE j.used = 1 
-          AND j.usedDateISO IS NOT NULL 
-          AND strftime('%Y', j.usedDateISO) = ?
-        GROUP BY strftime('%Y-%m', j.usedDateISO)
+        WHERE j.deletedAt IS NULL AND j.status = 'used' 
+          AND j.statusDateISO IS NOT NULL 
+          AND strftime('%Y', j.statusDateISO) = ?
+        GROUP BY strftime('%Y-%m', j.statusDateISO)
         ORDER BY month
       `,
         [selectedYear.toString()]
       );
       setMonthlyStats(monthlyData);
+
+      // Load waste and giveaways for selected year, kept apart from usage
+      const outcomeData = await db.getAllAsync<OutcomeStats>(
+        `
+        SELECT 
+          it.id,
+          it.name,
+          SUM(CASE WHEN j.status IN ('discarded', 'spoiled') THEN 1 ELSE 0 END) as wasted,
+          SUM(CASE WHEN j.status = 'gifted' THEN 1 ELSE 0 END) as gifted,
+          SUM(CASE WHEN j.status = 'sold' THEN 1 ELSE 0 END) as sold,
+          GROUP_CONCAT(DISTINCT j.statusReason) as reasons
+        FROM jars j
+        JOIN item_types it ON it.id = j.itemTypeId
+        WHERE j.deletedAt IS NULL 
+          AND j.status IN ('discarded', 'spoiled', 'gifted', 'sold')
+          AND strftime('%Y', j.statusDateISO) = ?
+        GROUP BY it.id
+        ORDER BY COUNT(*) DESC
+      `,
+        [selectedYear.toString()]
+      );
+      setOutcomeStats(outcomeData);
+
+      // Load what was spent on batches each year
+      const spentData = await db.getAllAsync<{ year: number; spent: number }>(`
+        SELECT 
+          CAST(strftime('%Y', b.fillDateISO) as INTEGER) as year,
+          SUM(${BATCH_COST_SQL}) as spent
+        FROM batches b
+        WHERE b.deletedAt IS NULL AND ${HAS_COST_SQL}
+        GROUP BY strftime('%Y', b.fillDateISO)
+      `);
+      setYearlySpent(
+        Object.fromEntries(spentData.map((row) => [row.year, row.spent]))
+      );
+
+      // Load the average cost per jar of each item type canned in selected year
+      const itemTypeCostData = await db.getAllAsync<ItemTypeCostStats>(
+        `
+        SELECT 
+          it.id,
+          it.name,
+          SUM(${BATCH_COST_SQL}) as totalCost,
+          SUM(b.yieldCount) as jarCount
+        FROM batches b
+        JOIN item_types it ON it.id = b.itemTypeId
+        WHERE b.deletedAt IS NULL AND ${HAS_COST_SQL}
+          AND b.yieldCount > 0
+          AND strftime('%Y', b.fillDateISO) = ?
+        GROUP BY it.id
+        ORDER BY SUM(${BATCH_COST_SQL}) / SUM(b.yieldCount) DESC
+      `,
+        [selectedYear.toString()]
+      );
+      setItemTypeCosts(itemTypeCostData);
+
+      // Load the value of the jars still on the shelf, whatever year they were canned
+      const inventoryData = await db.getFirstAsync<InventoryValue>(`
+        SELECT 
+          SUM(${BATCH_COST_SQL} * shelf.available / b.yieldCount) as value,
+          COALESCE(SUM(shelf.available), 0) as jarCount
+        FROM batches b
+        JOIN (
+          SELECT j.batchId, COUNT(*) as available
+          FROM jars j
+          WHERE j.deletedAt IS NULL AND j.status = 'available'
+          GROUP BY j.batchId
+        ) shelf ON shelf.batchId = b.id
+        WHERE b.deletedAt IS NULL AND ${HAS_COST_SQL} AND b.yieldCount > 0
+      `);
+      setInventoryValue(inventoryData);
     } catch (error) {
       console.error("Error loading statistics:", error);
     } finally {
@@ -503,6 +633,20 @@ export default function StatisticsScreen() {
                 </Text>
                 <Text style={styles.metricLabel}>Jars Used</Text>
               </View>
+              <View style={styles.metricCard}>
+                <Ionicons name="trash" size={24} color="#795548" />
+                <Text style={styles.metricNumber}>
+                  {currentYearStats.totalWasted}
+                </Text>
+                <Text style={styles.metricLabel}>Jars Wasted</Text>
+              </View>
+              <View style={styles.metricCard}>
+                <Ionicons name="gift" size={24} color="#1976d2" />
+                <Text style={styles.metricNumber}>
+                  {currentYearStats.totalGifted} / {currentYearStats.totalSold}
+                </Text>
+                <Text style={styles.metricLabel}>Gifted / Sold</Text>
+              </View>
             </View>
           </View>
         )}
@@ -751,6 +895,114 @@ export default function StatisticsScreen() {
           )}
         </View>
 
+        {/* Wasted and Given Away in Year */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>
+            Wasted & Given Away in {selectedYear}
+          </Text>
+          {outcomeStats.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyText}>
+                No jars wasted, gifted or sold this year
+              </Text>
+            </View>
+          ) : (
+            outcomeStats.map((outcome) => (
+              <View key={`outcome-${outcome.id}`} style={styles.outcomeRow}>
+                <View style={styles.outcomeInfo}>
+                  <Text style={styles.categoryName}>{outcome.name}</Text>
+                  {outcome.reasons ? (
+                    <Text style={styles.outcomeReasons}>
+                      {outcome.reasons.split(",").join(", ")}
+                    </Text>
+                  ) : null}
+                </View>
+                <View style={styles.categoryStats}>
+                  {outcome.wasted > 0 && (
+                    <View style={styles.categoryStat}>
+                      <Text style={styles.categoryStatNumber}>
+                        {outcome.wasted}
+                      </Text>
+                      <Text style={styles.categoryStatLabel}>wasted</Text>
+                    </View>
+                  )}
+                  {outcome.gifted > 0 && (
+                    <View style={styles.categoryStat}>
+                      <Text style={styles.categoryStatNumber}>
+                        {outcome.gifted}
+                      </Text>
+                      <Text style={styles.categoryStatLabel}>gifted</Text>
+                    </View>
+                  )}
+                  {outcome.sold > 0 && (
+                    <View style={styles.categoryStat}>
+                      <Text style={styles.categoryStatNumber}>
+                        {outcome.sold}
+                      </Text>
+                      <Text style={styles.categoryStatLabel}>sold</Text>
+                    </View>
+                  )}
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+
+        {/* Costs */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Costs</Text>
+          {yearlySpent[selectedYear] === undefined && !inventoryValue?.value ? (
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyText}>
+                No batch costs recorded. Add them when creating a batch or from
+                the batch details.
+              </Text>
+            </View>
+          ) : (
+            <>
+              <View style={styles.metricsGrid}>
+                <View style={styles.metricCard}>
+                  <Ionicons name="cart" size={24} color="#f57c00" />
+                  <Text style={styles.metricNumber}>
+                    {formatCost(yearlySpent[selectedYear] ?? 0)}
+                  </Text>
+                  <Text style={styles.metricLabel}>
+                    Spent in {selectedYear}
+                  </Text>
+                </View>
+                <View style={styles.metricCard}>
+                  <Ionicons name="pricetag" size={24} color="#2e7d32" />
+                  <Text style={styles.metricNumber}>
+                    {formatCost(inventoryValue?.value ?? 0)}
+                  </Text>
+                  <Text style={styles.metricLabel}>
+                    Value of {inventoryValue?.jarCount ?? 0} jars on hand
+                  </Text>
+                </View>
+              </View>
+              {itemTypeCosts.length > 0 && (
+                <Text style={styles.costSubtitle}>
+                  Average cost per jar in {selectedYear}
+                </Text>
+              )}
+              {itemTypeCosts.map((itemType) => (
+                <View key={`cost-${itemType.id}`} style={styles.outcomeRow}>
+                  <View style={styles.outcomeInfo}>
+                    <Text style={styles.categoryName}>{itemType.name}</Text>
+                    <Text style={styles.outcomeReasons}>
+                      {formatCost(itemType.totalCost)} for {itemType.jarCount}{" "}
+                      jar{itemType.jarCount !== 1 ? "s" : ""}
+                    </Text>
+                  </View>
+                  <Text style={styles.categoryStatNumber}>
+                    {formatCost(itemType.totalCost / itemType.jarCount)}
+                  </Text>
+                </View>
+              ))}
+            </>
+          )}
+        </View>
+
         {/* Yearly Comparison */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Yearly Comparison</Text>
@@ -773,6 +1025,16 @@ export default function StatisticsScreen() {
                     <Text style={styles.yearComparisonStat}>
                       {year.totalUsed} used
                     </Text>
+                    {year.totalWasted > 0 && (
+                      <Text style={styles.yearComparisonStat}>
+                        {year.totalWasted} wasted
+                      </Text>
+                    )}
+                    {yearlySpent[year.year] !== undefined && (
+                      <Text style={styles.yearComparisonStat}>
+                        {formatCost(yearlySpent[year.year])} spent
+                      </Text>
+                    )}
                   </View>
                 </View>
               );
@@ -997,6 +1259,33 @@ const styles = StyleSheet.create({
     fontWeight: theme.fontWeight.bold,
     color: theme.colors.text,
   },
+  outcomeRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: theme.spacing.md,
+    paddingHorizontal: theme.spacing.xl,
+    marginBottom: theme.spacing.sm,
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  outcomeInfo: {
+    flex: 1,
+  },
+  outcomeReasons: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  costSubtitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.lg,
+    marginBottom: theme.spacing.sm,
+  },
   yearComparisonStats: {
     flexDirection: "row",
     gap: theme.spacing.md,
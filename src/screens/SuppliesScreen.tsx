@@ -0,0 +1,646 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  SectionList,
+  StyleSheet,
+  Alert,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ScrollView,
+} from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  getSupplies,
+  addSupply,
+  updateSupply,
+  adjustSupplyQuantity,
+  deleteSupply,
+  getAllJarSizes,
+  formatSupplyName,
+  SUPPLY_KIND_LABELS,
+  JAR_MOUTH_LABELS,
+  type CustomJarSize,
+  type JarMouth,
+  type Supply,
+  type SupplyKind,
+} from "../db";
+import { theme } from "../theme";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+type SupplySection = { kind: SupplyKind; data: Supply[] };
+
+const SUPPLY_KINDS = Object.keys(SUPPLY_KIND_LABELS) as SupplyKind[];
+
+// Only empty jars and other supplies can be added or removed
+const canAdd = (kind: SupplyKind) => kind === "jar" || kind === "other";
+
+const isLow = (supply: Supply) =>
+  supply.lowStockThreshold > 0 && supply.quantity < supply.lowStockThreshold;
+
+// Lids and rings are listed under their kind, so only the mouth is shown
+const getRowTitle = (supply: Supply) =>
+  supply.kind === "other" || supply.kind === "jar"
+    ? supply.name
+    : JAR_MOUTH_LABELS[supply.mouth ?? "regular"];
+
+type SupplyDraft = {
+  name: string;
+  mouth: JarMouth;
+  quantity: string;
+  lowStockThreshold: string;
+};
+
+interface EditSupplyModalProps {
+  visible: boolean;
+  kind: SupplyKind;
+  supply: Supply | null; // Null when adding
+  jarSizes: CustomJarSize[]; // Sizes without empty jars in supplies yet
+  onSave: (draft: SupplyDraft) => void;
+  onDelete: (supply: Supply) => void;
+  onCancel: () => void;
+}
+
+const EditSupplyModal: React.FC<EditSupplyModalProps> = ({
+  visible,
+  kind,
+  supply,
+  jarSizes,
+  onSave,
+  onDelete,
+  onCancel,
+}) => {
+  const [draft, setDraft] = useState<SupplyDraft>({
+    name: "",
+    mouth: "regular",
+    quantity: "",
+    lowStockThreshold: "",
+  });
+
+  useEffect(() => {
+    if (visible) {
+      setDraft({
+        name: supply?.name ?? "",
+        mouth: supply?.mouth ?? "regular",
+        quantity: supply ? String(supply.quantity) : "",
+        lowStockThreshold: supply?.lowStockThreshold
+          ? String(supply.lowStockThreshold)
+          : "",
+      });
+    }
+  }, [visible, supply]);
+
+  const update = (changes: Partial<SupplyDraft>) =>
+    setDraft((prev) => ({ ...prev, ...changes }));
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContainer}>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.modalTitle}>
+              {supply
+                ? formatSupplyName(supply)
+                : kind === "jar"
+                  ? "Add Empty Jars"
+                  : "Add Supply"}
+            </Text>
+
+            {!supply && kind === "jar" && (
+              <>
+                <Text style={styles.label}>Jar Size</Text>
+                {jarSizes.length === 0 ? (
+                  <Text style={styles.helperText}>
+                    Every jar size already has empty jars listed
+                  </Text>
+                ) : (
+                  <View style={styles.choiceRow}>
+                    {jarSizes.map((size) => (
+                      <TouchableOpacity
+                        key={size.name}
+                        style={[
+                          styles.choice,
+                          draft.name === size.name && styles.choiceActive,
+                        ]}
+                        onPress={() => update({ name: size.name })}
+                      >
+                        <Text
+                          style={[
+                            styles.choiceText,
+                            draft.name === size.name && styles.choiceTextActive,
+                          ]}
+                        >
+                          {size.name}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+              </>
+            )}
+
+            {!supply && kind === "other" && (
+              <>
+                <Text style={styles.label}>Name</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={draft.name}
+                  onChangeText={(name) => update({ name })}
+                  placeholder="e.g. Pectin, canning salt"
+                  autoFocus
+                />
+              </>
+            )}
+
+            {kind === "jar" && (
+              <>
+                <Text style={styles.label}>Mouth</Text>
+                <View style={styles.choiceRow}>
+                  {(Object.keys(JAR_MOUTH_LABELS) as JarMouth[]).map(
+                    (mouth) => (
+                      <TouchableOpacity
+                        key={mouth}
+                        style={[
+                          styles.choice,
+                          draft.mouth === mouth && styles.choiceActive,
+                        ]}
+                        onPress={() => update({ mouth })}
+                      >
+                        <Text
+                          style={[
+                            styles.choiceText,
+                            draft.mouth === mouth && styles.choiceTextActive,
+                          ]}
+                        >
+                          {JAR_MOUTH_LABELS[mouth]}
+                        </Text>
+                      </TouchableOpacity>
+                    )
+                  )}
+                </View>
+                <Text style={styles.helperText}>
+                  New batches in this size use lids of the same mouth
+                </Text>
+              </>
+            )}
+
+            <Text style={styles.label}>On Hand</Text>
+            <TextInput
+              style={styles.textInput}
+              value={draft.quantity}
+              onChangeText={(quantity) => update({ quantity })}
+              placeholder="0"
+              keyboardType="number-pad"
+            />
+
+            <Text style={styles.label}>Alert When Below</Text>
+            <TextInput
+              style={styles.textInput}
+              value={draft.lowStockThreshold}
+              onChangeText={(lowStockThreshold) =>
+                update({ lowStockThreshold })
+              }
+              placeholder="No alert"
+              keyboardType="number-pad"
+            />
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.saveButton}
+                onPress={() => onSave(draft)}
+              >
+                <Text style={styles.saveButtonText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+
+            {supply && canAdd(supply.kind) && (
+              <TouchableOpacity
+                style={styles.deleteButton}
+                onPress={() => onDelete(supply)}
+              >
+                <Text style={styles.deleteButtonText}>
+                  Remove from Supplies
+                </Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+// Empty fields count as 0; anything else must be a whole number
+const parseCount = (text: string, label: string) => {
+  const trimmed = text.trim();
+  if (!trimmed) return 0;
+  if (!/^\d+$/.test(trimmed)) {
+    throw new Error(`${label} must be a whole number`);
+  }
+  return Number(trimmed);
+};
+
+export default function SuppliesScreen() {
+  const [supplies, setSupplies] = useState<Supply[]>([]);
+  const [jarSizes, setJarSizes] = useState<CustomJarSize[]>([]);
+  const [editing, setEditing] = useState<{
+    kind: SupplyKind;
+    supply: Supply | null;
+  } | null>(null);
+
+  const loadSupplies = async () => {
+    try {
+      const [suppliesData, jarSizesData] = await Promise.all([
+        getSupplies(),
+        getAllJarSizes(),
+      ]);
+      setSupplies(suppliesData);
+      setJarSizes(jarSizesData);
+    } catch (error) {
+      console.error("Error loading supplies:", error);
+      Alert.alert("Error", "Failed to load supplies");
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSupplies();
+    }, [])
+  );
+
+  const sections: SupplySection[] = SUPPLY_KINDS.map((kind) => ({
+    kind,
+    data: supplies.filter((supply) => supply.kind === kind),
+  }));
+
+  const untrackedJarSizes = jarSizes.filter(
+    (size) =>
+      !supplies.some(
+        (supply) => supply.kind === "jar" && supply.name === size.name
+      )
+  );
+
+  const handleAdjust = async (supply: Supply, change: number) => {
+    try {
+      await adjustSupplyQuantity(supply.id!, change);
+      await loadSupplies();
+    } catch (error) {
+      console.error("Error updating supply:", error);
+      Alert.alert("Error", "Failed to update supply");
+    }
+  };
+
+  const handleSave = async (draft: SupplyDraft) => {
+    if (!editing) return;
+    try {
+      const counts = {
+        quantity: parseCount(draft.quantity, "On hand"),
+        lowStockThreshold: parseCount(draft.lowStockThreshold, "Alert level"),
+      };
+      if (editing.supply) {
+        await updateSupply(editing.supply.id!, {
+          ...counts,
+          mouth: editing.kind === "jar" ? draft.mouth : undefined,
+        });
+      } else {
+        if (editing.kind === "jar" && !draft.name) {
+          throw new Error("Please choose a jar size");
+        }
+        await addSupply({
+          kind: editing.kind,
+          name: draft.name,
+          mouth: editing.kind === "jar" ? draft.mouth : null,
+          ...counts,
+        });
+      }
+      setEditing(null);
+      await loadSupplies();
+    } catch (error) {
+      console.error("Error saving supply:", error);
+      Alert.alert("Error", error.message);
+    }
+  };
+
+  const handleDelete = (supply: Supply) => {
+    Alert.alert(
+      "Remove Supply",
+      `Remove ${formatSupplyName(supply)} from your supplies?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteSupply(supply.id!);
+              setEditing(null);
+              await loadSupplies();
+            } catch (error) {
+              console.error("Error removing supply:", error);
+              Alert.alert("Error", "Failed to remove supply");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderSupply = ({ item }: { item: Supply }) => (
+    <TouchableOpacity
+      style={styles.supplyRow}
+      onPress={() => setEditing({ kind: item.kind, supply: item })}
+    >
+      <View style={styles.supplyInfo}>
+        <Text style={styles.supplyName}>{getRowTitle(item)}</Text>
+        {item.kind === "jar" && item.mouth && (
+          <Text style={styles.supplyDetail}>
+            {JAR_MOUTH_LABELS[item.mouth]}
+          </Text>
+        )}
+        {isLow(item) && (
+          <View style={styles.lowStockBadge}>
+            <Ionicons name="warning" size={12} color="#fff" />
+            <Text style={styles.lowStockBadgeText}>
+              Running Low (alert below {item.lowStockThreshold})
+            </Text>
+          </View>
+        )}
+      </View>
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          style={styles.stepperButton}
+          onPress={() => handleAdjust(item, -1)}
+          disabled={item.quantity === 0}
+          accessibilityLabel={`One less ${formatSupplyName(item)}`}
+        >
+          <Ionicons
+            name="remove"
+            size={20}
+            color={
+              item.quantity === 0
+                ? theme.colors.textSecondary
+                : theme.colors.primary
+            }
+          />
+        </TouchableOpacity>
+        <Text style={styles.quantity}>{item.quantity}</Text>
+        <TouchableOpacity
+          style={styles.stepperButton}
+          onPress={() => handleAdjust(item, 1)}
+          accessibilityLabel={`One more ${formatSupplyName(item)}`}
+        >
+          <Ionicons name="add" size={20} color={theme.colors.primary} />
+        </TouchableOpacity>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom", "left", "right"]}>
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => item.id!.toString()}
+        renderItem={renderSupply}
+        contentContainerStyle={styles.listContainer}
+        stickySectionHeadersEnabled={false}
+        ListHeaderComponent={
+          <Text style={styles.helperText}>
+            Adding a batch takes its jars from the empty jars of that size and a
+            lid for each. Tap a supply to set how many you have and when to be
+            warned.
+          </Text>
+        }
+        renderSectionHeader={({ section }) => (
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>
+              {SUPPLY_KIND_LABELS[section.kind]}
+            </Text>
+            {canAdd(section.kind) && (
+              <TouchableOpacity
+                onPress={() => setEditing({ kind: section.kind, supply: null })}
+              >
+                <Text style={styles.sectionAction}>Add</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+        renderSectionFooter={({ section }) =>
+          section.data.length === 0 ? (
+            <Text style={styles.emptyText}>
+              {section.kind === "jar"
+                ? "Add a jar size to keep count of its empty jars"
+                : "Add anything else you use up, like pectin or salt"}
+            </Text>
+          ) : null
+        }
+      />
+
+      <EditSupplyModal
+        visible={editing !== null}
+        kind={editing?.kind ?? "other"}
+        supply={editing?.supply ?? null}
+        jarSizes={untrackedJarSizes}
+        onSave={handleSave}
+        onDelete={handleDelete}
+        onCancel={() => setEditing(null)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  listContainer: {
+    padding: 16,
+  },
+  helperText: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    marginBottom: 8,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: theme.colors.text,
+  },
+  sectionAction: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: theme.colors.primary,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    fontStyle: "italic",
+  },
+  supplyRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    backgroundColor: "white",
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    gap: 8,
+  },
+  supplyInfo: {
+    flex: 1,
+    alignItems: "flex-start",
+  },
+  supplyName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: theme.colors.text,
+  },
+  supplyDetail: {
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  lowStockBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    backgroundColor: theme.colors.warning,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    marginTop: 4,
+  },
+  lowStockBadgeText: {
+    color: "#fff",
+    fontSize: 11,
+    fontWeight: "600",
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  stepperButton: {
+    padding: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  quantity: {
+    minWidth: 36,
+    textAlign: "center",
+    fontSize: 16,
+    fontWeight: "600",
+    color: theme.colors.text,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  modalContainer: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 20,
+    width: "90%",
+    maxWidth: 400,
+    maxHeight: "85%",
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    marginBottom: 12,
+    textAlign: "center",
+    color: theme.colors.text,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "500",
+    marginTop: 12,
+    marginBottom: 8,
+    color: theme.colors.text,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#ddd",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  choiceRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 8,
+  },
+  choice: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+  },
+  choiceActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  choiceText: {
+    fontSize: 14,
+    color: theme.colors.primary,
+  },
+  choiceTextActive: {
+    color: "white",
+  },
+  modalButtons: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 12,
+    marginRight: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#ddd",
+    alignItems: "center",
+  },
+  cancelButtonText: {
+    color: "#666",
+    fontSize: 16,
+  },
+  saveButton: {
+    flex: 1,
+    padding: 12,
+    marginLeft: 8,
+    borderRadius: 8,
+    backgroundColor: theme.colors.primary,
+    alignItems: "center",
+  },
+  saveButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  deleteButton: {
+    marginTop: 12,
+    padding: 12,
+    alignItems: "center",
+  },
+  deleteButtonText: {
+    color: theme.colors.error,
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,303 @@
+import React, { useCallback, useState } from "react";
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  Alert,
+  TouchableOpacity,
+} from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  getTrash,
+  restoreFromTrash,
+  deleteFromTrash,
+  emptyTrash,
+  formatDateStringWithUserPreference,
+  TRASH_RETENTION_DAYS,
+  type TrashEntry,
+} from "../db";
+import { theme } from "../theme";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getDaysLeft = (deletedAt: string) => {
+  const elapsed = Date.now() - new Date(deletedAt).getTime();
+  return Math.max(0, TRASH_RETENTION_DAYS - Math.floor(elapsed / DAY_MS));
+};
+
+const getEntryTitle = (entry: TrashEntry) => {
+  switch (entry.kind) {
+    case "itemType":
+      return entry.name;
+    case "batch":
+      return `${entry.name} batch`;
+    case "jar":
+      return `${entry.name} jar #${entry.id}`;
+  }
+};
+
+const getEntryIcon = (entry: TrashEntry) => {
+  switch (entry.kind) {
+    case "itemType":
+      return "pricetag-outline";
+    case "batch":
+      return "layers-outline";
+    case "jar":
+      return "flask-outline";
+  }
+};
+
+export default function TrashScreen() {
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [fillDates, setFillDates] = useState<Record<string, string>>({});
+
+  const loadTrash = async () => {
+    try {
+      const trash = await getTrash();
+      setEntries(trash);
+
+      // Format fill dates using the user's date preference
+      const formatted: Record<string, string> = {};
+      for (const entry of trash) {
+        if (entry.fillDateISO) {
+          formatted[`${entry.kind}-${entry.id}`] =
+            await formatDateStringWithUserPreference(entry.fillDateISO);
+        }
+      }
+      setFillDates(formatted);
+    } catch (error) {
+      console.error("Error loading trash:", error);
+      Alert.alert("Error", "Failed to load trash");
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTrash();
+    }, [])
+  );
+
+  const handleRestore = async (entry: TrashEntry) => {
+    try {
+      await restoreFromTrash(entry);
+      await loadTrash();
+    } catch (error) {
+      console.error("Error restoring from trash:", error);
+      Alert.alert("Error", `Failed to restore. ${error.message}`);
+    }
+  };
+
+  const handleDeleteForever = (entry: TrashEntry) => {
+    Alert.alert(
+      "Delete Forever",
+      `Are you sure you want to permanently delete "${getEntryTitle(
+        entry
+      )}"? This action cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteFromTrash(entry);
+              await loadTrash();
+            } catch (error) {
+              console.error("Error deleting from trash:", error);
+              Alert.alert("Error", `Failed to delete. ${error.message}`);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      "Empty Trash",
+      "Are you sure you want to permanently delete everything in the Trash? This action cannot be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Empty Trash",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await emptyTrash();
+              await loadTrash();
+            } catch (error) {
+              console.error("Error emptying trash:", error);
+              Alert.alert("Error", `Failed to empty trash. ${error.message}`);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderEntry = ({ item }: { item: TrashEntry }) => {
+    const fillDate = fillDates[`${item.kind}-${item.id}`];
+    const daysLeft = getDaysLeft(item.deletedAt);
+
+    return (
+      <View style={styles.entryItem}>
+        <Ionicons
+          name={getEntryIcon(item)}
+          size={24}
+          color={theme.colors.textSecondary}
+        />
+        <View style={styles.entryInfo}>
+          <Text style={styles.entryName}>{getEntryTitle(item)}</Text>
+          <Text style={styles.entryDetails}>
+            {item.kind !== "jar" &&
+              `${item.jarCount} jar${item.jarCount !== 1 ? "s" : ""}`}
+            {item.kind !== "jar" && fillDate ? " · " : ""}
+            {fillDate ? `Filled ${fillDate}` : ""}
+          </Text>
+          <Text style={styles.expiryText}>
+            {daysLeft === 0
+              ? "Deleted at next launch"
+              : `Deleted forever in ${daysLeft} day${
+                  daysLeft !== 1 ? "s" : ""
+                }`}
+          </Text>
+        </View>
+        <View style={styles.entryActions}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleRestore(item)}
+          >
+            <Ionicons
+              name="arrow-undo"
+              size={20}
+              color={theme.colors.primary}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleDeleteForever(item)}
+          >
+            <Ionicons name="trash" size={20} color="#ff4444" />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom", "left", "right"]}>
+      <FlatList
+        data={entries}
+        keyExtractor={(item) => `${item.kind}-${item.id}`}
+        renderItem={renderEntry}
+        contentContainerStyle={styles.listContainer}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <Text style={styles.headerText}>
+              Deleted items are kept for {TRASH_RETENTION_DAYS} days before
+              they are removed permanently.
+            </Text>
+            {entries.length > 0 && (
+              <TouchableOpacity
+                style={styles.emptyButton}
+                onPress={handleEmptyTrash}
+              >
+                <Text style={styles.buttonText}>Empty Trash</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Ionicons name="trash-outline" size={48} color="#ccc" />
+            <Text style={styles.emptyText}>Trash is empty</Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  listContainer: {
+    padding: 16,
+  },
+  header: {
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  headerText: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    textAlign: "center",
+    marginBottom: 12,
+  },
+  emptyButton: {
+    backgroundColor: "#ff4444",
+    height: 40,
+    borderRadius: 20,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 16,
+  },
+  buttonText: {
+    color: "white",
+    fontSize: 18,
+    fontWeight: "500",
+  },
+  entryItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    padding: 16,
+    marginBottom: 8,
+    borderRadius: 8,
+    elevation: 1,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 2,
+  },
+  entryInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  entryName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: theme.colors.text,
+  },
+  entryDetails: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  expiryText: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 2,
+  },
+  entryActions: {
+    flexDirection: "row",
+  },
+  actionButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: "#999",
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,10 @@
+import * as SQLite from "expo-sqlite";
+import type { StorageAdapter } from "./types";
+
+// Default adapter used by the app on device
+export const expoSqliteAdapter: StorageAdapter = {
+  name: "expo-sqlite",
+  // Use the sync method which is more reliable
+  openDatabase: (databaseName) => SQLite.openDatabaseSync(databaseName),
+  deleteDatabase: (databaseName) => SQLite.deleteDatabaseSync(databaseName),
+};
@@ -0,0 +1,140 @@
+import { rmSync } from "node:fs";
+import {
+  DatabaseSync,
+  type SQLInputValue,
+  type StatementSync,
+} from "node:sqlite";
+import type {
+  BindParams,
+  BindValue,
+  RunResult,
+  StorageAdapter,
+  StorageDatabase,
+  StorageStatement,
+} from "./types";
+
+// Adapter for running the data layer under Node (22.5+), e.g. against an
+// in-memory database with `openDatabase(":memory:")`. Never import this from
+// app code - node:sqlite does not exist on device.
+
+function toInputValue(value: BindValue | undefined): SQLInputValue {
+  if (value === undefined) return null;
+  // expo-sqlite stores booleans as integers, node:sqlite rejects them
+  if (typeof value === "boolean") return value ? 1 : 0;
+  return value;
+}
+
+function isBindValue(value: BindParams | BindValue): value is BindValue {
+  return (
+    value === null || typeof value !== "object" || value instanceof Uint8Array
+  );
+}
+
+// Accept the same argument shapes as expo-sqlite: a single array, a single
+// object of named parameters, or the values spread out
+function toInputParams(
+  params: (BindParams | BindValue)[],
+): SQLInputValue[] | Record<string, SQLInputValue> {
+  const [first] = params;
+  if (params.length === 1 && Array.isArray(first)) {
+    return first.map(toInputValue);
+  }
+  if (params.length === 1 && !isBindValue(first)) {
+    const named: Record<string, SQLInputValue> = {};
+    for (const [key, value] of Object.entries(first)) {
+      named[key] = toInputValue(value);
+    }
+    return named;
+  }
+  // Anything else is spread values; the overloads rule out mixing shapes
+  return params.filter(isBindValue).map(toInputValue);
+}
+
+function runStatement(
+  statement: StatementSync,
+  params: (BindParams | BindValue)[],
+): RunResult {
+  const input = toInputParams(params);
+  const result = Array.isArray(input)
+    ? statement.run(...input)
+    : statement.run(input);
+  return {
+    lastInsertRowId: Number(result.lastInsertRowid),
+    changes: Number(result.changes),
+  };
+}
+
+class NodeStorageStatement implements StorageStatement {
+  constructor(private readonly statement: StatementSync) {}
+
+  async executeAsync(
+    ...params: (BindParams | BindValue)[]
+  ): Promise<RunResult> {
+    return runStatement(this.statement, params);
+  }
+
+  // node:sqlite statements are released when garbage collected
+  async finalizeAsync(): Promise<void> {}
+}
+
+class NodeStorageDatabase implements StorageDatabase {
+  constructor(private readonly db: DatabaseSync) {}
+
+  async execAsync(source: string): Promise<void> {
+    this.db.exec(source);
+  }
+
+  async runAsync(
+    source: string,
+    ...params: (BindParams | BindValue)[]
+  ): Promise<RunResult> {
+    return runStatement(this.db.prepare(source), params);
+  }
+
+  async getFirstAsync<T>(
+    source: string,
+    ...params: (BindParams | BindValue)[]
+  ): Promise<T | null> {
+    const statement = this.db.prepare(source);
+    const input = toInputParams(params);
+    const row = Array.isArray(input)
+      ? statement.get(...input)
+      : statement.get(input);
+    // node:sqlite rows have a null prototype; expo-sqlite returns plain objects
+    return row ? ({ ...row } as T) : null;
+  }
+
+  async getAllAsync<T>(
+    source: string,
+    ...params: (BindParams | BindValue)[]
+  ): Promise<T[]> {
+    const statement = this.db.prepare(source);
+    const input = toInputParams(params);
+    const rows = Array.isArray(input)
+      ? statement.all(...input)
+      : statement.all(input);
+    return rows.map((row) => ({ ...row }) as T);
+  }
+
+  async prepareAsync(source: string): Promise<StorageStatement> {
+    return new NodeStorageStatement(this.db.prepare(source));
+  }
+
+  async closeAsync(): Promise<void> {
+    this.db.close();
+  }
+}
+
+export const nodeSqliteAdapter: StorageAdapter = {
+  name: "node:sqlite",
+  openDatabase: (databaseName) =>
+    new NodeStorageDatabase(
+      // Match expo-sqlite, which leaves foreign key enforcement off
+      new DatabaseSync(databaseName, { enableForeignKeyConstraints: false }),
+    ),
+  deleteDatabase: (databaseName) => {
+    if (databaseName !== ":memory:") {
+      rmSync(databaseName, { force: true });
+    }
+  },
+};
@@ -0,0 +1,35 @@
+export type BindValue = string | number | null | boolean | Uint8Array;
+export type BindParams = BindValue[] | Record<string, BindValue>;
+
+export type RunResult = {
+  lastInsertRowId: number;
+  changes: number;
+};
+
+// A prepared statement; call finalizeAsync() once done with it
+export interface StorageStatement {
+  executeAsync(params: BindParams): Promise<RunResult>;
+  executeAsync(...params: BindValue[]): Promise<RunResult>;
+  finalizeAsync(): Promise<void>;
+}
+
+// The part of expo-sqlite's SQLiteDatabase that the data layer relies on.
+// Keep it that small so every adapter can implement it without surprises.
+export interface StorageDatabase {
+  execAsync(source: string): Promise<void>;
+  runAsync(source: string, params: BindParams): Promise<RunResult>;
+  runAsync(source: string, ...params: BindValue[]): Promise<RunResult>;
+  getFirstAsync<T>(source: string, params: BindParams): Promise<T | null>;
+  getFirstAsync<T>(source: string, ...params: BindValue[]): Promise<T | null>;
+  getAllAsync<T>(source: string, params: BindParams): Promise<T[]>;
+  getAllAsync<T>(source: string, ...params: BindValue[]): Promise<T[]>;
+  prepareAsync(source: string): Promise<StorageStatement>;
+  closeAsync(): Promise<void>;
+}
+
+export type StorageAdapter = {
+  name: string;
+  openDatabase: (databaseName: string) => StorageDatabase;
+  // Remove a closed database's file; adapters that can't may leave it out
+  deleteDatabase?: (databaseName: string) => void;
+};